@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Receipt images are sent to server actions as data URIs
+      bodySizeLimit: '10mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,108 @@
+// src/actions/allowance-actions.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Company } from '@/types/company';
+import type { UserProfile } from '@/types/user';
+import type { MileageRate, PerDiemRate, PerDiemRules } from '@/types/allowance';
+import { distanceUnits, perDiemMeals } from '@/types/allowance';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { getPerDiemRules, MAX_MILEAGE_RATES, MAX_PER_DIEM_RATES } from '@/lib/allowances';
+
+const RATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const isPercent = (value: number) => Number.isFinite(value) && value >= 0 && value <= 100;
+
+// The rates members claim mileage and per diems at, in the company's base currency. Empty for personal users.
+export async function getAllowanceRates(idToken: string): Promise<{ success: boolean; error?: string; mileageRates?: MileageRate[]; perDiemRates?: PerDiemRate[]; perDiemRules?: PerDiemRules; baseCurrency?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const companyId = (userDocSnap.data() as UserProfile | undefined)?.companyId || null;
+    const companyDoc = companyId ? await adminDb.collection('companies').doc(companyId).get() : null;
+    const company = companyDoc?.data() as Company | undefined;
+    return {
+      success: true,
+      mileageRates: company?.mileageRates || [],
+      perDiemRates: company?.perDiemRates || [],
+      perDiemRules: getPerDiemRules(company),
+      baseCurrency: company?.baseCurrency || DEFAULT_BASE_CURRENCY,
+    };
+  } catch (error: any) {
+    console.error("getAllowanceRates: Error loading rates:", error);
+    return { success: false, error: error.message || "Failed to load mileage and per-diem rates." };
+  }
+}
+
+// Replaces the company's mileage and per-diem rates. Saved expenses keep the rates they were claimed at until they are
+// edited.
+export async function updateCompanyAllowanceRates(
+  idToken: string,
+  companyId: string,
+  rates: { mileageRates: MileageRate[]; perDiemRates: PerDiemRate[]; perDiemRules: PerDiemRules },
+): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const mileageRates: MileageRate[] = (rates.mileageRates || []).map(rate => ({
+    id: String(rate.id || '').trim(),
+    vehicle: String(rate.vehicle || '').trim(),
+    unit: rate.unit,
+    rate: Number(rate.rate),
+  }));
+  const perDiemRates: PerDiemRate[] = (rates.perDiemRates || []).map(rate => ({
+    id: String(rate.id || '').trim(),
+    destination: String(rate.destination || '').trim(),
+    dailyRate: Number(rate.dailyRate),
+  }));
+  const perDiemRules: PerDiemRules = {
+    partialDayPercent: Number(rates.perDiemRules?.partialDayPercent),
+    mealDeductionPercents: Object.fromEntries(perDiemMeals.map(meal => [meal, Number(rates.perDiemRules?.mealDeductionPercents?.[meal])])) as PerDiemRules['mealDeductionPercents'],
+  };
+
+  if (mileageRates.length > MAX_MILEAGE_RATES) return { success: false, error: `A company can have at most ${MAX_MILEAGE_RATES} mileage rates.` };
+  if (perDiemRates.length > MAX_PER_DIEM_RATES) return { success: false, error: `A company can have at most ${MAX_PER_DIEM_RATES} per-diem rates.` };
+  const invalidMileage = mileageRates.find(rate => !RATE_ID_PATTERN.test(rate.id) || !rate.vehicle || rate.vehicle.length > 60
+    || !distanceUnits.includes(rate.unit) || !Number.isFinite(rate.rate) || rate.rate <= 0 || rate.rate > 100);
+  if (invalidMileage) return { success: false, error: `Invalid mileage rate "${invalidMileage.vehicle || invalidMileage.id}".` };
+  const invalidPerDiem = perDiemRates.find(rate => !RATE_ID_PATTERN.test(rate.id) || !rate.destination || rate.destination.length > 60
+    || !Number.isFinite(rate.dailyRate) || rate.dailyRate <= 0 || rate.dailyRate > 100000);
+  if (invalidPerDiem) return { success: false, error: `Invalid per-diem rate "${invalidPerDiem.destination || invalidPerDiem.id}".` };
+  if (new Set(mileageRates.map(rate => rate.id)).size !== mileageRates.length || new Set(perDiemRates.map(rate => rate.id)).size !== perDiemRates.length) {
+    return { success: false, error: "Rate IDs must be unique." };
+  }
+  if (!isPercent(perDiemRules.partialDayPercent) || !perDiemMeals.every(meal => isPercent(perDiemRules.mealDeductionPercents[meal]))) {
+    return { success: false, error: "Partial days and meal deductions are percentages between 0 and 100." };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's rates." };
+    }
+
+    const companyRef = adminDb.collection('companies').doc(companyId);
+    const companyDoc = await companyRef.get();
+    if (!companyDoc.exists) return { success: false, error: "Company not found." };
+
+    await companyRef.update({ mileageRates, perDiemRates, perDiemRules });
+    revalidatePath('/company');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating allowance rates:", error);
+    return { success: false, error: error.message || "Failed to update rates." };
+  }
+}
@@ -0,0 +1,305 @@
+// src/actions/approval-actions.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { Company } from '@/types/company';
+import type { ExpenseReport } from '@/types/report';
+import type { UserProfile } from '@/types/user';
+import { userRoles } from '@/types/user';
+import type { ApprovalDecision, ApprovalStepDefinition, ExpenseApproval } from '@/types/approval';
+import { DEFAULT_APPROVAL_CHAIN } from '@/types/approval';
+import { canDecideExpense, canReopenExpense, cleanApprovalComment, decideApprovalStep, reopenApproval, startApprovalRound, MAX_APPROVAL_COMMENT_LENGTH, MAX_APPROVAL_STEPS } from '@/lib/approvals';
+import { loadApprovalSteps, toApprovalActor } from '@/lib/approval-workflow';
+import { serializeExpense, serializeExpenseReport, writeRevision } from '@/lib/expense-records';
+import { canDecideReport } from '@/lib/expense-reports';
+import { recheckExpensePolicies } from '@/lib/policy-enforcement';
+import { describeApprovalPolicyBlocker, findApprovalPolicyBlocker } from '@/lib/expense-policies';
+
+// Pending expenses saved before approval chains are decided in a single step, as they were before
+const legacyApproval = (expense: Expense, approverId: string): ExpenseApproval => {
+  const [step] = DEFAULT_APPROVAL_CHAIN;
+  return startApprovalRound(
+    null,
+    [{ id: step.id, name: step.name, approverIds: [approverId], decision: null }],
+    { actorId: expense.userId, actorName: null, comment: null, at: expense.createdAt },
+  ).approval;
+};
+
+// Replaces the company's approval chain. Expenses already in approval keep the steps their current round started with.
+export async function updateApprovalChain(idToken: string, companyId: string, chain: ApprovalStepDefinition[]): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const cleaned: ApprovalStepDefinition[] = chain.map(step => ({
+    id: String(step.id || '').trim(),
+    name: String(step.name || '').trim(),
+    approverIds: Array.from(new Set((step.approverIds || []).map(String))),
+    approverRoles: Array.from(new Set((step.approverRoles || []).filter(role => userRoles.includes(role)))),
+    minBaseAmount: step.minBaseAmount === null || step.minBaseAmount === undefined ? null : Number(step.minBaseAmount),
+  }));
+  if (cleaned.length === 0) return { success: false, error: "The approval chain needs at least one step." };
+  if (cleaned.length > MAX_APPROVAL_STEPS) return { success: false, error: `The approval chain can have at most ${MAX_APPROVAL_STEPS} steps.` };
+  const invalid = cleaned.find(step => !/^[a-z0-9][a-z0-9-]*$/.test(step.id) || !step.name || step.name.length > 60
+    || (step.minBaseAmount !== null && (!Number.isFinite(step.minBaseAmount) || step.minBaseAmount < 0)));
+  if (invalid) return { success: false, error: `Invalid approval step "${invalid.name || invalid.id}".` };
+  if (new Set(cleaned.map(step => step.id)).size !== cleaned.length) {
+    return { success: false, error: "Approval step IDs must be unique." };
+  }
+  const withoutApprovers = cleaned.find(step => step.approverIds.length === 0 && step.approverRoles.length === 0);
+  if (withoutApprovers) return { success: false, error: `Step "${withoutApprovers.name}" needs at least one approver or role.` };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's approval chain." };
+    }
+
+    const companyRef = adminDb.collection('companies').doc(companyId);
+    const companyDoc = await companyRef.get();
+    if (!companyDoc.exists) return { success: false, error: "Company not found." };
+    const company = companyDoc.data() as Company;
+    if (cleaned.some(step => step.approverIds.some(approverId => !company.members.includes(approverId)))) {
+      return { success: false, error: "Approvers must be members of the company." };
+    }
+
+    await companyRef.update({ approvalChain: cleaned });
+    revalidatePath('/company');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating approval chain:", error);
+    return { success: false, error: error.message || "Failed to update approval chain." };
+  }
+}
+
+// Records an approver's decision on the current step of a company expense. Rejections need a comment, which the
+// submitter sees as the reason. Approvals check the expense against the company's policies again, and are refused
+// while it breaks a blocking policy or one that needs a justification the submitter has not given.
+export async function decideExpense(idToken: string, expenseId: string, decision: ApprovalDecision, comment?: string | null): Promise<{ success: boolean; error?: string; status?: ExpenseStatus }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  if (decision !== 'approved' && decision !== 'rejected') return { success: false, error: "Invalid decision." };
+  const reason = cleanApprovalComment(comment);
+  if (decision === 'rejected' && !reason) return { success: false, error: "Please give a reason for rejecting the expense." };
+  if (reason && reason.length > MAX_APPROVAL_COMMENT_LENGTH) {
+    return { success: false, error: `Comments can be at most ${MAX_APPROVAL_COMMENT_LENGTH} characters.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    const expenseRef = adminDb.collection('expenses').doc(expenseId);
+    const expenseDoc = await expenseRef.get();
+    if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
+    const expenseData = expenseDoc.data() as Expense;
+    if (!expenseData.companyId) return { success: false, error: "This expense is not a company expense." };
+    if (!canDecideExpense(expenseData, { ...userData, uid })) {
+      return { success: false, error: "You are not an approver of this expense's current step." };
+    }
+
+    const policyViolations = decision === 'approved' ? await recheckExpensePolicies(adminDb, expenseId, expenseData) : null;
+    const blocker = policyViolations ? findApprovalPolicyBlocker(policyViolations, expenseData.policyJustification) : null;
+    if (blocker) {
+      const hint = blocker.action === 'justify' ? ' Reject it so the submitter can add one.' : '';
+      return { success: false, error: `This expense ${describeApprovalPolicyBlocker(blocker)}${hint}` };
+    }
+
+    const status = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(expenseRef);
+      if (!currentDoc.exists) throw new Error("Expense not found.");
+      const current = currentDoc.data() as Expense;
+      if (!canDecideExpense(current, { ...userData, uid })) throw new Error("This expense is no longer waiting for your approval.");
+
+      const next = decideApprovalStep(current.approval || legacyApproval(current, uid), decision, toApprovalActor(uid, userData, reason));
+      const update = {
+        status: next.status,
+        approval: next.approval,
+        pendingApproverIds: next.pendingApproverIds,
+        ...(policyViolations ? { policyViolations } : {}),
+      };
+      // Status changes are part of the revision history like any other edit
+      if (next.status !== current.status) {
+        writeRevision(transaction, adminDb, expenseRef, current, { uid, profile: userData }, [{ field: 'status', before: current.status, after: next.status }], update);
+      } else {
+        transaction.update(expenseRef, update);
+      }
+      return next.status;
+    });
+
+    revalidatePath('/');
+    revalidatePath('/approvals');
+    return { success: true, status };
+  } catch (error: any) {
+    console.error(`decideExpense: Error deciding expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to record the decision." };
+  }
+}
+
+// Sends a rejected expense back through the approval chain as it is, e.g. with an answer to the rejection reason.
+// Editing a rejected expense resubmits it as well.
+export async function resubmitExpense(idToken: string, expenseId: string, comment?: string | null): Promise<{ success: boolean; error?: string; status?: ExpenseStatus }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const note = cleanApprovalComment(comment);
+  if (note && note.length > MAX_APPROVAL_COMMENT_LENGTH) {
+    return { success: false, error: `Comments can be at most ${MAX_APPROVAL_COMMENT_LENGTH} characters.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    const expenseRef = adminDb.collection('expenses').doc(expenseId);
+    const expenseDoc = await expenseRef.get();
+    if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
+    const expenseData = expenseDoc.data() as Expense;
+    if (!expenseData.companyId || expenseData.companyId !== userData.companyId) return { success: false, error: "This expense is not a company expense." };
+    if (expenseData.userId !== uid) return { success: false, error: "Only the submitter can resubmit an expense." };
+    if (expenseData.reportId) return { success: false, error: "This expense is part of a report. Submit the report again instead." };
+    if (expenseData.status !== 'rejected') return { success: false, error: "Only rejected expenses can be resubmitted." };
+
+    const steps = await loadApprovalSteps(adminDb, expenseData.companyId, uid, expenseData.baseAmount ?? expenseData.totalAmount);
+    const status = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(expenseRef);
+      if (!currentDoc.exists) throw new Error("Expense not found.");
+      const current = currentDoc.data() as Expense;
+      if (current.status !== 'rejected') throw new Error("Only rejected expenses can be resubmitted.");
+
+      const next = startApprovalRound(current.approval, steps, toApprovalActor(uid, userData, note));
+      writeRevision(transaction, adminDb, expenseRef, current, { uid, profile: userData }, [{ field: 'status', before: current.status, after: next.status }], {
+        status: next.status,
+        approval: next.approval,
+        pendingApproverIds: next.pendingApproverIds,
+      });
+      return next.status;
+    });
+
+    revalidatePath('/');
+    return { success: true, status };
+  } catch (error: any) {
+    console.error(`resubmitExpense: Error resubmitting expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to resubmit expense." };
+  }
+}
+
+// Sends an approved company expense back to its submitter with a reason, e.g. when a mistake turns up after approval.
+// The submitter can then edit and resubmit it. Expenses that were paid back or are part of a report stay locked.
+export async function reopenExpense(idToken: string, expenseId: string, comment: string): Promise<{ success: boolean; error?: string; status?: ExpenseStatus }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const reason = cleanApprovalComment(comment);
+  if (!reason) return { success: false, error: "Please give a reason for reopening the expense." };
+  if (reason.length > MAX_APPROVAL_COMMENT_LENGTH) {
+    return { success: false, error: `Comments can be at most ${MAX_APPROVAL_COMMENT_LENGTH} characters.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    const expenseRef = adminDb.collection('expenses').doc(expenseId);
+    const status = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(expenseRef);
+      if (!currentDoc.exists) throw new Error("Expense not found.");
+      const current = currentDoc.data() as Expense;
+      if (!canReopenExpense(current, { ...userData, uid })) {
+        throw new Error("Only approvers, owners and admins can reopen approved expenses that were not paid back or added to a report.");
+      }
+
+      const next = reopenApproval(current.approval, toApprovalActor(uid, userData, reason));
+      writeRevision(transaction, adminDb, expenseRef, current, { uid, profile: userData }, [{ field: 'status', before: current.status, after: next.status }], {
+        status: next.status,
+        approval: next.approval,
+        pendingApproverIds: next.pendingApproverIds,
+      });
+      return next.status;
+    });
+
+    revalidatePath('/');
+    revalidatePath('/reimbursements');
+    return { success: true, status };
+  } catch (error: any) {
+    console.error(`reopenExpense: Error reopening expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to reopen expense." };
+  }
+}
+
+// Company expenses and expense reports waiting for a decision from the user, oldest first, with the names of their
+// submitters
+export async function getApprovalQueue(idToken: string): Promise<{ success: boolean; error?: string; expenses?: Expense[]; reports?: ExpenseReport[]; submitterNames?: Record<string, string> }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!userData?.companyId) return { success: true, expenses: [], reports: [], submitterNames: {} };
+    const companyId = userData.companyId;
+
+    const [assignedSnapshot, pendingSnapshot, reportSnapshot] = await Promise.all([
+      adminDb.collection('expenses').where('pendingApproverIds', 'array-contains', uid).get(),
+      // Expenses saved before approval chains wait for any owner or admin
+      userData.role === 'owner' || userData.role === 'admin'
+        ? adminDb.collection('expenses').where('companyId', '==', companyId).where('status', '==', 'pending').get()
+        : null,
+      adminDb.collection('expenseReports').where('pendingApproverIds', 'array-contains', uid).get(),
+    ]);
+    const docs = [...assignedSnapshot.docs, ...(pendingSnapshot?.docs.filter(doc => !doc.data().approval) || [])];
+    const expenses = docs
+      .map(doc => serializeExpense(doc.id, doc.data(), false))
+      .filter(expense => canDecideExpense(expense, { ...userData, uid }))
+      .sort((a, b) => (a.createdAt as unknown as Date).getTime() - (b.createdAt as unknown as Date).getTime());
+    const reports = reportSnapshot.docs
+      .map(doc => serializeExpenseReport(doc.id, doc.data()))
+      .filter(report => canDecideReport(report, { ...userData, uid }))
+      .sort((a, b) => ((a.submittedAt || a.createdAt) as unknown as Date).getTime() - ((b.submittedAt || b.createdAt) as unknown as Date).getTime());
+
+    const submitterIds = Array.from(new Set([...expenses, ...reports].map(item => item.userId)));
+    const submitterDocs = await Promise.all(submitterIds.map(submitterId => adminDb.collection('users').doc(submitterId).get()));
+    const submitterNames: Record<string, string> = {};
+    submitterDocs.forEach(doc => {
+      const profile = doc.data() as UserProfile | undefined;
+      submitterNames[doc.id] = profile?.displayName || profile?.email || doc.id;
+    });
+
+    return { success: true, expenses, reports, submitterNames };
+  } catch (error: any) {
+    console.error("getApprovalQueue: Error loading approval queue:", error);
+    return { success: false, error: error.message || "Failed to load approval queue." };
+  }
+}
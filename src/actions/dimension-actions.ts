@@ -0,0 +1,138 @@
+// src/actions/dimension-actions.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Company } from '@/types/company';
+import type { UserProfile } from '@/types/user';
+import type { DimensionKind, DimensionValue, ExpenseDimensionDefaults } from '@/types/dimension';
+import { dimensionKinds } from '@/types/dimension';
+import { companyDimensionFields, dimensionLabels, getDimensionValues, MAX_DIMENSION_VALUES, MAX_MARKUP_PERCENT } from '@/lib/dimensions';
+
+// The company's projects, clients and cost centers, and the dimensions the user's last expense was saved with.
+// Personal users only get their defaults.
+export async function getExpenseDimensions(idToken: string): Promise<{
+  success: boolean;
+  error?: string;
+  projects?: DimensionValue[];
+  clients?: DimensionValue[];
+  costCenters?: DimensionValue[];
+  defaultMarkupPercent?: number;
+  defaults?: ExpenseDimensionDefaults | null;
+}> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    const companyDoc = userData?.companyId ? await adminDb.collection('companies').doc(userData.companyId).get() : null;
+    const company = companyDoc?.data() as Company | undefined;
+    return {
+      success: true,
+      projects: getDimensionValues(company, 'project'),
+      clients: getDimensionValues(company, 'client'),
+      costCenters: getDimensionValues(company, 'costCenter'),
+      defaultMarkupPercent: company?.defaultMarkupPercent || 0,
+      defaults: userData?.expenseDefaults || null,
+    };
+  } catch (error: any) {
+    console.error("getExpenseDimensions: Error loading dimensions:", error);
+    return { success: false, error: error.message || "Failed to load projects, clients and cost centers." };
+  }
+}
+
+// Replaces the company's projects, clients or cost centers. Values on existing expenses cannot be removed, only
+// archived, like categories.
+export async function updateCompanyDimension(idToken: string, companyId: string, kind: DimensionKind, values: DimensionValue[]): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+  if (!dimensionKinds.includes(kind)) return { success: false, error: `Unknown dimension "${kind}".` };
+
+  const label = dimensionLabels[kind].toLowerCase();
+  const cleaned: DimensionValue[] = (values || []).map(value => ({
+    id: String(value.id || '').trim(),
+    name: String(value.name || '').trim(),
+    code: value.code ? String(value.code).trim() || null : null,
+    ...(kind === 'project' ? { clientId: value.clientId || null } : {}),
+    archived: Boolean(value.archived),
+  }));
+  if (cleaned.length > MAX_DIMENSION_VALUES) return { success: false, error: `A company can have at most ${MAX_DIMENSION_VALUES} of each dimension.` };
+  const invalid = cleaned.find(value => !/^[a-z0-9][a-z0-9-]*$/.test(value.id) || !value.name || value.name.length > 80 || (value.code?.length ?? 0) > 30);
+  if (invalid) return { success: false, error: `Invalid ${label} "${invalid.name || invalid.id}".` };
+  if (new Set(cleaned.map(value => value.id)).size !== cleaned.length) {
+    return { success: false, error: `${dimensionLabels[kind]} IDs must be unique.` };
+  }
+  if (new Set(cleaned.map(value => value.name.toLowerCase())).size !== cleaned.length) {
+    return { success: false, error: `${dimensionLabels[kind]} names must be unique.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's projects, clients and cost centers." };
+    }
+
+    const companyRef = adminDb.collection('companies').doc(companyId);
+    const companyDoc = await companyRef.get();
+    if (!companyDoc.exists) return { success: false, error: "Company not found." };
+    const company = companyDoc.data() as Company;
+
+    const removed = getDimensionValues(company, kind).find(value => !cleaned.some(candidate => candidate.id === value.id));
+    if (removed) {
+      return { success: false, error: `The ${label} "${removed.name}" cannot be removed. Archive it instead.` };
+    }
+    const clients = getDimensionValues(company, 'client');
+    const unknownClient = cleaned.find(value => value.clientId && !clients.some(client => client.id === value.clientId));
+    if (unknownClient) {
+      return { success: false, error: `The project "${unknownClient.name}" is billed to a client that does not exist.` };
+    }
+
+    await companyRef.update({ [companyDimensionFields[kind]]: cleaned });
+    revalidatePath('/company');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating company dimension:", error);
+    return { success: false, error: error.message || `Failed to update ${label}s.` };
+  }
+}
+
+export async function updateCompanyDefaultMarkup(idToken: string, companyId: string, markupPercent: number): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const percent = Number(markupPercent);
+  if (!Number.isFinite(percent) || percent < 0 || percent > MAX_MARKUP_PERCENT) {
+    return { success: false, error: `The markup has to be between 0 and ${MAX_MARKUP_PERCENT}%.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's markup." };
+    }
+
+    await adminDb.collection('companies').doc(companyId).update({ defaultMarkupPercent: percent });
+    revalidatePath('/company');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating default markup:", error);
+    return { success: false, error: error.message || "Failed to update the markup." };
+  }
+}
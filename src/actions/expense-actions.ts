@@ -5,23 +5,57 @@
 import admin from 'firebase-admin';
 import { getAdminDb, getAdminAuth } from '@/lib/firebaseAdmin';
 import { db } from '@/lib/firebase'; // Client SDK for some reads if needed, admin for writes/sensitive reads
-import type { Expense, ExpenseFormData, ExpenseItem, ExpenseCategory, PaymentMethod, ExpenseStatus } from '@/types/expense';
-import { extractReceiptData, type ExtractReceiptDataInput } from '@/ai/flows/extract-receipt-data';
-import type { ExtractReceiptDataOutput as AIExtractReceiptDataOutput } from '@/ai/flows/extract-receipt-data';
+import type { Expense, ExpenseFormData, ExpenseItem, ExpenseKind, PaymentMethod, ExpenseStatus, ExpenseTaxLine, ExpenseDiscount } from '@/types/expense';
+import type { ExtractReceiptDataInput } from '@/ai/flows/extract-receipt-data';
+import { extractReceiptData } from '@/ai/receipt-extraction';
+import type { ParsedExtractionOutput } from '@/ai/printed-values';
 import { collection, getDocs, query, orderBy, Timestamp, serverTimestamp, where, addDoc as clientAddDoc, doc, getDoc, deleteDoc as clientDeleteDoc, updateDoc as clientUpdateDoc, arrayRemove, arrayUnion } from 'firebase/firestore';
 import { revalidatePath } from 'next/cache';
-import { expenseCategories, paymentMethods } from '@/types/expense';
+import { paymentMethods, expenseKinds } from '@/types/expense';
 import type { Company } from '@/types/company';
 import type { Invitation } from '@/types/invitation';
 import type { UserProfile, UserRole } from '@/types/user';
-
-
-const validateCategory = (aiCategory: string): ExpenseCategory => {
-  if (expenseCategories.includes(aiCategory as ExpenseCategory)) {
-    return aiCategory as ExpenseCategory;
-  }
-  return 'other';
-};
+import type { ReceiptUpload } from '@/types/receipt';
+import { supportedCurrencies, DEFAULT_BASE_CURRENCY, type CurrencyCode } from '@/types/currency';
+import { getExchangeRateSource, getExchangeRateSourceFor } from '@/lib/exchange-rates';
+import { roundToCurrency } from '@/lib/currency';
+import { resolveExpenseTotal } from '@/lib/expense-totals';
+import { reconcileReceipt } from '@/lib/receipt-reconciliation';
+import { computeAllocations, normalizeSplit, validateSplit } from '@/lib/expense-allocations';
+import type { ExpenseReconciliation, ReconciliationResult } from '@/types/reconciliation';
+import type { ExtractionConfidence } from '@/types/confidence';
+import { toDataUri } from '@/lib/data-uri';
+import { getReceiptStorage, getReceiptUploadError, storeReceiptFiles, removeReceiptFiles, hashReceiptFile } from '@/lib/receipt-storage';
+import { findDuplicateReasons, DUPLICATE_DATE_WINDOW_DAYS, type DuplicateCheckInput } from '@/lib/duplicate-detection';
+import type { DuplicateMatch } from '@/types/duplicate';
+import type { CategorySuggestionSource } from '@/types/category-learning';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { categoryIconNames, DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { getCategoryList, activeCategories, resolveCategoryId } from '@/lib/categories';
+import { recordCategoryCorrection } from '@/lib/category-learning';
+import { enrichExtraction } from '@/lib/receipt-enrichment';
+import { resolveVendor } from '@/lib/vendor-directory';
+import type { ExtractedValues, ExtractionRun } from '@/types/provenance';
+import { extractionProviderNames } from '@/types/extraction-provider';
+import { diffExtractedValues, toCalendarDate, toExtractedValues } from '@/lib/extraction-provenance';
+import type { ExpenseRevision } from '@/types/revision';
+import type { ExpenseReport } from '@/types/report';
+import { diffRevisionValues, getEditStatusRule, toRevisionValues } from '@/lib/expense-revisions';
+import { serializeExpense, writeRevision } from '@/lib/expense-records';
+import { startApprovalRound } from '@/lib/approvals';
+import { loadApprovalSteps, toApprovalActor } from '@/lib/approval-workflow';
+import { isReportEditable } from '@/lib/expense-reports';
+import type { PolicyViolation } from '@/types/policy';
+import { cleanPolicyJustification, getPolicyError, MAX_POLICY_JUSTIFICATION_LENGTH } from '@/lib/expense-policies';
+import { checkExpensePolicies, getSubmittedDay } from '@/lib/policy-enforcement';
+import { findRecurringDraft, markRecurringDraftSaved } from '@/lib/recurring-drafts';
+import { isCalendarDate } from '@/lib/recurring-expenses';
+import type { MileageDetails, PerDiemDetails } from '@/types/allowance';
+import { calculateMileage, calculatePerDiem, describeMileage, describePerDiemDay, getPerDiemRules } from '@/lib/allowances';
+import type { ExpenseDimensions, ExpenseFilters } from '@/types/dimension';
+import { getBillableAmount, matchesExpenseFilters, resolveExpenseDimensions } from '@/lib/dimensions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const validatePaymentMethod = (aiPaymentMethod: string): PaymentMethod => {
   if (paymentMethods.includes(aiPaymentMethod as PaymentMethod)) {
@@ -30,6 +64,30 @@ const validatePaymentMethod = (aiPaymentMethod: string): PaymentMethod => {
   return 'other';
 }
 
+const validateCurrency = (aiCurrency: string): CurrencyCode | null => {
+  const code = aiCurrency.trim().toUpperCase();
+  if (supportedCurrencies.includes(code as CurrencyCode)) {
+    return code as CurrencyCode;
+  }
+  return null;
+}
+
+// The calendar day the browser sent for `date`. Every timezone's date is within a day of the UTC date, so anything
+// further off is ignored in favour of the rounded date.
+const resolveCalendarDay = (day: string | null | undefined, date: Date): string =>
+  isCalendarDate(day) && Math.abs(Date.parse(day) - Date.parse(date.toISOString().split('T')[0])) <= DAY_MS ? day : toCalendarDate(date);
+
+// The company an expense belongs to, or null for personal expenses
+async function loadCompany(adminDb: admin.firestore.Firestore, companyId?: string | null): Promise<Company | null> {
+  if (!companyId) return null;
+  const companyDoc = await adminDb.collection('companies').doc(companyId).get();
+  return (companyDoc.data() as Company | undefined) || null;
+}
+
+const resolveExpenseCategories = (company: Company | null): ExpenseCategoryDefinition[] => getCategoryList(company?.categories);
+
+const resolveBaseCurrency = (company: Company | null): string => company?.baseCurrency || DEFAULT_BASE_CURRENCY;
+
 interface AdminProjectDetails {
   projectId: string;
   errorHint: string;
@@ -68,27 +126,109 @@ function getAdminProjectDetails(): AdminProjectDetails {
 }
 
 
-export async function processReceiptImage(photoDataUri: string): Promise<AIExtractReceiptDataOutput & { items: ExpenseItem[] } | { error: string }> {
+// `printed`, `locale` and `ambiguities` come from re-reading the printed date and amounts for the receipt's locale
+export type ProcessedReceiptData = Omit<ParsedExtractionOutput, 'items' | 'currency' | 'fieldConfidence'> & {
+  items: ExpenseItem[];
+  confidence: ExtractionConfidence; // Which values were read vs. inferred, for highlighting in the form
+  currency: CurrencyCode | null; // Null if the receipt currency could not be determined or is unsupported
+  reconciliation: ReconciliationResult;
+  categorySource: CategorySuggestionSource; // Whether the category came from extraction or was learned from earlier corrections
+  printedCompany?: string | null; // Vendor name as printed, when `company` was replaced by the canonical name of a known vendor
+  extraction?: ExtractionRun; // Provenance, sent back with the expense. Missing on drafts extracted before it was recorded
+};
+
+// Extracts expense data from a receipt photo or a PDF invoice. All pages of a PDF are merged into one expense.
+// The category is picked from the given (company) categories.
+export async function processReceiptImage(receiptDataUri: string, hint?: string, categories: ExpenseCategoryDefinition[] = DEFAULT_EXPENSE_CATEGORIES): Promise<ProcessedReceiptData | { error: string }> {
   try {
-    const input: ExtractReceiptDataInput = { photoDataUri };
-    const result = await extractReceiptData(input);
+    const uploadError = getReceiptUploadError(receiptDataUri);
+    if (uploadError) {
+      return { error: uploadError };
+    }
+    const input: ExtractReceiptDataInput = {
+      receiptDataUri,
+      ...(hint ? { hint } : {}),
+      categories: activeCategories(categories).map(({ id, name }) => ({ id, name })),
+    };
+    const { fieldConfidence, run, ...result } = await extractReceiptData(input);
+    const category = resolveCategoryId(categories, result.category);
 
     const processedItems: ExpenseItem[] = result.items.map(item => {
       const quantity = Number(item.quantity) || 1;
       const netPrice = Number(item.netPrice) || 0;
+      // Items only keep a category of their own when it differs from the expense's, so they follow later changes to it
+      const itemCategory = item.category ? resolveCategoryId(categories, item.category) : category;
       return {
         name: item.name,
         quantity,
         netPrice,
+        category: itemCategory === category ? null : itemCategory,
       };
     });
 
+    const taxes = result.taxes.map(tax => ({
+      name: tax.name,
+      rate: tax.rate === null ? null : Number(tax.rate) || 0,
+      amount: Number(tax.amount) || 0,
+      inclusive: Boolean(tax.inclusive),
+    }));
+    const discounts = result.discounts.map(discount => ({
+      description: discount.description,
+      amount: Math.abs(Number(discount.amount) || 0),
+    }));
+    const serviceCharge = Number(result.serviceCharge) || 0;
+    const tip = Number(result.tip) || 0;
+    const subtotal = result.subtotal === null ? null : Number(result.subtotal) || 0;
+    const total = result.total === null ? null : Number(result.total) || 0;
+    const currency = validateCurrency(result.currency);
+    const paymentMethod = validatePaymentMethod(result.paymentMethod);
+    const expenseDate = result.expenseDate || new Date().toISOString().split('T')[0];
+
     return {
       ...result,
       items: processedItems,
-      category: validateCategory(result.category),
-      paymentMethod: validatePaymentMethod(result.paymentMethod),
-      expenseDate: result.expenseDate || new Date().toISOString().split('T')[0],
+      category,
+      paymentMethod,
+      expenseDate,
+      currency,
+      subtotal,
+      taxes,
+      serviceCharge,
+      tip,
+      discounts,
+      total,
+      confidence: {
+        ...fieldConfidence,
+        items: result.items.map(item => item.confidence),
+      },
+      reconciliation: reconcileReceipt({
+        items: processedItems,
+        taxes,
+        serviceCharge,
+        tip,
+        discounts,
+        subtotal,
+        printedTotal: total,
+        currency: currency || DEFAULT_BASE_CURRENCY,
+      }),
+      categorySource: 'extraction',
+      extraction: {
+        ...run,
+        extracted: toExtractedValues({
+          company: result.company,
+          expenseDate,
+          category,
+          paymentMethod,
+          currency,
+          subtotal,
+          totalAmount: total,
+          serviceCharge,
+          tip,
+          taxes,
+          discounts,
+          items: processedItems,
+        }),
+      },
     };
   } catch (error) {
     console.error("Error processing receipt image:", error);
@@ -96,7 +236,246 @@ export async function processReceiptImage(photoDataUri: string): Promise<AIExtra
   }
 }
 
-export async function saveExpense(idToken: string, data: ExpenseFormData): Promise<{ success: boolean; error?: string; docId?: string }> {
+// Applies the user's (or company's) vendor directory and earlier category corrections to an extracted receipt
+export async function enrichReceiptData(idToken: string, result: ProcessedReceiptData): Promise<{ success: boolean; error?: string; result?: ProcessedReceiptData }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userProfile = userDocSnap.data() as UserProfile | undefined;
+    const companyId = userProfile?.companyId || null;
+    const categories = resolveExpenseCategories(await loadCompany(adminDb, companyId));
+    return { success: true, result: await enrichExtraction(adminDb, { userId: decodedToken.uid, companyId, categories }, result) };
+  } catch (error: any) {
+    console.error("enrichReceiptData: Error applying vendor directory:", error);
+    return { success: false, error: error.message || "Failed to look up the vendor." };
+  }
+}
+
+// Recent expenses of the company (or of the user, outside a company) that look like the same receipt
+async function findPossibleDuplicates(adminDb: admin.firestore.Firestore, uid: string, companyId: string | null, candidate: DuplicateCheckInput): Promise<DuplicateMatch[]> {
+  const scope = companyId
+    ? adminDb.collection('expenses').where('companyId', '==', companyId)
+    : adminDb.collection('expenses').where('userId', '==', uid);
+  const windowMs = DUPLICATE_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const [nearbySnapshot, sameFileSnapshot] = await Promise.all([
+    scope
+      .where('expenseDate', '>=', admin.firestore.Timestamp.fromMillis(candidate.expenseDate.getTime() - windowMs))
+      .where('expenseDate', '<=', admin.firestore.Timestamp.fromMillis(candidate.expenseDate.getTime() + windowMs))
+      .get(),
+    // Re-uploads of the same file are caught whatever date was entered
+    candidate.contentHash ? scope.where('receipt.contentHash', '==', candidate.contentHash).get() : Promise.resolve(null),
+  ]);
+
+  const docs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  [...nearbySnapshot.docs, ...(sameFileSnapshot?.docs || [])].forEach(doc => docs.set(doc.id, doc));
+
+  const matches: DuplicateMatch[] = [];
+  docs.forEach(doc => {
+    const existing = doc.data() as Expense;
+    const expenseDate = typeof existing.expenseDate === 'string' ? new Date(existing.expenseDate) : existing.expenseDate.toDate();
+    const currency = existing.currency || DEFAULT_BASE_CURRENCY;
+    const reasons = findDuplicateReasons(candidate, {
+      company: existing.company,
+      expenseDate,
+      totalAmount: existing.totalAmount,
+      currency,
+      baseAmount: existing.baseAmount ?? existing.totalAmount,
+      items: existing.items || [],
+      contentHash: existing.receipt?.contentHash,
+      perceptualHash: existing.receipt?.perceptualHash,
+    });
+    if (reasons) {
+      matches.push({
+        expenseId: doc.id,
+        company: existing.company,
+        expenseDate: expenseDate.toISOString().split('T')[0],
+        totalAmount: existing.totalAmount,
+        currency,
+        isOwnExpense: existing.userId === uid,
+        reasons,
+      });
+    }
+  });
+  return matches;
+}
+
+// Provenance stored on an expense filled from `extraction`, with the fields the submitted values differ in
+function buildProvenance(extraction: ExtractionRun, submitted: ExtractedValues) {
+  const { extractedAt, ...run } = extraction;
+  return {
+    ...JSON.parse(JSON.stringify(run)), // Plain JSON, since Firestore rejects undefined values in the raw output
+    extractedAt: admin.firestore.Timestamp.fromDate(new Date(extractedAt)),
+    changes: diffExtractedValues(run.extracted, submitted),
+  };
+}
+
+// Mileage and per diems are priced from the company's rates, in its base currency, whatever amounts were submitted.
+// Returns the form data with their vendor label, items and total filled in; receipts pass through unchanged.
+async function resolveAllowanceData(adminDb: admin.firestore.Firestore, data: ExpenseFormData, companyId: string | null): Promise<{ data: ExpenseFormData; kind: ExpenseKind; mileage: MileageDetails | null; perDiem: PerDiemDetails | null } | { error: string }> {
+  const kind: ExpenseKind = data.kind && expenseKinds.includes(data.kind) ? data.kind : 'receipt';
+  if (kind === 'receipt') return { data, kind, mileage: null, perDiem: null };
+  if (!companyId) return { error: "Mileage and per diems are claimed at your company's rates. Join a company to claim them." };
+
+  const companyDoc = await adminDb.collection('companies').doc(companyId).get();
+  const company = companyDoc.data() as Company | undefined;
+  const currency = company?.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const priced = kind === 'mileage'
+    ? data.mileage ? calculateMileage(data.mileage, company?.mileageRates || [], currency) : { error: "Please enter the trip." }
+    : data.perDiem ? calculatePerDiem(data.perDiem, company?.perDiemRates || [], getPerDiemRules(company), currency) : { error: "Please enter the trip." };
+  if ('error' in priced) return priced;
+
+  const mileage = 'vehicle' in priced.details ? priced.details : null;
+  const perDiem = 'destination' in priced.details ? priced.details : null;
+  if (perDiem && resolveCalendarDay(data.expenseDay, new Date(data.expenseDate)) !== perDiem.startDate) {
+    return { error: "The expense date has to be the first day of the trip." };
+  }
+  return {
+    kind,
+    mileage,
+    perDiem,
+    data: {
+      ...data,
+      company: mileage ? 'Mileage' : `Per diem ${perDiem!.destination}`,
+      printedCompany: null,
+      suggestedCategory: null,
+      extraction: null,
+      items: mileage
+        ? [{ name: describeMileage(mileage), quantity: 1, netPrice: priced.amount }]
+        : perDiem!.days.map(day => ({ name: `${day.date}: ${describePerDiemDay(day)}`, quantity: 1, netPrice: day.amount })),
+      currency,
+      subtotal: null,
+      taxes: [],
+      serviceCharge: 0,
+      tip: 0,
+      discounts: [],
+      totalAmount: priced.amount,
+    },
+  };
+}
+
+// Fields of an expense computed from submitted form data, the same whether it is saved or edited
+type NormalizedExpenseFields = Required<Pick<Expense,
+  'items' | 'category' | 'split' | 'allocations' | 'totalAmount' | 'subtotal' | 'taxes' | 'serviceCharge' | 'tip' | 'discounts'
+  | 'currency' | 'baseCurrency' | 'baseAmount' | 'exchangeRate' | 'exchangeRateSource' | 'paymentMethod' | 'reconciliation'
+  | 'projectId' | 'clientId' | 'costCenterId' | 'tags' | 'billable' | 'markupPercent' | 'billableAmount' | 'expenseDay'
+>> & { expenseDate: Date };
+
+// Validates submitted expense data against the company's categories and dimensions and converts it to the base
+// currency. `current` holds the dimensions and allocations of an edited expense, which may keep values archived since.
+async function normalizeExpenseData(adminDb: admin.firestore.Firestore, data: ExpenseFormData, companyId: string | null, current?: (Partial<ExpenseDimensions> & Pick<Expense, 'allocations'>) | null): Promise<{ fields: NormalizedExpenseFields } | { error: string }> {
+  const items: ExpenseItem[] = data.items.map(item => ({
+    name: item.name,
+    quantity: Math.max(1, Number(item.quantity) || 1),
+    netPrice: Number(item.netPrice) || 0,
+    category: item.category && item.category !== data.category ? item.category : null,
+    split: normalizeSplit(item.split),
+  }));
+  const split = normalizeSplit(data.split);
+  const currency = validateCurrency(data.currency || '');
+  if (!currency) {
+    return { error: `Unsupported currency "${data.currency}". Supported currencies: ${supportedCurrencies.join(', ')}.` };
+  }
+  const taxes: ExpenseTaxLine[] = (data.taxes || []).map(tax => ({
+    name: tax.name,
+    rate: tax.rate === null || tax.rate === '' ? null : Number(tax.rate) || 0,
+    amount: Number(tax.amount) || 0,
+    inclusive: Boolean(tax.inclusive),
+  }));
+  const discounts: ExpenseDiscount[] = (data.discounts || []).map(discount => ({
+    description: discount.description,
+    amount: Math.abs(Number(discount.amount) || 0),
+  }));
+  const serviceCharge = Number(data.serviceCharge) || 0;
+  const tip = Number(data.tip) || 0;
+  const subtotal = data.subtotal === null || data.subtotal === undefined || data.subtotal === '' ? null : Number(data.subtotal) || 0;
+  // The printed grand total is authoritative; the breakdown only fills in when it is missing
+  const totalAmount = roundToCurrency(resolveExpenseTotal(data.totalAmount, { items, taxes, serviceCharge, tip, discounts }), currency);
+
+  // Items that do not add up to the printed total can only be saved once the user has acknowledged it
+  const reconciliationResult = reconcileReceipt({ items, taxes, serviceCharge, tip, discounts, subtotal, printedTotal: data.totalAmount, currency });
+  if (reconciliationResult.status === 'mismatch' && !data.totalMismatchAcknowledged) {
+    return { error: "The line items do not add up to the printed total. Review the amounts or confirm the mismatch before saving." };
+  }
+  const reconciliation: ExpenseReconciliation = {
+    status: reconciliationResult.status,
+    difference: reconciliationResult.difference,
+    subtotalDifference: reconciliationResult.subtotalDifference,
+    acknowledged: reconciliationResult.status === 'mismatch',
+  };
+
+  const company = await loadCompany(adminDb, companyId);
+  const categories = resolveExpenseCategories(company);
+  const isActiveCategory = (id: string) => activeCategories(categories).some(category => category.id === id);
+  if (!isActiveCategory(data.category)) {
+    return { error: `Unknown or archived category "${data.category}". Please pick another category.` };
+  }
+  const usedCategories = [
+    ...items.flatMap(item => [item.category, ...(item.split?.shares || []).map(share => share.category)]),
+    ...(split?.shares || []).map(share => share.category),
+  ].filter((id): id is string => !!id);
+  const unknownCategory = usedCategories.find(id => !isActiveCategory(id));
+  if (unknownCategory) {
+    return { error: `Unknown or archived category "${unknownCategory}" in an item or split. Please pick another category.` };
+  }
+  const splitError = (split && validateSplit(split, totalAmount, currency))
+    || items.map(item => item.split && validateSplit(item.split, item.netPrice, currency)).find(Boolean);
+  if (splitError) {
+    return { error: splitError };
+  }
+  const resolvedDimensions = resolveExpenseDimensions({ ...data, split, items }, company, current);
+  if ('error' in resolvedDimensions) {
+    return { error: resolvedDimensions.error };
+  }
+  const { dimensions } = resolvedDimensions;
+
+  // Convert to the company's base currency at the rate for the expense date
+  const expenseDate = new Date(data.expenseDate);
+  const baseCurrency = resolveBaseCurrency(company);
+  const rateSource = getExchangeRateSourceFor(currency, baseCurrency);
+  let exchangeRate: number;
+  try {
+    exchangeRate = await rateSource.getRate(currency, baseCurrency, expenseDate);
+  } catch (rateError: any) {
+    console.error("normalizeExpenseData: Exchange rate lookup failed:", rateError);
+    return { error: `Could not convert ${currency} to ${baseCurrency}: ${rateError.message}` };
+  }
+  const baseAmount = roundToCurrency(totalAmount * exchangeRate, baseCurrency);
+  const allocations = computeAllocations({ category: data.category, split, items, totalAmount, currency, baseAmount, baseCurrency });
+
+  return {
+    fields: {
+      items,
+      category: data.category,
+      split,
+      allocations,
+      totalAmount,
+      subtotal,
+      taxes,
+      serviceCharge,
+      tip,
+      discounts,
+      currency,
+      baseCurrency,
+      baseAmount,
+      exchangeRate,
+      exchangeRateSource: rateSource.name,
+      paymentMethod: data.paymentMethod,
+      reconciliation,
+      ...dimensions,
+      billableAmount: dimensions.markupPercent !== null ? getBillableAmount(baseAmount, dimensions.markupPercent, baseCurrency) : null,
+      expenseDate,
+      expenseDay: resolveCalendarDay(data.expenseDay, expenseDate),
+    },
+  };
+}
+
+export async function saveExpense(idToken: string, data: ExpenseFormData, receiptUpload?: ReceiptUpload | null): Promise<{ success: boolean; error?: string; docId?: string; duplicates?: DuplicateMatch[]; policyViolations?: PolicyViolation[] }> {
   const adminAuth = getAdminAuth();
   const adminDb = getAdminDb();
 
@@ -122,27 +501,191 @@ export async function saveExpense(idToken: string, data: ExpenseFormData): Promi
     const userDocSnap = await adminDb.collection('users').doc(uid).get();
     const userProfile = userDocSnap.data() as UserProfile | undefined;
 
-    const items: ExpenseItem[] = data.items.map(item => ({
-      name: item.name,
-      quantity: Math.max(1, Number(item.quantity) || 1),
-      netPrice: Number(item.netPrice) || 0,
-    }));
-    const totalAmount = items.reduce((sum, item) => sum + item.netPrice, 0);
+    const companyId = userProfile?.companyId || null;
+    const allowance = await resolveAllowanceData(adminDb, data, companyId);
+    if ('error' in allowance) {
+      return { success: false, error: allowance.error };
+    }
+    const { kind, mileage, perDiem } = allowance;
+    data = allowance.data;
+    const normalized = await normalizeExpenseData(adminDb, data, companyId);
+    if ('error' in normalized) {
+      return { success: false, error: normalized.error };
+    }
+    const { items, split, allocations, totalAmount, subtotal, taxes, serviceCharge, tip, discounts, currency, baseCurrency, baseAmount, exchangeRate, exchangeRateSource, reconciliation, expenseDate, expenseDay } = normalized.fields;
+    const { projectId, clientId, costCenterId, tags, billable, markupPercent, billableAmount } = normalized.fields;
+
+    const uploadError = receiptUpload?.dataUri ? getReceiptUploadError(receiptUpload.dataUri) : null;
+    if (uploadError) {
+      return { success: false, error: uploadError };
+    }
+
+    // Likely duplicates can only be saved once the user has confirmed they are separate expenses
+    const duplicates = await findPossibleDuplicates(adminDb, uid, companyId, {
+      company: data.company,
+      expenseDate,
+      totalAmount,
+      currency,
+      baseAmount,
+      items,
+      contentHash: receiptUpload?.dataUri ? hashReceiptFile(receiptUpload.dataUri) : null,
+      perceptualHash: receiptUpload?.perceptualHash || null,
+    });
+    if (duplicates.length > 0 && !data.duplicatesAcknowledged) {
+      return { success: false, error: "This receipt looks like an expense that was already submitted.", duplicates };
+    }
+
+    // Company expenses are checked against the company's spending policies. Blocking violations stop the expense, and
+    // some policies need the submitter to explain it; the violations are stored for the approvers either way.
+    const submittedDay = resolveCalendarDay(data.today, new Date());
+    const policyViolations = companyId
+      ? await checkExpensePolicies(adminDb, companyId, {
+        expenseId: null,
+        userId: uid,
+        allocations,
+        baseAmount,
+        baseCurrency,
+        expenseDay,
+        submittedDay,
+        kind,
+        hasReceipt: !!receiptUpload?.dataUri,
+      })
+      : [];
+    const policyJustification = cleanPolicyJustification(data.policyJustification);
+    if (policyJustification && policyJustification.length > MAX_POLICY_JUSTIFICATION_LENGTH) {
+      return { success: false, error: `The justification can be at most ${MAX_POLICY_JUSTIFICATION_LENGTH} characters.` };
+    }
+    const policyError = getPolicyError(policyViolations, policyJustification);
+    if (policyError) {
+      return { success: false, error: policyError, policyViolations };
+    }
+
+    // Expenses carry the canonical name of their vendor, so history and reports group the same merchant together.
+    // Mileage and per diems have no vendor.
+    const vendor = kind === 'receipt'
+      ? await resolveVendor(adminDb, { userId: uid, companyId }, { name: data.company, printedName: data.printedCompany, category: data.category })
+      : null;
+
+    // The charge of a recurring expense closes its draft, whether it is saved from the draft or its receipt is entered on its own
+    const recurringDraft = kind !== 'receipt' ? null : await findRecurringDraft(adminDb, uid, data.recurringDraftId, {
+      vendorId: vendor?.id || null,
+      company: vendor?.name || data.company,
+      totalAmount,
+      currency,
+      expenseDate,
+    }).catch(draftError => {
+      console.error("saveExpense: Could not look up recurring drafts:", draftError);
+      return null;
+    });
+
+    // Company expenses go through the company's approval chain; personal ones need no approval
+    const approvalState = companyId
+      ? startApprovalRound(null, await loadApprovalSteps(adminDb, companyId, uid, baseAmount), toApprovalActor(uid, userProfile, null))
+      : null;
+
+    // Expenses filled from an extraction record where the values came from and what the user changed
+    const extraction = data.extraction && extractionProviderNames.includes(data.extraction.provider) && data.extraction.extracted
+      ? data.extraction
+      : null;
+    const provenance = extraction ? buildProvenance(extraction, toExtractedValues({
+      company: data.company,
+      expenseDate: expenseDay,
+      category: data.category,
+      paymentMethod: data.paymentMethod,
+      currency,
+      subtotal,
+      totalAmount,
+      serviceCharge,
+      tip,
+      taxes,
+      discounts,
+      items,
+    })) : null;
+
+    // Allocate the document ID first so receipt files can be stored under it, right before the expense is written
+    const docRef = adminDb.collection('expenses').doc();
+    const receipt = receiptUpload?.dataUri ? await storeReceiptFiles(`receipts/${uid}/${docRef.id}`, receiptUpload) : null;
 
     const expenseData: Omit<Expense, 'id'> = {
       userId: uid,
-      company: data.company, // This should be company name if manually entered, or fetched if user in company
-      companyId: userProfile?.companyId || null, // Set companyId if user is in a company
+      kind,
+      mileage,
+      perDiem,
+      company: vendor?.name || data.company,
+      companyId, // Set companyId if user is in a company
+      vendorId: vendor?.id || null,
       items,
       category: data.category,
+      split,
+      projectId,
+      clientId,
+      costCenterId,
+      tags,
+      billable,
+      markupPercent,
+      billableAmount,
+      allocations,
       totalAmount,
-      expenseDate: admin.firestore.Timestamp.fromDate(new Date(data.expenseDate)),
+      subtotal,
+      taxes,
+      serviceCharge,
+      tip,
+      discounts,
+      currency,
+      baseCurrency,
+      baseAmount,
+      exchangeRate,
+      exchangeRateSource,
+      expenseDate: admin.firestore.Timestamp.fromDate(expenseDate),
+      expenseDay,
+      submittedDay,
       paymentMethod: data.paymentMethod,
-      status: userProfile?.companyId ? 'pending' : 'approved', // 'pending' if company expense, else 'approved'
+      status: approvalState?.status || 'approved',
+      approval: approvalState?.approval || null,
+      pendingApproverIds: approvalState?.pendingApproverIds || [],
+      policyViolations,
+      policyJustification: policyViolations.length > 0 ? policyJustification : null,
+      recurringExpenseId: recurringDraft?.recurringExpenseId || null,
+      reconciliation,
+      receipt,
+      provenance,
+      ...(duplicates.length > 0 ? { possibleDuplicateOf: duplicates.map(duplicate => duplicate.expenseId) } : {}),
       createdAt: admin.firestore.FieldValue.serverTimestamp() as admin.firestore.Timestamp,
     };
 
-    const docRef = await adminDb.collection('expenses').add(expenseData);
+    try {
+      await docRef.set(expenseData);
+    } catch (writeError) {
+      // Files of an expense that was never written would not be removed with it
+      if (receipt) {
+        await removeReceiptFiles(receipt).catch(cleanupError => console.error("saveExpense: Failed to clean up receipt files:", cleanupError));
+      }
+      throw writeError;
+    }
+
+    // The user's next expense starts from the dimensions of this one
+    if (userDocSnap.exists) {
+      await userDocSnap.ref.update({ expenseDefaults: { projectId, clientId, costCenterId, tags, billable } })
+        .catch(defaultsError => console.error("saveExpense: Could not remember expense defaults:", defaultsError));
+    }
+
+    if (recurringDraft) {
+      await markRecurringDraftSaved(adminDb, recurringDraft.id!, docRef.id)
+        .catch(draftError => console.error("saveExpense: Could not close recurring draft:", draftError));
+    }
+
+    // A changed suggestion teaches the category for this vendor. The expense is saved either way.
+    if (data.suggestedCategory && data.suggestedCategory !== data.category) {
+      await recordCategoryCorrection(adminDb, {
+        userId: uid,
+        companyId,
+        vendor: vendor?.name || data.company,
+        items,
+        suggestedCategory: data.suggestedCategory,
+        category: data.category,
+      }).catch(correctionError => console.error("saveExpense: Could not record category correction:", correctionError));
+    }
+
     revalidatePath('/');
     return { success: true, docId: docRef.id };
 
@@ -166,7 +709,139 @@ export async function saveExpense(idToken: string, data: ExpenseFormData): Promi
 }
 
 
-export async function getExpenses(idToken: string): Promise<Expense[]> {
+// Who may edit an expense: its submitter, or an owner or admin of the company it belongs to
+function canEditExpense(uid: string, userData: UserProfile, expense: Expense): boolean {
+  if (expense.companyId) {
+    if (expense.companyId !== userData.companyId) return false;
+    return expense.userId === uid || userData.role === 'owner' || userData.role === 'admin';
+  }
+  return expense.userId === uid;
+}
+
+// Saves changes to an existing expense and records them as a revision. The receipt and extraction provenance stay as
+// they were submitted; see getEditStatusRule for what the edit does to the approval status. A changed company expense
+// starts a new approval round, since earlier decisions were made on the old values. Expenses in a report can only be
+// changed while the report is a draft or rejected, and are approved with it.
+export async function updateExpense(idToken: string, expenseId: string, data: ExpenseFormData): Promise<{ success: boolean; error?: string; status?: ExpenseStatus; revision?: number; policyViolations?: PolicyViolation[] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const expenseRef = adminDb.collection('expenses').doc(expenseId);
+    const expenseDoc = await expenseRef.get();
+    if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
+    const expenseData = expenseDoc.data() as Expense;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    if (!canEditExpense(uid, userData, expenseData)) return { success: false, error: "You are not authorized to edit this expense." };
+    const statusRule = getEditStatusRule(expenseData);
+    if (!statusRule.allowed) return { success: false, error: statusRule.reason };
+
+    const companyId = expenseData.companyId || null;
+    // An expense stays the kind it was saved as; mileage and per diems are priced again at the current rates
+    const allowance = await resolveAllowanceData(adminDb, { ...data, kind: expenseData.kind || 'receipt' }, companyId);
+    if ('error' in allowance) {
+      return { success: false, error: allowance.error };
+    }
+    const { kind, mileage, perDiem } = allowance;
+    data = allowance.data;
+    const normalized = await normalizeExpenseData(adminDb, data, companyId, expenseData);
+    if ('error' in normalized) {
+      return { success: false, error: normalized.error };
+    }
+    const { expenseDate, ...fields } = normalized.fields;
+
+    // A changed vendor name is resolved against the directory, as when the expense was saved
+    const companyChanged = data.company.trim() !== expenseData.company;
+    const vendor = companyChanged && kind === 'receipt'
+      ? await resolveVendor(adminDb, { userId: expenseData.userId, companyId }, { name: data.company, category: data.category })
+      : null;
+    const company = companyChanged ? vendor?.name || data.company.trim() : expenseData.company;
+
+    const approvalSteps = companyId && !expenseData.reportId ? await loadApprovalSteps(adminDb, companyId, expenseData.userId, fields.baseAmount) : null;
+
+    // Checked against the policies as they are now; the submission deadline still counts from when it was first saved
+    const policyViolations = companyId
+      ? await checkExpensePolicies(adminDb, companyId, {
+        expenseId,
+        userId: expenseData.userId,
+        allocations: fields.allocations,
+        baseAmount: fields.baseAmount,
+        baseCurrency: fields.baseCurrency,
+        expenseDay: fields.expenseDay,
+        submittedDay: getSubmittedDay(expenseData),
+        kind,
+        hasReceipt: !!expenseData.receipt,
+      })
+      : [];
+    const policyJustification = cleanPolicyJustification(data.policyJustification);
+    if (policyJustification && policyJustification.length > MAX_POLICY_JUSTIFICATION_LENGTH) {
+      return { success: false, error: `The justification can be at most ${MAX_POLICY_JUSTIFICATION_LENGTH} characters.` };
+    }
+    const policyError = getPolicyError(policyViolations, policyJustification);
+    if (policyError) {
+      return { success: false, error: policyError, policyViolations };
+    }
+    const policyFields = companyId ? { policyViolations, policyJustification: policyViolations.length > 0 ? policyJustification : null } : {};
+
+    // Compared against the expense as it is when the revision is written, in case it changed meanwhile
+    const result = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(expenseRef);
+      if (!currentDoc.exists) throw new Error("Expense not found.");
+      const current = currentDoc.data() as Expense;
+      const currentRule = getEditStatusRule(current);
+      if (!currentRule.allowed) throw new Error(currentRule.reason);
+      if (current.reportId) {
+        const reportDoc = await transaction.get(adminDb.collection('expenseReports').doc(current.reportId));
+        if (reportDoc.exists && !isReportEditable(reportDoc.data() as ExpenseReport)) {
+          throw new Error("This expense is part of a submitted report and cannot be changed until the report is rejected.");
+        }
+      }
+
+      const approvalState = approvalSteps && !current.reportId ? startApprovalRound(current.approval, approvalSteps, toApprovalActor(uid, userData, null)) : null;
+      const status = approvalState?.status || currentRule.status;
+
+      const changes = diffRevisionValues(
+        toRevisionValues({ ...current, expenseDate: (current.expenseDate as unknown as admin.firestore.Timestamp).toDate() }),
+        toRevisionValues({ ...fields, company, expenseDate, status }),
+      );
+      if (changes.length === 0) {
+        if (companyId) transaction.update(expenseRef, policyFields);
+        return { status: current.status, revision: current.revisionCount || 0 };
+      }
+
+      const revision = writeRevision(transaction, adminDb, expenseRef, current, { uid, profile: userData }, changes, {
+        ...fields,
+        company,
+        ...(companyChanged ? { vendorId: vendor?.id || null } : {}),
+        ...(kind !== 'receipt' ? { mileage, perDiem } : {}),
+        expenseDate: admin.firestore.Timestamp.fromDate(expenseDate),
+        status,
+        ...(approvalState ? { approval: approvalState.approval, pendingApproverIds: approvalState.pendingApproverIds } : {}),
+        ...policyFields,
+      });
+      return { status, revision };
+    });
+
+    revalidatePath('/');
+    return { success: true, ...result };
+  } catch (error: any) {
+    console.error(`updateExpense: Error updating expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to update expense." };
+  }
+}
+
+// Expenses the user can see, optionally narrowed to a project, client, cost center, tag or billable flag
+export async function getExpenses(idToken: string, filters?: ExpenseFilters | null): Promise<Expense[]> {
   const adminAuth = getAdminAuth();
   const adminDb = getAdminDb();
 
@@ -212,12 +887,11 @@ export async function getExpenses(idToken: string): Promise<Expense[]> {
     }
 
     const snapshot = await expensesQuery.get();
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      const expenseDate = data.expenseDate instanceof admin.firestore.Timestamp ? data.expenseDate.toDate() : new Date(data.expenseDate);
-      const createdAt = data.createdAt instanceof admin.firestore.Timestamp ? data.createdAt.toDate() : new Date(data.createdAt);
-      return { id: doc.id, ...data, expenseDate, createdAt } as unknown as Expense;
-    });
+    // The raw extraction output is only needed on the detail page. Filters are applied here rather than in the query,
+    // so any combination works without a composite index each.
+    return snapshot.docs
+      .filter(doc => !filters || matchesExpenseFilters(doc.data() as Expense, filters))
+      .map(doc => serializeExpense(doc.id, doc.data(), false));
 
   } catch (error: any) {
     console.error(`getExpenses: Error fetching expenses:`, error);
@@ -226,6 +900,41 @@ export async function getExpenses(idToken: string): Promise<Expense[]> {
   }
 }
 
+export async function getBaseCurrency(idToken: string): Promise<string> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb || !idToken) return DEFAULT_BASE_CURRENCY;
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userProfile = userDocSnap.data() as UserProfile | undefined;
+    return resolveBaseCurrency(await loadCompany(adminDb, userProfile?.companyId));
+  } catch (error) {
+    console.error("getBaseCurrency: Error resolving base currency:", error);
+    return DEFAULT_BASE_CURRENCY;
+  }
+}
+
+// The categories the user can pick from: the company's, or the defaults for personal expenses
+export async function getExpenseCategories(idToken: string): Promise<ExpenseCategoryDefinition[]> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb || !idToken) return DEFAULT_EXPENSE_CATEGORIES;
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userProfile = userDocSnap.data() as UserProfile | undefined;
+    return resolveExpenseCategories(await loadCompany(adminDb, userProfile?.companyId));
+  } catch (error) {
+    console.error("getExpenseCategories: Error resolving categories:", error);
+    return DEFAULT_EXPENSE_CATEGORIES;
+  }
+}
+
 export async function deleteExpense(idToken: string, expenseId: string): Promise<{ success: boolean; error?: string }> {
   const adminAuth = getAdminAuth();
   const adminDb = getAdminDb();
@@ -258,8 +967,33 @@ export async function deleteExpense(idToken: string, expenseId: string): Promise
     }
 
     if (!authorized) return { success: false, error: "You are not authorized to delete this expense." };
+    if (expenseData.status === 'reimbursed') {
+      return { success: false, error: "Reimbursed expenses were paid out and cannot be deleted." };
+    }
 
-    await expenseRef.delete();
+    // Expenses leave their report with it, as long as the report can still be changed
+    if (expenseData.reportId) {
+      const reportRef = adminDb.collection('expenseReports').doc(expenseData.reportId);
+      await adminDb.runTransaction(async transaction => {
+        const reportDoc = await transaction.get(reportRef);
+        if (reportDoc.exists) {
+          if (!isReportEditable(reportDoc.data() as ExpenseReport)) {
+            throw new Error("This expense is part of a submitted report and cannot be deleted until the report is rejected.");
+          }
+          transaction.update(reportRef, { expenseIds: admin.firestore.FieldValue.arrayRemove(expenseId), updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        }
+        transaction.delete(expenseRef);
+      });
+    } else {
+      await expenseRef.delete();
+    }
+    if (expenseData.receipt) {
+      try {
+        await removeReceiptFiles(expenseData.receipt);
+      } catch (e) {
+        console.error(`deleteExpense: Failed to remove receipt files for expense ${expenseId}:`, e);
+      }
+    }
     revalidatePath('/');
     return { success: true };
 
@@ -269,7 +1003,22 @@ export async function deleteExpense(idToken: string, expenseId: string): Promise
   }
 }
 
-export async function updateExpenseStatus(idToken: string, expenseId: string, newStatus: ExpenseStatus): Promise<{ success: boolean; error?: string }> {
+// Same visibility rules as getExpenses: own expenses, or any company expense for owners, admins and auditors.
+// Approvers of any step can also view the expenses they are asked to decide, on their own or in a report.
+async function canViewExpense(adminDb: admin.firestore.Firestore, uid: string, expense: Expense): Promise<boolean> {
+  if (expense.userId === uid) return true;
+  if (!expense.companyId) return false;
+  const userDocSnap = await adminDb.collection('users').doc(uid).get();
+  const userData = userDocSnap.data() as UserProfile | undefined;
+  if (userData?.companyId !== expense.companyId) return false;
+  if (userData.role === 'owner' || userData.role === 'admin' || userData.role === 'auditor'
+    || expense.approval?.steps.some(step => step.approverIds.includes(uid))) return true;
+  if (!expense.reportId) return false;
+  const reportDoc = await adminDb.collection('expenseReports').doc(expense.reportId).get();
+  return !!(reportDoc.data() as ExpenseReport | undefined)?.approval?.steps.some(step => step.approverIds.includes(uid));
+}
+
+export async function getExpense(idToken: string, expenseId: string): Promise<{ success: boolean; error?: string; expense?: Expense }> {
   const adminAuth = getAdminAuth();
   const adminDb = getAdminDb();
 
@@ -278,32 +1027,75 @@ export async function updateExpenseStatus(idToken: string, expenseId: string, ne
 
   try {
     const decodedToken = await adminAuth.verifyIdToken(idToken);
-    const uid = decodedToken.uid;
-
-    const expenseRef = adminDb.collection('expenses').doc(expenseId);
-    const expenseDoc = await expenseRef.get();
+    const expenseDoc = await adminDb.collection('expenses').doc(expenseId).get();
     if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
-    const expenseData = expenseDoc.data() as Expense;
+    const data = expenseDoc.data() as Expense;
+    if (!await canViewExpense(adminDb, decodedToken.uid, data)) return { success: false, error: "You are not authorized to view this expense." };
 
-    if (!expenseData.companyId) return { success: false, error: "This expense is not a company expense." };
+    return { success: true, expense: serializeExpense(expenseDoc.id, data, true) };
+  } catch (error: any) {
+    console.error(`getExpense: Error loading expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to load expense." };
+  }
+}
 
-    const userDocSnap = await adminDb.collection('users').doc(uid).get();
-    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
-    const userData = userDocSnap.data() as UserProfile;
+// The revisions of an expense, oldest first, for anyone who can view the expense
+export async function getExpenseRevisions(idToken: string, expenseId: string): Promise<{ success: boolean; error?: string; revisions?: ExpenseRevision[] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
 
-    if (expenseData.companyId !== userData.companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
-      return { success: false, error: "You are not authorized to update this expense's status." };
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const expenseDoc = await adminDb.collection('expenses').doc(expenseId).get();
+    if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
+    if (!await canViewExpense(adminDb, decodedToken.uid, expenseDoc.data() as Expense)) {
+      return { success: false, error: "You are not authorized to view this expense." };
     }
 
-    await expenseRef.update({ status: newStatus });
-    revalidatePath('/');
-    return { success: true };
+    const snapshot = await adminDb.collection('expenseRevisions').where('expenseId', '==', expenseId).get();
+    const revisions = snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return { id: doc.id, ...data, editedAt: (data.editedAt as admin.firestore.Timestamp).toDate() } as unknown as ExpenseRevision;
+      })
+      .sort((a, b) => a.revision - b.revision);
+    return { success: true, revisions };
   } catch (error: any) {
-    console.error(`updateExpenseStatus: Error updating status for expense ${expenseId}:`, error);
-    return { success: false, error: error.message || "Failed to update expense status." };
+    console.error(`getExpenseRevisions: Error loading revisions of expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to load revisions." };
   }
 }
 
+export async function getReceiptImage(idToken: string, expenseId: string, variant: 'original' | 'thumbnail' = 'original'): Promise<{ success: boolean; error?: string; dataUri?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const expenseDoc = await adminDb.collection('expenses').doc(expenseId).get();
+    if (!expenseDoc.exists) return { success: false, error: "Expense not found." };
+    const expenseData = expenseDoc.data() as Expense;
+    if (!expenseData.receipt) return { success: false, error: "This expense has no stored receipt." };
+
+    if (!await canViewExpense(adminDb, uid, expenseData)) return { success: false, error: "You are not authorized to view this receipt." };
+
+    const { receipt } = expenseData;
+    const file = variant === 'thumbnail' && receipt.thumbnail ? receipt.thumbnail : receipt.original;
+    const contents = await getReceiptStorage(receipt.backend).get(file.path);
+    return { success: true, dataUri: toDataUri(file.contentType, contents) };
+  } catch (error: any) {
+    console.error(`getReceiptImage: Error loading receipt for expense ${expenseId}:`, error);
+    return { success: false, error: error.message || "Failed to load receipt image." };
+  }
+}
 
 // Company Actions
 export async function createCompany(idToken: string, companyName: string): Promise<{ success: boolean; error?: string; companyId?: string }> {
@@ -326,6 +1118,7 @@ export async function createCompany(idToken: string, companyName: string): Promi
       name: companyName,
       ownerId: uid,
       members: [uid], // Owner is the first member
+      baseCurrency: DEFAULT_BASE_CURRENCY,
       createdAt: admin.firestore.FieldValue.serverTimestamp() as admin.firestore.Timestamp,
     };
     const companyRef = await adminDb.collection('companies').add(companyData);
@@ -343,6 +1136,97 @@ export async function createCompany(idToken: string, companyName: string): Promi
 }
 
 
+export async function updateCompanyBaseCurrency(idToken: string, companyId: string, baseCurrency: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const currency = validateCurrency(baseCurrency);
+  if (!currency) return { success: false, error: `Unsupported currency "${baseCurrency}".` };
+  // Every expense is converted to the base currency, so the configured rate source has to quote it
+  const rateSource = getExchangeRateSource();
+  if (!rateSource.currencies.includes(currency)) {
+    return { success: false, error: `${currency} cannot be the base currency: the ${rateSource.name} exchange rates do not include it.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's base currency." };
+    }
+
+    // Existing expenses keep the base currency and amount they were converted to when saved
+    await adminDb.collection('companies').doc(companyId).update({ baseCurrency: currency });
+    revalidatePath('/company');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating company base currency:", error);
+    return { success: false, error: error.message || "Failed to update base currency." };
+  }
+}
+
+// Replaces the company's category list. Categories can be added, renamed and archived but not removed,
+// because existing expenses keep referring to their IDs.
+export async function updateCompanyCategories(idToken: string, companyId: string, categories: ExpenseCategoryDefinition[]): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const cleaned: ExpenseCategoryDefinition[] = categories.map(category => ({
+    id: String(category.id || '').trim(),
+    name: String(category.name || '').trim(),
+    glCode: category.glCode ? String(category.glCode).trim() || null : null,
+    icon: category.icon,
+    archived: Boolean(category.archived),
+  }));
+  const invalid = cleaned.find(category => !/^[a-z0-9][a-z0-9-]*$/.test(category.id) || !category.name || category.name.length > 60
+    || (category.glCode?.length ?? 0) > 30 || !categoryIconNames.includes(category.icon));
+  if (invalid) return { success: false, error: `Invalid category "${invalid.name || invalid.id}".` };
+  if (new Set(cleaned.map(category => category.id)).size !== cleaned.length) {
+    return { success: false, error: "Category IDs must be unique." };
+  }
+  if (new Set(cleaned.map(category => category.name.toLowerCase())).size !== cleaned.length) {
+    return { success: false, error: "Category names must be unique." };
+  }
+  if (activeCategories(cleaned).length === 0) {
+    return { success: false, error: "At least one category must stay active." };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's categories." };
+    }
+
+    const existing = resolveExpenseCategories(await loadCompany(adminDb, companyId));
+    const removed = existing.find(category => !cleaned.some(candidate => candidate.id === category.id));
+    if (removed) {
+      return { success: false, error: `Category "${removed.name}" cannot be removed. Archive it instead.` };
+    }
+
+    await adminDb.collection('companies').doc(companyId).update({ categories: cleaned });
+    revalidatePath('/company');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating company categories:", error);
+    return { success: false, error: error.message || "Failed to update categories." };
+  }
+}
+
 export async function sendInvitation(idToken: string, companyId: string, inviteeEmail: string, role: UserRole): Promise<{ success: boolean; error?: string; invitationId?: string }> {
   const adminAuth = getAdminAuth();
   const adminDb = getAdminDb();
@@ -0,0 +1,326 @@
+// src/actions/extraction-job-actions.ts
+'use server';
+
+import admin from 'firebase-admin';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import { processReceiptImage, saveExpense } from '@/actions/expense-actions';
+import type { ExpenseFormData } from '@/types/expense';
+import type { ExtractionJob } from '@/types/extraction-job';
+import type { DuplicateMatch } from '@/types/duplicate';
+import type { PolicyViolation } from '@/types/policy';
+import type { ReceiptUpload } from '@/types/receipt';
+import type { UserProfile } from '@/types/user';
+import { toDataUri } from '@/lib/data-uri';
+import { getReceiptStorage, getReceiptUploadError, storeReceiptFiles, loadReceiptFiles, removeReceiptFiles } from '@/lib/receipt-storage';
+import { enrichExtraction } from '@/lib/receipt-enrichment';
+import { getCategoryList } from '@/lib/categories';
+import type { Company } from '@/types/company';
+
+// A job left in 'extracting' for longer than this is assumed to belong to a crashed worker and is picked up again
+const EXTRACTION_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_EXTRACTION_ATTEMPTS = 3;
+
+const toMillis = (value: unknown): number => (value instanceof admin.firestore.Timestamp ? value.toMillis() : 0);
+
+const serializeJob = (doc: admin.firestore.DocumentSnapshot): ExtractionJob => {
+  const data = doc.data()!;
+  const createdAt = data.createdAt instanceof admin.firestore.Timestamp ? data.createdAt.toDate() : new Date();
+  const updatedAt = data.updatedAt instanceof admin.firestore.Timestamp ? data.updatedAt.toDate() : createdAt;
+  return { id: doc.id, ...data, createdAt, updatedAt } as unknown as ExtractionJob;
+};
+
+// Loads a job and checks that it belongs to the user
+async function getOwnJob(adminDb: admin.firestore.Firestore, uid: string, jobId: string): Promise<{ ref: admin.firestore.DocumentReference; job: ExtractionJob } | { error: string }> {
+  const ref = adminDb.collection('extractionJobs').doc(jobId);
+  const doc = await ref.get();
+  if (!doc.exists) return { error: "Extraction job not found." };
+  const job = serializeJob(doc);
+  if (job.userId !== uid) return { error: "You are not authorized to access this extraction job." };
+  return { ref, job };
+}
+
+// Marks the oldest claimable job of the user as 'extracting' and returns it, or null if there is nothing to do
+async function claimNextJob(adminDb: admin.firestore.Firestore, uid: string): Promise<ExtractionJob | null> {
+  // Equality filters only, so no composite index is needed; the queue of one user is small
+  const snapshot = await adminDb.collection('extractionJobs')
+    .where('userId', '==', uid)
+    .where('status', 'in', ['queued', 'extracting'])
+    .get();
+  const now = Date.now();
+  const candidates = snapshot.docs
+    .filter(doc => doc.data().status === 'queued' || now - toMillis(doc.data().updatedAt) > EXTRACTION_TIMEOUT_MS)
+    .sort((a, b) => toMillis(a.data().createdAt) - toMillis(b.data().createdAt));
+
+  for (const candidate of candidates) {
+    const claimed = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(candidate.ref);
+      const data = doc.data();
+      if (!data) return false;
+      const isClaimable = data.status === 'queued' || (data.status === 'extracting' && Date.now() - toMillis(data.updatedAt) > EXTRACTION_TIMEOUT_MS);
+      if (!isClaimable) return false;
+      transaction.update(candidate.ref, {
+        status: 'extracting',
+        attempts: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (claimed) {
+      return serializeJob(await candidate.ref.get());
+    }
+  }
+  return null;
+}
+
+async function runExtraction(adminDb: admin.firestore.Firestore, ref: admin.firestore.DocumentReference, job: ExtractionJob): Promise<void> {
+  let update: Record<string, unknown>;
+  try {
+    const file = await getReceiptStorage(job.receipt.backend).get(job.receipt.original.path);
+    const companyDoc = job.companyId ? await adminDb.collection('companies').doc(job.companyId).get() : null;
+    const categories = getCategoryList((companyDoc?.data() as Company | undefined)?.categories);
+    const result = await processReceiptImage(toDataUri(job.receipt.original.contentType, file), job.hint || undefined, categories);
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    const draft = await enrichExtraction(adminDb, { userId: job.userId, companyId: job.companyId, categories }, result);
+    // Firestore rejects undefined values, so store the plain JSON form of the draft
+    update = { status: 'needs_review', draft: JSON.parse(JSON.stringify(draft)), error: null };
+  } catch (error: any) {
+    console.error(`runExtraction: Extraction failed for job ${ref.id} (attempt ${job.attempts}):`, error);
+    const message = error.message || "Extraction failed.";
+    update = job.attempts < MAX_EXTRACTION_ATTEMPTS
+      ? { status: 'queued', error: message }
+      : { status: 'failed', error: message };
+  }
+  await ref.update({ ...update, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+}
+
+// Uploads one receipt of a batch and queues it for extraction. Called once per file so each request stays within the body size limit.
+export async function enqueueReceiptExtraction(idToken: string, fileName: string, upload: ReceiptUpload): Promise<{ success: boolean; error?: string; jobId?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+  if (!upload?.dataUri) return { success: false, error: "No receipt file provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const uploadError = getReceiptUploadError(upload.dataUri);
+    if (uploadError) {
+      return { success: false, error: uploadError };
+    }
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userProfile = userDocSnap.data() as UserProfile | undefined;
+
+    const jobRef = adminDb.collection('extractionJobs').doc();
+    const receipt = await storeReceiptFiles(`receipts/${uid}/jobs/${jobRef.id}`, upload);
+    try {
+      await jobRef.set({
+        userId: uid,
+        companyId: userProfile?.companyId || null,
+        fileName: fileName || 'receipt',
+        status: 'queued',
+        receipt,
+        hint: null,
+        attempts: 0,
+        draft: null,
+        error: null,
+        expenseId: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (writeError) {
+      await removeReceiptFiles(receipt).catch(cleanupError => console.error("enqueueReceiptExtraction: Failed to clean up receipt files:", cleanupError));
+      throw writeError;
+    }
+
+    return { success: true, jobId: jobRef.id };
+  } catch (error: any) {
+    console.error("enqueueReceiptExtraction: Error queueing receipt:", error);
+    return { success: false, error: error.message || "Failed to queue receipt." };
+  }
+}
+
+// Works through the user's queue on the server, one receipt at a time, until it is empty or maxJobs receipts were extracted.
+// Jobs are persisted, so processing picks up where it stopped when it is triggered again.
+export async function processExtractionQueue(idToken: string, maxJobs = 1): Promise<{ success: boolean; error?: string; processed?: number; remaining?: number }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    let processed = 0;
+    while (processed < maxJobs) {
+      const job = await claimNextJob(adminDb, uid);
+      if (!job) break;
+      await runExtraction(adminDb, adminDb.collection('extractionJobs').doc(job.id), job);
+      processed++;
+    }
+
+    const queued = await adminDb.collection('extractionJobs')
+      .where('userId', '==', uid)
+      .where('status', '==', 'queued')
+      .get();
+    return { success: true, processed, remaining: queued.size };
+  } catch (error: any) {
+    console.error("processExtractionQueue: Error processing queue:", error);
+    return { success: false, error: error.message || "Failed to process extraction queue." };
+  }
+}
+
+// Jobs of the current user that are not saved yet, oldest first
+export async function getExtractionJobs(idToken: string): Promise<ExtractionJob[]> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb || !idToken) {
+    console.error("getExtractionJobs: Admin SDK not initialized or auth token missing.");
+    return [];
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const snapshot = await adminDb.collection('extractionJobs')
+      .where('userId', '==', decodedToken.uid)
+      .where('status', 'in', ['queued', 'extracting', 'needs_review', 'failed'])
+      .get();
+    return snapshot.docs
+      .sort((a, b) => toMillis(a.data().createdAt) - toMillis(b.data().createdAt))
+      .map(serializeJob);
+  } catch (error) {
+    console.error("getExtractionJobs: Error fetching jobs:", error);
+    return [];
+  }
+}
+
+export async function getExtractionJobReceipt(idToken: string, jobId: string, variant: 'original' | 'thumbnail' = 'original'): Promise<{ success: boolean; error?: string; dataUri?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const found = await getOwnJob(adminDb, decodedToken.uid, jobId);
+    if ('error' in found) return { success: false, error: found.error };
+
+    const { receipt } = found.job;
+    const file = variant === 'thumbnail' && receipt.thumbnail ? receipt.thumbnail : receipt.original;
+    const contents = await getReceiptStorage(receipt.backend).get(file.path);
+    return { success: true, dataUri: toDataUri(file.contentType, contents) };
+  } catch (error: any) {
+    console.error(`getExtractionJobReceipt: Error loading receipt for job ${jobId}:`, error);
+    return { success: false, error: error.message || "Failed to load receipt image." };
+  }
+}
+
+// Queues a failed or drafted job for another extraction attempt, optionally with feedback for the model
+export async function retryExtractionJob(idToken: string, jobId: string, hint?: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const found = await getOwnJob(adminDb, decodedToken.uid, jobId);
+    if ('error' in found) return { success: false, error: found.error };
+    if (found.job.status !== 'failed' && found.job.status !== 'needs_review') {
+      return { success: false, error: `A job that is ${found.job.status.replace('_', ' ')} cannot be retried.` };
+    }
+
+    await found.ref.update({
+      status: 'queued',
+      hint: hint || null,
+      attempts: 0,
+      draft: null,
+      error: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { success: true };
+  } catch (error: any) {
+    console.error(`retryExtractionJob: Error retrying job ${jobId}:`, error);
+    return { success: false, error: error.message || "Failed to retry extraction." };
+  }
+}
+
+// Saves the reviewed draft as an expense. The receipt is copied to the expense and the job's own files are removed.
+export async function approveExtractionJob(idToken: string, jobId: string, data: ExpenseFormData): Promise<{ success: boolean; error?: string; docId?: string; duplicates?: DuplicateMatch[]; policyViolations?: PolicyViolation[] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const found = await getOwnJob(adminDb, decodedToken.uid, jobId);
+    if ('error' in found) return { success: false, error: found.error };
+    const { ref, job } = found;
+
+    // Claim the job first so approving twice cannot create two expenses
+    const claimed = await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (doc.data()?.status !== 'needs_review') return false;
+      transaction.update(ref, { status: 'saved', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      return true;
+    });
+    if (!claimed) return { success: false, error: "This draft is not awaiting review." };
+
+    let result: { success: boolean; error?: string; docId?: string; duplicates?: DuplicateMatch[]; policyViolations?: PolicyViolation[] };
+    try {
+      // Provenance comes from the stored draft rather than the client
+      result = await saveExpense(idToken, { ...data, extraction: job.draft?.extraction || null }, await loadReceiptFiles(job.receipt));
+    } catch (saveError: any) {
+      result = { success: false, error: saveError.message || "Failed to save expense." };
+    }
+    if (!result.success) {
+      await ref.update({ status: 'needs_review', error: result.error || null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      return result;
+    }
+
+    await ref.update({ expenseId: result.docId || null, error: null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    await removeReceiptFiles(job.receipt).catch(cleanupError => console.error(`approveExtractionJob: Failed to remove files of job ${jobId}:`, cleanupError));
+    return result;
+  } catch (error: any) {
+    console.error(`approveExtractionJob: Error approving job ${jobId}:`, error);
+    return { success: false, error: error.message || "Failed to save expense." };
+  }
+}
+
+export async function deleteExtractionJob(idToken: string, jobId: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const found = await getOwnJob(adminDb, decodedToken.uid, jobId);
+    if ('error' in found) return { success: false, error: found.error };
+    if (found.job.status === 'extracting') {
+      return { success: false, error: "This receipt is being extracted. Try again once it is done." };
+    }
+
+    if (found.job.status !== 'saved') {
+      await removeReceiptFiles(found.job.receipt);
+    }
+    await found.ref.delete();
+    return { success: true };
+  } catch (error: any) {
+    console.error(`deleteExtractionJob: Error deleting job ${jobId}:`, error);
+    return { success: false, error: error.message || "Failed to delete extraction job." };
+  }
+}
@@ -0,0 +1,74 @@
+// src/actions/policy-actions.ts
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Company } from '@/types/company';
+import type { UserProfile } from '@/types/user';
+import type { ExpensePolicy } from '@/types/policy';
+import { policyActions, policyTypes } from '@/types/policy';
+import { getCategoryList } from '@/lib/categories';
+import { MAX_POLICIES } from '@/lib/expense-policies';
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+// Replaces the company's spending policies. Expenses keep the violations they were saved or approved with until they
+// are edited or decided again.
+export async function updateCompanyPolicies(idToken: string, companyId: string, policies: ExpensePolicy[]): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const cleaned: ExpensePolicy[] = policies.map(policy => ({
+    id: String(policy.id || '').trim(),
+    name: String(policy.name || '').trim(),
+    type: policy.type,
+    action: policy.action,
+    categories: policy.type === 'category_daily_limit' || policy.type === 'no_weekend'
+      ? Array.from(new Set((policy.categories || []).map(String)))
+      : [],
+    amount: policy.type === 'category_daily_limit' || policy.type === 'receipt_required' ? toNumberOrNull(policy.amount) : null,
+    days: policy.type === 'submission_deadline' ? toNumberOrNull(policy.days) : null,
+  }));
+  if (cleaned.length > MAX_POLICIES) return { success: false, error: `A company can have at most ${MAX_POLICIES} policies.` };
+  const invalid = cleaned.find(policy => !/^[a-z0-9][a-z0-9-]*$/.test(policy.id) || !policy.name || policy.name.length > 60
+    || !policyTypes.includes(policy.type) || !policyActions.includes(policy.action));
+  if (invalid) return { success: false, error: `Invalid policy "${invalid.name || invalid.id}".` };
+  if (new Set(cleaned.map(policy => policy.id)).size !== cleaned.length) {
+    return { success: false, error: "Policy IDs must be unique." };
+  }
+  const withoutAmount = cleaned.find(policy => (policy.type === 'category_daily_limit' || policy.type === 'receipt_required')
+    && (policy.amount === null || !Number.isFinite(policy.amount) || policy.amount < 0));
+  if (withoutAmount) return { success: false, error: `Policy "${withoutAmount.name}" needs an amount of 0 or more.` };
+  const withoutDays = cleaned.find(policy => policy.type === 'submission_deadline'
+    && (policy.days === null || !Number.isInteger(policy.days) || policy.days < 0 || policy.days > 365));
+  if (withoutDays) return { success: false, error: `Policy "${withoutDays.name}" needs a deadline between 0 and 365 days.` };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+    if (userData.companyId !== companyId || (userData.role !== 'owner' && userData.role !== 'admin')) {
+      return { success: false, error: "You are not authorized to change this company's policies." };
+    }
+
+    const companyRef = adminDb.collection('companies').doc(companyId);
+    const companyDoc = await companyRef.get();
+    if (!companyDoc.exists) return { success: false, error: "Company not found." };
+    const categories = getCategoryList((companyDoc.data() as Company).categories);
+    const unknownCategory = cleaned.flatMap(policy => policy.categories).find(id => !categories.some(category => category.id === id));
+    if (unknownCategory) return { success: false, error: `Unknown category "${unknownCategory}" in a policy.` };
+
+    await companyRef.update({ policies: cleaned });
+    revalidatePath('/company');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error updating company policies:", error);
+    return { success: false, error: error.message || "Failed to update policies." };
+  }
+}
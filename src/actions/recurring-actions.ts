@@ -0,0 +1,279 @@
+// src/actions/recurring-actions.ts
+'use server';
+
+import admin from 'firebase-admin';
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import { paymentMethods } from '@/types/expense';
+import type { Company } from '@/types/company';
+import type { UserProfile } from '@/types/user';
+import type { RecurringDraft, RecurringExpense, RecurringExpenseInput } from '@/types/recurring';
+import { recurrenceFrequencies, recurrenceUnits } from '@/types/recurring';
+import { supportedCurrencies } from '@/types/currency';
+import { activeCategories, getCategoryList } from '@/lib/categories';
+import { roundToCurrency } from '@/lib/currency';
+import { findVendor } from '@/lib/vendor-directory';
+import { serializeRecurringDraft, serializeRecurringExpense } from '@/lib/expense-records';
+import { generateDueRecurringDrafts } from '@/lib/recurring-drafts';
+import {
+  getDueDate,
+  isCalendarDate,
+  scheduleForFrequency,
+  MAX_RECURRING_EXPENSES,
+} from '@/lib/recurring-expenses';
+
+const validateRecurringInput = (input: RecurringExpenseInput): { fields: RecurringExpenseInput } | { error: string } => {
+  const name = String(input.name || '').trim();
+  const company = String(input.company || '').trim();
+  const currency = String(input.currency || '').toUpperCase();
+  const amount = roundToCurrency(Number(input.amount), currency);
+  const endDate = input.endDate || null;
+  if (!name || name.length > 100) return { error: "Please enter what is paid for, in up to 100 characters." };
+  if (!company || company.length > 100) return { error: "Please enter the vendor, in up to 100 characters." };
+  if (!supportedCurrencies.includes(currency as typeof supportedCurrencies[number])) return { error: `Unsupported currency "${input.currency}".` };
+  if (!Number.isFinite(amount) || amount <= 0) return { error: "Please enter an amount greater than 0." };
+  if (!paymentMethods.includes(input.paymentMethod)) return { error: "Invalid payment method." };
+  if (!recurrenceFrequencies.includes(input.schedule?.frequency)) return { error: "Invalid schedule." };
+  const schedule = scheduleForFrequency(input.schedule.frequency, {
+    interval: Number(input.schedule.interval),
+    unit: recurrenceUnits.includes(input.schedule.unit) ? input.schedule.unit : 'month',
+  });
+  if (!Number.isInteger(schedule.interval) || schedule.interval < 1 || schedule.interval > 365) {
+    return { error: "The schedule repeats every 1 to 365 units." };
+  }
+  if (!isCalendarDate(input.startDate)) return { error: "Please enter the first due date." };
+  if (endDate !== null && (!isCalendarDate(endDate) || endDate < input.startDate)) return { error: "The end date cannot be before the first due date." };
+  return {
+    fields: {
+      name,
+      company,
+      category: String(input.category || ''),
+      amount,
+      currency,
+      paymentMethod: input.paymentMethod,
+      schedule,
+      startDate: input.startDate,
+      endDate,
+      active: input.active !== false,
+    },
+  };
+};
+
+async function loadCategories(adminDb: admin.firestore.Firestore, companyId: string | null) {
+  const companyDoc = companyId ? await adminDb.collection('companies').doc(companyId).get() : null;
+  return getCategoryList((companyDoc?.data() as Company | undefined)?.categories);
+}
+
+// Loads a recurring expense and checks that it belongs to the user
+async function getOwnRecurringExpense(adminDb: admin.firestore.Firestore, uid: string, recurringExpenseId: string): Promise<{ ref: admin.firestore.DocumentReference; template: RecurringExpense } | { error: string }> {
+  const ref = adminDb.collection('recurringExpenses').doc(recurringExpenseId);
+  const doc = await ref.get();
+  if (!doc.exists) return { error: "Recurring expense not found." };
+  const template = serializeRecurringExpense(doc.id, doc.data()!);
+  if (template.userId !== uid) return { error: "You are not authorized to change this recurring expense." };
+  return { ref, template };
+}
+
+export async function createRecurringExpense(idToken: string, input: RecurringExpenseInput): Promise<{ success: boolean; error?: string; recurringExpenseId?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const validated = validateRecurringInput(input);
+  if ('error' in validated) return { success: false, error: validated.error };
+  const fields = validated.fields;
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const companyId = (userDocSnap.data() as UserProfile | undefined)?.companyId || null;
+    if (!activeCategories(await loadCategories(adminDb, companyId)).some(category => category.id === fields.category)) {
+      return { success: false, error: `Unknown or archived category "${fields.category}".` };
+    }
+    const existing = await adminDb.collection('recurringExpenses').where('userId', '==', uid).get();
+    if (existing.size >= MAX_RECURRING_EXPENSES) return { success: false, error: `You can have at most ${MAX_RECURRING_EXPENSES} recurring expenses.` };
+
+    // Drafts carry the vendor's canonical name when it is in the directory; unknown vendors are added once an expense is saved
+    const vendor = await findVendor(adminDb, { userId: uid, companyId }, fields.company);
+    const ref = adminDb.collection('recurringExpenses').doc();
+    await ref.set({
+      ...fields,
+      userId: uid,
+      companyId,
+      company: vendor?.name || fields.company,
+      vendorId: vendor?.id || null,
+      generatedCount: 0,
+      nextDueDate: getDueDate(fields, 0),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    revalidatePath('/subscriptions');
+    return { success: true, recurringExpenseId: ref.id };
+  } catch (error: any) {
+    console.error("createRecurringExpense: Error creating recurring expense:", error);
+    return { success: false, error: error.message || "Failed to create the recurring expense." };
+  }
+}
+
+// Changes a recurring expense. A new start date or schedule applies to due dates after the last draft, so no charge
+// gets a second draft.
+export async function updateRecurringExpense(idToken: string, recurringExpenseId: string, input: RecurringExpenseInput): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const validated = validateRecurringInput(input);
+  if ('error' in validated) return { success: false, error: validated.error };
+  const fields = validated.fields;
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const found = await getOwnRecurringExpense(adminDb, uid, recurringExpenseId);
+    if ('error' in found) return { success: false, error: found.error };
+    const { ref, template } = found;
+    if (!activeCategories(await loadCategories(adminDb, template.companyId)).some(category => category.id === fields.category)) {
+      return { success: false, error: `Unknown or archived category "${fields.category}".` };
+    }
+
+    const companyChanged = fields.company !== template.company;
+    const vendor = companyChanged ? await findVendor(adminDb, { userId: uid, companyId: template.companyId }, fields.company) : null;
+
+    const lastGenerated = template.generatedCount > 0 ? getDueDate({ ...template, endDate: null }, template.generatedCount - 1) : null;
+    let generatedCount = 0;
+    while (lastGenerated && generatedCount < 10000 && getDueDate({ ...fields, endDate: null }, generatedCount)! <= lastGenerated) {
+      generatedCount++;
+    }
+
+    await ref.update({
+      ...fields,
+      company: companyChanged ? vendor?.name || fields.company : template.company,
+      ...(companyChanged ? { vendorId: vendor?.id || null } : {}),
+      generatedCount,
+      nextDueDate: getDueDate(fields, generatedCount),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    revalidatePath('/subscriptions');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`updateRecurringExpense: Error updating recurring expense ${recurringExpenseId}:`, error);
+    return { success: false, error: error.message || "Failed to update the recurring expense." };
+  }
+}
+
+// Deletes a recurring expense with its open drafts. Expenses saved for it stay.
+export async function deleteRecurringExpense(idToken: string, recurringExpenseId: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const found = await getOwnRecurringExpense(adminDb, uid, recurringExpenseId);
+    if ('error' in found) return { success: false, error: found.error };
+
+    const openDrafts = await adminDb.collection('recurringDrafts')
+      .where('userId', '==', uid)
+      .where('recurringExpenseId', '==', recurringExpenseId)
+      .where('status', '==', 'open')
+      .get();
+    const batch = adminDb.batch();
+    openDrafts.docs.slice(0, 499).forEach(doc => batch.delete(doc.ref));
+    batch.delete(found.ref);
+    await batch.commit();
+    revalidatePath('/subscriptions');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`deleteRecurringExpense: Error deleting recurring expense ${recurringExpenseId}:`, error);
+    return { success: false, error: error.message || "Failed to delete the recurring expense." };
+  }
+}
+
+// Generates the drafts of the user's recurring expenses that fell due. The scheduled job does the same for all users
+// (see generateAllRecurringDrafts); this catches up when the app is opened before it ran.
+export async function generateRecurringDrafts(idToken: string): Promise<{ success: boolean; error?: string; generated?: number; open?: number }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // Equality filters only, so no composite index is needed
+    const snapshot = await adminDb.collection('recurringExpenses').where('userId', '==', uid).where('active', '==', true).get();
+    const { generated } = await generateDueRecurringDrafts(adminDb, snapshot.docs.map(doc => serializeRecurringExpense(doc.id, doc.data())));
+
+    const open = await adminDb.collection('recurringDrafts').where('userId', '==', uid).where('status', '==', 'open').get();
+    if (generated > 0) revalidatePath('/subscriptions');
+    return { success: true, generated, open: open.size };
+  } catch (error: any) {
+    console.error("generateRecurringDrafts: Error generating drafts:", error);
+    return { success: false, error: error.message || "Failed to generate recurring drafts." };
+  }
+}
+
+// The user's recurring expenses, and their drafts waiting for review, oldest due date first
+export async function getRecurringExpenses(idToken: string): Promise<{ success: boolean; error?: string; recurringExpenses?: RecurringExpense[]; drafts?: RecurringDraft[] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const [templatesSnapshot, draftsSnapshot] = await Promise.all([
+      adminDb.collection('recurringExpenses').where('userId', '==', uid).get(),
+      adminDb.collection('recurringDrafts').where('userId', '==', uid).where('status', '==', 'open').get(),
+    ]);
+    const recurringExpenses = templatesSnapshot.docs
+      .map(doc => serializeRecurringExpense(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const drafts = draftsSnapshot.docs
+      .map(doc => serializeRecurringDraft(doc.id, doc.data()))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    return { success: true, recurringExpenses, drafts };
+  } catch (error: any) {
+    console.error("getRecurringExpenses: Error loading recurring expenses:", error);
+    return { success: false, error: error.message || "Failed to load recurring expenses." };
+  }
+}
+
+// Dismisses a draft, e.g. when the charge did not happen
+export async function skipRecurringDraft(idToken: string, draftId: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const ref = adminDb.collection('recurringDrafts').doc(draftId);
+    await adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) throw new Error("Draft not found.");
+      const draft = doc.data() as RecurringDraft;
+      if (draft.userId !== uid) throw new Error("You are not authorized to change this draft.");
+      if (draft.status !== 'open') throw new Error("This draft was already saved or skipped.");
+      transaction.update(ref, { status: 'skipped', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    });
+    revalidatePath('/subscriptions');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`skipRecurringDraft: Error skipping draft ${draftId}:`, error);
+    return { success: false, error: error.message || "Failed to skip the draft." };
+  }
+}
@@ -0,0 +1,225 @@
+// src/actions/reimbursement-actions.ts
+'use server';
+
+import admin from 'firebase-admin';
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import type { PayoutBatch, PayoutBatchInput, ReimbursementBalance } from '@/types/reimbursement';
+import type { UserProfile } from '@/types/user';
+import { serializeExpense, serializePayoutBatch, writeRevision } from '@/lib/expense-records';
+import { buildPayoutCsv, computeReimbursementBalance, groupPayees, isReimbursable, payoutBatchId, MAX_PAYOUT_EXPENSES, MAX_PAYOUT_REFERENCE_LENGTH } from '@/lib/reimbursements';
+import { sumByBaseCurrency } from '@/lib/currency';
+
+const isFinance = (userData: UserProfile | undefined): userData is UserProfile & { companyId: string } =>
+  !!userData?.companyId && (userData.role === 'owner' || userData.role === 'admin');
+
+const memberName = (profile: UserProfile | undefined, uid: string): string => profile?.displayName || profile?.email || uid;
+
+// Approved company expenses that were not paid back yet, for owners and admins to put into a payout batch. Grouped by
+// member, oldest first.
+export async function getOutstandingReimbursements(idToken: string): Promise<{ success: boolean; error?: string; expenses?: Expense[]; memberNames?: Record<string, string> }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!isFinance(userData)) return { success: false, error: "Only company owners and admins can pay out expenses." };
+
+    const snapshot = await adminDb.collection('expenses')
+      .where('companyId', '==', userData.companyId)
+      .where('status', '==', 'approved')
+      .get();
+    const expenses = snapshot.docs
+      .map(doc => serializeExpense(doc.id, doc.data(), false))
+      .sort((a, b) => a.userId.localeCompare(b.userId)
+        || (a.expenseDate as unknown as Date).getTime() - (b.expenseDate as unknown as Date).getTime());
+
+    const memberDocs = await Promise.all(Array.from(new Set(expenses.map(expense => expense.userId))).map(uid => adminDb.collection('users').doc(uid).get()));
+    const memberNames: Record<string, string> = {};
+    memberDocs.forEach(doc => { memberNames[doc.id] = memberName(doc.data() as UserProfile | undefined, doc.id); });
+
+    return { success: true, expenses, memberNames };
+  } catch (error: any) {
+    console.error("getOutstandingReimbursements: Error loading expenses:", error);
+    return { success: false, error: error.message || "Failed to load outstanding expenses." };
+  }
+}
+
+// Pays back the selected expenses: they are marked reimbursed with the batch's reference and paid date, and expense
+// reports whose expenses are all paid back are marked reimbursed too.
+export async function createPayoutBatch(idToken: string, input: PayoutBatchInput): Promise<{ success: boolean; error?: string; batchId?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const reference = String(input.reference || '').trim();
+  const paidAt = new Date(input.paidAt);
+  const expenseIds = Array.from(new Set((input.expenseIds || []).map(String)));
+  if (!reference || reference.length > MAX_PAYOUT_REFERENCE_LENGTH) {
+    return { success: false, error: `Please enter a reference of up to ${MAX_PAYOUT_REFERENCE_LENGTH} characters.` };
+  }
+  if (isNaN(paidAt.getTime())) return { success: false, error: "Please enter the date the payments were made." };
+  if (expenseIds.length === 0) return { success: false, error: "Select at least one expense to pay out." };
+  if (expenseIds.length > MAX_PAYOUT_EXPENSES) return { success: false, error: `A payout batch can hold at most ${MAX_PAYOUT_EXPENSES} expenses.` };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!isFinance(userData)) return { success: false, error: "Only company owners and admins can pay out expenses." };
+    const companyId = userData.companyId;
+
+    const batchRef = adminDb.collection('payoutBatches').doc(payoutBatchId(companyId, reference));
+    await adminDb.runTransaction(async transaction => {
+      if ((await transaction.get(batchRef)).exists) throw new Error(`A payout batch with the reference "${reference}" already exists.`);
+      const expenseRefs = expenseIds.map(expenseId => adminDb.collection('expenses').doc(expenseId));
+      const expenseDocs = await transaction.getAll(...expenseRefs);
+      const expenses = expenseDocs.map(doc => {
+        if (!doc.exists) throw new Error("One of the selected expenses no longer exists.");
+        const expense = { ...(doc.data() as Expense), id: doc.id };
+        if (expense.companyId !== companyId || !isReimbursable(expense)) {
+          throw new Error(`"${expense.company}" is not an approved expense of your company that is still to be paid back.`);
+        }
+        return expense;
+      });
+
+      // Reports are marked reimbursed once none of their expenses is left to pay back
+      const reportIds = Array.from(new Set(expenses.map(expense => expense.reportId).filter((reportId): reportId is string => !!reportId)));
+      const reportDocs = reportIds.length > 0 ? await transaction.getAll(...reportIds.map(reportId => adminDb.collection('expenseReports').doc(reportId))) : [];
+      const otherIds = Array.from(new Set(reportDocs.flatMap(doc => doc.exists ? (doc.data() as ExpenseReport).expenseIds : [])))
+        .filter(expenseId => !expenseIds.includes(expenseId));
+      const otherDocs = otherIds.length > 0 ? await transaction.getAll(...otherIds.map(expenseId => adminDb.collection('expenses').doc(expenseId))) : [];
+      const unpaidIds = new Set(otherDocs.filter(doc => doc.exists && (doc.data() as Expense).status !== 'reimbursed').map(doc => doc.id));
+
+      const payeeIds = Array.from(new Set(expenses.map(expense => expense.userId)));
+      const payeeDocs = await transaction.getAll(...payeeIds.map(payeeId => adminDb.collection('users').doc(payeeId)));
+      const members: Record<string, { name: string; email: string | null }> = {};
+      payeeDocs.forEach(doc => {
+        const profile = doc.data() as UserProfile | undefined;
+        members[doc.id] = { name: memberName(profile, doc.id), email: profile?.email || null };
+      });
+
+      const paidAtTimestamp = admin.firestore.Timestamp.fromDate(paidAt);
+      const reimbursement = { batchId: batchRef.id, reference, paidAt: paidAtTimestamp };
+      expenses.forEach((expense, index) => {
+        writeRevision(transaction, adminDb, expenseRefs[index], expense, { uid, profile: userData },
+          [{ field: 'status', before: expense.status, after: 'reimbursed' }],
+          { status: 'reimbursed', reimbursement });
+      });
+      reportDocs.forEach(doc => {
+        const report = doc.data() as ExpenseReport | undefined;
+        if (!report || report.status !== 'approved' || report.expenseIds.some(expenseId => unpaidIds.has(expenseId))) return;
+        transaction.update(doc.ref, { status: 'reimbursed', reimbursedAt: paidAtTimestamp, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      });
+
+      transaction.create(batchRef, {
+        companyId,
+        reference,
+        paidAt: paidAtTimestamp,
+        expenseIds,
+        payees: groupPayees(expenses, members),
+        totals: sumByBaseCurrency(expenses),
+        createdBy: uid,
+        createdByName: userData.displayName || userData.email || null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    revalidatePath('/reimbursements');
+    revalidatePath('/reports');
+    revalidatePath('/');
+    return { success: true, batchId: batchRef.id };
+  } catch (error: any) {
+    console.error("createPayoutBatch: Error creating payout batch:", error);
+    return { success: false, error: error.message || "Failed to create the payout batch." };
+  }
+}
+
+// The company's payout batches, most recently paid first. Owners, admins and auditors only.
+export async function getPayoutBatches(idToken: string): Promise<{ success: boolean; error?: string; batches?: PayoutBatch[] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!userData?.companyId || (userData.role !== 'owner' && userData.role !== 'admin' && userData.role !== 'auditor')) {
+      return { success: false, error: "You are not authorized to view payout batches." };
+    }
+
+    const snapshot = await adminDb.collection('payoutBatches').where('companyId', '==', userData.companyId).get();
+    const batches = snapshot.docs
+      .map(doc => serializePayoutBatch(doc.id, doc.data()))
+      .sort((a, b) => (b.paidAt as unknown as Date).getTime() - (a.paidAt as unknown as Date).getTime()
+        || (b.createdAt as unknown as Date).getTime() - (a.createdAt as unknown as Date).getTime());
+    return { success: true, batches };
+  } catch (error: any) {
+    console.error("getPayoutBatches: Error loading payout batches:", error);
+    return { success: false, error: error.message || "Failed to load payout batches." };
+  }
+}
+
+// The payment file of a batch, as CSV
+export async function exportPayoutBatchCsv(idToken: string, batchId: string): Promise<{ success: boolean; error?: string; csv?: string; filename?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const userDocSnap = await adminDb.collection('users').doc(decodedToken.uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+
+    const batchDoc = await adminDb.collection('payoutBatches').doc(batchId).get();
+    if (!batchDoc.exists) return { success: false, error: "Payout batch not found." };
+    const batch = serializePayoutBatch(batchDoc.id, batchDoc.data()!);
+    if (userData?.companyId !== batch.companyId || (userData.role !== 'owner' && userData.role !== 'admin' && userData.role !== 'auditor')) {
+      return { success: false, error: "You are not authorized to export this payout batch." };
+    }
+
+    const filename = `payout-${batch.reference.replace(/[^A-Za-z0-9_-]+/g, '_')}.csv`;
+    return { success: true, csv: buildPayoutCsv(batch), filename };
+  } catch (error: any) {
+    console.error(`exportPayoutBatchCsv: Error exporting payout batch ${batchId}:`, error);
+    return { success: false, error: error.message || "Failed to export the payout batch." };
+  }
+}
+
+// The user's own approved company expenses: what is still to be paid back, what was, and in which batches
+export async function getReimbursementBalance(idToken: string): Promise<{ success: boolean; error?: string; balance?: ReimbursementBalance }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!userData?.companyId) return { success: true, balance: computeReimbursementBalance([]) };
+
+    const snapshot = await adminDb.collection('expenses')
+      .where('userId', '==', uid)
+      .where('companyId', '==', userData.companyId)
+      .get();
+    const expenses = snapshot.docs.map(doc => serializeExpense(doc.id, doc.data(), false));
+    return { success: true, balance: computeReimbursementBalance(expenses) };
+  } catch (error: any) {
+    console.error("getReimbursementBalance: Error loading balance:", error);
+    return { success: false, error: error.message || "Failed to load your balance." };
+  }
+}
@@ -0,0 +1,461 @@
+// src/actions/report-actions.ts
+'use server';
+
+import admin from 'firebase-admin';
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { ExpenseReport, ExpenseReportInput, ExpenseReportTotals } from '@/types/report';
+import type { UserProfile } from '@/types/user';
+import type { ApprovalDecision, ApprovalStep } from '@/types/approval';
+import { cleanApprovalComment, decideApprovalStep, startApprovalRound, MAX_APPROVAL_COMMENT_LENGTH } from '@/lib/approvals';
+import { loadApprovalSteps, toApprovalActor } from '@/lib/approval-workflow';
+import { serializeExpense, serializeExpenseReport, writeRevision } from '@/lib/expense-records';
+import { canDecideReport, computeReportTotals, getReportDateError, getReportExpenseError, isReportEditable, toReportStatus, MAX_REPORT_EXPENSES } from '@/lib/expense-reports';
+import { getExpenseBaseAmount } from '@/lib/currency';
+import { recheckExpensePolicies } from '@/lib/policy-enforcement';
+import { describeApprovalPolicyBlocker, findApprovalPolicyBlocker } from '@/lib/expense-policies';
+import type { PolicyViolation } from '@/types/policy';
+
+interface Editor {
+  uid: string;
+  profile: UserProfile;
+}
+
+const validateReportInput = (input: ExpenseReportInput): { fields: ExpenseReportInput } | { error: string } => {
+  const title = String(input.title || '').trim();
+  const purpose = String(input.purpose || '').trim();
+  const startDate = new Date(input.startDate);
+  const endDate = new Date(input.endDate);
+  const expenseIds = Array.from(new Set((input.expenseIds || []).map(String)));
+  if (!title || title.length > 100) return { error: "Please enter a title of up to 100 characters." };
+  if (purpose.length > 500) return { error: "The purpose can be at most 500 characters." };
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return { error: "Please enter the start and end dates of the report." };
+  if (startDate > endDate) return { error: "The report cannot end before it starts." };
+  if (expenseIds.length > MAX_REPORT_EXPENSES) return { error: `A report can hold at most ${MAX_REPORT_EXPENSES} expenses.` };
+  return { fields: { title, purpose, startDate, endDate, expenseIds } };
+};
+
+// Sets the status of an expense in a transaction, recording a revision if it changed
+const setExpenseStatus = (
+  transaction: admin.firestore.Transaction,
+  adminDb: admin.firestore.Firestore,
+  expenseRef: admin.firestore.DocumentReference,
+  expense: Expense,
+  editor: Editor,
+  status: ExpenseStatus,
+  update: admin.firestore.UpdateData<admin.firestore.DocumentData>,
+) => {
+  if (expense.status !== status) {
+    writeRevision(transaction, adminDb, expenseRef, expense, editor, [{ field: 'status', before: expense.status, after: status }], { ...update, status });
+  } else {
+    transaction.update(expenseRef, update);
+  }
+};
+
+const expenseRefs = (adminDb: admin.firestore.Firestore, expenseIds: string[]) =>
+  expenseIds.map(expenseId => adminDb.collection('expenses').doc(expenseId));
+
+// Creates or changes a draft. Added expenses leave their own approval and wait for the report's, keeping their status
+// until the report is submitted; removed ones go through the approval chain on their own again.
+async function saveReportDraft(adminDb: admin.firestore.Firestore, editor: Editor, reportRef: admin.firestore.DocumentReference, fields: ExpenseReportInput): Promise<void> {
+  const existingDoc = await reportRef.get();
+  const removedIds = existingDoc.exists
+    ? (existingDoc.data() as ExpenseReport).expenseIds.filter(expenseId => !fields.expenseIds.includes(expenseId))
+    : [];
+  const removedSteps = new Map<string, ApprovalStep[]>();
+  await Promise.all(removedIds.map(async expenseId => {
+    const expenseDoc = await adminDb.collection('expenses').doc(expenseId).get();
+    const expense = expenseDoc.data() as Expense | undefined;
+    if (expense?.companyId) removedSteps.set(expenseId, await loadApprovalSteps(adminDb, expense.companyId, expense.userId, getExpenseBaseAmount(expense)));
+  }));
+
+  await adminDb.runTransaction(async transaction => {
+    const currentDoc = await transaction.get(reportRef);
+    const current = currentDoc.exists ? currentDoc.data() as ExpenseReport : null;
+    if (current && !isReportEditable(current)) throw new Error("Only draft and rejected reports can be changed.");
+
+    const report = { id: reportRef.id, userId: editor.uid, companyId: editor.profile.companyId! };
+    const ids = [...fields.expenseIds, ...removedIds];
+    const refs = expenseRefs(adminDb, ids);
+    const docs = refs.length > 0 ? await transaction.getAll(...refs) : [];
+
+    docs.forEach((doc, index) => {
+      if (index < fields.expenseIds.length) {
+        if (!doc.exists) throw new Error("One of the selected expenses no longer exists.");
+        const expense = doc.data() as Expense;
+        const error = getReportExpenseError(expense, report)
+          || getReportDateError((expense.expenseDate as unknown as admin.firestore.Timestamp).toDate(), expense.company, fields);
+        if (error) throw new Error(error);
+        if (expense.reportId !== reportRef.id) {
+          transaction.update(refs[index], { reportId: reportRef.id, pendingApproverIds: [] });
+        }
+      } else if (doc.exists) {
+        const expense = doc.data() as Expense;
+        const state = startApprovalRound(expense.approval, removedSteps.get(doc.id) || [], toApprovalActor(editor.uid, editor.profile, null));
+        setExpenseStatus(transaction, adminDb, refs[index], expense, editor, state.status, {
+          reportId: null,
+          approval: state.approval,
+          pendingApproverIds: state.pendingApproverIds,
+        });
+      }
+    });
+
+    const data = {
+      title: fields.title,
+      purpose: fields.purpose,
+      startDate: admin.firestore.Timestamp.fromDate(fields.startDate),
+      endDate: admin.firestore.Timestamp.fromDate(fields.endDate),
+      expenseIds: fields.expenseIds,
+    };
+    if (current) {
+      transaction.update(reportRef, { ...data, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    } else {
+      transaction.create(reportRef, {
+        ...data,
+        userId: report.userId,
+        companyId: report.companyId,
+        status: 'draft',
+        approval: null,
+        pendingApproverIds: [],
+        submittedAt: null,
+        reimbursedAt: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+}
+
+// Who can see a report: its submitter, the company's owners, admins and auditors once it is submitted, and its approvers
+const canViewReport = (report: ExpenseReport, uid: string, userData: UserProfile | undefined): boolean => {
+  if (report.userId === uid) return true;
+  if (userData?.companyId !== report.companyId || report.status === 'draft') return false;
+  return userData.role === 'owner' || userData.role === 'admin' || userData.role === 'auditor'
+    || !!report.approval?.steps.some(step => step.approverIds.includes(uid));
+};
+
+export async function createExpenseReport(idToken: string, input: ExpenseReportInput): Promise<{ success: boolean; error?: string; reportId?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const validated = validateReportInput(input);
+  if ('error' in validated) return { success: false, error: validated.error };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!userData?.companyId) return { success: false, error: "Expense reports are for company expenses. Join a company first." };
+
+    const reportRef = adminDb.collection('expenseReports').doc();
+    await saveReportDraft(adminDb, { uid, profile: userData }, reportRef, validated.fields);
+    revalidatePath('/reports');
+    return { success: true, reportId: reportRef.id };
+  } catch (error: any) {
+    console.error("createExpenseReport: Error creating report:", error);
+    return { success: false, error: error.message || "Failed to create the report." };
+  }
+}
+
+// Changes the details and expenses of a draft or rejected report
+export async function updateExpenseReport(idToken: string, reportId: string, input: ExpenseReportInput): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const validated = validateReportInput(input);
+  if ('error' in validated) return { success: false, error: validated.error };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const reportRef = adminDb.collection('expenseReports').doc(reportId);
+    const reportDoc = await reportRef.get();
+    if (!reportDoc.exists) return { success: false, error: "Report not found." };
+    if ((reportDoc.data() as ExpenseReport).userId !== uid) return { success: false, error: "Only the submitter can change a report." };
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    await saveReportDraft(adminDb, { uid, profile: userDocSnap.data() as UserProfile }, reportRef, validated.fields);
+    revalidatePath('/reports');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`updateExpenseReport: Error updating report ${reportId}:`, error);
+    return { success: false, error: error.message || "Failed to update the report." };
+  }
+}
+
+// Deletes a draft or rejected report. Its expenses go through the approval chain on their own.
+export async function deleteExpenseReport(idToken: string, reportId: string): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const reportRef = adminDb.collection('expenseReports').doc(reportId);
+    const reportDoc = await reportRef.get();
+    if (!reportDoc.exists) return { success: false, error: "Report not found." };
+    const report = reportDoc.data() as ExpenseReport;
+    if (report.userId !== uid) return { success: false, error: "Only the submitter can delete a report." };
+    if (!isReportEditable(report)) return { success: false, error: "Only draft and rejected reports can be deleted." };
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    await saveReportDraft(adminDb, { uid, profile: userDocSnap.data() as UserProfile }, reportRef, {
+      title: report.title,
+      purpose: report.purpose,
+      startDate: (report.startDate as unknown as admin.firestore.Timestamp).toDate(),
+      endDate: (report.endDate as unknown as admin.firestore.Timestamp).toDate(),
+      expenseIds: [],
+    });
+    await reportRef.delete();
+    revalidatePath('/reports');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`deleteExpenseReport: Error deleting report ${reportId}:`, error);
+    return { success: false, error: error.message || "Failed to delete the report." };
+  }
+}
+
+// Sends a draft or rejected report through the company's approval chain. Thresholds apply to the report's total,
+// so a trip is approved at the level its whole cost calls for.
+export async function submitExpenseReport(idToken: string, reportId: string, comment?: string | null): Promise<{ success: boolean; error?: string; status?: ExpenseReport['status'] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const note = cleanApprovalComment(comment);
+  if (note && note.length > MAX_APPROVAL_COMMENT_LENGTH) {
+    return { success: false, error: `Comments can be at most ${MAX_APPROVAL_COMMENT_LENGTH} characters.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    const reportRef = adminDb.collection('expenseReports').doc(reportId);
+    const reportDoc = await reportRef.get();
+    if (!reportDoc.exists) return { success: false, error: "Report not found." };
+    const report = reportDoc.data() as ExpenseReport;
+    if (report.userId !== uid) return { success: false, error: "Only the submitter can submit a report." };
+    if (!isReportEditable(report)) return { success: false, error: "This report was already submitted." };
+    if (report.expenseIds.length === 0) return { success: false, error: "Add at least one expense before submitting the report." };
+
+    const expenseDocs = await adminDb.getAll(...expenseRefs(adminDb, report.expenseIds));
+    const baseAmount = expenseDocs.reduce((sum, doc) => sum + (doc.exists ? getExpenseBaseAmount(doc.data() as Expense) : 0), 0);
+    const steps = await loadApprovalSteps(adminDb, report.companyId, uid, baseAmount);
+
+    const status = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(reportRef);
+      const current = currentDoc.data() as ExpenseReport;
+      if (!isReportEditable(current)) throw new Error("This report was already submitted.");
+      const refs = expenseRefs(adminDb, current.expenseIds);
+      const docs = refs.length > 0 ? await transaction.getAll(...refs) : [];
+
+      const state = startApprovalRound(current.approval, steps, toApprovalActor(uid, userData, note));
+      docs.forEach((doc, index) => {
+        if (doc.exists) setExpenseStatus(transaction, adminDb, refs[index], doc.data() as Expense, { uid, profile: userData }, state.status, { pendingApproverIds: [] });
+      });
+      const reportStatus = toReportStatus(state.status);
+      transaction.update(reportRef, {
+        status: reportStatus,
+        approval: state.approval,
+        pendingApproverIds: state.pendingApproverIds,
+        submittedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return reportStatus;
+    });
+
+    revalidatePath('/reports');
+    revalidatePath('/');
+    return { success: true, status };
+  } catch (error: any) {
+    console.error(`submitExpenseReport: Error submitting report ${reportId}:`, error);
+    return { success: false, error: error.message || "Failed to submit the report." };
+  }
+}
+
+// Records an approver's decision on the current step of a report. Once the report is approved or rejected, its
+// expenses are approved or rejected with it.
+export async function decideExpenseReport(idToken: string, reportId: string, decision: ApprovalDecision, comment?: string | null): Promise<{ success: boolean; error?: string; status?: ExpenseReport['status'] }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  if (decision !== 'approved' && decision !== 'rejected') return { success: false, error: "Invalid decision." };
+  const reason = cleanApprovalComment(comment);
+  if (decision === 'rejected' && !reason) return { success: false, error: "Please give a reason for rejecting the report." };
+  if (reason && reason.length > MAX_APPROVAL_COMMENT_LENGTH) {
+    return { success: false, error: `Comments can be at most ${MAX_APPROVAL_COMMENT_LENGTH} characters.` };
+  }
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!userDocSnap.exists) return { success: false, error: "User profile not found." };
+    const userData = userDocSnap.data() as UserProfile;
+
+    const reportRef = adminDb.collection('expenseReports').doc(reportId);
+
+    // Approvals check each expense against the company's policies again, and are refused while one breaks a blocking
+    // policy or lacks a justification one needs
+    const violationsByExpense = new Map<string, PolicyViolation[]>();
+    if (decision === 'approved') {
+      const reportDoc = await reportRef.get();
+      const reportIds = reportDoc.exists ? (reportDoc.data() as ExpenseReport).expenseIds : [];
+      const expenseDocs = reportIds.length > 0 ? await adminDb.getAll(...expenseRefs(adminDb, reportIds)) : [];
+      for (const doc of expenseDocs.filter(doc => doc.exists)) {
+        const expense = doc.data() as Expense;
+        const violations = await recheckExpensePolicies(adminDb, doc.id, expense);
+        const blocker = findApprovalPolicyBlocker(violations, expense.policyJustification);
+        if (blocker) {
+          const hint = blocker.action === 'justify' ? ' Reject the report so the submitter can add one.' : '';
+          return { success: false, error: `The report cannot be approved: the expense at ${expense.company} ${describeApprovalPolicyBlocker(blocker)}${hint}` };
+        }
+        violationsByExpense.set(doc.id, violations);
+      }
+    }
+
+    const status = await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(reportRef);
+      if (!currentDoc.exists) throw new Error("Report not found.");
+      const current = currentDoc.data() as ExpenseReport;
+      if (!current.approval || !canDecideReport(current, { ...userData, uid })) throw new Error("This report is not waiting for your approval.");
+      const refs = expenseRefs(adminDb, current.expenseIds);
+      const docs = refs.length > 0 ? await transaction.getAll(...refs) : [];
+
+      const next = decideApprovalStep(current.approval, decision, toApprovalActor(uid, userData, reason));
+      if (next.status !== 'pending') {
+        docs.forEach((doc, index) => {
+          if (!doc.exists) return;
+          const policyViolations = violationsByExpense.get(doc.id);
+          setExpenseStatus(transaction, adminDb, refs[index], doc.data() as Expense, { uid, profile: userData }, next.status, {
+            pendingApproverIds: [],
+            ...(policyViolations ? { policyViolations } : {}),
+          });
+        });
+      }
+      const reportStatus = toReportStatus(next.status);
+      transaction.update(reportRef, {
+        status: reportStatus,
+        approval: next.approval,
+        pendingApproverIds: next.pendingApproverIds,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return reportStatus;
+    });
+
+    revalidatePath('/reports');
+    revalidatePath('/approvals');
+    revalidatePath('/');
+    return { success: true, status };
+  } catch (error: any) {
+    console.error(`decideExpenseReport: Error deciding report ${reportId}:`, error);
+    return { success: false, error: error.message || "Failed to record the decision." };
+  }
+}
+
+// Loads the expenses of the reports and computes their totals, keyed by report ID
+async function loadReportTotals(adminDb: admin.firestore.Firestore, reports: ExpenseReport[]): Promise<Record<string, ExpenseReportTotals>> {
+  const expenseIds = Array.from(new Set(reports.flatMap(report => report.expenseIds)));
+  const docs = expenseIds.length > 0 ? await adminDb.getAll(...expenseRefs(adminDb, expenseIds)) : [];
+  const expenses = new Map(docs.filter(doc => doc.exists).map(doc => [doc.id, serializeExpense(doc.id, doc.data()!, false)]));
+  const totals: Record<string, ExpenseReportTotals> = {};
+  reports.forEach(report => {
+    totals[report.id!] = computeReportTotals(report.expenseIds.map(expenseId => expenses.get(expenseId)).filter((expense): expense is Expense => !!expense));
+  });
+  return totals;
+}
+
+async function loadSubmitterNames(adminDb: admin.firestore.Firestore, userIds: string[]): Promise<Record<string, string>> {
+  const docs = await Promise.all(Array.from(new Set(userIds)).map(userId => adminDb.collection('users').doc(userId).get()));
+  const names: Record<string, string> = {};
+  docs.forEach(doc => {
+    const profile = doc.data() as UserProfile | undefined;
+    names[doc.id] = profile?.displayName || profile?.email || doc.id;
+  });
+  return names;
+}
+
+// The user's own reports, plus every submitted report of the company for owners, admins and auditors. Newest first.
+export async function getExpenseReports(idToken: string): Promise<{ success: boolean; error?: string; reports?: ExpenseReport[]; totals?: Record<string, ExpenseReportTotals>; submitterNames?: Record<string, string> }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    const userData = userDocSnap.data() as UserProfile | undefined;
+    if (!userData?.companyId) return { success: true, reports: [], totals: {}, submitterNames: {} };
+    const seesCompanyReports = userData.role === 'owner' || userData.role === 'admin' || userData.role === 'auditor';
+
+    const snapshot = seesCompanyReports
+      ? await adminDb.collection('expenseReports').where('companyId', '==', userData.companyId).get()
+      : await adminDb.collection('expenseReports').where('userId', '==', uid).where('companyId', '==', userData.companyId).get();
+    const reports = snapshot.docs
+      .map(doc => serializeExpenseReport(doc.id, doc.data()))
+      .filter(report => canViewReport(report, uid, userData))
+      .sort((a, b) => (b.createdAt as unknown as Date).getTime() - (a.createdAt as unknown as Date).getTime());
+
+    const [totals, submitterNames] = await Promise.all([
+      loadReportTotals(adminDb, reports),
+      loadSubmitterNames(adminDb, reports.map(report => report.userId)),
+    ]);
+    return { success: true, reports, totals, submitterNames };
+  } catch (error: any) {
+    console.error("getExpenseReports: Error loading reports:", error);
+    return { success: false, error: error.message || "Failed to load reports." };
+  }
+}
+
+// A report with its expenses and totals
+export async function getExpenseReport(idToken: string, reportId: string): Promise<{ success: boolean; error?: string; report?: ExpenseReport; expenses?: Expense[]; totals?: ExpenseReportTotals; submitterName?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    const reportDoc = await adminDb.collection('expenseReports').doc(reportId).get();
+    if (!reportDoc.exists) return { success: false, error: "Report not found." };
+    const report = serializeExpenseReport(reportDoc.id, reportDoc.data()!);
+    const userDocSnap = await adminDb.collection('users').doc(uid).get();
+    if (!canViewReport(report, uid, userDocSnap.data() as UserProfile | undefined)) {
+      return { success: false, error: "You are not authorized to view this report." };
+    }
+
+    const docs = report.expenseIds.length > 0 ? await adminDb.getAll(...expenseRefs(adminDb, report.expenseIds)) : [];
+    const expenses = docs.filter(doc => doc.exists).map(doc => serializeExpense(doc.id, doc.data()!, false));
+    const submitterNames = await loadSubmitterNames(adminDb, [report.userId]);
+    return { success: true, report, expenses, totals: computeReportTotals(expenses), submitterName: submitterNames[report.userId] };
+  } catch (error: any) {
+    console.error(`getExpenseReport: Error loading report ${reportId}:`, error);
+    return { success: false, error: error.message || "Failed to load the report." };
+  }
+}
@@ -0,0 +1,156 @@
+// src/actions/vendor-actions.ts
+'use server';
+
+import admin from 'firebase-admin';
+import { revalidatePath } from 'next/cache';
+import { getAdminAuth, getAdminDb } from '@/lib/firebaseAdmin';
+import type { Vendor, VendorUpdate } from '@/types/vendor';
+import type { UserProfile } from '@/types/user';
+import type { Company } from '@/types/company';
+import { activeCategories, getCategoryList } from '@/lib/categories';
+import { vendorAliasKeys, vendorKey } from '@/lib/vendors';
+import { completeVendorReassignment, loadVendors, type VendorScope } from '@/lib/vendor-directory';
+
+const MAX_ALIASES = 50;
+
+// The vendor directory of the user: the company's, or their personal one. Owners and admins manage company vendors.
+async function getVendorContext(adminDb: admin.firestore.Firestore, uid: string): Promise<{ scope: VendorScope; canManage: boolean; profile: UserProfile | null }> {
+  const userDocSnap = await adminDb.collection('users').doc(uid).get();
+  const userProfile = userDocSnap.data() as UserProfile | undefined;
+  const companyId = userProfile?.companyId || null;
+  return {
+    scope: { userId: uid, companyId },
+    canManage: !companyId || userProfile?.role === 'owner' || userProfile?.role === 'admin',
+    profile: userProfile || null,
+  };
+}
+
+const belongsToScope = (vendor: Vendor, scope: VendorScope): boolean =>
+  scope.companyId ? vendor.companyId === scope.companyId : vendor.companyId === null && vendor.userId === scope.userId;
+
+export async function getVendors(idToken: string): Promise<{ success: boolean; error?: string; vendors?: Vendor[]; canManage?: boolean }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const { scope, canManage } = await getVendorContext(adminDb, decodedToken.uid);
+    const vendors = await loadVendors(adminDb, scope);
+    vendors.sort((a, b) => a.name.localeCompare(b.name));
+    return { success: true, vendors, canManage };
+  } catch (error: any) {
+    console.error("getVendors: Error fetching vendors:", error);
+    return { success: false, error: error.message || "Failed to fetch vendors." };
+  }
+}
+
+// Edits a vendor. A new name is applied to the vendor's existing expenses that can still be edited.
+// Names and aliases that belong to another vendor are rejected; such vendors should be merged instead.
+// Saving a vendor whose rename or merge did not finish finishes it.
+export async function updateVendor(idToken: string, vendorId: string, update: VendorUpdate): Promise<{ success: boolean; error?: string }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const name = String(update.name || '').trim();
+  const aliases = Array.from(new Set((update.aliases || []).map(alias => String(alias).trim()).filter(Boolean)));
+  const taxId = update.taxId ? String(update.taxId).trim() || null : null;
+  if (!vendorKey(name) || name.length > 100) return { success: false, error: "Please enter a vendor name of up to 100 characters." };
+  if (aliases.length > MAX_ALIASES || aliases.some(alias => alias.length > 100)) {
+    return { success: false, error: `A vendor can have at most ${MAX_ALIASES} aliases of up to 100 characters.` };
+  }
+  if ((taxId?.length ?? 0) > 40) return { success: false, error: "Tax IDs can be at most 40 characters." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const { scope, canManage, profile } = await getVendorContext(adminDb, decodedToken.uid);
+    if (!profile) return { success: false, error: "User profile not found." };
+    if (!canManage) return { success: false, error: "Only owners and admins can edit company vendors." };
+
+    const vendors = await loadVendors(adminDb, scope);
+    const vendor = vendors.find(candidate => candidate.id === vendorId);
+    if (!vendor || !belongsToScope(vendor, scope)) return { success: false, error: "Vendor not found." };
+
+    if (update.defaultCategory) {
+      const companyDoc = scope.companyId ? await adminDb.collection('companies').doc(scope.companyId).get() : null;
+      const categories = getCategoryList((companyDoc?.data() as Company | undefined)?.categories);
+      if (!activeCategories(categories).some(category => category.id === update.defaultCategory)) {
+        return { success: false, error: `Unknown or archived category "${update.defaultCategory}".` };
+      }
+    }
+
+    // Vendors still being merged into this one share its aliases until they are deleted
+    const pendingSourceIds = vendor.pendingReassignment?.sourceIds || [];
+    const aliasKeys = vendorAliasKeys(name, aliases);
+    const taken = vendors.find(other => other.id !== vendorId && !pendingSourceIds.includes(other.id) && other.aliasKeys.some(key => aliasKeys.includes(key)));
+    if (taken) {
+      return { success: false, error: `"${taken.name}" already uses one of these names. Merge the two vendors instead.` };
+    }
+
+    await adminDb.collection('vendors').doc(vendorId).update({
+      name,
+      aliases,
+      aliasKeys,
+      defaultCategory: update.defaultCategory || null,
+      taxId,
+      ...(name !== vendor.name ? { pendingReassignment: { sourceIds: pendingSourceIds } } : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await completeVendorReassignment(adminDb, scope, vendorId, { uid: decodedToken.uid, profile });
+    revalidatePath('/vendors');
+    revalidatePath('/');
+    return { success: true };
+  } catch (error: any) {
+    console.error("updateVendor: Error updating vendor:", error);
+    return { success: false, error: error.message || "Failed to update vendor." };
+  }
+}
+
+// Folds duplicate vendors into one: their names and aliases become aliases of the target, their expenses move to it,
+// and missing details are taken from them. The merge is recorded on the target first, and the merged vendors are only
+// deleted once all their expenses moved; running the merge again after a failure picks up where it stopped.
+export async function mergeVendors(idToken: string, targetId: string, sourceIds: string[]): Promise<{ success: boolean; error?: string; movedExpenses?: number }> {
+  const adminAuth = getAdminAuth();
+  const adminDb = getAdminDb();
+  if (!adminAuth || !adminDb) return { success: false, error: "Admin SDK not initialized." };
+  if (!idToken) return { success: false, error: "Auth token not provided." };
+
+  const mergedIds = Array.from(new Set(sourceIds)).filter(id => id !== targetId);
+  if (mergedIds.length === 0) return { success: false, error: "Select at least one other vendor to merge." };
+
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(idToken);
+    const { scope, canManage, profile } = await getVendorContext(adminDb, decodedToken.uid);
+    if (!profile) return { success: false, error: "User profile not found." };
+    if (!canManage) return { success: false, error: "Only owners and admins can merge company vendors." };
+
+    const vendors = await loadVendors(adminDb, scope);
+    const target = vendors.find(vendor => vendor.id === targetId);
+    const merged = mergedIds.map(id => vendors.find(vendor => vendor.id === id));
+    if (!target || merged.some(vendor => !vendor)) return { success: false, error: "Vendor not found." };
+    const sources = merged as Vendor[];
+
+    const aliases = Array.from(new Set([...target.aliases, ...sources.flatMap(vendor => [vendor.name, ...vendor.aliases])]))
+      .filter(alias => alias !== target.name);
+    await adminDb.collection('vendors').doc(target.id).update({
+      aliases,
+      aliasKeys: vendorAliasKeys(target.name, aliases),
+      defaultCategory: target.defaultCategory || sources.find(vendor => vendor.defaultCategory)?.defaultCategory || null,
+      taxId: target.taxId || sources.find(vendor => vendor.taxId)?.taxId || null,
+      pendingReassignment: { sourceIds: Array.from(new Set([...(target.pendingReassignment?.sourceIds || []), ...mergedIds])) },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    const movedExpenses = await completeVendorReassignment(adminDb, scope, target.id, { uid: decodedToken.uid, profile });
+
+    revalidatePath('/vendors');
+    revalidatePath('/');
+    return { success: true, movedExpenses };
+  } catch (error: any) {
+    console.error("mergeVendors: Error merging vendors:", error);
+    return { success: false, error: error.message || "Failed to merge vendors." };
+  }
+}
+
@@ -0,0 +1,84 @@
+// src/ai/eval/extraction-scoring.ts
+import type { ExtractReceiptDataOutput } from '@/ai/flows/extract-receipt-data';
+import { textSimilarity } from '@/lib/duplicate-detection';
+
+export const extractionEvalFields = ['vendor', 'date', 'total', 'items', 'category', 'paymentMethod'] as const;
+export type ExtractionEvalField = typeof extractionEvalFields[number];
+
+// The expected values for a golden receipt, as stored in '<receipt>.expected.json'
+export interface ExpectedReceipt {
+  company: string;
+  expenseDate: string; // YYYY-MM-DD
+  total: number;
+  category: ExtractReceiptDataOutput['category'];
+  paymentMethod: ExtractReceiptDataOutput['paymentMethod'];
+  items: Array<{ name: string; quantity?: number; netPrice: number }>;
+}
+
+export interface ReceiptScore {
+  // 0..1 per field; every field except items is either 0 or 1
+  fields: Record<ExtractionEvalField, number>;
+  // Expected and actual values of the fields that did not score 1
+  mismatches: Partial<Record<ExtractionEvalField, { expected: unknown; actual: unknown }>>;
+}
+
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const AMOUNT_TOLERANCE = 0.005;
+
+const amountsEqual = (a: number | null, b: number | null): boolean =>
+  a !== null && b !== null && Math.abs(a - b) <= AMOUNT_TOLERANCE;
+
+// Share of items matched one-to-one by name, price and (when expected) quantity. Extra extracted items count against the rate.
+export const itemMatchRate = (expected: ExpectedReceipt['items'], actual: ExtractReceiptDataOutput['items']): number => {
+  if (expected.length === 0 && actual.length === 0) return 1;
+  const unmatched = [...actual];
+  let matched = 0;
+  expected.forEach(item => {
+    const index = unmatched.findIndex(candidate =>
+      textSimilarity(item.name, candidate.name) >= NAME_SIMILARITY_THRESHOLD
+      && amountsEqual(item.netPrice, candidate.netPrice)
+      && (item.quantity === undefined || item.quantity === candidate.quantity));
+    if (index >= 0) {
+      matched++;
+      unmatched.splice(index, 1);
+    }
+  });
+  return matched / Math.max(expected.length, actual.length);
+};
+
+export const scoreExtraction = (expected: ExpectedReceipt, actual: ExtractReceiptDataOutput): ReceiptScore => {
+  const values: Record<ExtractionEvalField, { expected: unknown; actual: unknown; score: number }> = {
+    vendor: {
+      expected: expected.company,
+      actual: actual.company,
+      score: textSimilarity(expected.company, actual.company) >= NAME_SIMILARITY_THRESHOLD ? 1 : 0,
+    },
+    date: { expected: expected.expenseDate, actual: actual.expenseDate, score: expected.expenseDate === actual.expenseDate ? 1 : 0 },
+    total: { expected: expected.total, actual: actual.total, score: amountsEqual(expected.total, actual.total) ? 1 : 0 },
+    items: { expected: expected.items, actual: actual.items, score: itemMatchRate(expected.items, actual.items) },
+    category: { expected: expected.category, actual: actual.category, score: expected.category === actual.category ? 1 : 0 },
+    paymentMethod: {
+      expected: expected.paymentMethod,
+      actual: actual.paymentMethod,
+      score: expected.paymentMethod === actual.paymentMethod ? 1 : 0,
+    },
+  };
+
+  const score: ReceiptScore = { fields: {} as ReceiptScore['fields'], mismatches: {} };
+  extractionEvalFields.forEach(field => {
+    const { score: fieldScore, ...mismatch } = values[field];
+    score.fields[field] = fieldScore;
+    if (fieldScore < 1) score.mismatches[field] = mismatch;
+  });
+  return score;
+};
+
+// Mean score per field over the receipts that were extracted. Receipts that failed to extract score 0 on every field.
+export const summarizeScores = (scores: Array<ReceiptScore | null>): Record<ExtractionEvalField, number> => {
+  const summary = {} as Record<ExtractionEvalField, number>;
+  extractionEvalFields.forEach(field => {
+    const total = scores.reduce((sum, score) => sum + (score ? score.fields[field] : 0), 0);
+    summary[field] = scores.length > 0 ? total / scores.length : 0;
+  });
+  return summary;
+};
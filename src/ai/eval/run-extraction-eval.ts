@@ -0,0 +1,201 @@
+// src/ai/eval/run-extraction-eval.ts
+// Scores a receipt extraction provider against the golden receipts in eval/extraction/receipts.
+//
+//   npm run eval:extraction -- --provider gemini --record      # live run, saving the raw responses
+//   npm run eval:extraction -- --provider gemini --replay      # offline re-run from the saved responses
+//   npm run eval:extraction -- --provider offline --baseline eval/extraction/reports/<earlier>.json
+import { config } from 'dotenv';
+config();
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ExtractionProviderName } from '@/types/extraction-provider';
+import { extractionProviderNames } from '@/types/extraction-provider';
+import type { PartialExtractionOutput } from '@/ai/extraction-output';
+import { normalizeExtractionOutput } from '@/ai/extraction-output';
+import { applyPrintedValues } from '@/ai/printed-values';
+import { createFixtureExtractionProvider, getReceiptExtractionProvider, receiptFixtureKey } from '@/ai/receipt-extraction';
+import type { ExpectedReceipt, ExtractionEvalField, ReceiptScore } from '@/ai/eval/extraction-scoring';
+import { extractionEvalFields, scoreExtraction, summarizeScores } from '@/ai/eval/extraction-scoring';
+import { toDataUri } from '@/lib/data-uri';
+
+const DATASET_DIR = path.resolve('eval/extraction');
+const EXPECTED_SUFFIX = '.expected.json';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+};
+
+interface EvalOptions {
+  provider: ExtractionProviderName;
+  replay: boolean;
+  record: boolean;
+  only: string | null;
+  baseline: string | null;
+  outDir: string;
+}
+
+interface ReceiptResult {
+  file: string;
+  durationMs: number;
+  error?: string;
+  score?: ReceiptScore;
+}
+
+interface ExtractionEvalReport {
+  provider: ExtractionProviderName;
+  replay: boolean;
+  createdAt: string;
+  summary: Record<ExtractionEvalField, number>;
+  receipts: ReceiptResult[];
+}
+
+const parseArgs = (args: string[]): EvalOptions => {
+  const options: EvalOptions = {
+    provider: 'gemini',
+    replay: false,
+    record: false,
+    only: null,
+    baseline: null,
+    outDir: path.join(DATASET_DIR, 'reports'),
+  };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--provider': {
+        const name = args[++i];
+        if (!extractionProviderNames.includes(name as ExtractionProviderName)) {
+          throw new Error(`Unknown provider '${name}'. Use one of: ${extractionProviderNames.join(', ')}.`);
+        }
+        options.provider = name as ExtractionProviderName;
+        break;
+      }
+      case '--replay': options.replay = true; break;
+      case '--record': options.record = true; break;
+      case '--only': options.only = args[++i]; break;
+      case '--baseline': options.baseline = args[++i]; break;
+      case '--out': options.outDir = path.resolve(args[++i]); break;
+      default: throw new Error(`Unknown argument '${args[i]}'.`);
+    }
+  }
+  if (options.replay && options.record) {
+    throw new Error('--replay and --record cannot be combined.');
+  }
+  return options;
+};
+
+const formatScore = (score: number): string => `${(score * 100).toFixed(1)}%`;
+
+const formatChange = (score: number, baseline: number | undefined): string => {
+  if (baseline === undefined) return '';
+  const change = (score - baseline) * 100;
+  if (Math.abs(change) < 0.05) return '±0.0';
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}`;
+};
+
+const renderMarkdown = (report: ExtractionEvalReport, baseline: ExtractionEvalReport | null): string => {
+  const lines = [
+    `# Extraction evaluation: ${report.provider}${report.replay ? ' (replayed)' : ''}`,
+    '',
+    `${report.createdAt}, ${report.receipts.length} receipts${baseline ? `, compared with ${baseline.provider}${baseline.replay ? ' (replayed)' : ''} from ${baseline.createdAt}` : ''}`,
+    '',
+    baseline ? '| Field | Score | Baseline | Change |' : '| Field | Score |',
+    baseline ? '| --- | ---: | ---: | ---: |' : '| --- | ---: |',
+    ...extractionEvalFields.map(field => baseline
+      ? `| ${field} | ${formatScore(report.summary[field])} | ${formatScore(baseline.summary[field])} | ${formatChange(report.summary[field], baseline.summary[field])} |`
+      : `| ${field} | ${formatScore(report.summary[field])} |`),
+    '',
+    `| Receipt | ${extractionEvalFields.join(' | ')} | Notes |`,
+    `| --- | ${extractionEvalFields.map(() => '---:').join(' | ')} | --- |`,
+  ];
+
+  report.receipts.forEach(result => {
+    const baselineResult = baseline?.receipts.find(candidate => candidate.file === result.file);
+    const cells = extractionEvalFields.map(field => {
+      if (!result.score) return '-';
+      const change = baselineResult?.score ? formatChange(result.score.fields[field], baselineResult.score.fields[field]) : '';
+      return `${formatScore(result.score.fields[field])}${change && change !== '±0.0' ? ` (${change})` : ''}`;
+    });
+    lines.push(`| ${result.file} | ${cells.join(' | ')} | ${result.error ? `Error: ${result.error.replace(/\|/g, '\\|')}` : ''} |`);
+  });
+
+  const mismatches = report.receipts.filter(result => result.score && Object.keys(result.score.mismatches).length > 0);
+  if (mismatches.length > 0) {
+    lines.push('', '## Mismatches', '');
+    mismatches.forEach(result => {
+      lines.push(`### ${result.file}`, '');
+      Object.entries(result.score!.mismatches).forEach(([field, mismatch]) => {
+        lines.push(`- **${field}**: expected \`${JSON.stringify(mismatch!.expected)}\`, got \`${JSON.stringify(mismatch!.actual)}\``);
+      });
+      lines.push('');
+    });
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+const runEvaluation = async (options: EvalOptions): Promise<void> => {
+  const receiptsDir = path.join(DATASET_DIR, 'receipts');
+  const recordingsDir = path.join(DATASET_DIR, 'recordings', options.provider);
+  // Replays read the recorded responses through the fixture provider, without falling back to a default response
+  const provider = options.replay
+    ? createFixtureExtractionProvider(recordingsDir, false)
+    : getReceiptExtractionProvider(options.provider);
+
+  const files = (await fs.readdir(receiptsDir))
+    .filter(file => CONTENT_TYPES[path.extname(file).toLowerCase()])
+    .filter(file => !options.only || file.includes(options.only))
+    .sort();
+  if (files.length === 0) {
+    throw new Error(`No receipts found in ${receiptsDir}.`);
+  }
+  if (options.record) {
+    await fs.mkdir(recordingsDir, { recursive: true });
+  }
+
+  const results: ReceiptResult[] = [];
+  for (const file of files) {
+    const baseName = file.slice(0, -path.extname(file).length);
+    const expected = JSON.parse(await fs.readFile(path.join(receiptsDir, `${baseName}${EXPECTED_SUFFIX}`), 'utf8')) as ExpectedReceipt;
+    const receiptDataUri = toDataUri(CONTENT_TYPES[path.extname(file).toLowerCase()], await fs.readFile(path.join(receiptsDir, file)));
+    const startedAt = Date.now();
+    try {
+      const output: PartialExtractionOutput = await provider.extract({ receiptDataUri });
+      if (options.record) {
+        await fs.writeFile(path.join(recordingsDir, `${receiptFixtureKey(receiptDataUri)}.json`), `${JSON.stringify(output, null, 2)}\n`);
+      }
+      // Score against the receipt date, so a defaulted date never matches by running on the right day
+      const score = scoreExtraction(expected, applyPrintedValues(normalizeExtractionOutput(output, new Date(0))));
+      results.push({ file, durationMs: Date.now() - startedAt, score });
+    } catch (error: any) {
+      results.push({ file, durationMs: Date.now() - startedAt, error: error.message || String(error) });
+    }
+    console.error(`${file}: ${results[results.length - 1].error ? 'failed' : 'done'}`);
+  }
+
+  const report: ExtractionEvalReport = {
+    provider: options.provider,
+    replay: options.replay,
+    createdAt: new Date().toISOString(),
+    summary: summarizeScores(results.map(result => result.score || null)),
+    receipts: results,
+  };
+  const baseline = options.baseline ? JSON.parse(await fs.readFile(options.baseline, 'utf8')) as ExtractionEvalReport : null;
+  const markdown = renderMarkdown(report, baseline);
+
+  await fs.mkdir(options.outDir, { recursive: true });
+  const reportName = `${report.createdAt.replace(/[:.]/g, '-')}-${options.provider}${options.replay ? '-replay' : ''}`;
+  await fs.writeFile(path.join(options.outDir, `${reportName}.json`), `${JSON.stringify(report, null, 2)}\n`);
+  await fs.writeFile(path.join(options.outDir, `${reportName}.md`), markdown);
+  console.log(markdown);
+  console.error(`Report written to ${path.join(options.outDir, reportName)}.{json,md}`);
+};
+
+runEvaluation(parseArgs(process.argv.slice(2))).catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
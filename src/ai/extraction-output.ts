@@ -0,0 +1,51 @@
+// src/ai/extraction-output.ts
+import type { ExtractReceiptDataOutput } from '@/ai/flows/extract-receipt-data';
+import type { FieldConfidence } from '@/types/confidence';
+
+const INFERRED: FieldConfidence = { level: 'low', source: 'inferred' };
+
+export type PartialExtractionOutput = Partial<Omit<ExtractReceiptDataOutput, 'items' | 'printed' | 'fieldConfidence'>> & {
+  items?: Array<Partial<ExtractReceiptDataOutput['items'][number]>>;
+  printed?: Partial<ExtractReceiptDataOutput['printed']>;
+  fieldConfidence?: Partial<ExtractReceiptDataOutput['fieldConfidence']>;
+};
+
+// Fills in defaults for anything a provider left out, so every provider returns the same complete shape.
+// Defaulted values are marked as inferred with low confidence, whatever the provider reported.
+export const normalizeExtractionOutput = (output: PartialExtractionOutput, today: Date = new Date()): ExtractReceiptDataOutput => {
+  const fieldConfidence = output.fieldConfidence || {};
+  return {
+    company: output.company || '',
+    items: (output.items || []).map(item => ({
+      name: item.name || '',
+      quantity: item.quantity || 1,
+      netPrice: item.netPrice || 0,
+      ...(item.category ? { category: item.category } : {}),
+      ...(item.printedPrice ? { printedPrice: item.printedPrice } : {}),
+      confidence: item.confidence || INFERRED,
+    })),
+    subtotal: output.subtotal ?? null,
+    taxes: output.taxes || [],
+    serviceCharge: output.serviceCharge || 0,
+    tip: output.tip || 0,
+    discounts: output.discounts || [],
+    total: output.total ?? null,
+    category: output.category || 'other',
+    expenseDate: output.expenseDate || today.toISOString().split('T')[0],
+    paymentMethod: output.paymentMethod || 'other',
+    locale: (output.locale || '').trim(),
+    language: (output.language || '').trim().toLowerCase(),
+    printed: {
+      expenseDate: output.printed?.expenseDate || null,
+      subtotal: output.printed?.subtotal || null,
+      total: output.printed?.total || null,
+    },
+    currency: (output.currency || '').trim().toUpperCase(),
+    fieldConfidence: {
+      company: output.company ? fieldConfidence.company || INFERRED : INFERRED,
+      expenseDate: output.expenseDate ? fieldConfidence.expenseDate || INFERRED : INFERRED,
+      paymentMethod: output.paymentMethod ? fieldConfidence.paymentMethod || INFERRED : INFERRED,
+      category: output.category ? fieldConfidence.category || INFERRED : INFERRED,
+    },
+  };
+};
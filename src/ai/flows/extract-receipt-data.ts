@@ -2,27 +2,46 @@
 'use server';
 
 /**
- * @fileOverview Extracts data from a receipt image using GenAI.
+ * @fileOverview Extracts data from a receipt photo or a (multi-page) PDF invoice using GenAI.
+ * This is the 'gemini' extraction provider; callers go through extractReceiptData in src/ai/receipt-extraction.ts.
  *
- * - extractReceiptData - A function that handles the receipt data extraction process.
- * - ExtractReceiptDataInput - The input type for the extractReceiptData function.
- * - ExtractReceiptDataOutput - The return type for the extractReceiptData function.
+ * - extractReceiptDataWithGemini - Runs the extraction flow.
+ * - getGeminiExtractionInfo - The model and prompt version the flow runs with.
+ * - ExtractReceiptDataInput - The input type for receipt extraction.
+ * - ExtractReceiptDataOutput - The return type for receipt extraction.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, GENKIT_MODEL} from '@/ai/genkit';
 import {z} from 'genkit';
 import type { PaymentMethod } from '@/types/expense';
-import { paymentMethods, expenseCategories } from '@/types/expense';
+import { paymentMethods } from '@/types/expense';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { supportedCurrencies } from '@/types/currency';
+import { confidenceLevels, valueSources } from '@/types/confidence';
+import { normalizeExtractionOutput } from '@/ai/extraction-output';
+import { computePromptVersion } from '@/ai/prompt-version';
 
 const ExtractReceiptDataInputSchema = z.object({
-  photoDataUri: z
+  receiptDataUri: z
     .string()
     .describe(
-      "A photo of a receipt, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+      "A photo of a receipt or a PDF invoice (possibly several pages), as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
+  hint: z.string().optional().describe('Feedback from a previous extraction attempt, e.g. a mismatch between the items and the printed total.'),
+  categories: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+    })
+  ).optional().describe("The company's active expense categories. Defaults to the built-in categories."),
 });
 export type ExtractReceiptDataInput = z.infer<typeof ExtractReceiptDataInputSchema>;
 
+const FieldConfidenceSchema = z.object({
+  level: z.enum(confidenceLevels).describe('How confident you are that the value is correct: high, medium or low.'),
+  source: z.enum(valueSources).describe("'read' if the value is printed legibly on the receipt, 'inferred' if it was guessed from context or defaulted."),
+});
+
 const ExtractReceiptDataOutputSchema = z.object({
   company: z.string().describe('The name of the company on the receipt.'),
   items: z.array(
@@ -30,38 +49,110 @@ const ExtractReceiptDataOutputSchema = z.object({
       name: z.string().describe('The name of the item.'),
       quantity: z.number().describe('The quantity of the item. Default to 1 if not specified.'),
       netPrice: z.number().describe('The final price for this specific line item as it appears on the receipt, after any item-specific discounts or considerations. This is not the subtotal or total of the receipt.'),
+      category: z.string().optional().describe('The id of the category of this item. Must be one of the given category ids. Usually the same as the expense category.'),
+      printedPrice: z.string().nullable().optional().describe('The price of this item exactly as printed, e.g. "1.234,50" or "12,90 €". Null if not printed.'),
+      confidence: FieldConfidenceSchema.describe('Confidence in this line item (name, quantity and price together).'),
     })
   ).describe('A list of items with their details.'),
-  category: z.enum(expenseCategories).describe(`The category of the expense. Must be one of: ${expenseCategories.join(', ')}`),
+  subtotal: z.number().nullable().describe('The subtotal printed on the receipt, before taxes, service charges and tips. Null if not printed.'),
+  taxes: z.array(
+    z.object({
+      name: z.string().describe('The tax name as printed, e.g. VAT, GST, Sales Tax.'),
+      rate: z.number().nullable().describe('The tax rate as a percentage (e.g. 20 for 20%). Null if not printed.'),
+      amount: z.number().describe('The tax amount.'),
+      inclusive: z.boolean().describe('True if this tax is already included in the item prices (e.g. "incl. VAT"), false if it is added on top.'),
+    })
+  ).describe('Each tax line printed on the receipt. Empty if none.'),
+  serviceCharge: z.number().describe('Any service charge printed on the receipt. 0 if none.'),
+  tip: z.number().describe('Any tip or gratuity printed or handwritten on the receipt. 0 if none.'),
+  discounts: z.array(
+    z.object({
+      description: z.string().describe('The discount description as printed.'),
+      amount: z.number().describe('The discount amount as a positive number.'),
+    })
+  ).describe('Receipt-level discounts, coupons or promotions that are not already reflected in an item netPrice. Empty if none.'),
+  total: z.number().nullable().describe('The grand total printed on the receipt, i.e. the amount actually paid. Null if not printed.'),
+  category: z.string().describe('The id of the category of the expense. Must be one of the given category ids.'),
   expenseDate: z.string().describe('The date of the expense in YYYY-MM-DD format. If not found, use the current date.'),
   paymentMethod: z.enum(paymentMethods).describe(`The payment method used. Must be one of: ${paymentMethods.join(', ')}. If not found, use 'other'.`),
+  locale: z.string().describe('The BCP 47 locale the receipt is printed in, e.g. en-US, en-GB, de-DE, fr-CH, ja-JP, from its language, address and formats. Empty string if it cannot be determined.'),
+  language: z.string().describe('The ISO 639-1 code of the language of the receipt text, e.g. en, de, ja. Empty string if unknown.'),
+  printed: z.object({
+    expenseDate: z.string().nullable().describe('The date exactly as printed, e.g. "03/04/25" or "3. März 2025". Null if no date is printed.'),
+    subtotal: z.string().nullable().describe('The subtotal exactly as printed. Null if not printed.'),
+    total: z.string().nullable().describe('The grand total exactly as printed, e.g. "1.234,50" or "$1,234.50". Null if not printed.'),
+  }).describe('The raw printed text of the date and totals, character for character, so they can be re-parsed for the locale.'),
+  currency: z.string().describe('The ISO 4217 currency code of the amounts on the receipt (e.g. USD, EUR, JPY, HKD). Empty string if it cannot be determined.'),
+  fieldConfidence: z.object({
+    company: FieldConfidenceSchema,
+    expenseDate: FieldConfidenceSchema,
+    paymentMethod: FieldConfidenceSchema,
+    category: FieldConfidenceSchema,
+  }).describe('Confidence and source of the company, expenseDate, paymentMethod and category values.'),
 });
 export type ExtractReceiptDataOutput = z.infer<typeof ExtractReceiptDataOutputSchema>;
 
-export async function extractReceiptData(input: ExtractReceiptDataInput): Promise<ExtractReceiptDataOutput> {
-  // The flow now directly returns items with netPrice. No further calculation needed here.
-  return extractReceiptDataFlow(input);
+// Recorded with every extracted expense, so results can be traced to the prompt that produced them
+export async function getGeminiExtractionInfo(): Promise<{ model: string; promptVersion: string }> {
+  return { model: GENKIT_MODEL, promptVersion: computePromptVersion(EXTRACTION_PROMPT, ExtractReceiptDataOutputSchema) };
 }
 
-const extractReceiptDataPrompt = ai.definePrompt({
-  name: 'extractReceiptDataPrompt',
-  input: {schema: ExtractReceiptDataInputSchema},
-  output: {schema: ExtractReceiptDataOutputSchema},
-  prompt: `You are an expert at extracting structured data from receipts.
-  Analyze the provided receipt image and extract the following information:
+export async function extractReceiptDataWithGemini(input: ExtractReceiptDataInput): Promise<ExtractReceiptDataOutput> {
+  const categories = input.categories?.length ? input.categories : DEFAULT_EXPENSE_CATEGORIES;
+  return extractReceiptDataFlow({ ...input, categories: categories.map(({ id, name }) => ({ id, name })) });
+}
+
+const EXTRACTION_PROMPT = `You are an expert at extracting structured data from receipts and invoices.
+  Analyze the provided receipt, which is either a photo or a PDF document, and extract the following information:
 
   - Company Name: The name of the company the receipt is from.
   - Items: A list of items purchased. For each item, extract:
     - name: The name of the item.
     - quantity: The quantity of the item. If not explicitly mentioned, assume 1.
     - netPrice: The final price for this specific line item as it appears on the receipt (e.g., after any line-item specific discounts).
-  - Category: The overall category of the expense. This must be one of: ${expenseCategories.join(', ')}. Infer this from the items and company.
+    - printedPrice: The item price exactly as printed, character for character (e.g. "1.234,50"), or null.
+    - category: The id of the item's category, from the list below. Usually this is the overall category, but a receipt can mix categories, e.g. a hotel bill with lodging, restaurant meals and minibar drinks.
+    Do not list subtotal, tax, service charge, tip, discount or total lines as items.
+  - Subtotal: The printed subtotal before taxes, service charges and tips, or null if there is none.
+  - Taxes: Every tax line (e.g. VAT, GST, sales tax) with its name, rate as a percentage if printed, amount, and whether it is inclusive (already contained in the item prices, e.g. "VAT included") or added on top.
+  - Service Charge: Any service charge, or 0.
+  - Tip: Any tip or gratuity, including a handwritten one, or 0.
+  - Discounts: Receipt-level discounts or coupons as positive amounts. Do not repeat discounts already applied to an item's netPrice.
+  - Total: The printed grand total (the amount paid), or null if none is printed.
+  - Category: The overall category of the expense, i.e. of most of the amount. Infer this from the items and company, and return the id of one of these categories (id: name):
+    {{#each categories}}
+    - {{id}}: {{name}}
+    {{/each}}
   - Expense Date: The date shown on the receipt. Format as YYYY-MM-DD. If no date is clearly visible, use the current date.
+  - Locale and Language: The locale of the receipt as a BCP 47 tag (e.g. en-US, de-DE, fr-CH, ja-JP), from the language, address, currency and number formats, and the ISO 639-1 code of the language it is written in. Use empty strings if unknown.
+  - Printed Values: The expense date, subtotal and total exactly as printed, character for character, including separators and currency symbols. Do not reformat them.
   - Payment Method: The method of payment (e.g., card, cash, online). This must be one of: ${paymentMethods.join(', ')}. If not determinable, use 'other'.
+  - Currency: The ISO 4217 code of the currency the receipt amounts are in. Use currency symbols, currency codes, the country of the address, the language and the tax names (e.g. VAT, GST, MwSt) as evidence. Note that "$" and "¥" are ambiguous (e.g. USD/HKD/SGD/AUD, JPY/CNY); resolve them from the location. Common codes: ${supportedCurrencies.join(', ')}. If it cannot be determined, return an empty string.
+
+  A PDF may have several pages. Treat all pages as one expense:
+  - Read every page. Collect the line items from all pages into one list, in page order.
+  - Do not list page subtotals, "carried forward" or "brought forward" amounts as items, and do not count an item twice when it is repeated on a summary page.
+  - Take the subtotal, taxes, charges, discounts and grand total from the final summary, which is usually on the last page. If each page only has its own totals, combine them.
+  - Ignore pages that contain no charges, such as terms and conditions or payment instructions.
+
+  Read dates and amounts according to the receipt's locale: 03/04/2025 is 3 April 2025 in de-DE or en-GB but March 4, 2025 in en-US, and 1.234,50 is 1234.50 in de-DE.
+
+  For the company, expense date, payment method, category and each item, also report a confidence level (high, medium or low) and whether the value was read from the receipt or inferred.
+  A value is 'inferred' whenever it is not printed legibly: for example a defaulted date, a quantity assumed to be 1, a payment method guessed from context, or a category chosen from the items. Defaulted values must have low confidence. Be honest: partially legible or blurry text is at most medium confidence.
+
+  {{#if hint}}
+  Important feedback on a previous attempt at this receipt: {{{hint}}}
+  {{/if}}
 
-  Return the data in JSON format according to the defined schema. Ensure all numerical fields (quantity, netPrice) are numbers.
+  Return the data in JSON format according to the defined schema. Ensure all numerical fields (quantity, netPrice, subtotal, tax rates and amounts, serviceCharge, tip, discount amounts, total) are numbers.
 
-  Receipt Image: {{media url=photoDataUri}}`,
+  Receipt: {{media url=receiptDataUri}}`;
+
+const extractReceiptDataPrompt = ai.definePrompt({
+  name: 'extractReceiptDataPrompt',
+  input: {schema: ExtractReceiptDataInputSchema},
+  output: {schema: ExtractReceiptDataOutputSchema},
+  prompt: EXTRACTION_PROMPT,
 });
 
 const extractReceiptDataFlow = ai.defineFlow(
@@ -75,19 +166,6 @@ const extractReceiptDataFlow = ai.defineFlow(
     if (!output) {
       throw new Error("AI failed to return output for receipt data extraction.");
     }
-    // Ensure items have default quantity if not provided and netPrice is a number
-    const processedItems = output.items.map(item => ({
-      name: item.name,
-      quantity: item.quantity || 1,
-      netPrice: item.netPrice || 0,
-    }));
-    
-    return {
-      ...output,
-      items: processedItems,
-      category: output.category || 'other',
-      paymentMethod: output.paymentMethod || 'other',
-      expenseDate: output.expenseDate || new Date().toISOString().split('T')[0],
-    };
+    return normalizeExtractionOutput(output);
   }
 );
@@ -3,7 +3,8 @@
 
 /**
  * @fileOverview This file defines a Genkit flow for suggesting an expense category
- * based on the extracted data from a receipt.
+ * based on the extracted data from a receipt and the categories the user chose for earlier receipts.
+ * Callers go through suggestCategory in src/lib/category-learning.ts, which answers known vendors without the model.
  *
  * - suggestExpenseCategory - A function that takes receipt data and suggests an expense category.
  * - SuggestExpenseCategoryInput - The input type for the suggestExpenseCategory function.
@@ -21,11 +22,24 @@ const SuggestExpenseCategoryInputSchema = z.object({
       price: z.number().describe('The price of the item.'),
     })
   ).describe('A list of items and their prices from the receipt.'),
+  examples: z.array(
+    z.object({
+      companyName: z.string().describe('The company on an earlier receipt.'),
+      items: z.array(z.string()).describe('Item names on the earlier receipt.'),
+      category: z.string().describe('The id of the category the user chose for it.'),
+    })
+  ).optional().describe("Earlier receipts the user categorized differently from the suggestion, most recent first."),
+  categories: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+    })
+  ).describe("The company's active expense categories."),
 });
 export type SuggestExpenseCategoryInput = z.infer<typeof SuggestExpenseCategoryInputSchema>;
 
 const SuggestExpenseCategoryOutputSchema = z.object({
-  category: z.string().describe('The suggested expense category for the receipt.'),
+  category: z.string().describe('The id of the suggested expense category for the receipt. Must be one of the given category ids.'),
 });
 export type SuggestExpenseCategoryOutput = z.infer<typeof SuggestExpenseCategoryOutputSchema>;
 
@@ -41,15 +55,25 @@ const prompt = ai.definePrompt({
 
   Given the following information from a receipt, suggest the most appropriate expense category.
 
+  Available categories (id: name):
+  {{#each categories}}
+  - {{id}}: {{name}}
+  {{/each}}
+
+  {{#if examples}}
+  The user corrected the category of these earlier receipts. Follow their choices for similar vendors and items, even where you would have chosen differently:
+  {{#each examples}}
+  - {{{companyName}}} ({{#each items}}{{{this}}}; {{/each}}): {{category}}
+  {{/each}}
+  {{/if}}
+
   Company Name: {{{companyName}}}
   Items:
   {{#each items}}
   - {{name}}: {{price}}
   {{/each}}
 
-  Available categories: Food, Travel, Accommodation, Entertainment, Supplies, Utilities, Other
-
-  Please select one category from the list above. Return ONLY the name of the category.
+  Please select one category from the list above and return its id.
   `,
 });
 
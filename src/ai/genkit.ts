@@ -1,7 +1,10 @@
 import { genkit } from 'genkit';
 import { googleAI } from '@genkit-ai/googleai';
 
+// Default model of all flows, recorded with every extraction
+export const GENKIT_MODEL = process.env.GENKIT_MODEL || 'googleai/gemini-2.0-flash';
+
 export const ai = genkit({
   plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  model: GENKIT_MODEL,
 });
@@ -0,0 +1,48 @@
+// src/ai/ocr.ts
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { RECEIPT_PDF_CONTENT_TYPE } from '@/types/receipt';
+
+const execFileAsync = promisify(execFile);
+
+const OCR_TIMEOUT_MS = 60 * 1000;
+const OCR_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+const runTool = async (command: string, args: string[]): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync(command, args, { timeout: OCR_TIMEOUT_MS, maxBuffer: OCR_MAX_OUTPUT_BYTES });
+    return stdout;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`'${command}' is not installed. The offline extraction provider needs it to read receipts.`);
+    }
+    throw new Error(`'${command}' failed: ${error.stderr || error.message}`);
+  }
+};
+
+// Returns the text of a receipt file using local tools: Tesseract for images and pdftotext (poppler) for PDFs.
+// Plain text files are returned as is, which lets the offline provider run without either tool installed.
+export const recognizeReceiptText = async (contentType: string, data: Buffer): Promise<string> => {
+  if (contentType.startsWith('text/')) {
+    return data.toString('utf8');
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'receipt-ocr-'));
+  try {
+    const inputPath = path.join(workDir, 'receipt');
+    await fs.writeFile(inputPath, data);
+    if (contentType === RECEIPT_PDF_CONTENT_TYPE) {
+      return await runTool(process.env.PDFTOTEXT_PATH || 'pdftotext', ['-layout', inputPath, '-']);
+    }
+    if (contentType.startsWith('image/')) {
+      // Page segmentation mode 4 reads a single column of variable-sized text, which suits receipts
+      return await runTool(process.env.TESSERACT_PATH || 'tesseract', [inputPath, 'stdout', '-l', process.env.TESSERACT_LANG || 'eng', '--psm', '4']);
+    }
+    throw new Error(`Unsupported receipt file type for OCR: ${contentType}`);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
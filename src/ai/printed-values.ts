@@ -0,0 +1,68 @@
+// src/ai/printed-values.ts
+import type { ExtractReceiptDataOutput } from '@/ai/flows/extract-receipt-data';
+import type { FieldConfidence } from '@/types/confidence';
+import type { ParsingAmbiguity } from '@/types/parsing';
+import type { ParsedValue } from '@/lib/locale-parsing';
+import { parseLocalizedAmount, parseLocalizedDate } from '@/lib/locale-parsing';
+
+const AMBIGUOUS: FieldConfidence = { level: 'low', source: 'inferred' };
+
+export type ParsedExtractionOutput = ExtractReceiptDataOutput & {
+  ambiguities: ParsingAmbiguity[]; // Printed values the locale did not settle
+};
+
+// Picks between the readings of an ambiguous value: the provider's own value when it is one of them (it saw the
+// whole receipt), otherwise the parser's default
+const chooseReading = <T>(parsed: ParsedValue<T>, current: T, same: (a: T, b: T) => boolean): { value: T; alternatives: T[] } => {
+  const readings = [parsed.value as T, ...parsed.alternatives];
+  const value = readings.find(reading => same(reading, current)) ?? readings[0];
+  return { value, alternatives: readings.filter(reading => !same(reading, value)) };
+};
+
+const sameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+// Re-reads the date and amounts from the strings printed on the receipt, using the receipt's locale, so regional
+// formats (03.04.2025, 1.234,50, 2025年4月3日) do not depend on the provider reading them right. Values that could
+// be read more than one way are reported as ambiguities and get low confidence.
+export const applyPrintedValues = (output: ExtractReceiptDataOutput): ParsedExtractionOutput => {
+  const ambiguities: ParsingAmbiguity[] = [];
+  const fieldConfidence = { ...output.fieldConfidence };
+  const { printed, locale } = output;
+
+  let expenseDate = output.expenseDate;
+  const date = printed.expenseDate ? parseLocalizedDate(printed.expenseDate, locale) : null;
+  if (printed.expenseDate && date?.value) {
+    if (date.ambiguous) {
+      const reading = chooseReading(date, output.expenseDate, (a, b) => a === b);
+      expenseDate = reading.value;
+      ambiguities.push({ field: 'expenseDate', printed: printed.expenseDate, ...reading });
+      fieldConfidence.expenseDate = AMBIGUOUS;
+    } else {
+      expenseDate = date.value;
+    }
+  }
+
+  const readAmount = (field: 'subtotal' | 'total' | 'itemPrice', text: string | null | undefined, current: number | null, itemIndex?: number): { value: number | null; ambiguous: boolean } => {
+    const amount = text ? parseLocalizedAmount(text, locale) : null;
+    if (!text || amount?.value === null || amount?.value === undefined) return { value: current, ambiguous: false };
+    if (!amount.ambiguous) return { value: amount.value, ambiguous: false };
+    const reading = chooseReading(amount, current ?? amount.value, sameAmount);
+    ambiguities.push({ field, ...(itemIndex === undefined ? {} : { itemIndex }), printed: text, ...reading });
+    return { value: reading.value, ambiguous: true };
+  };
+
+  const items = output.items.map((item, index) => {
+    const price = readAmount('itemPrice', item.printedPrice, item.netPrice, index);
+    return { ...item, netPrice: price.value ?? item.netPrice, confidence: price.ambiguous ? AMBIGUOUS : item.confidence };
+  });
+
+  return {
+    ...output,
+    items,
+    subtotal: readAmount('subtotal', printed.subtotal, output.subtotal).value,
+    total: readAmount('total', printed.total, output.total).value,
+    expenseDate,
+    fieldConfidence,
+    ambiguities,
+  };
+};
@@ -0,0 +1,25 @@
+// src/ai/prompt-version.ts
+import { createHash } from 'crypto';
+
+// What of a zod schema reaches the model: the field names, types, enum values and descriptions
+const describeSchema = (schema: any): unknown => {
+  const def = schema?._def;
+  if (!def) return null;
+  switch (def.typeName) {
+    case 'ZodObject':
+      return { description: def.description, shape: Object.fromEntries(Object.entries(def.shape()).map(([key, value]) => [key, describeSchema(value)])) };
+    case 'ZodArray':
+      return { description: def.description, element: describeSchema(def.type) };
+    case 'ZodOptional':
+    case 'ZodNullable':
+      return { description: def.description, type: def.typeName, inner: describeSchema(def.innerType) };
+    case 'ZodEnum':
+      return { description: def.description, values: def.values };
+    default:
+      return { description: def.description, type: def.typeName };
+  }
+};
+
+// Short hash identifying a prompt: changes whenever the template or the output schema the model sees changes
+export const computePromptVersion = (template: string, outputSchema: unknown): string =>
+  createHash('sha256').update(template).update(JSON.stringify(describeSchema(outputSchema))).digest('hex').slice(0, 12);
@@ -0,0 +1,105 @@
+// src/ai/receipt-extraction.ts
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ExtractReceiptDataInput } from '@/ai/flows/extract-receipt-data';
+import type { ExtractionProviderName } from '@/types/extraction-provider';
+import { extractionProviderNames } from '@/types/extraction-provider';
+import type { ExtractionRun } from '@/types/provenance';
+import type { PartialExtractionOutput } from '@/ai/extraction-output';
+import { normalizeExtractionOutput } from '@/ai/extraction-output';
+import type { ParsedExtractionOutput } from '@/ai/printed-values';
+import { applyPrintedValues } from '@/ai/printed-values';
+import { parseReceiptText } from '@/ai/receipt-text-parser';
+import { recognizeReceiptText } from '@/ai/ocr';
+import { parseDataUri } from '@/lib/data-uri';
+
+export interface ReceiptExtractionProvider {
+  name: ExtractionProviderName;
+  // May leave fields out; extractReceiptData fills in defaults
+  extract: (input: ExtractReceiptDataInput) => Promise<PartialExtractionOutput>;
+  // Model and prompt version recorded with each extraction; null for providers without them
+  getModelInfo: () => Promise<{ model: string | null; promptVersion: string | null }>;
+}
+
+export type ExtractedReceipt = ParsedExtractionOutput & {
+  run: Omit<ExtractionRun, 'extracted'>; // Provenance of the extraction; processReceiptImage adds the extracted values
+};
+
+const NO_MODEL_INFO = { model: null, promptVersion: null };
+
+// Gemini via the Genkit flow. Loaded on first use so the other providers never initialize Genkit or need an API key.
+export const geminiExtractionProvider: ReceiptExtractionProvider = {
+  name: 'gemini',
+  extract: async input => {
+    const { extractReceiptDataWithGemini } = await import('@/ai/flows/extract-receipt-data');
+    return extractReceiptDataWithGemini(input);
+  },
+  getModelInfo: async () => {
+    const { getGeminiExtractionInfo } = await import('@/ai/flows/extract-receipt-data');
+    return getGeminiExtractionInfo();
+  },
+};
+
+// Local OCR followed by heuristic parsing. Needs no network access; much less accurate than Gemini.
+// The hint from a previous attempt is ignored, since the heuristics are deterministic.
+export const offlineExtractionProvider: ReceiptExtractionProvider = {
+  name: 'offline',
+  extract: async input => {
+    const { contentType, data } = parseDataUri(input.receiptDataUri);
+    return parseReceiptText(await recognizeReceiptText(contentType, data));
+  },
+  getModelInfo: async () => NO_MODEL_INFO,
+};
+
+// Canned outputs for tests and demos. Looks up '<sha256 of the receipt file>.json' in `fixturesDir`, falling back to
+// 'default.json' unless `useDefault` is false. Fails like a real provider would when neither exists.
+export const createFixtureExtractionProvider = (fixturesDir: string, useDefault = true): ReceiptExtractionProvider => ({
+  name: 'fixture',
+  extract: async input => {
+    const hash = receiptFixtureKey(input.receiptDataUri);
+    for (const fileName of useDefault ? [`${hash}.json`, 'default.json'] : [`${hash}.json`]) {
+      try {
+        return JSON.parse(await fs.readFile(path.join(fixturesDir, fileName), 'utf8')) as PartialExtractionOutput;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    throw new Error(`No extraction fixture for receipt ${hash} in ${fixturesDir}.`);
+  },
+  getModelInfo: async () => NO_MODEL_INFO,
+});
+
+// Fixture file name (without '.json') for a receipt: the SHA-256 of the file contents
+export const receiptFixtureKey = (receiptDataUri: string): string =>
+  createHash('sha256').update(parseDataUri(receiptDataUri).data).digest('hex');
+
+const extractionProviders: Record<ExtractionProviderName, ReceiptExtractionProvider> = {
+  gemini: geminiExtractionProvider,
+  offline: offlineExtractionProvider,
+  fixture: createFixtureExtractionProvider(path.resolve(process.env.EXTRACTION_FIXTURES_DIR || 'fixtures/extraction')),
+};
+
+export const getReceiptExtractionProvider = (name: string | undefined = process.env.EXTRACTION_PROVIDER): ReceiptExtractionProvider => {
+  const providerName = name && extractionProviderNames.includes(name as ExtractionProviderName) ? name as ExtractionProviderName : 'gemini';
+  return extractionProviders[providerName];
+};
+
+// Extracts receipt data with the configured provider (EXTRACTION_PROVIDER, default 'gemini'), then re-reads the
+// printed date and amounts for the receipt's locale. The provider's raw output is kept for provenance.
+export const extractReceiptData = async (
+  input: ExtractReceiptDataInput,
+  provider: ReceiptExtractionProvider = getReceiptExtractionProvider(),
+): Promise<ExtractedReceipt> => {
+  const [rawOutput, modelInfo] = await Promise.all([provider.extract(input), provider.getModelInfo()]);
+  return {
+    ...applyPrintedValues(normalizeExtractionOutput(rawOutput)),
+    run: {
+      provider: provider.name,
+      ...modelInfo,
+      extractedAt: new Date().toISOString(),
+      // Plain JSON, so it can be sent to the client and stored in Firestore
+      rawOutput: JSON.parse(JSON.stringify(rawOutput)),
+    },
+  };
+};
@@ -0,0 +1,193 @@
+// src/ai/receipt-text-parser.ts
+import type { PartialExtractionOutput } from '@/ai/extraction-output';
+import type { FieldConfidence } from '@/types/confidence';
+import type { ExpenseCategory, PaymentMethod } from '@/types/expense';
+import { supportedCurrencies } from '@/types/currency';
+import { parseLocalizedAmount, parseLocalizedDate } from '@/lib/locale-parsing';
+
+// Heuristics never read as reliably as a model, so found values are at most medium confidence
+const READ: FieldConfidence = { level: 'medium', source: 'read' };
+const INFERRED: FieldConfidence = { level: 'low', source: 'inferred' };
+
+// Symbols that identify a single currency. '$' and '¥' are shared by several currencies and are left undecided.
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '₩': 'KRW',
+  '฿': 'THB',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'A$': 'AUD',
+  'C$': 'CAD',
+  'NT$': 'TWD',
+  'RM': 'MYR',
+};
+
+const CATEGORY_KEYWORDS: Array<[ExpenseCategory, RegExp]> = [
+  ['travel', /\b(taxi|uber|lyft|airline|flight|hotel|parking|fuel|petrol|gasoline|train|rail|toll|boarding)\b/i],
+  ['food', /\b(restaurant|cafe|coffee|bistro|bar|pizza|burger|sandwich|lunch|dinner|breakfast|latte|espresso|meal|bakery)\b/i],
+  ['supplies', /\b(office|paper|printer|toner|stationery|pens?|staples|cables?|hardware|supplies)\b/i],
+  ['entertainment', /\b(cinema|theatre|theater|tickets?|concert|museum|bowling|karaoke)\b/i],
+];
+
+const PAYMENT_KEYWORDS: Array<[PaymentMethod, RegExp]> = [
+  ['card', /\b(visa|mastercard|amex|american express|maestro|debit|credit|card|contactless|chip)\b/i],
+  ['cash', /\b(cash|change due|tendered)\b/i],
+  ['online', /\b(paypal|online|apple pay|google pay|stripe|bank transfer)\b/i],
+];
+
+const SUBTOTAL_PATTERN = /\b(sub\s*-?\s*total|net total|total net|zwischensumme)\b/i;
+const TOTAL_PATTERN = /\b(grand total|total|amount due|balance due|amount paid|summe|gesamt|montant)\b/i;
+const TAX_PATTERN = /\b(vat|gst|hst|pst|tax|mwst|ust|tva|iva)\b/i;
+const TIP_PATTERN = /\b(tip|gratuity)\b/i;
+const SERVICE_PATTERN = /\bservice\s*(charge|fee)?\b/i;
+const DISCOUNT_PATTERN = /\b(discount|coupon|promo|voucher|rabatt)\b/i;
+// Item prices have decimals, which keeps street numbers and postcodes out of the items
+const PRICE_PATTERN = /\d[.,]\d{2}(?!\d)/;
+// Lines with amounts that are neither items nor part of the totals
+const IGNORED_PATTERN = /\b(change|tendered|cash|card|visa|mastercard|balance|points|auth|ref|terminal|tel|phone|fax|invoice no|receipt no|table|guests?)\b/i;
+
+// Matches 1,234.56 / 1.234,56 / 1234.5 / 12,50 / 1 234,56 with an optional leading minus
+const AMOUNT_PATTERN = /-?\d{1,3}(?:[ .,]\d{3})*(?:[.,]\d{1,2})?(?!\d)|-?\d+(?:[.,]\d{1,2})?(?!\d)/g;
+
+// Year-first, textual and numeric dates, as candidates for parseLocalizedDate
+const DATE_PATTERNS = [
+  /\b\d{4}[-/.]\d{1,2}[-/.]\d{1,2}\b/,
+  /\b\d{1,2}\.?\s+[a-z\u00c0-\u024f]{3,}\.?,?\s+\d{2,4}\b|\b[a-z\u00c0-\u024f]{3,}\.?\s+\d{1,2},?\s+\d{2,4}\b/i,
+  /\b\d{1,2}([-/.])\d{1,2}\1\d{2,4}\b/,
+];
+
+// Parses an amount written with either '.' or ',' as the decimal separator
+export const parseAmount = (raw: string): number | null => parseLocalizedAmount(raw).value;
+
+// The amount printed last on a line is its price; earlier numbers are quantities, unit prices or rates
+const lastAmount = (line: string): { amount: number; printed: string } | null => {
+  const matches = line.replace(/\d+(?:[.,]\d+)?\s*%/g, ' ').match(AMOUNT_PATTERN);
+  if (!matches) return null;
+  const printed = matches[matches.length - 1].replace(/^-/, '');
+  const amount = parseAmount(printed);
+  return amount === null ? null : { amount: Math.abs(amount), printed };
+};
+
+// Finds the first date on the receipt. Without a known locale, a numeric date that reads both day-first and month-first
+// is a guess and is reported with low confidence.
+const findDate = (lines: string[]): { value: string; printed: string; confidence: FieldConfidence } | null => {
+  for (const line of lines) {
+    for (const pattern of DATE_PATTERNS) {
+      const match = pattern.exec(line);
+      const date = match ? parseLocalizedDate(match[0]) : null;
+      if (match && date?.value) return { value: date.value, printed: match[0], confidence: date.ambiguous ? INFERRED : READ };
+    }
+  }
+  return null;
+};
+
+const findCurrency = (text: string): string => {
+  const code = new RegExp(`\\b(${supportedCurrencies.join('|')})\\b`).exec(text);
+  if (code) return code[1];
+  // Longer symbols first, so 'HK$' wins over a bare '$'
+  const symbol = Object.keys(CURRENCY_SYMBOLS)
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => text.includes(candidate));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : '';
+};
+
+const findKeyword = <T extends string>(text: string, keywords: Array<[T, RegExp]>): T | undefined =>
+  keywords.find(([, pattern]) => pattern.test(text))?.[0];
+
+const cleanItemName = (line: string): string =>
+  line
+    .replace(/^\s*\d+\s*[x×]\s*/i, '')
+    .replace(AMOUNT_PATTERN, ' ')
+    .replace(/[$€£¥₩฿@*]|\b[A-Z]{3}\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Heuristic parser for OCR text of a receipt. Returns only what it finds; normalizeExtractionOutput fills in the rest.
+export const parseReceiptText = (text: string): PartialExtractionOutput => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const output: PartialExtractionOutput = { items: [], taxes: [], discounts: [], printed: {}, fieldConfidence: {} };
+  const fieldConfidence = output.fieldConfidence!;
+
+  const vendorLine = lines.find(line => /[a-z]{2}/i.test(line) && !/^\d/.test(line));
+  if (vendorLine) {
+    output.company = vendorLine;
+    fieldConfidence.company = READ;
+  }
+
+  const date = findDate(lines);
+  if (date) {
+    output.expenseDate = date.value;
+    output.printed!.expenseDate = date.printed;
+    fieldConfidence.expenseDate = date.confidence;
+  }
+
+  let totalsStarted = false;
+  let serviceCharge = 0;
+  let tip = 0;
+  for (const line of lines) {
+    if (line === vendorLine) continue;
+    const lastPrinted = lastAmount(line);
+    if (!lastPrinted) continue;
+    const { amount, printed } = lastPrinted;
+
+    if (SUBTOTAL_PATTERN.test(line)) {
+      output.subtotal = amount;
+      output.printed!.subtotal = printed;
+      totalsStarted = true;
+    } else if (TAX_PATTERN.test(line) && !TOTAL_PATTERN.test(line.replace(TAX_PATTERN, ''))) {
+      const rate = /(\d+(?:[.,]\d+)?)\s*%/.exec(line);
+      output.taxes!.push({
+        name: TAX_PATTERN.exec(line)![1].toUpperCase(),
+        rate: rate ? parseAmount(rate[1]) : null,
+        amount,
+        inclusive: /\b(incl|included|inkl|enthalten)\b/i.test(line),
+      });
+      totalsStarted = true;
+    } else if (TIP_PATTERN.test(line)) {
+      tip += amount;
+      totalsStarted = true;
+    } else if (SERVICE_PATTERN.test(line)) {
+      serviceCharge += amount;
+      totalsStarted = true;
+    } else if (DISCOUNT_PATTERN.test(line)) {
+      output.discounts!.push({ description: cleanItemName(line) || 'Discount', amount });
+    } else if (TOTAL_PATTERN.test(line)) {
+      // The last total wins: receipts often print a total before the tip line and a grand total after it
+      output.total = amount;
+      output.printed!.total = printed;
+      totalsStarted = true;
+    } else if (!totalsStarted && PRICE_PATTERN.test(line) && !IGNORED_PATTERN.test(line) && !findDate([line])) {
+      const name = cleanItemName(line);
+      if (!name) continue;
+      const quantity = /^\s*(\d+)\s*[x×]\s*/i.exec(line);
+      output.items!.push({
+        name,
+        quantity: quantity ? +quantity[1] : 1,
+        netPrice: amount,
+        printedPrice: printed,
+        confidence: quantity ? READ : INFERRED,
+      });
+    }
+  }
+  output.serviceCharge = serviceCharge;
+  output.tip = tip;
+
+  const currency = findCurrency(text);
+  if (currency) output.currency = currency;
+
+  const paymentMethod = findKeyword(text, PAYMENT_KEYWORDS);
+  if (paymentMethod) {
+    output.paymentMethod = paymentMethod;
+    fieldConfidence.paymentMethod = READ;
+  }
+
+  // A category is never printed, so it is always inferred
+  const category = findKeyword(text, CATEGORY_KEYWORDS);
+  if (category) {
+    output.category = category;
+    fieldConfidence.category = INFERRED;
+  }
+
+  return output;
+};
@@ -0,0 +1,33 @@
+// src/app/api/cron/recurring-drafts/route.ts
+import { timingSafeEqual } from 'crypto';
+import { revalidatePath } from 'next/cache';
+import { NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import { generateAllRecurringDrafts } from '@/lib/recurring-drafts';
+
+const isAuthorized = (header: string | null): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !header) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Daily job that generates the drafts of every active recurring expense that fell due, called by a scheduler such as
+// Cloud Scheduler with "Authorization: Bearer $CRON_SECRET"
+export async function GET(request: Request) {
+  if (!isAuthorized(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  const adminDb = getAdminDb();
+  if (!adminDb) return NextResponse.json({ error: "Admin SDK not initialized." }, { status: 500 });
+
+  try {
+    const { generated, failed } = await generateAllRecurringDrafts(adminDb);
+    if (generated > 0) revalidatePath('/subscriptions');
+    return NextResponse.json({ generated, failed });
+  } catch (error: any) {
+    console.error("recurring-drafts job: Error generating drafts:", error);
+    return NextResponse.json({ error: error.message || "Failed to generate recurring drafts." }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+// src/app/approvals/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getExpenseCategories } from '@/actions/expense-actions';
+import { getApprovalQueue } from '@/actions/approval-actions';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { getCurrentApprovalStep } from '@/lib/approvals';
+import { formatCurrency, getExpenseBaseAmount, getExpenseBaseCurrency, getExpenseCurrency } from '@/lib/currency';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ApprovalControls, ReportApprovalControls } from '@/components/approval-controls';
+import { Loader2, Inbox, ExternalLink, FileStack } from 'lucide-react';
+
+// Everything waiting on the current user's decision, oldest first
+export default function ApprovalsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [reports, setReports] = useState<ExpenseReport[]>([]);
+  const [submitterNames, setSubmitterNames] = useState<Record<string, string>>({});
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchQueue = async () => {
+    if (!auth.currentUser) return;
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const [result, fetchedCategories] = await Promise.all([getApprovalQueue(idToken), getExpenseCategories(idToken)]);
+      setCategories(fetchedCategories);
+      if (result.success) {
+        setExpenses(result.expenses || []);
+        setReports(result.reports || []);
+        setSubmitterNames(result.submitterNames || {});
+        setError(null);
+      } else {
+        setError(result.error || 'Could not load the approval queue.');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Could not load the approval queue.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    fetchQueue();
+  }, [user, authLoading, router]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex items-center">
+            <Inbox className="mr-2 h-6 w-6 text-primary" /> Awaiting My Approval
+          </CardTitle>
+          <CardDescription>
+            Company expenses and expense reports at a step you approve. Open one to look at its receipts before deciding.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-muted-foreground text-center py-8">{error}</p>
+          ) : expenses.length === 0 && reports.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">Nothing is waiting for you.</p>
+          ) : (
+            <div className="space-y-4">
+              {reports.length > 0 && (
+                <ul className="divide-y border rounded-md">
+                  {reports.map(report => {
+                    const step = getCurrentApprovalStep(report.approval);
+                    return (
+                      <li key={report.id} className="p-3 space-y-2">
+                        <div className="min-w-0">
+                          <Link href={`/reports/${report.id}`} className="font-medium hover:underline inline-flex items-center gap-1">
+                            <FileStack className="h-4 w-4" /> {report.title} <ExternalLink className="h-3 w-3" />
+                          </Link>
+                          <p className="text-xs text-muted-foreground">
+                            {submitterNames[report.userId] || report.userId} · {format(report.startDate as unknown as Date, 'MMM dd')} – {format(report.endDate as unknown as Date, 'MMM dd, yyyy')} · {report.expenseIds.length} {report.expenseIds.length === 1 ? 'expense' : 'expenses'}
+                          </p>
+                          {step && (
+                            <p className="text-xs text-muted-foreground">
+                              {step.name} (step {report.approval!.currentStep! + 1} of {report.approval!.steps.length})
+                              {report.approval!.round > 1 && ` · resubmitted, round ${report.approval!.round}`}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <ReportApprovalControls report={report} onUpdated={fetchQueue} />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {expenses.length > 0 && (
+                <ul className="divide-y border rounded-md">
+                  {expenses.map(expense => {
+                    const step = getCurrentApprovalStep(expense.approval);
+                    const currency = getExpenseCurrency(expense);
+                    const baseCurrency = getExpenseBaseCurrency(expense);
+                    return (
+                      <li key={expense.id} className="p-3 space-y-2">
+                        <div className="flex flex-wrap justify-between gap-2">
+                          <div className="min-w-0">
+                            <Link href={`/expenses/${expense.id}`} className="font-medium hover:underline inline-flex items-center gap-1">
+                              {expense.company} <ExternalLink className="h-3 w-3" />
+                            </Link>
+                            <p className="text-xs text-muted-foreground">
+                              {submitterNames[expense.userId] || expense.userId} · {format(expense.expenseDate as unknown as Date, 'MMM dd, yyyy')} · {getCategoryName(categories, expense.category)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {step ? `${step.name} (step ${expense.approval!.currentStep! + 1} of ${expense.approval!.steps.length})` : 'Submitted before approval chains'}
+                              {expense.approval && expense.approval.round > 1 && ` · resubmitted, round ${expense.approval.round}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-semibold">{formatCurrency(expense.totalAmount, currency)}</p>
+                            {currency !== baseCurrency && (
+                              <p className="text-xs text-muted-foreground">≈ {formatCurrency(getExpenseBaseAmount(expense), baseCurrency)}</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <ApprovalControls expense={expense} onUpdated={fetchQueue} />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
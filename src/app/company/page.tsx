@@ -10,8 +10,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Users, Mail, PlusCircle, Trash2, Edit3, LogOutIcon, Building, Briefcase } from 'lucide-react'; // Added Building, Briefcase
-import { getCompaniesForUser, sendInvitation, acceptInvitation, getInvitationsForUser, removeUserFromCompany, updateUserRole, leaveCompany, fetchMemberDisplayNames } from '@/actions/expense-actions';
+import { Loader2, Users, Mail, PlusCircle, Trash2, Edit3, LogOutIcon, Building, Briefcase, Coins } from 'lucide-react'; // Added Building, Briefcase
+import { getCompaniesForUser, sendInvitation, acceptInvitation, getInvitationsForUser, removeUserFromCompany, updateUserRole, leaveCompany, fetchMemberDisplayNames, updateCompanyBaseCurrency } from '@/actions/expense-actions';
 import type { Company, Invitation as InvitationType } from '@/types';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import {
@@ -26,7 +26,13 @@ import {
 } from "@/components/ui/alert-dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { UserRole } from '@/types/user';
+import { supportedCurrencies, DEFAULT_BASE_CURRENCY } from '@/types/currency';
 import { auth } from '@/lib/firebase';
+import { CompanyCategories } from '@/components/company-categories';
+import { ApprovalChainSettings } from '@/components/approval-chain-settings';
+import { CompanyPolicies } from '@/components/company-policies';
+import { CompanyAllowanceRates } from '@/components/company-allowance-rates';
+import { CompanyDimensions } from '@/components/company-dimensions';
 
 
 export default function CompanyPage() {
@@ -34,7 +40,7 @@ export default function CompanyPage() {
   const router = useRouter();
   const { toast } = useToast();
 
-  const [company, setCompany] = useState<Company | null>(null);
+  const [company, setCompany] = useState<(Company & { memberDisplayNames: Record<string, string> }) | null>(null);
   const [invitations, setInvitations] = useState<InvitationType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -49,6 +55,9 @@ export default function CompanyPage() {
   const [editMemberRole, setEditMemberRole] = useState<UserRole>('user');
   const [isEditRoleDialogOpen, setIsEditRoleDialogOpen] = useState(false);
 
+  // State for company base currency setting
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULT_BASE_CURRENCY);
+
   // State for expense association dialog on join
   const [showExpenseAssociationDialogOnJoin, setShowExpenseAssociationDialogOnJoin] = useState(false);
   const [joinedCompanyName, setJoinedCompanyName] = useState('');
@@ -86,6 +95,7 @@ export default function CompanyPage() {
         // Fetch display names for members
         const memberDisplayNames = await fetchMemberDisplayNames(currentCompany.members);
         setCompany({ ...currentCompany, memberDisplayNames });
+        setBaseCurrency(currentCompany.baseCurrency || DEFAULT_BASE_CURRENCY);
       } else {
         console.error("Company not found for companyId:", user.companyId);
         toast({ title: 'Error', description: 'Could not load your company details.', variant: 'destructive' });
@@ -224,6 +234,26 @@ export default function CompanyPage() {
     }
   };
 
+  const handleUpdateBaseCurrency = async () => {
+    if (!user || !company || !auth.currentUser) return;
+    setIsSubmitting(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyBaseCurrency(idToken, company.id, baseCurrency);
+      if (result.success) {
+        toast({ title: "Base Currency Updated", description: `New expenses will be converted to ${baseCurrency}.` });
+        fetchCompanyDetails();
+      } else {
+        toast({ title: "Update Failed", description: result.error, variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Error updating base currency:", error);
+      toast({ title: "Error", description: "Failed to update base currency.", variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleLeaveCompany = async () => {
     if (!user || !user.companyId || !auth.currentUser || user.role === 'owner') {
       toast({ title: "Action Not Allowed", description: "Owners must transfer ownership or delete the company to leave.", variant: "destructive" });
@@ -337,6 +367,44 @@ export default function CompanyPage() {
                 </ul>
               </div>
 
+              <div>
+                <h3 className="text-xl font-semibold mb-3 flex items-center">
+                  <Coins className="mr-2 h-5 w-5 text-primary" /> Base Currency
+                </h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Expenses in other currencies are converted to this currency when saved. Changing it does not re-convert existing expenses.
+                </p>
+                {(user?.role === 'owner' || user?.role === 'admin') ? (
+                  <div className="flex items-center gap-3">
+                    <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+                      <SelectTrigger id="base-currency" className="w-[140px]">
+                        <SelectValue placeholder="Select currency" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {supportedCurrencies.map(code => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={handleUpdateBaseCurrency} disabled={isSubmitting || baseCurrency === (company.baseCurrency || DEFAULT_BASE_CURRENCY)}>
+                      {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm font-medium">{company.baseCurrency || DEFAULT_BASE_CURRENCY}</p>
+                )}
+              </div>
+
+              <CompanyCategories company={company} canManage={user?.role === 'owner' || user?.role === 'admin'} onUpdated={fetchCompanyDetails} />
+
+              <ApprovalChainSettings company={company} memberNames={company.memberDisplayNames} canManage={user?.role === 'owner' || user?.role === 'admin'} onUpdated={fetchCompanyDetails} />
+
+              <CompanyPolicies company={company} canManage={user?.role === 'owner' || user?.role === 'admin'} onUpdated={fetchCompanyDetails} />
+
+              <CompanyAllowanceRates company={company} canManage={user?.role === 'owner' || user?.role === 'admin'} onUpdated={fetchCompanyDetails} />
+
+              <CompanyDimensions company={company} canManage={user?.role === 'owner' || user?.role === 'admin'} onUpdated={fetchCompanyDetails} />
+
               {(user?.role === 'owner' || user?.role === 'admin') && (
                 <div>
                   <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
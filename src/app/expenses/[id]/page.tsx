@@ -0,0 +1,218 @@
+// src/app/expenses/[id]/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getExpense, getExpenseCategories, getExpenseRevisions } from '@/actions/expense-actions';
+import type { Expense } from '@/types/expense';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import type { ExpenseRevision } from '@/types/revision';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { getExpenseAllocations, isSplitExpense } from '@/lib/expense-allocations';
+import { describeMileageRate, perDiemMealLabels } from '@/lib/allowances';
+import { describeExpenseDimensions, getDimensionName } from '@/lib/dimensions';
+import { perDiemMeals } from '@/types/allowance';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ReceiptViewer } from '@/components/receipt-viewer';
+import { ProvenanceDetails } from '@/components/provenance-details';
+import { RevisionHistory } from '@/components/revision-history';
+import { ApprovalTimeline } from '@/components/approval-timeline';
+import { ApprovalControls } from '@/components/approval-controls';
+import { PolicyViolationBadges } from '@/components/policy-violations';
+import { useDimensionSettings } from '@/components/expense-dimension-fields';
+import { formatCurrency, getExpenseBaseCurrency, getExpenseCurrency } from '@/lib/currency';
+import { Loader2, ArrowLeft, Copy, FileStack } from 'lucide-react';
+
+// View of a single expense, linked from duplicate warnings, the expense history and the approval queue.
+// Approvers decide from here after looking at the receipt.
+export default function ExpenseDetailPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const [expense, setExpense] = useState<Expense | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const dimensionSettings = useDimensionSettings();
+  const projects = dimensionSettings?.values.project || [];
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user || !auth.currentUser) {
+      router.push('/login');
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    auth.currentUser.getIdToken()
+      .then(idToken => Promise.all([getExpense(idToken, params.id), getExpenseCategories(idToken), getExpenseRevisions(idToken, params.id)]))
+      .then(([result, fetchedCategories, revisionsResult]) => {
+        if (cancelled) return;
+        setCategories(fetchedCategories);
+        setRevisions(revisionsResult.revisions || []);
+        if (result.success && result.expense) {
+          setExpense(result.expense);
+          setError(null);
+        } else {
+          setError(result.error || 'Could not load expense.');
+        }
+      })
+      .catch(e => !cancelled && setError(e.message || 'Could not load expense.'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [user, authLoading, params.id, router, reloadCount]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !expense) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-8">
+        <p className="text-muted-foreground">{error || 'Expense not found.'}</p>
+        <Button variant="outline" asChild><Link href="/"><ArrowLeft className="mr-2 h-4 w-4" /> Back</Link></Button>
+      </div>
+    );
+  }
+
+  const currency = getExpenseCurrency(expense);
+  const expenseDate = expense.expenseDate as unknown as Date;
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-2xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex flex-wrap items-center gap-2">
+            {expense.company}
+            {expense.companyId && <Badge variant="secondary" className="capitalize">{expense.status}</Badge>}
+            {!!expense.possibleDuplicateOf?.length && (
+              <Badge variant="outline" className="border-amber-500 text-amber-700"><Copy className="mr-1 h-3 w-3" />Possible duplicate</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {format(new Date(expenseDate), 'MMM dd, yyyy')} · <span>{getCategoryName(categories, expense.category)}</span> · <span className="capitalize">{expense.paymentMethod}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader><TableRow className="text-xs">
+              <TableHead>Item</TableHead>
+              <TableHead className="text-center">Qty</TableHead>
+              <TableHead className="text-right">Net Price</TableHead>
+            </TableRow></TableHeader>
+            <TableBody>
+              {expense.items.map((item, index) => (
+                <TableRow key={index} className="text-sm">
+                  <TableCell className="font-medium py-1.5">
+                    {item.name}
+                    {(item.split || item.category) && (
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {item.split
+                          ? item.split.shares.map(share => `${getCategoryName(categories, share.category)}${share.projectId ? ` (${getDimensionName(projects, share.projectId)})` : ''}`).join(', ')
+                          : getCategoryName(categories, item.category!)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center py-1.5">{item.quantity}</TableCell>
+                  <TableCell className="text-right py-1.5">{formatCurrency(item.netPrice, currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-between font-semibold border-t pt-2">
+            <span>Total</span>
+            <span>{formatCurrency(expense.totalAmount, currency)}</span>
+          </div>
+          {expense.mileage && (
+            <p className="text-sm text-muted-foreground">Mileage for {expense.mileage.vehicle} at {describeMileageRate(expense.mileage, currency)}.</p>
+          )}
+          {expense.perDiem && (
+            <p className="text-sm text-muted-foreground">
+              Per diem for {expense.perDiem.destination} at {formatCurrency(expense.perDiem.dailyRate, currency)} per day. Partial days pay {expense.perDiem.rules.partialDayPercent}%;
+              {' '}{perDiemMeals.map(meal => `${perDiemMealLabels[meal].toLowerCase()} ${expense.perDiem!.rules.mealDeductionPercents[meal]}%`).join(', ')} are deducted when provided.
+            </p>
+          )}
+          {isSplitExpense(expense) && (
+            <div className="text-sm space-y-0.5">
+              <p className="font-medium">Allocation</p>
+              {getExpenseAllocations(expense).map(allocation => (
+                <div key={`${allocation.category}:${allocation.projectId || ''}`} className="flex justify-between text-muted-foreground">
+                  <span>{getCategoryName(categories, allocation.category)}{allocation.projectId && ` · ${getDimensionName(projects, allocation.projectId)}`}</span>
+                  <span>{formatCurrency(allocation.amount, currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {(describeExpenseDimensions(expense, dimensionSettings?.values || null).length > 0 || expense.billable) && (
+            <div className="text-sm space-y-0.5">
+              {describeExpenseDimensions(expense, dimensionSettings?.values || null).map(label => <p key={label}>{label}</p>)}
+              {expense.billable && (
+                <p>
+                  Billable to the client
+                  {expense.billableAmount != null && `: ${formatCurrency(expense.billableAmount, getExpenseBaseCurrency(expense))}`}
+                  {expense.markupPercent ? `, including ${expense.markupPercent}% markup` : ''}
+                </p>
+              )}
+            </div>
+          )}
+          {!!expense.possibleDuplicateOf?.length && (
+            <div className="text-sm">
+              Saved despite matching:{' '}
+              {expense.possibleDuplicateOf.map((duplicateId, index) => (
+                <span key={duplicateId}>
+                  {index > 0 && ', '}
+                  <Link href={`/expenses/${duplicateId}`} className="text-primary hover:underline">{duplicateId}</Link>
+                </span>
+              ))}
+            </div>
+          )}
+          {!!expense.policyViolations?.length && (
+            <div className="border-t pt-3 text-sm space-y-1">
+              <p className="font-medium">Policy flags</p>
+              <PolicyViolationBadges violations={expense.policyViolations} detailed />
+              {expense.policyJustification && <p><span className="font-medium">Justification:</span> {expense.policyJustification}</p>}
+            </div>
+          )}
+          <div className="border-t pt-3">
+            <ProvenanceDetails provenance={expense.provenance} categories={categories} />
+          </div>
+          {expense.reportId ? (
+            <div className="border-t pt-3 text-sm">
+              <Link href={`/reports/${expense.reportId}`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                <FileStack className="h-4 w-4" /> Approved with its expense report
+              </Link>
+            </div>
+          ) : expense.companyId && (
+            <div className="border-t pt-3 space-y-3">
+              <ApprovalTimeline approval={expense.approval} />
+              <div className="flex gap-2">
+                <ApprovalControls expense={expense} onUpdated={() => setReloadCount(count => count + 1)} />
+              </div>
+            </div>
+          )}
+          <div className="border-t pt-3">
+            <RevisionHistory revisions={revisions} categories={categories} />
+          </div>
+          {expense.receipt && (
+            <ReceiptViewer expenseId={expense.id!} vendor={expense.company} contentType={expense.receipt.original.contentType} hasThumbnail={!!expense.receipt.thumbnail} />
+          )}
+          <Button variant="outline" asChild><Link href="/"><ArrowLeft className="mr-2 h-4 w-4" /> Back to expenses</Link></Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
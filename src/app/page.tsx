@@ -5,7 +5,10 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ExpenseForm } from "@/components/expense-form";
 import { ExpenseHistory } from "@/components/expense-history";
-import { FilePlus2, History } from "lucide-react";
+import { BatchReceiptUpload } from "@/components/batch-receipt-upload";
+import { RecurringDraftNotice } from "@/components/recurring-expenses";
+import { MileageForm, PerDiemForm } from "@/components/allowance-forms";
+import { FilePlus2, History, Files, Car, CalendarRange } from "lucide-react";
 
 // AuthGuard will handle redirect if not logged in.
 // If you prefer specific content for non-logged-in users on this page,
@@ -15,11 +18,21 @@ import { FilePlus2, History } from "lucide-react";
 export default function HomePage() {
   return (
     <div className="w-full">
+      <RecurringDraftNotice />
       <Tabs defaultValue="new-expense" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 md:w-1/2 mx-auto mb-8 bg-secondary p-1 rounded-lg">
+        <TabsList className="grid w-full grid-cols-5 md:w-5/6 mx-auto mb-8 bg-secondary p-1 rounded-lg">
           <TabsTrigger value="new-expense" className="py-2.5 text-sm md:text-base data-[state=active]:bg-background data-[state=active]:text-primary data-[state=active]:shadow-md rounded-md flex items-center justify-center gap-2">
             <FilePlus2 size={18}/> New Expense
           </TabsTrigger>
+          <TabsTrigger value="batch" className="py-2.5 text-sm md:text-base data-[state=active]:bg-background data-[state=active]:text-primary data-[state=active]:shadow-md rounded-md flex items-center justify-center gap-2">
+            <Files size={18}/> Batch Upload
+          </TabsTrigger>
+          <TabsTrigger value="mileage" className="py-2.5 text-sm md:text-base data-[state=active]:bg-background data-[state=active]:text-primary data-[state=active]:shadow-md rounded-md flex items-center justify-center gap-2">
+            <Car size={18}/> Mileage
+          </TabsTrigger>
+          <TabsTrigger value="per-diem" className="py-2.5 text-sm md:text-base data-[state=active]:bg-background data-[state=active]:text-primary data-[state=active]:shadow-md rounded-md flex items-center justify-center gap-2">
+            <CalendarRange size={18}/> Per Diem
+          </TabsTrigger>
           <TabsTrigger value="history" className="py-2.5 text-sm md:text-base data-[state=active]:bg-background data-[state=active]:text-primary data-[state=active]:shadow-md rounded-md flex items-center justify-center gap-2">
             <History size={18}/> Expense History
           </TabsTrigger>
@@ -27,6 +40,15 @@ export default function HomePage() {
         <TabsContent value="new-expense">
           <ExpenseForm />
         </TabsContent>
+        <TabsContent value="batch">
+          <BatchReceiptUpload />
+        </TabsContent>
+        <TabsContent value="mileage">
+          <MileageForm />
+        </TabsContent>
+        <TabsContent value="per-diem">
+          <PerDiemForm />
+        </TabsContent>
         <TabsContent value="history">
           <ExpenseHistory />
         </TabsContent>
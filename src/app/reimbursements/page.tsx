@@ -0,0 +1,140 @@
+// src/app/reimbursements/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getOutstandingReimbursements, getPayoutBatches, getReimbursementBalance } from '@/actions/reimbursement-actions';
+import type { Expense } from '@/types/expense';
+import type { PayoutBatch, ReimbursementBalance } from '@/types/reimbursement';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatAmounts, PayoutBatchBuilder, PayoutBatchList } from '@/components/payout-batches';
+import { Loader2, Banknote } from 'lucide-react';
+
+// Every member sees what they are owed and what was paid back. Owners and admins pay out approved expenses in
+// batches; auditors can see and export the batches.
+export default function ReimbursementsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [balance, setBalance] = useState<ReimbursementBalance | null>(null);
+  const [outstanding, setOutstanding] = useState<Expense[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isFinance = user?.role === 'owner' || user?.role === 'admin';
+  const canViewBatches = isFinance || user?.role === 'auditor';
+
+  const fetchReimbursements = async () => {
+    if (!auth.currentUser) return;
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const [balanceResult, outstandingResult, batchesResult] = await Promise.all([
+        getReimbursementBalance(idToken),
+        isFinance ? getOutstandingReimbursements(idToken) : null,
+        canViewBatches ? getPayoutBatches(idToken) : null,
+      ]);
+      if (!balanceResult.success) {
+        setError(balanceResult.error || 'Could not load reimbursements.');
+        return;
+      }
+      setBalance(balanceResult.balance || null);
+      setOutstanding(outstandingResult?.expenses || []);
+      setMemberNames(outstandingResult?.memberNames || {});
+      setBatches(batchesResult?.batches || []);
+      setError(outstandingResult?.error || batchesResult?.error || null);
+    } catch (e: any) {
+      setError(e.message || 'Could not load reimbursements.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    fetchReimbursements();
+  }, [user, authLoading, router]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-6 py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex items-center">
+            <Banknote className="mr-2 h-6 w-6 text-primary" /> Reimbursements
+          </CardTitle>
+          <CardDescription>Your approved company expenses: what is still to be paid back to you, and what was.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!user?.companyId ? (
+            <p className="text-muted-foreground text-center py-8">Reimbursements are for company expenses. Join or create a company to use them.</p>
+          ) : error && !balance ? (
+            <p className="text-muted-foreground text-center py-8">{error}</p>
+          ) : balance && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="rounded-md border p-3">
+                  <p className="text-sm text-muted-foreground">Outstanding</p>
+                  <p className="text-xl font-semibold">{formatAmounts(balance.outstanding)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-sm text-muted-foreground">Reimbursed</p>
+                  <p className="text-xl font-semibold">{formatAmounts(balance.reimbursed)}</p>
+                </div>
+              </div>
+              {balance.payouts.length > 0 && (
+                <ul className="text-sm divide-y border rounded-md">
+                  {balance.payouts.map(payout => (
+                    <li key={payout.batchId} className="p-2 flex justify-between">
+                      <span>{format(payout.paidAt as unknown as Date, 'MMM dd, yyyy')} · {payout.reference}</span>
+                      <span className="font-medium">{formatAmounts(payout.amounts)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {user?.companyId && isFinance && (
+        <Card className="w-full max-w-3xl shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Pay Out Expenses</CardTitle>
+            <CardDescription>
+              Select approved expenses per member and record them as paid in one batch. Download the batch as a CSV payment file for your bank or payroll.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PayoutBatchBuilder expenses={outstanding} memberNames={memberNames} onCreated={fetchReimbursements} />
+          </CardContent>
+        </Card>
+      )}
+
+      {user?.companyId && canViewBatches && (
+        <Card className="w-full max-w-3xl shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Payout Batches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? <p className="text-muted-foreground text-center py-4">{error}</p> : <PayoutBatchList batches={batches} />}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+// src/app/reports/[id]/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { getExpenseCategories } from '@/actions/expense-actions';
+import { deleteExpenseReport, getExpenseReport } from '@/actions/report-actions';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport, ExpenseReportTotals } from '@/types/report';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { formatCurrency, getExpenseBaseAmount, getExpenseBaseCurrency, getExpenseCurrency } from '@/lib/currency';
+import { isReportEditable } from '@/lib/expense-reports';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ExpenseReportDialog, ReportStatusBadge } from '@/components/expense-report-form';
+import { ApprovalTimeline } from '@/components/approval-timeline';
+import { ReportApprovalControls } from '@/components/approval-controls';
+import { Loader2, ArrowLeft, Pencil, Trash2 } from 'lucide-react';
+
+// A report with its expenses and totals. The submitter edits and submits drafts here and approvers decide. Reports
+// are marked reimbursed once all their expenses were paid out in payout batches.
+export default function ExpenseReportPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [report, setReport] = useState<ExpenseReport | null>(null);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [totals, setTotals] = useState<ExpenseReportTotals | null>(null);
+  const [submitterName, setSubmitterName] = useState<string | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const reload = () => setReloadCount(count => count + 1);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user || !auth.currentUser) {
+      router.push('/login');
+      return;
+    }
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => Promise.all([getExpenseReport(idToken, params.id), getExpenseCategories(idToken)]))
+      .then(([result, fetchedCategories]) => {
+        if (cancelled) return;
+        setCategories(fetchedCategories);
+        if (result.success && result.report) {
+          setReport(result.report);
+          setExpenses(result.expenses || []);
+          setTotals(result.totals || null);
+          setSubmitterName(result.submitterName || null);
+          setError(null);
+        } else {
+          setError(result.error || 'Could not load the report.');
+        }
+      })
+      .catch(e => !cancelled && setError(e.message || 'Could not load the report.'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [user, authLoading, params.id, router, reloadCount]);
+
+  const runAction = async (action: (idToken: string) => Promise<{ success: boolean; error?: string }>, successTitle: string, onSuccess: () => void) => {
+    if (!auth.currentUser) return;
+    setIsProcessing(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await action(idToken);
+      if (result.success) {
+        toast({ title: successTitle });
+        onSuccess();
+      } else {
+        toast({ title: 'Update Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
+      }
+    } catch (e: any) {
+      toast({ title: 'Update Failed', description: e.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !report || !user) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-8">
+        <p className="text-muted-foreground">{error || 'Report not found.'}</p>
+        <Button variant="outline" asChild><Link href="/reports"><ArrowLeft className="mr-2 h-4 w-4" /> Back</Link></Button>
+      </div>
+    );
+  }
+
+  const isSubmitter = report.userId === user.uid;
+  const canEdit = isSubmitter && isReportEditable(report);
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex flex-wrap items-center gap-2">
+            {report.title}
+            <ReportStatusBadge status={report.status} />
+          </CardTitle>
+          <CardDescription>
+            {!isSubmitter && `${submitterName || report.userId} · `}
+            {format(report.startDate as unknown as Date, 'MMM dd, yyyy')} – {format(report.endDate as unknown as Date, 'MMM dd, yyyy')}
+            {report.submittedAt && ` · submitted ${format(report.submittedAt as unknown as Date, 'MMM dd, yyyy')}`}
+            {report.reimbursedAt && ` · reimbursed ${format(report.reimbursedAt as unknown as Date, 'MMM dd, yyyy')}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report.purpose && <p className="text-sm">{report.purpose}</p>}
+
+          {expenses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No expenses in this report yet.</p>
+          ) : (
+            <Table>
+              <TableHeader><TableRow className="text-xs">
+                <TableHead>Expense</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow></TableHeader>
+              <TableBody>
+                {expenses.map(expense => {
+                  const currency = getExpenseCurrency(expense);
+                  const baseCurrency = getExpenseBaseCurrency(expense);
+                  return (
+                    <TableRow key={expense.id} className="text-sm">
+                      <TableCell className="py-1.5">
+                        <Link href={`/expenses/${expense.id}`} className="font-medium hover:underline">{expense.company}</Link>
+                        <span className="block text-xs text-muted-foreground">{format(expense.expenseDate as unknown as Date, 'MMM dd, yyyy')}</span>
+                      </TableCell>
+                      <TableCell className="py-1.5">{getCategoryName(categories, expense.category)}</TableCell>
+                      <TableCell className="text-right py-1.5">
+                        {formatCurrency(expense.totalAmount, currency)}
+                        {currency !== baseCurrency && (
+                          <span className="block text-xs text-muted-foreground">≈ {formatCurrency(getExpenseBaseAmount(expense), baseCurrency)}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {totals && totals.expenseCount > 0 && (
+            <div className="text-sm space-y-1 border-t pt-3">
+              <p className="font-medium">Totals</p>
+              {Object.entries(totals.byCategory).map(([category, amounts]) => (
+                <div key={category} className="flex justify-between text-muted-foreground">
+                  <span>{getCategoryName(categories, category)}</span>
+                  <span>{Object.entries(amounts).map(([currency, amount]) => formatCurrency(amount, currency)).join(' + ')}</span>
+                </div>
+              ))}
+              {Object.entries(totals.byCurrency).map(([currency, amount]) => (
+                <div key={currency} className="flex justify-between font-semibold">
+                  <span>Total</span>
+                  <span>{formatCurrency(amount, currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.approval && (
+            <div className="border-t pt-3">
+              <ApprovalTimeline approval={report.approval} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 border-t pt-3">
+            <ReportApprovalControls report={report} onUpdated={reload} />
+            {canEdit && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                  <Pencil size={16} className="mr-1" /> Edit
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => setShowDeleteConfirmDialog(true)} disabled={isProcessing}>
+                  <Trash2 size={16} className="mr-1" /> Delete
+                </Button>
+              </>
+            )}
+          </div>
+          <Button variant="outline" asChild><Link href="/reports"><ArrowLeft className="mr-2 h-4 w-4" /> Back to reports</Link></Button>
+        </CardContent>
+      </Card>
+
+      <ExpenseReportDialog open={isEditing} onOpenChange={setIsEditing} report={report} onSaved={reload} />
+
+      <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this report?</AlertDialogTitle>
+            <AlertDialogDescription>The expenses stay, and go through the approval chain on their own again.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isProcessing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => runAction(idToken => deleteExpenseReport(idToken, report.id!), 'Report Deleted', () => router.push('/reports'))}
+              disabled={isProcessing}
+            >
+              {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Continue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+// src/app/reports/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getExpenseReports } from '@/actions/report-actions';
+import type { ExpenseReport, ExpenseReportTotals } from '@/types/report';
+import { formatCurrency } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ExpenseReportDialog, ReportStatusBadge } from '@/components/expense-report-form';
+import { ApprovalSummary } from '@/components/approval-timeline';
+import { Loader2, FileStack, PlusCircle } from 'lucide-react';
+
+export default function ReportsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [reports, setReports] = useState<ExpenseReport[]>([]);
+  const [totals, setTotals] = useState<Record<string, ExpenseReportTotals>>({});
+  const [submitterNames, setSubmitterNames] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchReports = async () => {
+    if (!auth.currentUser) return;
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await getExpenseReports(idToken);
+      if (result.success) {
+        setReports(result.reports || []);
+        setTotals(result.totals || {});
+        setSubmitterNames(result.submitterNames || {});
+        setError(null);
+      } else {
+        setError(result.error || 'Could not load expense reports.');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Could not load expense reports.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    fetchReports();
+  }, [user, authLoading, router]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <CardTitle className="text-2xl font-semibold flex items-center">
+                <FileStack className="mr-2 h-6 w-6 text-primary" /> Expense Reports
+              </CardTitle>
+              <CardDescription>
+                Bundle the expenses of a trip or project and submit them for approval together.
+              </CardDescription>
+            </div>
+            {user?.companyId && (
+              <Button onClick={() => setIsCreating(true)}>
+                <PlusCircle className="mr-2 h-4 w-4" /> New Report
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!user?.companyId ? (
+            <p className="text-muted-foreground text-center py-8">Expense reports are for company expenses. Join or create a company to use them.</p>
+          ) : error ? (
+            <p className="text-muted-foreground text-center py-8">{error}</p>
+          ) : reports.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No expense reports yet.</p>
+          ) : (
+            <ul className="divide-y border rounded-md">
+              {reports.map(report => {
+                const reportTotals = totals[report.id!];
+                return (
+                  <li key={report.id} className="p-3 flex flex-wrap justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <Link href={`/reports/${report.id}`} className="font-medium hover:underline">{report.title}</Link>
+                      <p className="text-xs text-muted-foreground">
+                        {report.userId !== user.uid && `${submitterNames[report.userId] || report.userId} · `}
+                        {format(report.startDate as unknown as Date, 'MMM dd')} – {format(report.endDate as unknown as Date, 'MMM dd, yyyy')}
+                        {' · '}{report.expenseIds.length} {report.expenseIds.length === 1 ? 'expense' : 'expenses'}
+                      </p>
+                      <ApprovalSummary status={report.status} approval={report.approval} />
+                    </div>
+                    <div className="text-right space-y-1">
+                      <ReportStatusBadge status={report.status} />
+                      {reportTotals && Object.entries(reportTotals.byCurrency).map(([currency, amount]) => (
+                        <p key={currency} className="font-semibold">{formatCurrency(amount, currency)}</p>
+                      ))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+      <ExpenseReportDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        onSaved={(reportId) => router.push(`/reports/${reportId}`)}
+      />
+    </div>
+  );
+}
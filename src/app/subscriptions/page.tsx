@@ -0,0 +1,100 @@
+// src/app/subscriptions/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getBaseCurrency, getExpenseCategories } from '@/actions/expense-actions';
+import { generateRecurringDrafts, getRecurringExpenses } from '@/actions/recurring-actions';
+import type { RecurringDraft, RecurringExpense } from '@/types/recurring';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RecurringExpenses } from '@/components/recurring-expenses';
+import { Loader2, Repeat } from 'lucide-react';
+
+export default function SubscriptionsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [drafts, setDrafts] = useState<RecurringDraft[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULT_BASE_CURRENCY);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRecurringExpenses = async () => {
+    if (!auth.currentUser) return;
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      // Charges that fell due since the last visit get their drafts first
+      const generation = await generateRecurringDrafts(idToken);
+      if (!generation.success) console.error("Could not generate recurring drafts:", generation.error);
+      const [result, fetchedCategories, currency] = await Promise.all([
+        getRecurringExpenses(idToken),
+        getExpenseCategories(idToken),
+        getBaseCurrency(idToken),
+      ]);
+      setCategories(fetchedCategories);
+      setBaseCurrency(currency);
+      if (result.success) {
+        setRecurringExpenses(result.recurringExpenses || []);
+        setDrafts(result.drafts || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Could not load recurring expenses.');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Could not load recurring expenses.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    fetchRecurringExpenses();
+  }, [user, authLoading, router]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex items-center">
+            <Repeat className="mr-2 h-6 w-6 text-primary" /> Subscriptions
+          </CardTitle>
+          <CardDescription>
+            Charges that come back on a schedule. A draft expense is prepared whenever one is due, and a receipt you enter for it closes the draft.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-muted-foreground text-center py-8">{error}</p>
+          ) : (
+            <RecurringExpenses
+              recurringExpenses={recurringExpenses}
+              drafts={drafts}
+              categories={categories}
+              baseCurrency={baseCurrency}
+              onUpdated={fetchRecurringExpenses}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
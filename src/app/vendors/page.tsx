@@ -0,0 +1,84 @@
+// src/app/vendors/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getExpenseCategories } from '@/actions/expense-actions';
+import { getVendors } from '@/actions/vendor-actions';
+import type { Vendor } from '@/types/vendor';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { VendorDirectory } from '@/components/vendor-directory';
+import { Loader2, Store } from 'lucide-react';
+
+export default function VendorsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [canManage, setCanManage] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchVendors = async () => {
+    if (!auth.currentUser) return;
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const [result, fetchedCategories] = await Promise.all([getVendors(idToken), getExpenseCategories(idToken)]);
+      setCategories(fetchedCategories);
+      if (result.success) {
+        setVendors(result.vendors || []);
+        setCanManage(!!result.canManage);
+        setError(null);
+      } else {
+        setError(result.error || 'Could not load vendors.');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Could not load vendors.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    fetchVendors();
+  }, [user, authLoading, router]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-start py-8">
+      <Card className="w-full max-w-3xl shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold flex items-center">
+            <Store className="mr-2 h-6 w-6 text-primary" /> Vendors
+          </CardTitle>
+          <CardDescription>
+            {user?.companyId ? "Your company's merchants." : 'Your merchants.'} Receipts are matched to a vendor by its name and aliases, so one merchant is grouped together however its name was printed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-muted-foreground text-center py-8">{error}</p>
+          ) : (
+            <VendorDirectory vendors={vendors} categories={categories} canManage={canManage} onUpdated={fetchVendors} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
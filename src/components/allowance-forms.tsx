@@ -0,0 +1,461 @@
+// src/components/allowance-forms.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { getExpenseCategories, saveExpense, updateExpense } from '@/actions/expense-actions';
+import { getAllowanceRates } from '@/actions/allowance-actions';
+import type { Expense, ExpenseFormData } from '@/types/expense';
+import type { MileageRate, PerDiemMeal, PerDiemRate, PerDiemRules } from '@/types/allowance';
+import { DEFAULT_PER_DIEM_RULES, perDiemMeals } from '@/types/allowance';
+import type { DuplicateMatch } from '@/types/duplicate';
+import type { PolicyViolation } from '@/types/policy';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { activeCategories, resolveCategoryId } from '@/lib/categories';
+import { formatCurrency } from '@/lib/currency';
+import { calculateMileage, calculatePerDiem, describeMileageRate, describePerDiemDay, distanceUnitLabels, getTripDates, perDiemMealLabels } from '@/lib/allowances';
+import { MAX_POLICY_JUSTIFICATION_LENGTH } from '@/lib/expense-policies';
+import { PolicyViolationBadges } from './policy-violations';
+import { ExpenseDimensionFields, getDefaultDimensionValues, pickDimensionValues, useDimensionSettings } from './expense-dimension-fields';
+import { Loader2, AlertTriangle, Car, CalendarRange } from 'lucide-react';
+
+interface AllowanceRates {
+  mileageRates: MileageRate[];
+  perDiemRates: PerDiemRate[];
+  perDiemRules: PerDiemRules;
+  baseCurrency: string;
+}
+
+interface AllowanceFormProps {
+  // Edits a saved mileage or per-diem expense instead of adding a new one
+  expense?: Expense;
+  onExpenseUpdated?: () => void; // Called once the changes were saved
+}
+
+const toDateInput = (date: Date): string => format(date, 'yyyy-MM-dd');
+const fromDateInput = (value: string): Date => new Date(`${value}T00:00:00`);
+
+// The company's rates and categories, loaded once the user is known
+function useAllowanceSetup() {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<AllowanceRates | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+
+  useEffect(() => {
+    if (!user || !auth.currentUser) return;
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => Promise.all([getAllowanceRates(idToken), getExpenseCategories(idToken)]))
+      .then(([result, fetchedCategories]) => {
+        if (cancelled) return;
+        setCategories(fetchedCategories);
+        setRates({
+          mileageRates: result.mileageRates || [],
+          perDiemRates: result.perDiemRates || [],
+          perDiemRules: result.perDiemRules || DEFAULT_PER_DIEM_RULES,
+          baseCurrency: result.baseCurrency || DEFAULT_BASE_CURRENCY,
+        });
+      })
+      .catch(error => console.error("Failed to load mileage and per-diem rates:", error));
+    return () => { cancelled = true; };
+  }, [user]);
+
+  return { user, rates, categories };
+}
+
+// Project, client, cost center, tags and billing, starting from the user's defaults for new claims
+function useAllowanceDimensions(expense?: Expense) {
+  const settings = useDimensionSettings();
+  const [dimensions, setDimensions] = useState(pickDimensionValues(expense || {}));
+
+  useEffect(() => {
+    if (settings && !expense) setDimensions(getDefaultDimensionValues(settings));
+  }, [settings, expense]);
+
+  return { settings, dimensions, setDimensions };
+}
+
+// Saves a claim like ExpenseForm saves a receipt: possible duplicates are confirmed first, and policy violations are
+// shown with a justification field when a policy asks for one
+function useAllowanceSubmit({ expense, onExpenseUpdated, onSaved }: AllowanceFormProps & { onSaved: () => void }) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [policyViolations, setPolicyViolations] = useState<PolicyViolation[]>(expense?.policyViolations || []);
+  const [justification, setJustification] = useState(expense?.policyJustification || '');
+  const [pendingDuplicates, setPendingDuplicates] = useState<{ data: ExpenseFormData; duplicates: DuplicateMatch[] } | null>(null);
+
+  const submit = async (data: ExpenseFormData) => {
+    if (!auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const finalData: ExpenseFormData = { ...data, today: toDateInput(new Date()), policyJustification: justification.trim() || null };
+      if (expense) {
+        const result = await updateExpense(idToken, expense.id!, finalData);
+        if (result.success) {
+          toast({ title: 'Expense Updated', description: 'Your changes were saved.' });
+          onExpenseUpdated?.();
+        } else {
+          if (result.policyViolations?.length) setPolicyViolations(result.policyViolations);
+          toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        }
+        return;
+      }
+      const result = await saveExpense(idToken, finalData);
+      if (result.success) {
+        toast({ title: 'Expense Saved', description: `Your claim (ID: ${result.docId}) has been saved.` });
+        setPolicyViolations([]);
+        setJustification('');
+        onSaved();
+      } else if (result.duplicates?.length) {
+        setPendingDuplicates({ data: finalData, duplicates: result.duplicates });
+      } else {
+        if (result.policyViolations?.length) setPolicyViolations(result.policyViolations);
+        toast({ title: 'Save Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error: any) {
+      console.error("Error saving claim:", error);
+      toast({ title: 'Save Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const footer = (label: string, disabled: boolean) => (
+    <>
+      {policyViolations.length > 0 && (
+        <Alert variant={policyViolations.some(violation => violation.action === 'block') ? 'destructive' : 'default'}>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This expense breaks company policy</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <PolicyViolationBadges violations={policyViolations} detailed />
+            {policyViolations.some(violation => violation.action === 'justify') && (
+              <div className="space-y-1">
+                <Label htmlFor="allowance-justification">Justification</Label>
+                <Textarea id="allowance-justification" value={justification} onChange={(e) => setJustification(e.target.value)} placeholder="Explain why this expense is needed" maxLength={MAX_POLICY_JUSTIFICATION_LENGTH} />
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      <CardFooter className="p-0 pt-6">
+        <Button type="submit" disabled={isSaving || disabled} className="w-full text-lg py-3">
+          {isSaving ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : null}
+          {expense ? 'Save Changes' : label}
+        </Button>
+      </CardFooter>
+      <AlertDialog open={pendingDuplicates !== null} onOpenChange={(open) => { if (!open) setPendingDuplicates(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possible duplicate claim</AlertDialogTitle>
+            <AlertDialogDescription>
+              This looks like {pendingDuplicates?.duplicates.length === 1 ? 'a claim that was' : 'claims that were'} already submitted. Only save it if it is a separate trip.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-2 text-sm">
+            {pendingDuplicates?.duplicates.map(duplicate => (
+              <li key={duplicate.expenseId} className="p-2 border rounded-md">
+                <Link href={`/expenses/${duplicate.expenseId}`} target="_blank" className="font-medium text-primary hover:underline">
+                  {duplicate.company} · {duplicate.expenseDate} · {formatCurrency(duplicate.totalAmount, duplicate.currency)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Don&apos;t Save</AlertDialogCancel>
+            <AlertDialogAction onClick={() => {
+              const pending = pendingDuplicates;
+              setPendingDuplicates(null);
+              if (pending) submit({ ...pending.data, duplicatesAcknowledged: true });
+            }}>Save Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+
+  return { submit, footer };
+}
+
+const CategorySelect = ({ id, value, categories, onChange }: { id: string; value: string; categories: ExpenseCategoryDefinition[]; onChange: (value: string) => void }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+    <SelectContent>
+      {activeCategories(categories).map(category => <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>)}
+    </SelectContent>
+  </Select>
+);
+
+const NoRatesNotice = ({ personal, what }: { personal: boolean; what: string }) => (
+  <p className="text-muted-foreground text-center py-8">
+    {personal ? `${what} are claimed at a company's rates. Join a company to claim them.` : `Your company has not set up ${what.toLowerCase()} rates yet. Owners and admins add them on the company page.`}
+  </p>
+);
+
+// A trip by the submitter's own vehicle, paid at the company's rate per km or mile
+export function MileageForm({ expense, onExpenseUpdated }: AllowanceFormProps = {}) {
+  const { user, rates, categories } = useAllowanceSetup();
+  const { settings, dimensions, setDimensions } = useAllowanceDimensions(expense);
+  const [rateId, setRateId] = useState(expense?.mileage?.rateId || '');
+  const [from, setFrom] = useState(expense?.mileage?.from || '');
+  const [to, setTo] = useState(expense?.mileage?.to || '');
+  const [distance, setDistance] = useState(expense?.mileage ? String(expense.mileage.distance) : '');
+  const [roundTrip, setRoundTrip] = useState(expense?.mileage?.roundTrip || false);
+  const [date, setDate] = useState(toDateInput(expense ? new Date(expense.expenseDate as unknown as Date) : new Date()));
+  const [category, setCategory] = useState(expense?.category || '');
+
+  const reset = () => {
+    setFrom('');
+    setTo('');
+    setDistance('');
+    setRoundTrip(false);
+  };
+  const { submit, footer } = useAllowanceSubmit({ expense, onExpenseUpdated, onSaved: reset });
+
+  useEffect(() => {
+    if (!rates) return;
+    if (!rateId && rates.mileageRates.length > 0) setRateId(rates.mileageRates[0].id);
+    if (!category) setCategory(resolveCategoryId(categories, 'travel'));
+  }, [rates, categories]);
+
+  const input = { rateId, from, to, distance, roundTrip };
+  const priced = rates ? calculateMileage(input, rates.mileageRates, rates.baseCurrency) : null;
+  const selectedRate = rates?.mileageRates.find(rate => rate.id === rateId);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user || !date) return;
+    submit({
+      kind: 'mileage',
+      mileage: input,
+      company: '',
+      companyId: user.companyId || null,
+      items: [],
+      category,
+      currency: rates?.baseCurrency || DEFAULT_BASE_CURRENCY,
+      expenseDate: fromDateInput(date),
+      expenseDay: date,
+      paymentMethod: 'other',
+      status: 'pending',
+      ...dimensions,
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-center flex items-center justify-center gap-2"><Car className="h-6 w-6 text-primary" /> {expense ? 'Edit Mileage' : 'Mileage'}</CardTitle>
+        <CardDescription className="text-center">A trip in your own vehicle, paid at your company&apos;s rate. No receipt needed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!rates ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : rates.mileageRates.length === 0 ? (
+          <NoRatesNotice personal={!user?.companyId} what="Mileage" />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="mileage-from">From</Label>
+                <Input id="mileage-from" value={from} onChange={(e) => setFrom(e.target.value)} maxLength={100} placeholder="e.g. Office" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mileage-to">To</Label>
+                <Input id="mileage-to" value={to} onChange={(e) => setTo(e.target.value)} maxLength={100} placeholder="e.g. Client site" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="mileage-vehicle">Vehicle</Label>
+                <Select value={rateId} onValueChange={setRateId}>
+                  <SelectTrigger id="mileage-vehicle"><SelectValue placeholder="Select vehicle" /></SelectTrigger>
+                  <SelectContent>
+                    {rates.mileageRates.map(rate => <SelectItem key={rate.id} value={rate.id}>{rate.vehicle} · {describeMileageRate(rate, rates.baseCurrency)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mileage-distance">Distance one way{selectedRate ? ` (${distanceUnitLabels[selectedRate.unit]})` : ''}</Label>
+                <Input id="mileage-distance" type="number" min="0" step="0.1" value={distance} onChange={(e) => setDistance(e.target.value)} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={roundTrip} onCheckedChange={(checked) => setRoundTrip(checked === true)} /> Round trip
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="mileage-date">Date</Label>
+                <Input id="mileage-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mileage-category">Category</Label>
+                <CategorySelect id="mileage-category" value={category} categories={categories} onChange={setCategory} />
+              </div>
+            </div>
+            <p className="text-right text-lg font-semibold">
+              {priced && !('error' in priced) ? formatCurrency(priced.amount, rates.baseCurrency) : '–'}
+            </p>
+            <ExpenseDimensionFields settings={settings} value={dimensions} onChange={setDimensions} idPrefix="mileage" />
+            {footer('Save Mileage', !priced || 'error' in priced)}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// A daily allowance for a business trip at the company's rate for the destination, reduced for the first and last day
+// and for meals that were provided
+export function PerDiemForm({ expense, onExpenseUpdated }: AllowanceFormProps = {}) {
+  const { user, rates, categories } = useAllowanceSetup();
+  const { settings, dimensions, setDimensions } = useAllowanceDimensions(expense);
+  const today = toDateInput(new Date());
+  const [rateId, setRateId] = useState(expense?.perDiem?.rateId || '');
+  const [startDate, setStartDate] = useState(expense?.perDiem?.startDate || today);
+  const [endDate, setEndDate] = useState(expense?.perDiem?.endDate || today);
+  const [mealsProvided, setMealsProvided] = useState<Record<string, PerDiemMeal[]>>(
+    Object.fromEntries((expense?.perDiem?.days || []).map(day => [day.date, day.mealsProvided])),
+  );
+  const [category, setCategory] = useState(expense?.category || '');
+
+  const reset = () => {
+    setStartDate(today);
+    setEndDate(today);
+    setMealsProvided({});
+  };
+  const { submit, footer } = useAllowanceSubmit({ expense, onExpenseUpdated, onSaved: reset });
+
+  useEffect(() => {
+    if (!rates) return;
+    if (!rateId && rates.perDiemRates.length > 0) setRateId(rates.perDiemRates[0].id);
+    if (!category) setCategory(resolveCategoryId(categories, 'travel'));
+  }, [rates, categories]);
+
+  const input = { rateId, startDate, endDate, mealsProvided };
+  const rules = rates?.perDiemRules || DEFAULT_PER_DIEM_RULES;
+  const priced = rates ? calculatePerDiem(input, rates.perDiemRates, rules, rates.baseCurrency) : null;
+  const tripDates = getTripDates(startDate, endDate);
+
+  const toggleMeal = (date: string, meal: PerDiemMeal, checked: boolean) => {
+    const current = mealsProvided[date] || [];
+    setMealsProvided({ ...mealsProvided, [date]: checked ? [...current, meal] : current.filter(candidate => candidate !== meal) });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user || tripDates.length === 0) return;
+    submit({
+      kind: 'per_diem',
+      perDiem: { ...input, mealsProvided: Object.fromEntries(tripDates.map(date => [date, mealsProvided[date] || []])) },
+      company: '',
+      companyId: user.companyId || null,
+      items: [],
+      category,
+      currency: rates?.baseCurrency || DEFAULT_BASE_CURRENCY,
+      expenseDate: fromDateInput(startDate),
+      expenseDay: startDate,
+      paymentMethod: 'other',
+      status: 'pending',
+      ...dimensions,
+    });
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl font-semibold text-center flex items-center justify-center gap-2"><CalendarRange className="h-6 w-6 text-primary" /> {expense ? 'Edit Per Diem' : 'Per Diem'}</CardTitle>
+        <CardDescription className="text-center">A daily allowance for a business trip, at your company&apos;s rate for the destination. No receipt needed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!rates ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : rates.perDiemRates.length === 0 ? (
+          <NoRatesNotice personal={!user?.companyId} what="Per diems" />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="per-diem-destination">Destination</Label>
+                <Select value={rateId} onValueChange={setRateId}>
+                  <SelectTrigger id="per-diem-destination"><SelectValue placeholder="Select destination" /></SelectTrigger>
+                  <SelectContent>
+                    {rates.perDiemRates.map(rate => <SelectItem key={rate.id} value={rate.id}>{rate.destination} · {formatCurrency(rate.dailyRate, rates.baseCurrency)} per day</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="per-diem-category">Category</Label>
+                <CategorySelect id="per-diem-category" value={category} categories={categories} onChange={setCategory} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="per-diem-start">First day</Label>
+                <Input id="per-diem-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="per-diem-end">Last day</Label>
+                <Input id="per-diem-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            {priced && 'error' in priced ? (
+              <p className="text-sm text-destructive">{priced.error}</p>
+            ) : priced && (
+              <div className="space-y-1">
+                <Label>Meals provided, e.g. by a hotel or at a conference</Label>
+                <ul className="divide-y border rounded-md">
+                  {priced.details.days.map(day => (
+                    <li key={day.date} className="flex flex-wrap items-center justify-between gap-2 p-2 text-sm">
+                      <span className="min-w-[10rem]">
+                        {format(fromDateInput(day.date), 'EEE, MMM d')}
+                        <span className="block text-xs text-muted-foreground">{describePerDiemDay(day)}</span>
+                      </span>
+                      <span className="flex items-center gap-3">
+                        {perDiemMeals.map(meal => (
+                          <label key={meal} className="flex items-center gap-1 text-xs">
+                            <Checkbox checked={day.mealsProvided.includes(meal)} onCheckedChange={(checked) => toggleMeal(day.date, meal, checked === true)} />
+                            {perDiemMealLabels[meal]}
+                          </label>
+                        ))}
+                      </span>
+                      <span className="font-medium w-24 text-right">{formatCurrency(day.amount, rates.baseCurrency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <p className="text-right text-lg font-semibold">
+              {priced && !('error' in priced) ? formatCurrency(priced.amount, rates.baseCurrency) : '–'}
+            </p>
+            <ExpenseDimensionFields settings={settings} value={dimensions} onChange={setDimensions} idPrefix="per-diem" />
+            {footer('Save Per Diem', !priced || 'error' in priced)}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+// src/components/approval-chain-settings.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateApprovalChain } from '@/actions/approval-actions';
+import type { Company } from '@/types/company';
+import type { ApprovalStepDefinition } from '@/types/approval';
+import type { UserRole } from '@/types/user';
+import { userRoles } from '@/types/user';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { getApprovalChain, MAX_APPROVAL_STEPS } from '@/lib/approvals';
+import { createCategoryId } from '@/lib/categories';
+import { formatCurrency } from '@/lib/currency';
+import { Loader2, ListChecks, PlusCircle, Edit3, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface ApprovalChainSettingsProps {
+  company: Company;
+  memberNames: Record<string, string>;
+  canManage: boolean; // Owners and admins
+  onUpdated: () => void;
+}
+
+interface StepDraft {
+  index: number | null; // Null when adding a step
+  name: string;
+  approverIds: string[];
+  approverRoles: UserRole[];
+  minBaseAmount: string;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = { owner: 'Owner', admin: 'Admins', auditor: 'Auditors', user: 'Users' };
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values, value] : values.filter(candidate => candidate !== value);
+
+// The steps company expenses go through before they are approved, in order
+export function ApprovalChainSettings({ company, memberNames, canManage, onUpdated }: ApprovalChainSettingsProps) {
+  const chain = getApprovalChain(company);
+  const baseCurrency = company.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const [draft, setDraft] = useState<StepDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const saveChain = async (updated: ApprovalStepDefinition[], successMessage: string): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateApprovalChain(idToken, company.id, updated);
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        return false;
+      }
+      toast({ title: 'Approval Chain Updated', description: successMessage });
+      onUpdated();
+      return true;
+    } catch (error) {
+      console.error("Error updating approval chain:", error);
+      toast({ title: 'Error', description: 'Failed to update the approval chain.', variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const minBaseAmount = draft.minBaseAmount.trim() === '' ? null : Number(draft.minBaseAmount);
+    const fields = { name, approverIds: draft.approverIds, approverRoles: draft.approverRoles, minBaseAmount };
+    const updated = draft.index !== null
+      ? chain.map((step, index) => index === draft.index ? { ...step, ...fields } : step)
+      : [...chain, { id: createCategoryId(name, chain.map(step => step.id)), ...fields }];
+    if (await saveChain(updated, draft.index !== null ? `"${name}" was updated.` : `"${name}" was added.`)) {
+      setDraft(null);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const updated = [...chain];
+    [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+    saveChain(updated, `"${chain[index].name}" was moved.`);
+  };
+
+  const handleRemove = (index: number) => {
+    saveChain(chain.filter((_, candidate) => candidate !== index), `"${chain[index].name}" was removed. Expenses already in approval keep their steps.`);
+  };
+
+  const describeApprovers = (step: ApprovalStepDefinition): string => [
+    ...step.approverRoles.map(role => ROLE_LABELS[role]),
+    ...step.approverIds.map(uid => memberNames[uid] || uid),
+  ].join(', ');
+
+  const draftAmount = draft?.minBaseAmount.trim() ? Number(draft.minBaseAmount) : null;
+  const draftIsValid = !!draft?.name.trim() && (draft.approverIds.length > 0 || draft.approverRoles.length > 0)
+    && (draftAmount === null || (Number.isFinite(draftAmount) && draftAmount >= 0));
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-3 flex items-center">
+        <ListChecks className="mr-2 h-5 w-5 text-primary" /> Approval Chain
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Company expenses go through these steps in order. Steps with a threshold only apply from that amount in {baseCurrency}. Nobody approves their own expenses; a step left without approvers goes to the owner, or to the admins for the owner's own expenses.
+      </p>
+      <ol className="divide-y border rounded-md">
+        {chain.map((step, index) => (
+          <li key={step.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <Badge variant="outline">{index + 1}</Badge>
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{step.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeApprovers(step)}
+                  {step.minBaseAmount !== null && ` · from ${formatCurrency(step.minBaseAmount, baseCurrency)}`}
+                </p>
+              </div>
+            </div>
+            {canManage && (
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={isSaving || index === 0} title="Move up">
+                  <ArrowUp size={16} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleMove(index, 1)} disabled={isSaving || index === chain.length - 1} title="Move down">
+                  <ArrowDown size={16} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({
+                    index,
+                    name: step.name,
+                    approverIds: step.approverIds,
+                    approverRoles: step.approverRoles,
+                    minBaseAmount: step.minBaseAmount === null ? '' : String(step.minBaseAmount),
+                  })}
+                  disabled={isSaving}
+                >
+                  <Edit3 size={16} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(index)} disabled={isSaving || chain.length === 1} title="Remove">
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+      {canManage && (
+        <Button
+          variant="outline"
+          className="mt-3"
+          onClick={() => setDraft({ index: null, name: '', approverIds: [], approverRoles: [], minBaseAmount: '' })}
+          disabled={isSaving || chain.length >= MAX_APPROVAL_STEPS}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Step
+        </Button>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft && draft.index === null ? 'Add Approval Step' : 'Edit Approval Step'}</DialogTitle>
+            <DialogDescription>Any one of the approvers can decide the step. Changes apply to expenses submitted from now on.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="approval-step-name">Name</Label>
+                <Input id="approval-step-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Finance" maxLength={60} />
+              </div>
+              <div>
+                <Label>Roles</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {userRoles.map(role => (
+                    <label key={role} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.approverRoles.includes(role)}
+                        onCheckedChange={(checked) => setDraft({ ...draft, approverRoles: toggle(draft.approverRoles, role, checked === true) })}
+                      />
+                      {ROLE_LABELS[role]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Members</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {company.members.map(uid => (
+                    <label key={uid} className="flex items-center gap-2 text-sm min-w-0">
+                      <Checkbox
+                        checked={draft.approverIds.includes(uid)}
+                        onCheckedChange={(checked) => setDraft({ ...draft, approverIds: toggle(draft.approverIds, uid, checked === true) })}
+                      />
+                      <span className="truncate">{memberNames[uid] || uid}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="approval-step-threshold">Only from (optional, {baseCurrency})</Label>
+                <Input
+                  id="approval-step-threshold"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.minBaseAmount}
+                  onChange={(e) => setDraft({ ...draft, minBaseAmount: e.target.value })}
+                  placeholder="Every expense"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draftIsValid}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+// src/components/approval-controls.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { decideExpense, reopenExpense, resubmitExpense } from '@/actions/approval-actions';
+import { decideExpenseReport, submitExpenseReport } from '@/actions/report-actions';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import type { ApprovalStep } from '@/types/approval';
+import { canDecideExpense, canReopenExpense, getCurrentApprovalStep, MAX_APPROVAL_COMMENT_LENGTH } from '@/lib/approvals';
+import { canDecideReport, isReportEditable } from '@/lib/expense-reports';
+import { Loader2, CheckCircle2, XCircle, Send, Undo2 } from 'lucide-react';
+
+type ApprovalDialog = 'approved' | 'rejected' | 'resubmit' | 'reopen';
+type ApprovalSubject = 'Expense' | 'Report';
+
+interface DialogText {
+  title: string;
+  description: string;
+  label: string;
+  confirm: string;
+}
+
+const getDialogText = (subject: ApprovalSubject, firstSubmission: boolean): Record<ApprovalDialog, DialogText> => {
+  const noun = subject.toLowerCase();
+  const submit = firstSubmission ? 'Submit' : 'Resubmit';
+  return {
+    approved: { title: `Approve ${subject}`, description: `The ${noun} moves on to the next step, or is approved after the last one.`, label: 'Comment (optional)', confirm: 'Approve' },
+    rejected: { title: `Reject ${subject}`, description: `The ${noun} goes back to its submitter, who sees your reason and can resubmit it.`, label: 'Reason', confirm: 'Reject' },
+    resubmit: {
+      title: `${submit} ${subject}`,
+      description: subject === 'Report'
+        ? 'The report and all its expenses go through the approval chain together.'
+        : 'The expense goes through the approval chain again. Edit it instead if something needs to change.',
+      label: 'Note for the approvers (optional)',
+      confirm: submit,
+    },
+    reopen: { title: `Reopen ${subject}`, description: `The approval is withdrawn and the ${noun} goes back to its submitter, who sees your reason and can edit and resubmit it.`, label: 'Reason', confirm: 'Reopen' },
+  };
+};
+
+interface ApprovalButtonsProps {
+  subject: ApprovalSubject;
+  canDecide: boolean;
+  canResubmit: boolean;
+  canReopen?: boolean;
+  firstSubmission?: boolean;
+  step: ApprovalStep | null;
+  onConfirm: (dialog: ApprovalDialog, comment: string) => Promise<{ success: boolean; error?: string; status?: string }>;
+  onUpdated: () => void;
+}
+
+// The buttons and comment dialog shared by expenses and expense reports
+function ApprovalButtons({ subject, canDecide, canResubmit, canReopen = false, firstSubmission = false, step, onConfirm, onUpdated }: ApprovalButtonsProps) {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<ApprovalDialog | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!canDecide && !canResubmit && !canReopen) return null;
+
+  const openDialog = (next: ApprovalDialog) => {
+    setComment('');
+    setDialog(next);
+  };
+
+  const handleConfirm = async () => {
+    if (!dialog) return;
+    setIsSubmitting(true);
+    try {
+      const result = await onConfirm(dialog, comment);
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
+        return;
+      }
+      const noun = subject.toLowerCase();
+      const description = result.status === 'approved' ? `The ${noun} is approved.`
+        : result.status === 'rejected' ? `The ${noun} was sent back to its submitter.`
+        : `The ${noun} is waiting for the next approver.`;
+      const title = dialog === 'resubmit' ? `${subject} ${firstSubmission ? 'Submitted' : 'Resubmitted'}` : dialog === 'reopen' ? `${subject} Reopened` : 'Decision Recorded';
+      toast({ title, description });
+      setDialog(null);
+      onUpdated();
+    } catch (error: any) {
+      toast({ title: 'Update Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const text = dialog ? getDialogText(subject, firstSubmission)[dialog] : null;
+
+  return (
+    <>
+      {canDecide && (
+        <>
+          <Button variant="outline" size="sm" onClick={() => openDialog('approved')} className="bg-green-500 hover:bg-green-600 text-white border-green-600">
+            <CheckCircle2 size={16} className="mr-1"/> Approve
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openDialog('rejected')} className="bg-red-500 hover:bg-red-600 text-white border-red-600">
+            <XCircle size={16} className="mr-1"/> Reject
+          </Button>
+        </>
+      )}
+      {canReopen && (
+        <Button variant="outline" size="sm" onClick={() => openDialog('reopen')}>
+          <Undo2 size={16} className="mr-1"/> Reopen
+        </Button>
+      )}
+      {canResubmit && (
+        <Button variant="outline" size="sm" onClick={() => openDialog('resubmit')}>
+          <Send size={16} className="mr-1"/> {firstSubmission ? 'Submit' : 'Resubmit'}
+        </Button>
+      )}
+
+      <Dialog open={!!dialog} onOpenChange={open => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{text?.title}{(dialog === 'approved' || dialog === 'rejected') && step && ` · ${step.name}`}</DialogTitle>
+            <DialogDescription>{text?.description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="approval-comment">{text?.label}</Label>
+            <Textarea id="approval-comment" value={comment} onChange={(e) => setComment(e.target.value)} maxLength={MAX_APPROVAL_COMMENT_LENGTH} rows={3} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button
+              onClick={handleConfirm}
+              variant={dialog === 'rejected' || dialog === 'reopen' ? 'destructive' : 'default'}
+              disabled={isSubmitting || ((dialog === 'rejected' || dialog === 'reopen') && !comment.trim())}
+            >
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : text?.confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface ApprovalControlsProps {
+  expense: Expense;
+  onUpdated: () => void;
+}
+
+// Approve and reject for the approvers of the current step, reopen for approvers, owners and admins once it is approved,
+// and resubmit for the submitter of a rejected expense. Expenses in a report are decided and resubmitted with the report.
+export function ApprovalControls({ expense, onUpdated }: ApprovalControlsProps) {
+  const { user } = useAuth();
+  if (!user) return null;
+
+  const handleConfirm = async (dialog: ApprovalDialog, comment: string) => {
+    if (!auth.currentUser) return { success: false, error: 'You are not logged in.' };
+    const idToken = await auth.currentUser.getIdToken(true);
+    if (dialog === 'reopen') return reopenExpense(idToken, expense.id!, comment);
+    return dialog === 'resubmit'
+      ? resubmitExpense(idToken, expense.id!, comment)
+      : decideExpense(idToken, expense.id!, dialog, comment);
+  };
+
+  return (
+    <ApprovalButtons
+      subject="Expense"
+      canDecide={canDecideExpense(expense, user)}
+      canResubmit={!!expense.companyId && expense.status === 'rejected' && expense.userId === user.uid && !expense.reportId}
+      canReopen={canReopenExpense(expense, user)}
+      step={getCurrentApprovalStep(expense.approval)}
+      onConfirm={handleConfirm}
+      onUpdated={onUpdated}
+    />
+  );
+}
+
+interface ReportApprovalControlsProps {
+  report: ExpenseReport;
+  onUpdated: () => void;
+}
+
+// The same controls for expense reports; the submitter also submits drafts from here
+export function ReportApprovalControls({ report, onUpdated }: ReportApprovalControlsProps) {
+  const { user } = useAuth();
+  if (!user) return null;
+
+  const handleConfirm = async (dialog: ApprovalDialog, comment: string) => {
+    if (!auth.currentUser) return { success: false, error: 'You are not logged in.' };
+    const idToken = await auth.currentUser.getIdToken(true);
+    return dialog === 'approved' || dialog === 'rejected'
+      ? decideExpenseReport(idToken, report.id!, dialog, comment)
+      : submitExpenseReport(idToken, report.id!, comment);
+  };
+
+  return (
+    <ApprovalButtons
+      subject="Report"
+      canDecide={canDecideReport(report, user)}
+      canResubmit={report.userId === user.uid && isReportEditable(report) && report.expenseIds.length > 0}
+      firstSubmission={report.status === 'draft'}
+      step={getCurrentApprovalStep(report.approval)}
+      onConfirm={handleConfirm}
+      onUpdated={onUpdated}
+    />
+  );
+}
@@ -0,0 +1,88 @@
+// src/components/approval-timeline.tsx
+'use client';
+
+import { format } from 'date-fns';
+import type { ApprovalAction, ApprovalStep, ExpenseApproval } from '@/types/approval';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import { getCurrentApprovalStep } from '@/lib/approvals';
+import { Badge } from '@/components/ui/badge';
+import { ListChecks, MessageSquare } from 'lucide-react';
+
+const ACTION_LABELS: Record<ApprovalAction, string> = {
+  submitted: 'Submitted',
+  resubmitted: 'Resubmitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  reopened: 'Reopened',
+};
+
+const StepBadge = ({ step, isCurrent }: { step: ApprovalStep; isCurrent: boolean }) => {
+  if (step.decision === 'approved') return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white">Approved</Badge>;
+  if (step.decision === 'rejected') return <Badge variant="destructive">Rejected</Badge>;
+  if (isCurrent) return <Badge variant="secondary" className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900">Waiting</Badge>;
+  return <Badge variant="outline">Not reached</Badge>;
+};
+
+// One line on where a company expense or expense report is in its approval: the step it waits for, or why it was
+// rejected
+export function ApprovalSummary({ status, approval }: { status: Expense['status'] | ExpenseReport['status']; approval?: ExpenseApproval | null }) {
+  if (!approval) return null;
+  const step = getCurrentApprovalStep(approval);
+  if ((status === 'pending' || status === 'submitted') && step) {
+    return (
+      <span className="block text-xs text-muted-foreground">
+        Waiting for {step.name} (step {approval.currentStep! + 1} of {approval.steps.length})
+      </span>
+    );
+  }
+  if (status === 'rejected' && approval.rejectionReason) {
+    return (
+      <span className="text-xs text-destructive flex items-start gap-1">
+        <MessageSquare className="h-3 w-3 mt-0.5 shrink-0" /> Rejected: {approval.rejectionReason}
+      </span>
+    );
+  }
+  return null;
+}
+
+// The steps of the current approval round and everything that happened in earlier rounds, oldest first
+export function ApprovalTimeline({ approval }: { approval: ExpenseApproval | null | undefined }) {
+  if (!approval) {
+    return <p className="text-sm text-muted-foreground">Submitted before approval chains; decided in a single step.</p>;
+  }
+
+  return (
+    <div className="text-sm space-y-3">
+      <p className="font-medium flex items-center gap-2">
+        <ListChecks className="h-4 w-4 text-primary" /> Approval{approval.round > 1 && ` (round ${approval.round})`}
+      </p>
+      {approval.steps.length === 0 ? (
+        <p className="text-muted-foreground">No approval step applied to this expense.</p>
+      ) : (
+        <ol className="space-y-1">
+          {approval.steps.map((step, index) => (
+            <li key={step.id} className="flex items-center justify-between gap-2">
+              <span>{index + 1}. {step.name}</span>
+              <StepBadge step={step} isCurrent={approval.currentStep === index} />
+            </li>
+          ))}
+        </ol>
+      )}
+      <ul className="space-y-2 border-l pl-3">
+        {approval.history.map((event, index) => (
+          <li key={index}>
+            <p>
+              <span className="font-medium">{ACTION_LABELS[event.action]}</span>
+              {event.stepName && ` at ${event.stepName}`} by {event.actorName || event.actorId}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Round {event.round} · {format(event.at as unknown as Date, 'MMM dd, yyyy HH:mm')}
+            </p>
+            {event.comment && <p className="text-muted-foreground italic">“{event.comment}”</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+// src/components/batch-receipt-upload.tsx
+'use client';
+
+import type { ChangeEvent } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { readFileAsDataUri, createThumbnailDataUri, computePerceptualHash } from '@/lib/image-utils';
+import { preprocessReceiptImage, dataUriByteSize } from '@/lib/image-preprocessing';
+import { enqueueReceiptExtraction, processExtractionQueue, getExtractionJobs, retryExtractionJob, deleteExtractionJob } from '@/actions/extraction-job-actions';
+import type { ExtractionJob, ExtractionJobStatus } from '@/types/extraction-job';
+import { RECEIPT_PDF_CONTENT_TYPE, MAX_RECEIPT_FILE_SIZE, MAX_RECEIPT_SOURCE_IMAGE_SIZE } from '@/types/receipt';
+import { ExpenseForm } from './expense-form';
+import { Loader2, UploadCloud, RotateCcw, Trash2, ChevronLeft, ChevronRight, Clock, CheckCircle2, XCircle, Eye } from 'lucide-react';
+
+const JobStatusBadge = ({ status }: { status: ExtractionJobStatus }) => {
+  switch (status) {
+    case 'queued':
+      return <Badge variant="secondary"><Clock className="mr-1 h-3 w-3" />Queued</Badge>;
+    case 'extracting':
+      return <Badge variant="secondary" className="bg-blue-100 text-blue-800"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Extracting</Badge>;
+    case 'needs_review':
+      return <Badge variant="secondary" className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900"><Eye className="mr-1 h-3 w-3" />Needs Review</Badge>;
+    case 'saved':
+      return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white"><CheckCircle2 className="mr-1 h-3 w-3" />Saved</Badge>;
+    case 'failed':
+      return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Failed</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+// Uploads many receipts into the extraction queue and steps through the resulting drafts
+export function BatchReceiptUpload() {
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const isProcessingRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadJobs = useCallback(async () => {
+    if (!auth.currentUser) {
+      setJobs([]);
+      setIsLoading(false);
+      return [];
+    }
+    const idToken = await auth.currentUser.getIdToken();
+    const fetchedJobs = await getExtractionJobs(idToken);
+    setJobs(fetchedJobs);
+    setIsLoading(false);
+    return fetchedJobs;
+  }, []);
+
+  // Drives the server-side queue while this screen is open. Jobs stay queued in Firestore otherwise and continue on the next visit.
+  const processQueue = useCallback(async () => {
+    if (isProcessingRef.current || !auth.currentUser) return;
+    isProcessingRef.current = true;
+    try {
+      let remaining = 1;
+      while (remaining > 0 && auth.currentUser) {
+        const idToken = await auth.currentUser.getIdToken();
+        const result = await processExtractionQueue(idToken);
+        await loadJobs();
+        if (!result.success) {
+          toast({ title: 'Extraction Queue Error', description: result.error, variant: 'destructive' });
+          break;
+        }
+        remaining = result.remaining ?? 0;
+        if (!result.processed) break; // Remaining jobs are being extracted elsewhere
+      }
+    } finally {
+      isProcessingRef.current = false;
+    }
+  }, [loadJobs, toast]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadJobs().then(fetchedJobs => {
+      if (fetchedJobs.some(job => job.status === 'queued' || job.status === 'extracting')) {
+        processQueue();
+      }
+    });
+  }, [user, loadJobs, processQueue]);
+
+  const handleFilesChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0 || !auth.currentUser) return;
+
+    setUploadProgress({ done: 0, total: files.length });
+    const failures: string[] = [];
+    // One request per file keeps each upload within the server action body limit
+    for (const [index, file] of files.entries()) {
+      try {
+        if (!file.type.startsWith('image/') && file.type !== RECEIPT_PDF_CONTENT_TYPE) {
+          throw new Error('unsupported file type');
+        }
+        const isPdf = file.type === RECEIPT_PDF_CONTENT_TYPE;
+        if (file.size > (isPdf ? MAX_RECEIPT_FILE_SIZE : MAX_RECEIPT_SOURCE_IMAGE_SIZE)) {
+          throw new Error('file too large');
+        }
+        // Photos are sent downscaled with the default preprocessing, or as they are if the browser cannot decode them
+        const dataUri = isPdf
+          ? await readFileAsDataUri(file)
+          : await preprocessReceiptImage(file).then(result => result.dataUri, () => readFileAsDataUri(file));
+        if (dataUriByteSize(dataUri) > MAX_RECEIPT_FILE_SIZE) {
+          throw new Error('file too large');
+        }
+        let thumbnailDataUri: string | null = null;
+        let perceptualHash: string | null = null;
+        if (!isPdf) {
+          thumbnailDataUri = await createThumbnailDataUri(dataUri).catch(() => null);
+          perceptualHash = await computePerceptualHash(dataUri).catch(() => null);
+        }
+        const idToken = await auth.currentUser.getIdToken();
+        const result = await enqueueReceiptExtraction(idToken, file.name, { dataUri, thumbnailDataUri, perceptualHash });
+        if (!result.success) throw new Error(result.error);
+      } catch (error: any) {
+        failures.push(`${file.name} (${error.message || 'upload failed'})`);
+      }
+      setUploadProgress({ done: index + 1, total: files.length });
+    }
+    setUploadProgress(null);
+
+    if (failures.length > 0) {
+      toast({ title: 'Some Receipts Were Not Queued', description: failures.join(', '), variant: 'destructive' });
+    } else {
+      toast({ title: 'Receipts Queued', description: `${files.length} ${files.length === 1 ? 'receipt' : 'receipts'} will be extracted in the background.` });
+    }
+    await loadJobs();
+    processQueue();
+  };
+
+  const handleRetry = async (jobId: string) => {
+    if (!auth.currentUser) return;
+    setBusyJobId(jobId);
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await retryExtractionJob(idToken, jobId);
+      if (!result.success) {
+        toast({ title: 'Retry Failed', description: result.error, variant: 'destructive' });
+      }
+      await loadJobs();
+      processQueue();
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const handleDelete = async (jobId: string) => {
+    if (!auth.currentUser) return;
+    setBusyJobId(jobId);
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await deleteExtractionJob(idToken, jobId);
+      if (!result.success) {
+        toast({ title: 'Delete Failed', description: result.error, variant: 'destructive' });
+      }
+      await loadJobs();
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const handleDraftDone = async () => {
+    await loadJobs();
+    processQueue();
+  };
+
+  const drafts = jobs.filter(job => job.status === 'needs_review');
+  const currentDraft = drafts.length > 0 ? drafts[Math.min(reviewIndex, drafts.length - 1)] : null;
+  const currentDraftIndex = currentDraft ? drafts.indexOf(currentDraft) : 0;
+
+  if (!user) {
+    return <p className="text-center text-muted-foreground">Please log in to upload receipts.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card className="w-full max-w-3xl mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl font-semibold text-center">Batch Upload</CardTitle>
+          <CardDescription className="text-center">Upload several receipts at once. Each one is extracted in the background and waits here for your review.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="batch-receipts" className="text-base font-medium">Receipt Images or PDFs</Label>
+            <Input
+              id="batch-receipts"
+              type="file"
+              multiple
+              accept={`image/*,${RECEIPT_PDF_CONTENT_TYPE}`}
+              onChange={handleFilesChange}
+              ref={fileInputRef}
+              disabled={!!uploadProgress}
+              className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+            />
+            {uploadProgress && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <UploadCloud className="h-4 w-4" /> Uploading {uploadProgress.done} of {uploadProgress.total}...
+              </p>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No receipts in the queue.</p>
+          ) : (
+            <ul className="divide-y border rounded-md">
+              {jobs.map(job => (
+                <li key={job.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{job.fileName}</p>
+                    {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <JobStatusBadge status={job.status} />
+                    {job.status === 'failed' && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleRetry(job.id)} disabled={busyJobId === job.id}>
+                        <RotateCcw className="mr-1 h-3 w-3" /> Retry
+                      </Button>
+                    )}
+                    {job.status === 'needs_review' && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => setReviewIndex(drafts.indexOf(job))}>
+                        <Eye className="mr-1 h-3 w-3" /> Review
+                      </Button>
+                    )}
+                    {job.status !== 'extracting' && (
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handleDelete(job.id)} disabled={busyJobId === job.id} className="h-8 w-8 text-destructive hover:text-destructive/80">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {currentDraft && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between w-full max-w-3xl mx-auto">
+            <Button type="button" variant="outline" size="sm" onClick={() => setReviewIndex(currentDraftIndex - 1)} disabled={currentDraftIndex === 0}>
+              <ChevronLeft className="mr-1 h-4 w-4" /> Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">Draft {currentDraftIndex + 1} of {drafts.length}</span>
+            <Button type="button" variant="outline" size="sm" onClick={() => setReviewIndex(currentDraftIndex + 1)} disabled={currentDraftIndex >= drafts.length - 1}>
+              Next <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </div>
+          <ExpenseForm key={currentDraft.id} extractionJob={currentDraft} onExtractionJobChange={handleDraftDone} />
+        </div>
+      )}
+    </div>
+  );
+}
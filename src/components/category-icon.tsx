@@ -1,19 +1,38 @@
 import type { ExpenseCategory } from '@/types/expense';
-import { Utensils, Plane, ShoppingBasket, Film, Package, type LucideProps } from 'lucide-react';
+import type { CategoryIconName, ExpenseCategoryDefinition } from '@/types/category';
+import { findCategory } from '@/lib/categories';
+import {
+  Utensils, Plane, ShoppingBasket, Film, Package, Laptop, Gift, GraduationCap,
+  Car, Hotel, Phone, Briefcase, BookOpen, Wrench, HeartPulse, Megaphone, type LucideProps,
+} from 'lucide-react';
 
 interface CategoryIconProps extends LucideProps {
-  category: ExpenseCategory | string; // Allow string for broader compatibility
+  category?: ExpenseCategory; // Looked up in `categories`, falling back to the default categories
+  categories?: ExpenseCategoryDefinition[];
+  icon?: CategoryIconName; // Shown directly, e.g. in the icon picker
 }
 
-const categoryIconMap: Record<ExpenseCategory, React.ElementType<LucideProps>> = {
-  food: Utensils,
-  travel: Plane,
-  supplies: ShoppingBasket,
-  entertainment: Film,
-  other: Package,
+export const categoryIconMap: Record<CategoryIconName, React.ElementType<LucideProps>> = {
+  'utensils': Utensils,
+  'plane': Plane,
+  'shopping-basket': ShoppingBasket,
+  'film': Film,
+  'package': Package,
+  'laptop': Laptop,
+  'gift': Gift,
+  'graduation-cap': GraduationCap,
+  'car': Car,
+  'hotel': Hotel,
+  'phone': Phone,
+  'briefcase': Briefcase,
+  'book-open': BookOpen,
+  'wrench': Wrench,
+  'heart-pulse': HeartPulse,
+  'megaphone': Megaphone,
 };
 
-export function CategoryIcon({ category, ...props }: CategoryIconProps) {
-  const IconComponent = categoryIconMap[category as ExpenseCategory] || Package; // Default to Package if category is unknown
+export function CategoryIcon({ category, categories = [], icon, ...props }: CategoryIconProps) {
+  const iconName = icon || (category ? findCategory(categories, category)?.icon : undefined);
+  const IconComponent = (iconName && categoryIconMap[iconName]) || Package; // Default to Package if category is unknown
   return <IconComponent {...props} />;
 }
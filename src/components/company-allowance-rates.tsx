@@ -0,0 +1,253 @@
+// src/components/company-allowance-rates.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateCompanyAllowanceRates } from '@/actions/allowance-actions';
+import type { Company } from '@/types/company';
+import type { DistanceUnit, MileageRate, PerDiemRate, PerDiemRules } from '@/types/allowance';
+import { distanceUnits, perDiemMeals } from '@/types/allowance';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { createCategoryId } from '@/lib/categories';
+import { formatCurrency } from '@/lib/currency';
+import { describeMileageRate, distanceUnitLabels, getPerDiemRules, MAX_MILEAGE_RATES, MAX_PER_DIEM_RATES, perDiemMealLabels } from '@/lib/allowances';
+import { Loader2, Car, PlusCircle, Edit3, Trash2 } from 'lucide-react';
+
+interface CompanyAllowanceRatesProps {
+  company: Company;
+  canManage: boolean; // Owners and admins
+  onUpdated: () => void;
+}
+
+type RateDraft =
+  | { type: 'mileage'; index: number | null; vehicle: string; unit: DistanceUnit; rate: string }
+  | { type: 'perDiem'; index: number | null; destination: string; dailyRate: string }
+  | { type: 'rules'; partialDayPercent: string; breakfast: string; lunch: string; dinner: string };
+
+const isAmount = (value: string) => value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) > 0;
+const isPercent = (value: string) => value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) >= 0 && Number(value) <= 100;
+
+// Rates members claim mileage and per diems at. Without rates, members cannot claim them.
+export function CompanyAllowanceRates({ company, canManage, onUpdated }: CompanyAllowanceRatesProps) {
+  const mileageRates = company.mileageRates || [];
+  const perDiemRates = company.perDiemRates || [];
+  const perDiemRules = getPerDiemRules(company);
+  const baseCurrency = company.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const [draft, setDraft] = useState<RateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const saveRates = async (updated: { mileageRates?: MileageRate[]; perDiemRates?: PerDiemRate[]; perDiemRules?: PerDiemRules }, successMessage: string): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyAllowanceRates(idToken, company.id, { mileageRates, perDiemRates, perDiemRules, ...updated });
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        return false;
+      }
+      toast({ title: 'Rates Updated', description: successMessage });
+      onUpdated();
+      return true;
+    } catch (error) {
+      console.error("Error updating rates:", error);
+      toast({ title: 'Error', description: 'Failed to update the rates.', variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    let saved = false;
+    if (draft.type === 'mileage') {
+      const vehicle = draft.vehicle.trim();
+      const fields = { vehicle, unit: draft.unit, rate: Number(draft.rate) };
+      const updated = draft.index !== null
+        ? mileageRates.map((rate, index) => index === draft.index ? { ...rate, ...fields } : rate)
+        : [...mileageRates, { id: createCategoryId(vehicle, mileageRates.map(rate => rate.id)), ...fields }];
+      saved = await saveRates({ mileageRates: updated }, `The mileage rate for "${vehicle}" was saved.`);
+    } else if (draft.type === 'perDiem') {
+      const destination = draft.destination.trim();
+      const fields = { destination, dailyRate: Number(draft.dailyRate) };
+      const updated = draft.index !== null
+        ? perDiemRates.map((rate, index) => index === draft.index ? { ...rate, ...fields } : rate)
+        : [...perDiemRates, { id: createCategoryId(destination, perDiemRates.map(rate => rate.id)), ...fields }];
+      saved = await saveRates({ perDiemRates: updated }, `The per diem for "${destination}" was saved.`);
+    } else {
+      saved = await saveRates({
+        perDiemRules: {
+          partialDayPercent: Number(draft.partialDayPercent),
+          mealDeductionPercents: { breakfast: Number(draft.breakfast), lunch: Number(draft.lunch), dinner: Number(draft.dinner) },
+        },
+      }, 'The per-diem rules were saved.');
+    }
+    if (saved) setDraft(null);
+  };
+
+  const draftIsValid = !draft ? false
+    : draft.type === 'mileage' ? !!draft.vehicle.trim() && isAmount(draft.rate)
+      : draft.type === 'perDiem' ? !!draft.destination.trim() && isAmount(draft.dailyRate)
+        : [draft.partialDayPercent, draft.breakfast, draft.lunch, draft.dinner].every(isPercent);
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-3 flex items-center">
+        <Car className="mr-2 h-5 w-5 text-primary" /> Mileage and Per Diems
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Members claim mileage and daily allowances without a receipt, at these rates in {baseCurrency}. Saved claims keep the rate they were made at until they are edited.
+      </p>
+
+      <h4 className="text-sm font-semibold mb-2">Mileage rates</h4>
+      {mileageRates.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md p-3">No mileage rates yet. Members cannot claim mileage.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {mileageRates.map((rate, index) => (
+            <li key={rate.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="text-sm"><span className="font-medium">{rate.vehicle}</span> <span className="text-muted-foreground">· {describeMileageRate(rate, baseCurrency)}</span></div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft({ type: 'mileage', index, vehicle: rate.vehicle, unit: rate.unit, rate: String(rate.rate) })} disabled={isSaving}>
+                    <Edit3 size={16} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => saveRates({ mileageRates: mileageRates.filter((_, candidate) => candidate !== index) }, `The mileage rate for "${rate.vehicle}" was removed.`)} disabled={isSaving} title="Remove">
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage && (
+        <Button variant="outline" className="mt-3" onClick={() => setDraft({ type: 'mileage', index: null, vehicle: '', unit: 'km', rate: '' })} disabled={isSaving || mileageRates.length >= MAX_MILEAGE_RATES}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Mileage Rate
+        </Button>
+      )}
+
+      <h4 className="text-sm font-semibold mt-6 mb-2">Per-diem rates</h4>
+      {perDiemRates.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md p-3">No per-diem rates yet. Members cannot claim per diems.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {perDiemRates.map((rate, index) => (
+            <li key={rate.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="text-sm"><span className="font-medium">{rate.destination}</span> <span className="text-muted-foreground">· {formatCurrency(rate.dailyRate, baseCurrency)} per day</span></div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft({ type: 'perDiem', index, destination: rate.destination, dailyRate: String(rate.dailyRate) })} disabled={isSaving}>
+                    <Edit3 size={16} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => saveRates({ perDiemRates: perDiemRates.filter((_, candidate) => candidate !== index) }, `The per diem for "${rate.destination}" was removed.`)} disabled={isSaving} title="Remove">
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        First and last days of a trip pay {perDiemRules.partialDayPercent}% of the daily rate. Provided meals deduct {perDiemMeals.map(meal => `${perDiemMealLabels[meal].toLowerCase()} ${perDiemRules.mealDeductionPercents[meal]}%`).join(', ')}.
+      </p>
+      {canManage && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          <Button variant="outline" onClick={() => setDraft({ type: 'perDiem', index: null, destination: '', dailyRate: '' })} disabled={isSaving || perDiemRates.length >= MAX_PER_DIEM_RATES}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Per-Diem Rate
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setDraft({
+              type: 'rules',
+              partialDayPercent: String(perDiemRules.partialDayPercent),
+              breakfast: String(perDiemRules.mealDeductionPercents.breakfast),
+              lunch: String(perDiemRules.mealDeductionPercents.lunch),
+              dinner: String(perDiemRules.mealDeductionPercents.dinner),
+            })}
+            disabled={isSaving}
+          >
+            <Edit3 className="mr-2 h-4 w-4" /> Edit Per-Diem Rules
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.type === 'mileage' ? 'Mileage Rate' : draft?.type === 'perDiem' ? 'Per-Diem Rate' : 'Per-Diem Rules'}</DialogTitle>
+            <DialogDescription>
+              {draft?.type === 'rules' ? 'Percentages of the full daily rate. A day never pays less than nothing.' : `Amounts are in ${baseCurrency}.`}
+            </DialogDescription>
+          </DialogHeader>
+          {draft?.type === 'mileage' && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="mileage-vehicle">Vehicle</Label>
+                <Input id="mileage-vehicle" value={draft.vehicle} onChange={(e) => setDraft({ ...draft, vehicle: e.target.value })} placeholder="e.g. Car" maxLength={60} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="mileage-rate">Rate ({baseCurrency})</Label>
+                  <Input id="mileage-rate" type="number" min="0" step="0.001" value={draft.rate} onChange={(e) => setDraft({ ...draft, rate: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="mileage-unit">Per</Label>
+                  <Select value={draft.unit} onValueChange={(value) => setDraft({ ...draft, unit: value as DistanceUnit })}>
+                    <SelectTrigger id="mileage-unit"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {distanceUnits.map(unit => <SelectItem key={unit} value={unit}>{distanceUnitLabels[unit]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+          {draft?.type === 'perDiem' && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="per-diem-destination">Destination</Label>
+                <Input id="per-diem-destination" value={draft.destination} onChange={(e) => setDraft({ ...draft, destination: e.target.value })} placeholder="e.g. Germany" maxLength={60} />
+              </div>
+              <div>
+                <Label htmlFor="per-diem-rate">Daily rate ({baseCurrency})</Label>
+                <Input id="per-diem-rate" type="number" min="0" step="0.01" value={draft.dailyRate} onChange={(e) => setDraft({ ...draft, dailyRate: e.target.value })} />
+              </div>
+            </div>
+          )}
+          {draft?.type === 'rules' && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="per-diem-partial">First and last day (% of the daily rate)</Label>
+                <Input id="per-diem-partial" type="number" min="0" max="100" step="1" value={draft.partialDayPercent} onChange={(e) => setDraft({ ...draft, partialDayPercent: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                {perDiemMeals.map(meal => (
+                  <div key={meal}>
+                    <Label htmlFor={`per-diem-${meal}`}>{perDiemMealLabels[meal]} (%)</Label>
+                    <Input id={`per-diem-${meal}`} type="number" min="0" max="100" step="1" value={draft[meal]} onChange={(e) => setDraft({ ...draft, [meal]: e.target.value })} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draftIsValid}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
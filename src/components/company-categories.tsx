@@ -0,0 +1,166 @@
+// src/components/company-categories.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateCompanyCategories } from '@/actions/expense-actions';
+import type { Company } from '@/types/company';
+import type { CategoryIconName, ExpenseCategoryDefinition } from '@/types/category';
+import { categoryIconNames } from '@/types/category';
+import { getCategoryList, createCategoryId } from '@/lib/categories';
+import { CategoryIcon } from './category-icon';
+import { Loader2, Tags, PlusCircle, Edit3, Archive, ArchiveRestore } from 'lucide-react';
+
+interface CompanyCategoriesProps {
+  company: Company;
+  canManage: boolean; // Owners and admins
+  onUpdated: () => void;
+}
+
+interface CategoryDraft {
+  id: string | null; // Null when adding a category
+  name: string;
+  glCode: string;
+  icon: CategoryIconName;
+}
+
+// The company's chart of accounts: the categories members pick for their expenses
+export function CompanyCategories({ company, canManage, onUpdated }: CompanyCategoriesProps) {
+  const categories = getCategoryList(company.categories);
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const saveCategories = async (updated: ExpenseCategoryDefinition[], successMessage: string): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyCategories(idToken, company.id, updated);
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        return false;
+      }
+      toast({ title: 'Categories Updated', description: successMessage });
+      onUpdated();
+      return true;
+    } catch (error) {
+      console.error("Error updating categories:", error);
+      toast({ title: 'Error', description: 'Failed to update categories.', variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const glCode = draft.glCode.trim() || null;
+    const updated = draft.id
+      ? categories.map(category => category.id === draft.id ? { ...category, name, glCode, icon: draft.icon } : category)
+      : [...categories, { id: createCategoryId(name, categories.map(category => category.id)), name, glCode, icon: draft.icon, archived: false }];
+    if (await saveCategories(updated, draft.id ? `"${name}" was updated.` : `"${name}" was added.`)) {
+      setDraft(null);
+    }
+  };
+
+  const handleToggleArchived = (target: ExpenseCategoryDefinition) => {
+    const updated = categories.map(category => category.id === target.id ? { ...category, archived: !category.archived } : category);
+    saveCategories(updated, target.archived ? `"${target.name}" can be picked again.` : `"${target.name}" is archived. Existing expenses keep it.`);
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-3 flex items-center">
+        <Tags className="mr-2 h-5 w-5 text-primary" /> Expense Categories
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Members pick one of these categories for each expense, and receipt extraction chooses from them. Archived categories stay on existing expenses.
+      </p>
+      <ul className="divide-y border rounded-md">
+        {categories.map(category => (
+          <li key={category.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <CategoryIcon icon={category.icon} size={18} className={category.archived ? 'text-muted-foreground' : 'text-primary'} />
+              <span className={category.archived ? 'text-sm text-muted-foreground' : 'text-sm font-medium'}>{category.name}</span>
+              {category.glCode && <span className="text-xs text-muted-foreground">GL {category.glCode}</span>}
+              {category.archived && <Badge variant="outline">Archived</Badge>}
+            </div>
+            {canManage && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({ id: category.id, name: category.name, glCode: category.glCode || '', icon: category.icon })}
+                  disabled={isSaving}
+                >
+                  <Edit3 size={16} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleToggleArchived(category)} disabled={isSaving} title={category.archived ? 'Restore' : 'Archive'}>
+                  {category.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canManage && (
+        <Button variant="outline" className="mt-3" onClick={() => setDraft({ id: null, name: '', glCode: '', icon: 'package' })} disabled={isSaving}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Category
+        </Button>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Category' : 'Add Category'}</DialogTitle>
+            <DialogDescription>Renaming a category also renames it on existing expenses.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input id="category-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Software" maxLength={60} />
+              </div>
+              <div>
+                <Label htmlFor="category-gl-code">GL Code (optional)</Label>
+                <Input id="category-gl-code" value={draft.glCode} onChange={(e) => setDraft({ ...draft, glCode: e.target.value })} placeholder="e.g. 6400" maxLength={30} />
+              </div>
+              <div>
+                <Label htmlFor="category-icon">Icon</Label>
+                <Select value={draft.icon} onValueChange={(value) => setDraft({ ...draft, icon: value as CategoryIconName })}>
+                  <SelectTrigger id="category-icon">
+                    <SelectValue placeholder="Select an icon" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categoryIconNames.map(icon => (
+                      <SelectItem key={icon} value={icon}>
+                        <span className="flex items-center gap-2">
+                          <CategoryIcon icon={icon} size={16} /> {icon}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
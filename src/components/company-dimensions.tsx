@@ -0,0 +1,219 @@
+// src/components/company-dimensions.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateCompanyDefaultMarkup, updateCompanyDimension } from '@/actions/dimension-actions';
+import type { Company } from '@/types/company';
+import type { DimensionKind, DimensionValue } from '@/types/dimension';
+import { dimensionKinds } from '@/types/dimension';
+import { createCategoryId } from '@/lib/categories';
+import { dimensionLabels, getDimensionName, getDimensionValues, MAX_MARKUP_PERCENT } from '@/lib/dimensions';
+import { Loader2, FolderKanban, PlusCircle, Edit3, Archive, ArchiveRestore } from 'lucide-react';
+
+interface CompanyDimensionsProps {
+  company: Company;
+  canManage: boolean; // Owners and admins
+  onUpdated: () => void;
+}
+
+interface DimensionDraft {
+  kind: DimensionKind;
+  id: string | null; // Null when adding a value
+  name: string;
+  code: string;
+  clientId: string | null; // Projects only
+}
+
+// Value of the client select for projects without a client
+const NO_CLIENT_VALUE = '__none';
+
+const pluralLabels: Record<DimensionKind, string> = { project: 'Projects', client: 'Clients', costCenter: 'Cost centers' };
+
+// The projects, clients and cost centers members tag expenses with, and the markup billable expenses are rebilled at
+export function CompanyDimensions({ company, canManage, onUpdated }: CompanyDimensionsProps) {
+  const [draft, setDraft] = useState<DimensionDraft | null>(null);
+  const [markup, setMarkup] = useState(String(company.defaultMarkupPercent || 0));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const clients = getDimensionValues(company, 'client');
+
+  const saveValues = async (kind: DimensionKind, updated: DimensionValue[], successMessage: string): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyDimension(idToken, company.id, kind, updated);
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        return false;
+      }
+      toast({ title: `${pluralLabels[kind]} Updated`, description: successMessage });
+      onUpdated();
+      return true;
+    } catch (error) {
+      console.error("Error updating dimension values:", error);
+      toast({ title: 'Error', description: `Failed to update ${pluralLabels[kind].toLowerCase()}.`, variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const values = getDimensionValues(company, draft.kind);
+    const name = draft.name.trim();
+    const code = draft.code.trim() || null;
+    const clientId = draft.kind === 'project' ? { clientId: draft.clientId } : {};
+    const updated = draft.id
+      ? values.map(value => value.id === draft.id ? { ...value, name, code, ...clientId } : value)
+      : [...values, { id: createCategoryId(name, values.map(value => value.id)), name, code, ...clientId, archived: false }];
+    if (await saveValues(draft.kind, updated, draft.id ? `"${name}" was updated.` : `"${name}" was added.`)) {
+      setDraft(null);
+    }
+  };
+
+  const handleToggleArchived = (kind: DimensionKind, target: DimensionValue) => {
+    const updated = getDimensionValues(company, kind).map(value => value.id === target.id ? { ...value, archived: !value.archived } : value);
+    saveValues(kind, updated, target.archived ? `"${target.name}" can be picked again.` : `"${target.name}" is archived. Existing expenses keep it.`);
+  };
+
+  const handleSaveMarkup = async () => {
+    if (!auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyDefaultMarkup(idToken, company.id, Number(markup));
+      if (result.success) {
+        toast({ title: 'Markup Updated', description: `Billable expenses are rebilled with ${Number(markup)}% markup unless the submitter enters another.` });
+        onUpdated();
+      } else {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error updating default markup:", error);
+      toast({ title: 'Error', description: 'Failed to update the markup.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-3 flex items-center">
+        <FolderKanban className="mr-2 h-5 w-5 text-primary" /> Projects, Clients and Cost Centers
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Members tag their expenses with these, and can filter their history by them. Archived values stay on existing expenses.
+      </p>
+      <div className="space-y-4">
+        {dimensionKinds.map(kind => {
+          const values = getDimensionValues(company, kind);
+          return (
+            <div key={kind}>
+              <p className="font-medium mb-1">{pluralLabels[kind]}</p>
+              {values.length === 0 ? (
+                <p className="text-sm text-muted-foreground">None yet.</p>
+              ) : (
+                <ul className="divide-y border rounded-md">
+                  {values.map(value => (
+                    <li key={value.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className={value.archived ? 'text-sm text-muted-foreground' : 'text-sm font-medium'}>{value.name}</span>
+                        {value.code && <span className="text-xs text-muted-foreground">{value.code}</span>}
+                        {value.clientId && <span className="text-xs text-muted-foreground">for {getDimensionName(clients, value.clientId)}</span>}
+                        {value.archived && <Badge variant="outline">Archived</Badge>}
+                      </div>
+                      {canManage && (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDraft({ kind, id: value.id, name: value.name, code: value.code || '', clientId: value.clientId || null })}
+                            disabled={isSaving}
+                          >
+                            <Edit3 size={16} />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleToggleArchived(kind, value)} disabled={isSaving} title={value.archived ? 'Restore' : 'Archive'}>
+                            {value.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canManage && (
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => setDraft({ kind, id: null, name: '', code: '', clientId: null })} disabled={isSaving}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add {dimensionLabels[kind]}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        <div>
+          <p className="font-medium mb-1">Default markup on billable expenses</p>
+          {canManage ? (
+            <div className="flex items-center gap-2">
+              <Input type="number" min="0" max={MAX_MARKUP_PERCENT} step="0.1" className="w-24" value={markup} onChange={(e) => setMarkup(e.target.value)} />
+              <span className="text-sm">%</span>
+              <Button variant="outline" size="sm" onClick={handleSaveMarkup} disabled={isSaving || Number(markup) === (company.defaultMarkupPercent || 0)}>Save</Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{company.defaultMarkupPercent || 0}%</p>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft && `${draft.id ? 'Edit' : 'Add'} ${dimensionLabels[draft.kind]}`}</DialogTitle>
+            <DialogDescription>Renaming also renames it on existing expenses.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="dimension-name">Name</Label>
+                <Input id="dimension-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} maxLength={80} />
+              </div>
+              <div>
+                <Label htmlFor="dimension-code">Code (optional)</Label>
+                <Input id="dimension-code" value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value })} placeholder="e.g. P-1042" maxLength={30} />
+              </div>
+              {draft.kind === 'project' && (
+                <div>
+                  <Label htmlFor="dimension-client">Client (optional)</Label>
+                  <Select value={draft.clientId || NO_CLIENT_VALUE} onValueChange={(value) => setDraft({ ...draft, clientId: value === NO_CLIENT_VALUE ? null : value })}>
+                    <SelectTrigger id="dimension-client"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CLIENT_VALUE}>No client</SelectItem>
+                      {clients.filter(client => !client.archived || client.id === draft.clientId).map(client => (
+                        <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">Expenses on the project are charged to this client.</p>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
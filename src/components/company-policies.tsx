@@ -0,0 +1,233 @@
+// src/components/company-policies.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateCompanyPolicies } from '@/actions/policy-actions';
+import type { Company } from '@/types/company';
+import type { ExpensePolicy, PolicyAction, PolicyType } from '@/types/policy';
+import { policyActions, policyTypes } from '@/types/policy';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { activeCategories, createCategoryId, getCategoryList } from '@/lib/categories';
+import { describePolicy, MAX_POLICIES, policyActionLabels, policyTypeLabels } from '@/lib/expense-policies';
+import { PolicyActionBadge } from '@/components/policy-violations';
+import { Loader2, ShieldAlert, PlusCircle, Edit3, Trash2 } from 'lucide-react';
+
+interface CompanyPoliciesProps {
+  company: Company;
+  canManage: boolean; // Owners and admins
+  onUpdated: () => void;
+}
+
+interface PolicyDraft {
+  index: number | null; // Null when adding a policy
+  name: string;
+  type: PolicyType;
+  action: PolicyAction;
+  categories: string[];
+  amount: string;
+  days: string;
+}
+
+const usesCategories = (type: PolicyType) => type === 'category_daily_limit' || type === 'no_weekend';
+const usesAmount = (type: PolicyType) => type === 'category_daily_limit' || type === 'receipt_required';
+
+// Spending rules company expenses are checked against when they are saved and approved
+export function CompanyPolicies({ company, canManage, onUpdated }: CompanyPoliciesProps) {
+  const policies = company.policies || [];
+  const categories = getCategoryList(company.categories);
+  const baseCurrency = company.baseCurrency || DEFAULT_BASE_CURRENCY;
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const savePolicies = async (updated: ExpensePolicy[], successMessage: string): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateCompanyPolicies(idToken, company.id, updated);
+      if (!result.success) {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        return false;
+      }
+      toast({ title: 'Policies Updated', description: successMessage });
+      onUpdated();
+      return true;
+    } catch (error) {
+      console.error("Error updating policies:", error);
+      toast({ title: 'Error', description: 'Failed to update the policies.', variant: 'destructive' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const fields = {
+      name,
+      type: draft.type,
+      action: draft.action,
+      categories: usesCategories(draft.type) ? draft.categories : [],
+      amount: usesAmount(draft.type) ? Number(draft.amount) : null,
+      days: draft.type === 'submission_deadline' ? Number(draft.days) : null,
+    };
+    const updated = draft.index !== null
+      ? policies.map((policy, index) => index === draft.index ? { ...policy, ...fields } : policy)
+      : [...policies, { id: createCategoryId(name, policies.map(policy => policy.id)), ...fields }];
+    if (await savePolicies(updated, draft.index !== null ? `"${name}" was updated.` : `"${name}" was added.`)) {
+      setDraft(null);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    savePolicies(policies.filter((_, candidate) => candidate !== index), `"${policies[index].name}" was removed.`);
+  };
+
+  const draftIsValid = !!draft?.name.trim()
+    && (!usesAmount(draft.type) || (draft.amount.trim() !== '' && Number.isFinite(Number(draft.amount)) && Number(draft.amount) >= 0))
+    && (draft.type !== 'submission_deadline' || (Number.isInteger(Number(draft.days)) && Number(draft.days) >= 0 && Number(draft.days) <= 365 && draft.days.trim() !== ''));
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-3 flex items-center">
+        <ShieldAlert className="mr-2 h-5 w-5 text-primary" /> Spending Policies
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        Company expenses are checked against these rules when they are saved and again when they are approved. Amounts are in {baseCurrency}.
+      </p>
+      {policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md p-3">No policies yet. Expenses are not checked.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {policies.map((policy, index) => (
+            <li key={policy.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {policy.name} <PolicyActionBadge action={policy.action} />
+                </p>
+                <p className="text-xs text-muted-foreground">{describePolicy(policy, categories, baseCurrency)}</p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({
+                      index,
+                      name: policy.name,
+                      type: policy.type,
+                      action: policy.action,
+                      categories: policy.categories,
+                      amount: policy.amount === null ? '' : String(policy.amount),
+                      days: policy.days === null ? '' : String(policy.days),
+                    })}
+                    disabled={isSaving}
+                  >
+                    <Edit3 size={16} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(index)} disabled={isSaving} title="Remove">
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canManage && (
+        <Button
+          variant="outline"
+          className="mt-3"
+          onClick={() => setDraft({ index: null, name: '', type: 'category_daily_limit', action: 'warn', categories: [], amount: '', days: '' })}
+          disabled={isSaving || policies.length >= MAX_POLICIES}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Policy
+        </Button>
+      )}
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft && draft.index === null ? 'Add Policy' : 'Edit Policy'}</DialogTitle>
+            <DialogDescription>Expenses already saved keep their flags until they are edited or approved.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="policy-name">Name</Label>
+                <Input id="policy-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Meals per day" maxLength={60} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="policy-type">Rule</Label>
+                  <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as PolicyType })}>
+                    <SelectTrigger id="policy-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {policyTypes.map(type => <SelectItem key={type} value={type}>{policyTypeLabels[type]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="policy-action">When broken</Label>
+                  <Select value={draft.action} onValueChange={(value) => setDraft({ ...draft, action: value as PolicyAction })}>
+                    <SelectTrigger id="policy-action"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {policyActions.map(action => <SelectItem key={action} value={action}>{policyActionLabels[action]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {usesAmount(draft.type) && (
+                <div>
+                  <Label htmlFor="policy-amount">{draft.type === 'receipt_required' ? 'Receipt required over' : 'Limit per day'} ({baseCurrency})</Label>
+                  <Input id="policy-amount" type="number" min="0" step="0.01" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} />
+                </div>
+              )}
+              {draft.type === 'submission_deadline' && (
+                <div>
+                  <Label htmlFor="policy-days">Days after the expense date</Label>
+                  <Input id="policy-days" type="number" min="0" max="365" step="1" value={draft.days} onChange={(e) => setDraft({ ...draft, days: e.target.value })} />
+                </div>
+              )}
+              {usesCategories(draft.type) && (
+                <div>
+                  <Label>Categories (none for all)</Label>
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {activeCategories(categories).map(category => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm min-w-0">
+                        <Checkbox
+                          checked={draft.categories.includes(category.id)}
+                          onCheckedChange={(checked) => setDraft({
+                            ...draft,
+                            categories: checked === true ? [...draft.categories, category.id] : draft.categories.filter(id => id !== category.id),
+                          })}
+                        />
+                        <span className="truncate">{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draftIsValid}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
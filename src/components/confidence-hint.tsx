@@ -0,0 +1,23 @@
+// src/components/confidence-hint.tsx
+import { Badge } from '@/components/ui/badge';
+import type { FieldConfidence } from '@/types/confidence';
+import { describeConfidence } from '@/lib/confidence';
+import { AlertTriangle } from 'lucide-react';
+
+interface ConfidenceHintProps {
+  confidence: FieldConfidence;
+}
+
+// Inline marker for an AI-extracted value that should be checked before saving
+export function ConfidenceHint({ confidence }: ConfidenceHintProps) {
+  return (
+    <Badge
+      variant="outline"
+      className="ml-2 border-amber-500 text-amber-700 bg-amber-50 text-[10px] px-1.5 py-0 h-4 font-normal"
+      title={`AI ${confidence.source === 'inferred' ? 'inferred this value' : 'read this value'} with ${confidence.level} confidence. Please check it.`}
+    >
+      <AlertTriangle className="mr-1 h-2.5 w-2.5" />
+      {describeConfidence(confidence)}
+    </Badge>
+  );
+}
@@ -0,0 +1,205 @@
+// src/components/expense-breakdown-fields.tsx
+'use client';
+
+import { useFieldArray, type Control } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { ExpenseFormData } from '@/types/expense';
+import { PlusCircle, XCircle } from 'lucide-react';
+
+interface ExpenseBreakdownFieldsProps {
+  control: Control<ExpenseFormData, any, any>;
+}
+
+// Parses a numeric input, keeping '' so an emptied field is not coerced to 0
+const parseNumberInput = (value: string) => (value === '' ? '' : parseFloat(value));
+
+// Subtotal, taxes, service charge, tip, discounts and printed grand total of a receipt
+export function ExpenseBreakdownFields({ control }: ExpenseBreakdownFieldsProps) {
+  const { fields: taxFields, append: appendTax, remove: removeTax } = useFieldArray({
+    control,
+    name: 'taxes',
+  });
+  const { fields: discountFields, append: appendDiscount, remove: removeDiscount } = useFieldArray({
+    control,
+    name: 'discounts',
+  });
+
+  return (
+    <div className="space-y-4">
+      <Label className="text-base font-medium block">Receipt Totals</Label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <FormField
+          control={control}
+          name="subtotal"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs">Subtotal (as printed)</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" placeholder="Optional" {...field} value={field.value ?? ''} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="serviceCharge"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs">Service Charge</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="tip"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs">Tip</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value ?? ''} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium mb-2 block">Taxes</Label>
+        <div className="space-y-2">
+          {taxFields.map((tax, index) => (
+            <div key={tax.id} className="p-3 border rounded-md bg-secondary/20 relative">
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <FormField
+                  control={control}
+                  name={`taxes.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., VAT" {...field} className="text-sm" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`taxes.${index}.rate`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="Optional" {...field} value={field.value ?? ''} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`taxes.${index}.amount`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`taxes.${index}.inclusive`}
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center gap-2 space-y-0 pb-2">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="text-xs font-normal">Included in prices</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeTax(index)} className="absolute top-1 right-1 text-destructive hover:text-destructive/80 h-7 w-7">
+                <XCircle size={18} />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => appendTax({ name: '', rate: null, amount: 0, inclusive: false })} className="text-primary border-primary hover:bg-primary/5 mt-2">
+          <PlusCircle size={16} className="mr-2" /> Add Tax
+        </Button>
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium mb-2 block">Discounts</Label>
+        <div className="space-y-2">
+          {discountFields.map((discount, index) => (
+            <div key={discount.id} className="p-3 border rounded-md bg-secondary/20 relative">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <FormField
+                  control={control}
+                  name={`discounts.${index}.description`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Member discount" {...field} className="text-sm" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`discounts.${index}.amount`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} className="text-sm" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeDiscount(index)} className="absolute top-1 right-1 text-destructive hover:text-destructive/80 h-7 w-7">
+                <XCircle size={18} />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => appendDiscount({ description: '', amount: 0 })} className="text-primary border-primary hover:bg-primary/5 mt-2">
+          <PlusCircle size={16} className="mr-2" /> Add Discount
+        </Button>
+      </div>
+
+      <FormField
+        control={control}
+        name="totalAmount"
+        render={({ field }) => (
+          <FormItem className="max-w-xs">
+            <FormLabel className="text-sm">Grand Total (as printed)</FormLabel>
+            <FormControl>
+              <Input type="number" step="0.01" placeholder="Leave empty to compute" {...field} value={field.value ?? ''} className="text-base" onChange={e => field.onChange(parseNumberInput(e.target.value))} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
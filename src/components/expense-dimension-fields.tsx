@@ -0,0 +1,167 @@
+// src/components/expense-dimension-fields.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { getExpenseDimensions } from '@/actions/dimension-actions';
+import type { ExpenseFormData } from '@/types/expense';
+import type { DimensionKind, DimensionValue, ExpenseDimensionDefaults } from '@/types/dimension';
+import { dimensionKinds } from '@/types/dimension';
+import { activeDimensionValues, dimensionLabels, expenseDimensionFields, MAX_MARKUP_PERCENT, MAX_TAGS, parseTags } from '@/lib/dimensions';
+
+export interface DimensionSettings {
+  values: Record<DimensionKind, DimensionValue[]>;
+  defaultMarkupPercent: number;
+  defaults: ExpenseDimensionDefaults | null;
+}
+
+export type DimensionFormValues = Required<Pick<ExpenseFormData, 'projectId' | 'clientId' | 'costCenterId' | 'tags' | 'billable' | 'markupPercent'>>;
+
+// Value of the selects for no project, client or cost center
+const NONE_VALUE = '__none';
+
+export const pickDimensionValues = (data: Partial<DimensionFormValues>): DimensionFormValues => ({
+  projectId: data.projectId ?? null,
+  clientId: data.clientId ?? null,
+  costCenterId: data.costCenterId ?? null,
+  tags: data.tags || [],
+  billable: data.billable ?? false,
+  markupPercent: data.markupPercent ?? null,
+});
+
+// Where a new expense starts: the user's last dimensions, leaving out values archived since
+export const getDefaultDimensionValues = (settings: DimensionSettings | null): DimensionFormValues => {
+  const defaults = settings?.defaults;
+  const isActive = (kind: DimensionKind, id: string | null) => !!id && activeDimensionValues(settings!.values[kind]).some(value => value.id === id);
+  return {
+    projectId: defaults && isActive('project', defaults.projectId) ? defaults.projectId : null,
+    clientId: defaults && isActive('client', defaults.clientId) ? defaults.clientId : null,
+    costCenterId: defaults && isActive('costCenter', defaults.costCenterId) ? defaults.costCenterId : null,
+    tags: defaults?.tags || [],
+    billable: defaults?.billable || false,
+    markupPercent: null,
+  };
+};
+
+// The company's projects, clients and cost centers and the user's defaults, loaded once the user is known
+export function useDimensionSettings(): DimensionSettings | null {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<DimensionSettings | null>(null);
+
+  useEffect(() => {
+    if (!user || !auth.currentUser) return;
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => getExpenseDimensions(idToken))
+      .then(result => {
+        if (cancelled || !result.success) return;
+        setSettings({
+          values: { project: result.projects || [], client: result.clients || [], costCenter: result.costCenters || [] },
+          defaultMarkupPercent: result.defaultMarkupPercent || 0,
+          defaults: result.defaults || null,
+        });
+      })
+      .catch(error => console.error("Failed to load projects, clients and cost centers:", error));
+    return () => { cancelled = true; };
+  }, [user]);
+
+  return settings;
+}
+
+interface ExpenseDimensionFieldsProps {
+  settings: DimensionSettings | null;
+  value: DimensionFormValues;
+  onChange: (value: DimensionFormValues) => void;
+  idPrefix?: string; // Keeps input IDs unique when several forms are on a page
+}
+
+// Project, client, cost center, tags and billing of an expense. Only kinds the company defined are shown; archived
+// values can only stay on an expense that has them.
+export function ExpenseDimensionFields({ settings, value, onChange, idPrefix = 'expense' }: ExpenseDimensionFieldsProps) {
+  const [tagText, setTagText] = useState(value.tags.join(', '));
+
+  // Follows tags set from outside, e.g. when the form is reset
+  useEffect(() => {
+    if (parseTags(tagText).join(',') !== value.tags.join(',')) setTagText(value.tags.join(', '));
+  }, [value.tags]);
+
+  const handleDimensionChange = (kind: DimensionKind, id: string) => {
+    const selected = id === NONE_VALUE ? null : id;
+    const project = kind === 'project' && selected ? settings?.values.project.find(candidate => candidate.id === selected) : null;
+    onChange({
+      ...value,
+      [expenseDimensionFields[kind]]: selected,
+      ...(project?.clientId ? { clientId: project.clientId } : {}),
+    });
+  };
+
+  const kinds = dimensionKinds.filter(kind => (settings?.values[kind] || []).length > 0);
+
+  return (
+    <div className="space-y-3">
+      {kinds.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {kinds.map(kind => {
+            const selectedId = value[expenseDimensionFields[kind]] || null;
+            const options = settings!.values[kind].filter(option => !option.archived || option.id === selectedId);
+            return (
+              <div key={kind} className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${kind}`}>{dimensionLabels[kind]}</Label>
+                <Select value={selectedId || NONE_VALUE} onValueChange={(id) => handleDimensionChange(kind, id)}>
+                  <SelectTrigger id={`${idPrefix}-${kind}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE_VALUE}>None</SelectItem>
+                    {options.map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}{option.code ? ` (${option.code})` : ''}{option.archived ? ' · archived' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-tags`}>Tags</Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          value={tagText}
+          onChange={(e) => {
+            setTagText(e.target.value);
+            onChange({ ...value, tags: parseTags(e.target.value) });
+          }}
+          placeholder={`Separated by commas, up to ${MAX_TAGS}`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={value.billable} onCheckedChange={(checked) => onChange({ ...value, billable: checked === true })} />
+          Billable to the client
+        </label>
+        {value.billable && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}-markup`} className="text-sm font-normal">Markup (%)</Label>
+            <Input
+              id={`${idPrefix}-markup`}
+              type="number"
+              min="0"
+              max={MAX_MARKUP_PERCENT}
+              step="0.1"
+              className="w-24"
+              value={value.markupPercent ?? ''}
+              onChange={(e) => onChange({ ...value, markupPercent: e.target.value === '' ? null : e.target.value })}
+              placeholder={String(settings?.defaultMarkupPercent ?? 0)}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,29 +3,91 @@
 'use client';
 
 import type { ChangeEvent } from 'react';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { useToast } from '@/hooks/use-toast';
-import { processReceiptImage, saveExpense } from '@/actions/expense-actions';
-import type { ExpenseFormData, ExpenseCategory, PaymentMethod, ExpenseStatus } from '@/types/expense'; // Added ExpenseStatus
-import { expenseCategories, paymentMethods } from '@/types/expense';
-import { UploadCloud, PlusCircle, XCircle, Loader2, CalendarIcon } from 'lucide-react';
-import type { ExtractReceiptDataOutput as AIExtractReceiptDataOutput } from '@/ai/flows/extract-receipt-data';
-import { format } from 'date-fns';
+import { processReceiptImage, saveExpense, updateExpense, getBaseCurrency, getExpenseCategories, enrichReceiptData } from '@/actions/expense-actions';
+import { approveExtractionJob, retryExtractionJob } from '@/actions/extraction-job-actions';
+import type { Expense, ExpenseFormData, ExpenseCategory, PaymentMethod, ExpenseStatus } from '@/types/expense'; // Added ExpenseStatus
+import { paymentMethods } from '@/types/expense';
+import { supportedCurrencies, DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { UploadCloud, PlusCircle, XCircle, Loader2, CalendarIcon, AlertTriangle, CheckCircle2, RotateCcw, FileText, Split } from 'lucide-react';
+import type { ProcessedReceiptData } from '@/actions/expense-actions';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/use-auth'; 
 import { auth } from '@/lib/firebase'; 
+import { createThumbnailDataUri, computePerceptualHash, readFileAsDataUri } from '@/lib/image-utils';
+import { preprocessReceiptImage, dataUriByteSize, DEFAULT_RECEIPT_PREPROCESSING, type PreprocessedReceiptImage } from '@/lib/image-preprocessing';
+import { formatCurrency, getExpenseCurrency } from '@/lib/currency';
+import { getEditStatusRule } from '@/lib/expense-revisions';
+import { resolveExpenseTotal } from '@/lib/expense-totals';
+import { reconcileReceipt, buildReconciliationHint } from '@/lib/receipt-reconciliation';
+import { ExpenseBreakdownFields } from './expense-breakdown-fields';
+import { ConfidenceHint } from './confidence-hint';
+import { ReceiptViewer } from './receipt-viewer';
+import { needsReview } from '@/lib/confidence';
+import type { ExtractionConfidence, FieldConfidence } from '@/types/confidence';
+import type { ReceiptUpload } from '@/types/receipt';
+import type { ParsingAmbiguity } from '@/types/parsing';
+import type { ExtractionRun } from '@/types/provenance';
+import { RECEIPT_PDF_CONTENT_TYPE, MAX_RECEIPT_FILE_SIZE, MAX_RECEIPT_SOURCE_IMAGE_SIZE } from '@/types/receipt';
+import type { ExtractionJob } from '@/types/extraction-job';
+import type { DuplicateMatch, DuplicateReason } from '@/types/duplicate';
+import type { PolicyViolation } from '@/types/policy';
+import type { RecurringDraft } from '@/types/recurring';
+import { MAX_POLICY_JUSTIFICATION_LENGTH } from '@/lib/expense-policies';
+import { PolicyViolationBadges } from './policy-violations';
+import type { CategorySuggestionSource } from '@/types/category-learning';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { resolveCategoryId, getCategoryName } from '@/lib/categories';
+import { getDimensionName } from '@/lib/dimensions';
+import { CategoryIcon } from './category-icon';
+import { SplitEditor } from './split-editor';
+import { ExpenseDimensionFields, getDefaultDimensionValues, pickDimensionValues, useDimensionSettings } from './expense-dimension-fields';
+import { splitModes, type ExpenseSplit } from '@/types/allocation';
+import { computeAllocations, normalizeSplit } from '@/lib/expense-allocations';
+
+// Value of the item category select for items in the expense's category
+const EXPENSE_CATEGORY_VALUE = '__expense';
+
+const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const splitSchema = z.object({
+  mode: z.enum(splitModes),
+  shares: z.array(z.object({
+    category: z.string(),
+    projectId: z.string().nullable(),
+    value: z.number(),
+  })),
+});
 
 const itemSchema = z.object({
   id: z.string().optional(),
@@ -38,35 +100,162 @@ const itemSchema = z.object({
     (val) => (typeof val === 'string' ? parseFloat(val) : val),
     z.number().min(0, 'Net price must be non-negative')
   ),
+  category: z.string().nullable().optional(),
+  split: splitSchema.nullable().optional(),
+});
+
+// Empty inputs are allowed for optional amounts and stored as null
+const optionalAmountSchema = z.preprocess(
+  (val) => (val === '' || val === undefined || val === null ? null : typeof val === 'string' ? parseFloat(val) : val),
+  z.number().min(0, 'Amount must be non-negative').nullable()
+);
+
+const amountSchema = z.preprocess(
+  (val) => (val === '' || val === undefined || val === null ? 0 : typeof val === 'string' ? parseFloat(val) : val),
+  z.number().min(0, 'Amount must be non-negative')
+);
+
+const taxLineSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Tax name is required'),
+  rate: optionalAmountSchema,
+  amount: amountSchema,
+  inclusive: z.boolean(),
+});
+
+const discountSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().min(1, 'Description is required'),
+  amount: amountSchema,
 });
 
 const expenseFormSchema = z.object({
   company: z.string().min(1, 'Company name is required'),
   companyId: z.string().nullable().optional(), // Added companyId
+  printedCompany: z.string().nullable().optional(),
   items: z.array(itemSchema).min(1, 'At least one item is required'),
-  category: z.enum(expenseCategories, { required_error: 'Category is required' }),
+  category: z.string({ required_error: 'Category is required' }).min(1, 'Category is required'),
+  suggestedCategory: z.string().nullable().optional(),
+  split: splitSchema.nullable().optional(),
+  currency: z.enum(supportedCurrencies, { required_error: 'Currency is required' }),
+  subtotal: optionalAmountSchema,
+  taxes: z.array(taxLineSchema),
+  serviceCharge: amountSchema,
+  tip: amountSchema,
+  discounts: z.array(discountSchema),
+  totalAmount: optionalAmountSchema,
   expenseDate: z.date({ required_error: 'Expense date is required' }),
   paymentMethod: z.enum(paymentMethods, { required_error: 'Payment method is required' }),
   status: z.enum(['pending', 'approved', 'rejected']).optional(), // Added status
+  policyJustification: z.string().max(MAX_POLICY_JUSTIFICATION_LENGTH, `At most ${MAX_POLICY_JUSTIFICATION_LENGTH} characters`).nullable().optional(),
+  projectId: z.string().nullable().optional(),
+  clientId: z.string().nullable().optional(),
+  costCenterId: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  billable: z.boolean().optional(),
+  markupPercent: optionalAmountSchema.optional(),
+});
+
+const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  same_file: 'same file',
+  similar_image: 'similar photo',
+  same_vendor: 'same vendor',
+  same_date: 'same date',
+  same_amount: 'same amount',
+  similar_items: 'similar items',
+};
+
+// Form values of a saved expense, for editing it
+const expenseToFormData = (expense: Expense): ExpenseFormData => ({
+  company: expense.company,
+  companyId: expense.companyId || null,
+  items: expense.items.map(item => ({ name: item.name, quantity: item.quantity, netPrice: item.netPrice, category: item.category ?? null, split: normalizeSplit(item.split) })),
+  category: expense.category,
+  split: normalizeSplit(expense.split), // Drops the free-text projects of older splits
+  currency: getExpenseCurrency(expense),
+  subtotal: expense.subtotal ?? null,
+  taxes: expense.taxes || [],
+  serviceCharge: expense.serviceCharge || 0,
+  tip: expense.tip || 0,
+  discounts: expense.discounts || [],
+  totalAmount: expense.totalAmount,
+  expenseDate: new Date(expense.expenseDate as unknown as Date),
+  paymentMethod: expense.paymentMethod,
+  status: expense.status,
+  policyJustification: expense.policyJustification ?? null,
+  ...pickDimensionValues(expense),
 });
 
-export function ExpenseForm() {
+// Form values of a recurring expense's draft: one line item for the expected charge on its due date
+const recurringDraftToFormData = (draft: RecurringDraft, companyId: string | null): ExpenseFormData => ({
+  company: draft.company,
+  companyId,
+  items: [{ name: draft.name, quantity: 1, netPrice: draft.amount }],
+  category: draft.category,
+  currency: draft.currency,
+  subtotal: null,
+  taxes: [],
+  serviceCharge: 0,
+  tip: 0,
+  discounts: [],
+  totalAmount: draft.amount,
+  expenseDate: new Date(`${draft.dueDate}T00:00:00`),
+  paymentMethod: draft.paymentMethod,
+  status: companyId ? 'pending' : 'approved',
+});
+
+interface ExpenseFormProps {
+  // Reviews the draft of a batch upload job instead of extracting a single receipt
+  extractionJob?: ExtractionJob;
+  onExtractionJobChange?: () => void; // Called once the job was saved or queued again
+  // Edits a saved expense instead of adding a new one
+  expense?: Expense;
+  onExpenseUpdated?: () => void; // Called once the changes were saved
+  // Saves the charge of a recurring expense, prefilled from its draft
+  recurringDraft?: RecurringDraft;
+  onRecurringDraftSaved?: () => void; // Called once the expense was saved
+}
+
+export function ExpenseForm({ extractionJob, onExtractionJobChange, expense, onExpenseUpdated, recurringDraft, onRecurringDraftSaved }: ExpenseFormProps = {}) {
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
+  const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null); // What is sent for extraction and saved
+  const [originalPreviewUrl, setOriginalPreviewUrl] = useState<string | null>(null); // The file as selected, for the before/after preview
+  const [preprocessed, setPreprocessed] = useState<PreprocessedReceiptImage | null>(null); // Null for PDFs and images sent as they are
+  const [preprocessingOptions, setPreprocessingOptions] = useState({ crop: DEFAULT_RECEIPT_PREPROCESSING.crop, enhance: DEFAULT_RECEIPT_PREPROCESSING.enhance });
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isLogged, setIsLogged] = useState(false); 
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULT_BASE_CURRENCY);
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const dimensionSettings = useDimensionSettings();
+  const projects = dimensionSettings?.values.project || [];
+  const [pendingMismatchData, setPendingMismatchData] = useState<ExpenseFormData | null>(null);
+  const [pendingDuplicates, setPendingDuplicates] = useState<{ data: ExpenseFormData; duplicates: DuplicateMatch[] } | null>(null);
+  const [policyViolations, setPolicyViolations] = useState<PolicyViolation[]>(expense?.policyViolations || []); // As last reported by the server
+  const [fieldConfidence, setFieldConfidence] = useState<Omit<ExtractionConfidence, 'items'> | null>(null);
+  const [categorySource, setCategorySource] = useState<CategorySuggestionSource | null>(null);
+  const [splitTarget, setSplitTarget] = useState<number | 'expense' | null>(null); // Item index, or the whole expense
+  const [ambiguities, setAmbiguities] = useState<ParsingAmbiguity[]>([]); // Printed values that could be read another way
+  const [extractionRun, setExtractionRun] = useState<ExtractionRun | null>(null); // Saved with the expense as its provenance
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth(); 
 
   const form = useForm<ExpenseFormData>({
     resolver: zodResolver(expenseFormSchema),
-    defaultValues: {
+    defaultValues: expense ? expenseToFormData(expense) : recurringDraft ? recurringDraftToFormData(recurringDraft, user?.companyId || null) : {
       company: '',
       companyId: user?.companyId || null,
       items: [{ name: '', quantity: 1, netPrice: 0 }],
       category: 'other',
+      currency: DEFAULT_BASE_CURRENCY,
+      subtotal: null,
+      taxes: [],
+      serviceCharge: 0,
+      tip: 0,
+      discounts: [],
+      totalAmount: null,
       expenseDate: new Date(),
       paymentMethod: 'card',
       status: user?.companyId ? 'pending' : 'approved',
@@ -75,7 +264,7 @@ export function ExpenseForm() {
   
   // Update defaultValues when user context changes (e.g., after login or joining/leaving a company)
   useEffect(() => {
-    if (user) {
+    if (user && !expense && !recurringDraft) {
       form.reset({
         ...form.getValues(), // Keep existing form values if any
         companyId: user.companyId || null,
@@ -84,7 +273,49 @@ export function ExpenseForm() {
         company: user.companyId && form.getValues().company === '' ? 'My Company' : form.getValues().company, // Example placeholder
       });
     }
-  }, [user, form]);
+  }, [user, form, expense, recurringDraft]);
+
+  // Default new expenses to the company's base currency
+  const draftCurrency = extractionJob?.draft?.currency ?? null;
+  useEffect(() => {
+    if (!user || !auth.currentUser) return;
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => getBaseCurrency(idToken))
+      .then(currency => {
+        if (cancelled) return;
+        setBaseCurrency(currency);
+        if (!form.formState.isDirty && !draftCurrency && !expense && !recurringDraft) {
+          form.setValue('currency', currency);
+        }
+      })
+      .catch(error => console.error("Failed to load base currency:", error));
+    return () => { cancelled = true; };
+  }, [user, form, draftCurrency, expense, recurringDraft]);
+
+  // The company's categories, or the defaults for personal expenses
+  useEffect(() => {
+    if (!user || !auth.currentUser) return;
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => getExpenseCategories(idToken))
+      .then(fetchedCategories => {
+        if (cancelled) return;
+        setCategories(fetchedCategories);
+        if (!form.formState.isDirty && !extractionJob && !expense) {
+          form.setValue('category', resolveCategoryId(fetchedCategories, form.getValues('category')));
+        }
+      })
+      .catch(error => console.error("Failed to load categories:", error));
+    return () => { cancelled = true; };
+  }, [user, form, extractionJob, expense]);
+
+  // New expenses start from the dimensions of the user's last expense
+  useEffect(() => {
+    if (!dimensionSettings || expense || form.getValues('tags') !== undefined) return;
+    const defaults = getDefaultDimensionValues(dimensionSettings);
+    (Object.keys(defaults) as Array<keyof typeof defaults>).forEach(field => form.setValue(field, defaults[field]));
+  }, [dimensionSettings, form, expense]);
 
 
   const { fields, append, remove } = useFieldArray({
@@ -93,63 +324,293 @@ export function ExpenseForm() {
   });
 
   const watchedItems = form.watch('items');
+  const watchedCurrency = form.watch('currency');
+  const watchedTaxes = form.watch('taxes');
+  const watchedDiscounts = form.watch('discounts');
+  const watchedServiceCharge = form.watch('serviceCharge');
+  const watchedTip = form.watch('tip');
+  const watchedTotalAmount = form.watch('totalAmount');
+  const hasPrintedTotal = watchedTotalAmount !== null && watchedTotalAmount !== undefined && watchedTotalAmount !== '';
   
+  const watchedSubtotal = form.watch('subtotal');
+
+  // Re-evaluated on every edit so the flag clears once the user fixes the misread line
+  const reconciliation = useMemo(() => reconcileReceipt({
+    items: watchedItems,
+    taxes: watchedTaxes,
+    serviceCharge: watchedServiceCharge,
+    tip: watchedTip,
+    discounts: watchedDiscounts,
+    subtotal: watchedSubtotal,
+    printedTotal: watchedTotalAmount,
+    currency: watchedCurrency || baseCurrency,
+  }), [watchedItems, watchedTaxes, watchedServiceCharge, watchedTip, watchedDiscounts, watchedSubtotal, watchedTotalAmount, watchedCurrency, baseCurrency]);
+
+  // Confidence of an AI-extracted header field, until the user edits it
+  const getReviewConfidence = (name: 'company' | 'expenseDate' | 'paymentMethod' | 'category'): FieldConfidence | null => {
+    const confidence = fieldConfidence?.[name];
+    return needsReview(confidence) && !form.formState.dirtyFields[name] ? confidence! : null;
+  };
+
+  const getItemReviewConfidence = (index: number): FieldConfidence | null => {
+    const confidence = watchedItems[index]?.confidence;
+    return needsReview(confidence) && !form.formState.dirtyFields.items?.[index] ? confidence! : null;
+  };
+
+  const reviewFieldCount = (['company', 'expenseDate', 'paymentMethod', 'category'] as const).filter(name => getReviewConfidence(name)).length
+    + watchedItems.filter((_, index) => getItemReviewConfidence(index)).length;
+
+  const reviewHighlightClass = 'border-amber-500 ring-1 ring-amber-400';
+
   const calculateTotalExpense = () => {
-    return watchedItems.reduce((total, item) => total + (Number(item.netPrice) || 0), 0);
+    return resolveExpenseTotal(watchedTotalAmount, {
+      items: watchedItems,
+      taxes: watchedTaxes,
+      serviceCharge: watchedServiceCharge,
+      tip: watchedTip,
+      discounts: watchedDiscounts,
+    });
   };
 
+  const watchedCategory = form.watch('category');
+  const watchedSplit = form.watch('split');
+  const watchedDimensions = {
+    projectId: form.watch('projectId'),
+    clientId: form.watch('clientId'),
+    costCenterId: form.watch('costCenterId'),
+    tags: form.watch('tags'),
+    billable: form.watch('billable'),
+    markupPercent: form.watch('markupPercent'),
+  };
+  // Preview of how the total is charged to categories and projects, shown once it is not all in the expense category
+  const allocationPreview = computeAllocations({
+    category: watchedCategory,
+    split: watchedSplit,
+    items: watchedItems.map(item => ({ netPrice: Number(item.netPrice) || 0, category: item.category, split: item.split })),
+    totalAmount: calculateTotalExpense(),
+    currency: watchedCurrency || baseCurrency,
+    baseAmount: 0,
+    baseCurrency: baseCurrency,
+  });
+  const showAllocationPreview = allocationPreview.some(allocation => allocation.category !== watchedCategory || allocation.projectId);
+
+  const handleSaveSplit = (split: ExpenseSplit | null) => {
+    if (splitTarget === 'expense') {
+      form.setValue('split', split, { shouldDirty: true });
+    } else if (splitTarget !== null) {
+      form.setValue(`items.${splitTarget}.split`, split, { shouldDirty: true });
+    }
+  };
+
+
+  const isPdfReceipt = imageFile?.type === RECEIPT_PDF_CONTENT_TYPE;
 
   const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
+      if (!file.type.startsWith('image/') && file.type !== RECEIPT_PDF_CONTENT_TYPE) {
+        toast({ title: 'Unsupported file', description: 'Please select an image or a PDF.', variant: 'destructive' });
+        event.target.value = '';
+        return;
+      }
+      // Photos are downscaled before they are sent, so only PDFs are held to the upload limit here
+      const maxSize = file.type === RECEIPT_PDF_CONTENT_TYPE ? MAX_RECEIPT_FILE_SIZE : MAX_RECEIPT_SOURCE_IMAGE_SIZE;
+      if (file.size > maxSize) {
+        toast({ title: 'File too large', description: `Receipts can be at most ${Math.round(maxSize / (1024 * 1024))} MB.`, variant: 'destructive' });
+        event.target.value = '';
+        return;
+      }
       setImageFile(file);
+      setImagePreviewUrl(null);
+      setPreprocessed(null);
       const reader = new FileReader();
       reader.onloadend = () => {
-        setImagePreviewUrl(reader.result as string);
+        setOriginalPreviewUrl(reader.result as string);
+        if (file.type === RECEIPT_PDF_CONTENT_TYPE) {
+          setImagePreviewUrl(reader.result as string);
+        }
       };
       reader.readAsDataURL(file);
     }
   };
 
-  const handleExtractData = async () => {
-    if (!imageFile) {
-      toast({ title: 'No image selected', description: 'Please select a receipt image first.', variant: 'destructive' });
+  // Prepares the selected photo for extraction, again whenever the preprocessing options change
+  useEffect(() => {
+    if (!imageFile || imageFile.type === RECEIPT_PDF_CONTENT_TYPE) return;
+    let cancelled = false;
+    setIsPreprocessing(true);
+    preprocessReceiptImage(imageFile, preprocessingOptions)
+      .then(result => {
+        if (cancelled) return;
+        setPreprocessed(result);
+        setImagePreviewUrl(result.dataUri);
+      })
+      .catch(async error => {
+        // Formats the browser cannot decode, such as HEIC outside Safari, are sent as they are if they fit
+        console.warn("Could not preprocess receipt image, using the original.", error);
+        const originalDataUri = await readFileAsDataUri(imageFile);
+        if (cancelled) return;
+        setPreprocessed(null);
+        if (dataUriByteSize(originalDataUri) > MAX_RECEIPT_FILE_SIZE) {
+          toast({ title: 'File too large', description: `This image could not be downscaled in the browser, and receipts can be at most ${Math.round(MAX_RECEIPT_FILE_SIZE / (1024 * 1024))} MB.`, variant: 'destructive' });
+          return;
+        }
+        setImagePreviewUrl(originalDataUri);
+      })
+      .finally(() => !cancelled && setIsPreprocessing(false));
+    return () => { cancelled = true; };
+  }, [imageFile, preprocessingOptions]);
+
+  // Fills the form with an extraction result, keeping the confidence of each value for highlighting
+  const applyExtractionResult = (result: ProcessedReceiptData) => {
+    form.reset({
+      ...pickDimensionValues(form.getValues()), // Not on the receipt, so kept as entered
+      company: result.company,
+      printedCompany: result.printedCompany || null,
+      companyId: user?.companyId || null, // Keep user's company context
+      items: result.items.length > 0 
+        ? result.items.map((item, index) => ({ 
+            name: item.name, 
+            quantity: item.quantity, 
+            netPrice: item.netPrice,
+            category: item.category || null,
+            confidence: result.confidence.items[index],
+          })) 
+        : [{ name: '', quantity: 1, netPrice: 0 }],
+      category: result.category as ExpenseCategory,
+      suggestedCategory: result.category as ExpenseCategory,
+      currency: result.currency || form.getValues().currency || baseCurrency,
+      subtotal: result.subtotal,
+      taxes: result.taxes,
+      serviceCharge: result.serviceCharge,
+      tip: result.tip,
+      discounts: result.discounts,
+      totalAmount: result.total,
+      // parseISO reads YYYY-MM-DD as a local date; new Date() would read it as UTC midnight and shift it a day west of UTC
+      expenseDate: result.expenseDate ? parseISO(result.expenseDate) : new Date(),
+      paymentMethod: result.paymentMethod as PaymentMethod,
+      status: user?.companyId ? 'pending' : 'approved', // Set status based on company context
+    });
+    const { items: _itemConfidence, ...headerConfidence } = result.confidence;
+    setFieldConfidence(headerConfidence);
+    setCategorySource(result.categorySource || null); // Missing on drafts extracted before category learning
+    setAmbiguities(result.ambiguities || []); // Missing on drafts extracted before locale parsing
+    setExtractionRun(result.extraction || null);
+  };
+
+  // Switches an ambiguous value to another reading, keeping the current one as an alternative
+  const applyAlternativeReading = (index: number, alternative: string | number) => {
+    const ambiguity = ambiguities[index];
+    if (ambiguity.field === 'expenseDate') {
+      form.setValue('expenseDate', parseISO(String(alternative)), { shouldDirty: true });
+    } else if (ambiguity.field === 'itemPrice') {
+      form.setValue(`items.${ambiguity.itemIndex ?? 0}.netPrice`, Number(alternative), { shouldDirty: true });
+    } else {
+      form.setValue(ambiguity.field === 'total' ? 'totalAmount' : 'subtotal', Number(alternative), { shouldDirty: true });
+    }
+    setAmbiguities(current => current.map((entry, i) => (i === index
+      ? { ...entry, value: alternative, alternatives: [entry.value, ...entry.alternatives.filter(value => value !== alternative)] } as ParsingAmbiguity
+      : entry)));
+  };
+
+  const formatReading = (ambiguity: ParsingAmbiguity, value: string | number): string =>
+    ambiguity.field === 'expenseDate' ? format(parseISO(String(value)), 'PPP') : formatCurrency(Number(value), watchedCurrency || baseCurrency);
+
+  const ambiguityLabel = (ambiguity: ParsingAmbiguity): string => {
+    if (ambiguity.field === 'expenseDate') return 'Date';
+    if (ambiguity.field === 'subtotal') return 'Subtotal';
+    if (ambiguity.field === 'total') return 'Total';
+    return form.getValues(`items.${ambiguity.itemIndex ?? 0}.name`) || 'Item price';
+  };
+
+  const handleExtractData = async (hint?: string) => {
+    if (!imageFile || !imagePreviewUrl) {
+      toast({ title: 'No receipt selected', description: 'Please select a receipt image or PDF first.', variant: 'destructive' });
       return;
     }
 
     setIsExtracting(true);
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const dataUri = reader.result as string;
-      const result = await processReceiptImage(dataUri) as (AIExtractReceiptDataOutput & { items: Array<{name: string, quantity: number, netPrice: number}> }) | { error: string};
+    try {
+      let result = await processReceiptImage(imagePreviewUrl, hint, categories);
+      // Batch drafts are enriched on the server; single receipts look up the vendor and learned category separately
+      if (!('error' in result) && auth.currentUser) {
+        const idToken = await auth.currentUser.getIdToken();
+        const enriched = await enrichReceiptData(idToken, result);
+        if (enriched.result) {
+          result = enriched.result;
+        }
+      }
       setIsExtracting(false);
 
       if ('error' in result) {
         toast({ title: 'Extraction Failed', description: result.error, variant: 'destructive' });
       } else {
-        toast({ title: 'Extraction Successful', description: 'Data extracted from receipt.' });
+        if (result.reconciliation.status === 'mismatch') {
+          toast({ title: 'Extraction Needs Review', description: 'The extracted items do not add up to the printed total.', variant: 'destructive' });
+        } else {
+          toast({ title: 'Extraction Successful', description: 'Data extracted from receipt.' });
+        }
         
-        form.reset({
-          company: result.company,
-          companyId: user?.companyId || null, // Keep user's company context
-          items: result.items.length > 0 
-            ? result.items.map(item => ({ 
-                name: item.name, 
-                quantity: item.quantity, 
-                netPrice: item.netPrice,
-              })) 
-            : [{ name: '', quantity: 1, netPrice: 0 }],
-          category: result.category as ExpenseCategory,
-          expenseDate: result.expenseDate ? new Date(result.expenseDate) : new Date(),
-          paymentMethod: result.paymentMethod as PaymentMethod,
-          status: user?.companyId ? 'pending' : 'approved', // Set status based on company context
-        });
+        applyExtractionResult(result);
       }
-    };
-    reader.readAsDataURL(imageFile);
+    } catch (error: any) {
+      setIsExtracting(false);
+      toast({ title: 'Extraction Failed', description: error.message || 'Could not send the receipt.', variant: 'destructive' });
+    }
+  };
+
+  // Fill the form from the job's draft when reviewing a batch upload
+  useEffect(() => {
+    if (extractionJob?.draft) {
+      applyExtractionResult(extractionJob.draft);
+    }
+  }, [extractionJob?.id]);
+
+  const handleReExtractWithHint = async () => {
+    const hint = buildReconciliationHint(reconciliation, watchedCurrency || baseCurrency);
+    if (!extractionJob) {
+      handleExtractData(hint);
+      return;
+    }
+    if (!auth.currentUser) return;
+    setIsExtracting(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await retryExtractionJob(idToken, extractionJob.id, hint);
+      if (result.success) {
+        toast({ title: 'Queued Again', description: 'The receipt will be extracted again with the hint.' });
+        onExtractionJobChange?.();
+      } else {
+        toast({ title: 'Retry Failed', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setIsExtracting(false);
+    }
   };
 
   const onSubmit = async (data: ExpenseFormData) => {
+    if (reconciliation.status === 'mismatch' && !data.totalMismatchAcknowledged) {
+      setPendingMismatchData(data);
+      return;
+    }
+    await submitExpense(data);
+  };
+
+  const confirmSaveWithMismatch = async () => {
+    if (!pendingMismatchData) return;
+    const data = { ...pendingMismatchData, totalMismatchAcknowledged: true };
+    setPendingMismatchData(null);
+    await submitExpense(data);
+  };
+
+  const confirmSaveDuplicate = async () => {
+    if (!pendingDuplicates) return;
+    const data = { ...pendingDuplicates.data, duplicatesAcknowledged: true };
+    setPendingDuplicates(null);
+    await submitExpense(data);
+  };
+
+  const submitExpense = async (data: ExpenseFormData) => {
     if (!user || !auth.currentUser) { 
       toast({ title: 'Not Authenticated', description: 'Please log in to save expenses.', variant: 'destructive' });
       return;
@@ -166,17 +627,67 @@ export function ExpenseForm() {
         return;
       }
       
+      // The server checks policies against the day as picked here, not as the UTC date of local midnight
+      const expenseDay = format(data.expenseDate, 'yyyy-MM-dd');
       // Ensure companyId and status are correctly set based on user context if not already by form state
       const finalData: ExpenseFormData = {
           ...data,
+          expenseDay,
+          today: format(new Date(), 'yyyy-MM-dd'),
           companyId: user.companyId || null,
           status: user.companyId ? (data.status || 'pending') : 'approved',
+          extraction: extractionRun,
+          recurringDraftId: recurringDraft?.id || null,
       };
 
 
-      const result = await saveExpense(idToken, finalData); 
+      if (expense) {
+        const result = await updateExpense(idToken, expense.id!, { ...data, expenseDay });
+        if (result.success) {
+          const resubmitted = expense.status === 'rejected' && result.status === 'pending';
+          toast({ title: 'Expense Updated', description: resubmitted ? 'Your changes were saved and the expense was resubmitted for approval.' : 'Your changes were saved.' });
+          onExpenseUpdated?.();
+        } else {
+          if (result.policyViolations?.length) setPolicyViolations(result.policyViolations);
+          toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+        }
+        return;
+      }
 
-      if (result.success) {
+      if (extractionJob) {
+        const result = await approveExtractionJob(idToken, extractionJob.id, finalData);
+        if (result.success) {
+          toast({ title: 'Expense Saved', description: `Your expense (ID: ${result.docId}) has been successfully saved.` });
+          onExtractionJobChange?.();
+        } else if (result.duplicates?.length) {
+          setPendingDuplicates({ data: finalData, duplicates: result.duplicates });
+        } else {
+          if (result.policyViolations?.length) setPolicyViolations(result.policyViolations);
+          toast({ title: 'Save Failed', description: result.error, variant: 'destructive' });
+        }
+        return;
+      }
+
+      let receiptUpload: ReceiptUpload | null = null;
+      if (imagePreviewUrl) {
+        let thumbnailDataUri: string | null = null;
+        let perceptualHash: string | null = null;
+        try {
+          // PDFs are stored without a thumbnail or image hash
+          thumbnailDataUri = isPdfReceipt ? null : await createThumbnailDataUri(imagePreviewUrl);
+          perceptualHash = isPdfReceipt ? null : await computePerceptualHash(imagePreviewUrl);
+        } catch (thumbnailError) {
+          console.warn("onSubmit: Could not generate receipt thumbnail, saving original only.", thumbnailError);
+        }
+        receiptUpload = { dataUri: imagePreviewUrl, thumbnailDataUri, perceptualHash };
+      }
+
+      const result = await saveExpense(idToken, finalData, receiptUpload); 
+
+      if (result.success && recurringDraft) {
+        toast({ title: 'Expense Saved', description: `Your ${recurringDraft.name} charge was saved.` });
+        onRecurringDraftSaved?.();
+      } else if (result.success) {
         toast({ title: 'Expense Saved', description: `Your expense (ID: ${result.docId}) has been successfully saved.` });
         setIsLogged(true); 
         setTimeout(() => {
@@ -184,19 +695,40 @@ export function ExpenseForm() {
             company: user.companyId ? 'My Company' : '', // Reset company name based on context
             companyId: user.companyId || null,
             items: [{ name: '', quantity: 1, netPrice: 0 }],
-            category: 'other',
+            category: resolveCategoryId(categories, 'other'),
+            currency: baseCurrency,
+            subtotal: null,
+            taxes: [],
+            serviceCharge: 0,
+            tip: 0,
+            discounts: [],
+            totalAmount: null,
             expenseDate: new Date(),
             paymentMethod: 'card',
             status: user.companyId ? 'pending' : 'approved',
+            policyJustification: null,
+            ...pickDimensionValues({ ...finalData, markupPercent: null }), // Remembered as the user's defaults
           });
+          setPolicyViolations([]);
           setImageFile(null);
           setImagePreviewUrl(null);
+          setOriginalPreviewUrl(null);
+          setPreprocessed(null);
+          setFieldConfidence(null);
+          setCategorySource(null);
+          setAmbiguities([]);
+          setExtractionRun(null);
           if (fileInputRef.current) {
             fileInputRef.current.value = '';
           }
           setIsLogged(false); 
         }, 800); 
 
+      } else if (result.duplicates?.length) {
+        setPendingDuplicates({ data: finalData, duplicates: result.duplicates });
+      } else if (result.policyViolations?.length) {
+        setPolicyViolations(result.policyViolations);
+        toast({ title: 'Save Failed', description: result.error, variant: 'destructive' });
       } else {
         const adminDetails = getAdminProjectDetails();
         const clientProjectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'MISSING_CLIENT_ENV_VAR';
@@ -221,52 +753,175 @@ export function ExpenseForm() {
   }, [imagePreviewUrl]);
 
 
+  // Tells the editor what saving does to the approval, see getEditStatusRule
+  const editStatusRule = expense ? getEditStatusRule(expense) : null;
+  const editStatusNotice = !expense || !expense.companyId || !editStatusRule?.allowed
+    ? null
+    : expense.status === 'rejected'
+      ? 'This expense was rejected. Saving your changes resubmits it for approval.'
+      : 'This expense is pending approval and stays pending after your changes.';
+
   return (
     <Card className={cn("w-full max-w-3xl mx-auto receipt-card", isLogged && "logging-animation")}> 
       <CardHeader>
-        <CardTitle className="text-2xl font-semibold text-center">Add New Expense</CardTitle>
+        <CardTitle className="text-2xl font-semibold text-center">{expense ? 'Edit Expense' : extractionJob ? `Review ${extractionJob.fileName}` : 'Add New Expense'}</CardTitle>
+        {editStatusNotice && <CardDescription className="text-center">{editStatusNotice}</CardDescription>}
       </CardHeader>
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="receipt-image" className="text-base font-medium">Receipt Image (Optional)</Label>
-              <Input
-                id="receipt-image"
-                type="file"
-                accept="image/*"
-                capture="environment"
-                onChange={handleImageChange}
-                ref={fileInputRef}
-                className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
-              />
-            </div>
+            {expense ? (
+              expense.receipt && (
+                <div className="flex justify-center">
+                  <ReceiptViewer expenseId={expense.id!} vendor={expense.company} contentType={expense.receipt.original.contentType} hasThumbnail={!!expense.receipt.thumbnail} />
+                </div>
+              )
+            ) : extractionJob ? (
+              <div className="flex justify-center">
+                <ReceiptViewer
+                  extractionJobId={extractionJob.id}
+                  vendor={extractionJob.fileName}
+                  contentType={extractionJob.receipt.original.contentType}
+                  hasThumbnail={!!extractionJob.receipt.thumbnail}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="receipt-image" className="text-base font-medium">Receipt Image or PDF (Optional)</Label>
+                <Input
+                  id="receipt-image"
+                  type="file"
+                  accept={`image/*,${RECEIPT_PDF_CONTENT_TYPE}`}
+                  capture="environment"
+                  onChange={handleImageChange}
+                  ref={fileInputRef}
+                  className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+                />
+              </div>
+            )}
 
-            {imagePreviewUrl && (
+            {originalPreviewUrl && (
               <div className="my-4 p-4 border border-dashed border-muted-foreground/50 rounded-md flex flex-col items-center bg-secondary/30">
-                <Image src={imagePreviewUrl} alt="Receipt Preview" width={200} height={300} className="rounded-md object-contain max-h-[300px] border bg-background shadow-sm" data-ai-hint="receipt preview" />
+                {isPdfReceipt ? (
+                  <div className="flex flex-col items-center gap-2 p-6 rounded-md border bg-background shadow-sm text-center">
+                    <FileText className="h-12 w-12 text-primary" />
+                    <span className="text-sm font-medium break-all">{imageFile?.name}</span>
+                    <span className="text-xs text-muted-foreground">All pages will be read into one expense.</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-4 w-full max-w-md">
+                      <figure className="flex flex-col items-center gap-1">
+                        <Image src={originalPreviewUrl} alt="Original receipt photo" width={200} height={300} className="rounded-md object-contain max-h-[300px] border bg-background shadow-sm" />
+                        <figcaption className="text-xs text-muted-foreground">Original · {formatFileSize(imageFile?.size || 0)}</figcaption>
+                      </figure>
+                      <figure className="flex flex-col items-center gap-1">
+                        {isPreprocessing || !imagePreviewUrl ? (
+                          <div className="flex h-[200px] w-full items-center justify-center rounded-md border bg-background">
+                            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                          </div>
+                        ) : (
+                          <Image src={imagePreviewUrl} alt="Receipt Preview" width={200} height={300} className="rounded-md object-contain max-h-[300px] border bg-background shadow-sm" data-ai-hint="receipt preview" />
+                        )}
+                        <figcaption className="text-xs text-muted-foreground">
+                          {preprocessed ? `Sent · ${formatFileSize(preprocessed.size)} · ${preprocessed.width}×${preprocessed.height}` : 'Sent as selected'}
+                        </figcaption>
+                      </figure>
+                    </div>
+                    <div className="flex flex-wrap justify-center gap-4 mt-3">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="receipt-crop"
+                          checked={preprocessingOptions.crop}
+                          onCheckedChange={crop => setPreprocessingOptions(options => ({ ...options, crop }))}
+                          disabled={isPreprocessing}
+                        />
+                        <Label htmlFor="receipt-crop" className="text-sm font-normal">Crop to receipt</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="receipt-enhance"
+                          checked={preprocessingOptions.enhance}
+                          onCheckedChange={enhance => setPreprocessingOptions(options => ({ ...options, enhance }))}
+                          disabled={isPreprocessing}
+                        />
+                        <Label htmlFor="receipt-enhance" className="text-sm font-normal">Grayscale and boost contrast</Label>
+                      </div>
+                    </div>
+                    {preprocessingOptions.crop && preprocessed && !preprocessed.cropped && (
+                      <p className="mt-2 text-xs text-muted-foreground">The receipt&apos;s edges could not be found, so the whole photo is sent.</p>
+                    )}
+                  </>
+                )}
                 <Button 
                   type="button" 
-                  onClick={handleExtractData} 
-                  disabled={isExtracting || !imageFile}
+                  onClick={() => handleExtractData()} 
+                  disabled={isExtracting || isPreprocessing || !imagePreviewUrl}
                   className="mt-4 w-full sm:w-auto bg-accent hover:bg-accent/90 text-accent-foreground py-2.5"
                 >
                   {isExtracting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UploadCloud className="mr-2 h-4 w-4" />}
-                  Extract Data from Image
+                  {isPdfReceipt ? 'Extract Data from PDF' : 'Extract Data from Image'}
                 </Button>
               </div>
             )}
             
+            {reviewFieldCount > 0 && (
+              <Alert className="border-amber-500 bg-amber-50 text-amber-900">
+                <AlertTriangle className="h-4 w-4 !text-amber-600" />
+                <AlertTitle>Check highlighted fields</AlertTitle>
+                <AlertDescription>
+                  {reviewFieldCount} {reviewFieldCount === 1 ? 'value was' : 'values were'} inferred or read with low confidence. Verify {reviewFieldCount === 1 ? 'it' : 'them'} against the receipt before saving.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {ambiguities.length > 0 && (
+              <Alert className="border-amber-500 bg-amber-50 text-amber-900">
+                <AlertTriangle className="h-4 w-4 !text-amber-600" />
+                <AlertTitle>Check how the receipt was read</AlertTitle>
+                <AlertDescription>
+                  <p>The receipt&apos;s date and number formats could not be told apart for these values:</p>
+                  <ul className="mt-2 space-y-1">
+                    {ambiguities.map((ambiguity, index) => (
+                      <li key={`${ambiguity.field}-${index}`} className="flex flex-wrap items-center gap-x-2">
+                        <span>
+                          {ambiguityLabel(ambiguity)}: &quot;{ambiguity.printed}&quot; was read as <strong>{formatReading(ambiguity, ambiguity.value)}</strong>.
+                        </span>
+                        {ambiguity.alternatives.map(alternative => (
+                          <Button
+                            key={String(alternative)}
+                            type="button"
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-amber-900 underline"
+                            onClick={() => applyAlternativeReading(index, alternative)}
+                          >
+                            Use {formatReading(ambiguity, alternative)}
+                          </Button>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
                 name="company"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-base">Company / Vendor</FormLabel>
+                    <FormLabel className="text-base">
+                      Company / Vendor
+                      {getReviewConfidence('company') && <ConfidenceHint confidence={getReviewConfidence('company')!} />}
+                    </FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., Starbucks" {...field} className="text-base" />
+                      <Input placeholder="e.g., Starbucks" {...field} className={cn("text-base", getReviewConfidence('company') && reviewHighlightClass)} />
                     </FormControl>
+                    {form.getValues('printedCompany') && field.value !== form.getValues('printedCompany') && (
+                      <FormDescription>Printed as &quot;{form.getValues('printedCompany')}&quot; on the receipt</FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -276,7 +931,10 @@ export function ExpenseForm() {
                 name="expenseDate"
                 render={({ field }) => (
                   <FormItem className="flex flex-col">
-                    <FormLabel className="text-base">Expense Date</FormLabel>
+                    <FormLabel className="text-base">
+                      Expense Date
+                      {getReviewConfidence('expenseDate') && <ConfidenceHint confidence={getReviewConfidence('expenseDate')!} />}
+                    </FormLabel>
                     <Popover>
                       <PopoverTrigger asChild>
                         <FormControl>
@@ -284,7 +942,8 @@ export function ExpenseForm() {
                             variant={"outline"}
                             className={cn(
                               "w-full pl-3 text-left font-normal text-base",
-                              !field.value && "text-muted-foreground"
+                              !field.value && "text-muted-foreground",
+                              getReviewConfidence('expenseDate') && reviewHighlightClass
                             )}
                           >
                             {field.value ? (
@@ -319,7 +978,8 @@ export function ExpenseForm() {
               <Label className="text-base font-medium mb-2 block">Items</Label>
               <div className="space-y-3">
                 {fields.map((item, index) => (
-                  <div key={item.id} className="p-3 border rounded-md bg-secondary/20 space-y-2 relative">
+                  <div key={item.id} className={cn("p-3 border rounded-md bg-secondary/20 space-y-2 relative", getItemReviewConfidence(index) && reviewHighlightClass)}>
+                    {getItemReviewConfidence(index) && <ConfidenceHint confidence={getItemReviewConfidence(index)!} />}
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
                       <FormField
                         control={form.control}
@@ -361,6 +1021,39 @@ export function ExpenseForm() {
                         )}
                       />
                     </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {watchedItems[index]?.split ? (
+                        <span className="text-xs text-muted-foreground">
+                          Split: {watchedItems[index].split!.shares.map(share => `${getCategoryName(categories, share.category)}${share.projectId ? ` (${getDimensionName(projects, share.projectId)})` : ''}`).join(', ')}
+                        </span>
+                      ) : (
+                        <FormField
+                          control={form.control}
+                          name={`items.${index}.category`}
+                          render={({ field }) => (
+                            <Select onValueChange={(value) => field.onChange(value === EXPENSE_CATEGORY_VALUE ? null : value)} value={field.value || EXPENSE_CATEGORY_VALUE}>
+                              <SelectTrigger className="h-8 w-[220px] text-xs" aria-label="Item category">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={EXPENSE_CATEGORY_VALUE} className="text-xs">Same as expense</SelectItem>
+                                {categories.filter(category => !category.archived || category.id === field.value).map(category => (
+                                  <SelectItem key={category.id} value={category.id} disabled={category.archived} className="text-xs">
+                                    <span className="flex items-center gap-2">
+                                      <CategoryIcon icon={category.icon} size={14} className="text-muted-foreground" />
+                                      {category.name}
+                                    </span>
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                      )}
+                      <Button type="button" variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setSplitTarget(index)} disabled={!!watchedSplit}>
+                        <Split size={14} className="mr-1" /> {watchedItems[index]?.split ? 'Edit split' : 'Split'}
+                      </Button>
+                    </div>
                     {fields.length > 1 && (
                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} className="absolute top-1 right-1 text-destructive hover:text-destructive/80 h-7 w-7">
                         <XCircle size={18} />
@@ -374,27 +1067,45 @@ export function ExpenseForm() {
               </Button>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <FormField
                 control={form.control}
                 name="category"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-base">Category</FormLabel>
+                    <FormLabel className="text-base">
+                      Category
+                      {getReviewConfidence('category') && <ConfidenceHint confidence={getReviewConfidence('category')!} />}
+                    </FormLabel>
                     <Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}>
                       <FormControl>
-                        <SelectTrigger className="text-base">
+                        <SelectTrigger className={cn("text-base", getReviewConfidence('category') && reviewHighlightClass)}>
                           <SelectValue placeholder="Select a category" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {expenseCategories.map(cat => (
-                          <SelectItem key={cat} value={cat} className="capitalize text-base">
-                            {cat.charAt(0).toUpperCase() + cat.slice(1)}
+                        {/* An archived category is still shown when the value uses it, but cannot be picked again */}
+                        {categories.filter(category => !category.archived || category.id === field.value).map(category => (
+                          <SelectItem key={category.id} value={category.id} disabled={category.archived} className="text-base">
+                            <span className="flex items-center gap-2">
+                              <CategoryIcon icon={category.icon} size={16} className="text-muted-foreground" />
+                              {category.name}{category.archived && ' (archived)'}
+                            </span>
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    {categorySource && categorySource !== 'extraction' && field.value === form.getValues('suggestedCategory') && (
+                      <FormDescription>
+                        {categorySource === 'history' ? 'From your earlier choice for this vendor'
+                          : categorySource === 'vendor' ? 'Default category of this vendor'
+                          : 'Suggested from your earlier corrections'}
+                      </FormDescription>
+                    )}
+                    <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setSplitTarget('expense')}>
+                      <Split size={14} className="mr-1" /> {watchedSplit ? 'Edit expense split' : 'Split whole expense'}
+                    </Button>
+                    {watchedSplit && <FormDescription>The split replaces the item categories.</FormDescription>}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -404,10 +1115,13 @@ export function ExpenseForm() {
                 name="paymentMethod"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-base">Payment Method</FormLabel>
+                    <FormLabel className="text-base">
+                      Payment Method
+                      {getReviewConfidence('paymentMethod') && <ConfidenceHint confidence={getReviewConfidence('paymentMethod')!} />}
+                    </FormLabel>
                     <Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}>
                       <FormControl>
-                        <SelectTrigger className="text-base">
+                        <SelectTrigger className={cn("text-base", getReviewConfidence('paymentMethod') && reviewHighlightClass)}>
                           <SelectValue placeholder="Select payment method" />
                         </SelectTrigger>
                       </FormControl>
@@ -423,24 +1137,188 @@ export function ExpenseForm() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base">Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="text-base">
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {supportedCurrencies.map(code => (
+                          <SelectItem key={code} value={code} className="text-base">
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
+            <ExpenseDimensionFields
+              settings={dimensionSettings}
+              value={pickDimensionValues(watchedDimensions)}
+              onChange={(next) => (Object.keys(next) as Array<keyof typeof next>).forEach(field => form.setValue(field, next[field], { shouldDirty: true }))}
+            />
+
+            <ExpenseBreakdownFields control={form.control} />
+
             <div className="pt-4 border-t mt-6">
               <div className="flex justify-between items-center text-lg font-semibold">
-                <span>Total Expense:</span>
-                <span>${calculateTotalExpense().toFixed(2)}</span>
+                <span>Total Expense{hasPrintedTotal ? '' : ' (computed)'}:</span>
+                <span>{formatCurrency(calculateTotalExpense(), watchedCurrency || baseCurrency)}</span>
               </div>
+              {showAllocationPreview && (
+                <div className="mt-2 space-y-0.5 text-sm text-muted-foreground">
+                  {allocationPreview.map(allocation => (
+                    <div key={`${allocation.category}:${allocation.projectId || ''}`} className="flex justify-between">
+                      <span className="flex items-center gap-2">
+                        <CategoryIcon category={allocation.category} categories={categories} size={14} />
+                        {getCategoryName(categories, allocation.category)}{allocation.projectId && ` · ${getDimensionName(projects, allocation.projectId)}`}
+                      </span>
+                      <span>{formatCurrency(allocation.amount, watchedCurrency || baseCurrency)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {watchedCurrency && watchedCurrency !== baseCurrency && (
+                <p className="text-sm text-muted-foreground text-right mt-1">
+                  Will be converted to {baseCurrency} at the rate for the expense date when saved.
+                </p>
+              )}
+              {reconciliation.status === 'mismatch' && (
+                <Alert variant="destructive" className="mt-4">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Items do not add up to the printed total</AlertTitle>
+                  <AlertDescription>
+                    <p>
+                      Items, taxes and charges come to {formatCurrency(reconciliation.computedTotal, watchedCurrency || baseCurrency)}
+                      {reconciliation.printedTotal !== null && <> but the receipt total is {formatCurrency(reconciliation.printedTotal, watchedCurrency || baseCurrency)}</>}
+                      {reconciliation.difference !== null && <> (difference {formatCurrency(reconciliation.difference, watchedCurrency || baseCurrency)})</>}.
+                      {reconciliation.subtotalDifference !== null && Math.abs(reconciliation.subtotalDifference) > reconciliation.tolerance && (
+                        <> The item sum also differs from the printed subtotal by {formatCurrency(reconciliation.subtotalDifference, watchedCurrency || baseCurrency)}.</>
+                      )}
+                    </p>
+                    {(imageFile || extractionJob) && (
+                      <Button type="button" variant="outline" size="sm" onClick={handleReExtractWithHint} disabled={isExtracting} className="mt-2">
+                        {isExtracting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                        Re-extract with hint
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {reconciliation.status === 'matched' && (
+                <p className="text-sm text-green-600 text-right mt-1 flex items-center justify-end gap-1">
+                  <CheckCircle2 className="h-4 w-4" /> Items match the printed total.
+                </p>
+              )}
             </div>
 
+            {policyViolations.length > 0 && (
+              <Alert variant={policyViolations.some(violation => violation.action === 'block') ? 'destructive' : 'default'}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>This expense breaks company policy</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <PolicyViolationBadges violations={policyViolations} detailed />
+                  {policyViolations.some(violation => violation.action === 'block') && (
+                    <p>Blocking policies have to be resolved before the expense can be saved, e.g. by attaching a receipt or changing the amount.</p>
+                  )}
+                  {policyViolations.some(violation => violation.action === 'justify') && (
+                    <FormField
+                      control={form.control}
+                      name="policyJustification"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Justification</FormLabel>
+                          <FormControl>
+                            <Textarea {...field} value={field.value || ''} placeholder="Explain why this expense is needed" maxLength={MAX_POLICY_JUSTIFICATION_LENGTH} />
+                          </FormControl>
+                          <FormDescription>Shown to approvers together with the flags.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <CardFooter className="p-0 pt-6">
               <Button type="submit" disabled={isSaving || isExtracting || !user || isLogged} className="w-full text-lg py-3">
                 {isSaving ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : null}
-                {isLogged ? 'Logging...' : 'Save Expense'}
+                {isLogged ? 'Logging...' : expense ? 'Save Changes' : extractionJob ? 'Approve and Save' : 'Save Expense'}
               </Button>
             </CardFooter>
           </form>
         </Form>
       </CardContent>
+
+      <SplitEditor
+        open={splitTarget !== null}
+        onOpenChange={(open) => { if (!open) setSplitTarget(null); }}
+        title={splitTarget === 'expense' ? 'Split Expense' : `Split "${splitTarget !== null ? watchedItems[splitTarget]?.name || 'item' : ''}"`}
+        amount={splitTarget === 'expense' ? calculateTotalExpense() : splitTarget !== null ? Number(watchedItems[splitTarget]?.netPrice) || 0 : 0}
+        currency={watchedCurrency || baseCurrency}
+        categories={categories}
+        projects={projects}
+        defaultCategory={splitTarget !== null && splitTarget !== 'expense' ? watchedItems[splitTarget]?.category || watchedCategory : watchedCategory}
+        value={splitTarget === 'expense' ? watchedSplit : splitTarget !== null ? watchedItems[splitTarget]?.split : null}
+        onSave={handleSaveSplit}
+      />
+
+      <AlertDialog open={pendingMismatchData !== null} onOpenChange={(open) => { if (!open) setPendingMismatchData(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Save with mismatched total?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The line items do not add up to the printed total
+              {reconciliation.difference !== null && <> (difference {formatCurrency(reconciliation.difference, watchedCurrency || baseCurrency)})</>}.
+              The printed total will be saved as the expense amount and the mismatch will be recorded on the expense.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Review Items</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSaveWithMismatch}>Save Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={pendingDuplicates !== null} onOpenChange={(open) => { if (!open) setPendingDuplicates(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possible duplicate receipt</AlertDialogTitle>
+            <AlertDialogDescription>
+              This receipt looks like {pendingDuplicates?.duplicates.length === 1 ? 'an expense that was' : 'expenses that were'} already submitted.
+              Only save it if it is a separate expense.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-2 text-sm">
+            {pendingDuplicates?.duplicates.map(duplicate => (
+              <li key={duplicate.expenseId} className="p-2 border rounded-md">
+                <Link href={`/expenses/${duplicate.expenseId}`} target="_blank" className="font-medium text-primary hover:underline">
+                  {duplicate.company} · {duplicate.expenseDate} · {formatCurrency(duplicate.totalAmount, duplicate.currency)}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  {duplicate.isOwnExpense ? 'Submitted by you' : 'Submitted by a colleague'} · {duplicate.reasons.map(reason => duplicateReasonLabels[reason]).join(', ')}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Don&apos;t Save</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSaveDuplicate}>Save Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
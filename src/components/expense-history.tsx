@@ -13,6 +13,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   AlertDialog,
@@ -24,11 +25,33 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { getExpenses, deleteExpense, updateExpenseStatus } from '@/actions/expense-actions';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getExpenses, getExpenseCategories, deleteExpense } from '@/actions/expense-actions';
+import { getVendors } from '@/actions/vendor-actions';
 import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import type { Vendor } from '@/types/vendor';
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { getExpenseVendor } from '@/lib/vendors';
+import { getExpenseAllocations, isSplitExpense } from '@/lib/expense-allocations';
+import { getEditStatusRule } from '@/lib/expense-revisions';
+import { describeExpenseDimensions, dimensionLabels, expenseDimensionFields, getDimensionName, normalizeTag } from '@/lib/dimensions';
+import type { ExpenseFilters } from '@/types/dimension';
+import { dimensionKinds } from '@/types/dimension';
 import { CategoryIcon } from './category-icon';
+import { ReceiptViewer } from './receipt-viewer';
+import { ExpenseForm } from './expense-form';
+import { MileageForm, PerDiemForm } from './allowance-forms';
+import { useDimensionSettings } from './expense-dimension-fields';
+import { ApprovalControls } from './approval-controls';
+import { ApprovalSummary } from './approval-timeline';
+import { PolicyViolationBadges, PolicyViolationSummary } from './policy-violations';
+import { formatCurrency, getExpenseCurrency, getExpenseBaseCurrency, getExpenseBaseAmount, sumByBaseCurrency } from '@/lib/currency';
 import { format, parseISO, compareDesc } from 'date-fns';
-import { RefreshCw, Loader2, CreditCard, HandCoins, Globe, Package, Trash2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { RefreshCw, Loader2, CreditCard, HandCoins, Globe, Package, Trash2, CheckCircle2, XCircle, AlertTriangle, Copy, Pencil, History, FileStack, Banknote, Car, CalendarRange } from 'lucide-react';
+import Link from 'next/link';
 import type { LucideProps } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
@@ -38,6 +61,18 @@ type GroupedExpenses = {
   [monthYear: string]: Expense[];
 };
 
+type ExpenseGrouping = 'month' | 'vendor' | 'category';
+
+// Value of the filter selects that do not narrow the list
+const ALL_VALUE = '__all';
+
+interface ExpenseGroup {
+  key: string;
+  label: string;
+  expenses: Expense[];
+  totals?: Record<string, number>; // Per base currency, when the group holds only part of some expenses
+}
+
 const PaymentMethodIcon = ({ method, ...props }: { method: Expense['paymentMethod'] } & LucideProps) => {
   switch (method) {
     case 'card': return <CreditCard {...props} />;
@@ -55,6 +90,8 @@ const StatusBadge = ({ status }: { status: ExpenseStatus }) => {
       return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Rejected</Badge>;
     case 'pending':
       return <Badge variant="secondary" className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900"><AlertTriangle className="mr-1 h-3 w-3" />Pending</Badge>;
+    case 'reimbursed':
+      return <Badge variant="default" className="bg-blue-500 hover:bg-blue-600 text-white"><Banknote className="mr-1 h-3 w-3" />Reimbursed</Badge>;
     default:
       return <Badge variant="outline">{status}</Badge>;
   }
@@ -95,7 +132,14 @@ export function ExpenseHistory() {
 
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [expenseToModifyId, setExpenseToModifyId] = useState<string | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false); // For delete and status updates
+  const [isProcessing, setIsProcessing] = useState(false); // For deletes
+  const [categories, setCategories] = useState<ExpenseCategoryDefinition[]>(DEFAULT_EXPENSE_CATEGORIES);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [grouping, setGrouping] = useState<ExpenseGrouping>('month');
+  const [expenseToEdit, setExpenseToEdit] = useState<Expense | null>(null);
+  const dimensionSettings = useDimensionSettings();
+  const [filters, setFilters] = useState<ExpenseFilters>({});
+  const [tagFilterText, setTagFilterText] = useState('');
 
 
   const fetchAndGroupExpenses = async () => {
@@ -109,8 +153,10 @@ export function ExpenseHistory() {
     setIsLoading(true);
     try {
       const idToken = await auth.currentUser.getIdToken(true);
-      const fetchedExpenses = await getExpenses(idToken);
+      const [fetchedExpenses, fetchedCategories, vendorsResult] = await Promise.all([getExpenses(idToken, filters), getExpenseCategories(idToken), getVendors(idToken)]);
       setExpenses(fetchedExpenses);
+      setCategories(fetchedCategories);
+      setVendors(vendorsResult.vendors || []);
 
       const sortedExpenses = fetchedExpenses.sort((a, b) => {
         const dateA = safeTimestampToDate(a.expenseDate);
@@ -149,7 +195,12 @@ export function ExpenseHistory() {
       setGroupedExpenses({});
       setIsLoading(false);
     }
-  }, [user, authLoading]);
+  }, [user, authLoading, filters]);
+
+  const applyTagFilter = () => {
+    const tag = normalizeTag(tagFilterText) || null;
+    if (tag !== (filters.tag || null)) setFilters({ ...filters, tag });
+  };
 
   const handleRefresh = () => {
     startRefreshTransition(async () => {
@@ -183,33 +234,26 @@ export function ExpenseHistory() {
     }
   };
 
-  const handleUpdateStatus = async (expenseId: string, newStatus: ExpenseStatus) => {
-    if (!user || !auth.currentUser) return;
-    setIsProcessing(true);
-    setExpenseToModifyId(expenseId); // For loading state on specific item
-    try {
-      const idToken = await auth.currentUser.getIdToken(true);
-      const result = await updateExpenseStatus(idToken, expenseId, newStatus);
-      if (result.success) {
-        toast({ title: 'Status Updated', description: `Expense status changed to ${newStatus}.` });
-        fetchAndGroupExpenses(); // Refetch
-      } else {
-        toast({ title: 'Status Update Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
-      }
-    } catch (error: any) {
-      toast({ title: 'Status Update Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
-    } finally {
-      setIsProcessing(false);
-      setExpenseToModifyId(null);
-    }
-  };
-  
   const canManageExpense = (expense: Expense): boolean => {
     if (!user) return false;
     if (user.role === 'owner' || user.role === 'admin') {
       return user.companyId === expense.companyId;
     }
-    return false; // Auditors and users cannot manage status
+    return false; // Auditors and users cannot manage company expenses
+  };
+
+  // Mirrors updateExpense: the submitter, or a company owner or admin, as long as the status allows edits
+  const canEditExpense = (expense: Expense): boolean => {
+    if (!user || !getEditStatusRule(expense).allowed) return false;
+    if (expense.companyId) {
+      return user.companyId === expense.companyId && (expense.userId === user.uid || user.role === 'owner' || user.role === 'admin');
+    }
+    return expense.userId === user.uid;
+  };
+
+  const handleExpenseUpdated = () => {
+    setExpenseToEdit(null);
+    fetchAndGroupExpenses();
   };
 
   const canDeleteExpense = (expense: Expense): boolean => {
@@ -250,41 +294,131 @@ export function ExpenseHistory() {
      );
   }
 
+  const hasFilters = Object.values(filters).some(value => value !== null && value !== undefined);
   const months = Object.keys(groupedExpenses).sort((a, b) => compareDesc(parseISO(a), parseISO(b)));
+  let groups: ExpenseGroup[];
+  if (grouping === 'vendor') {
+    // Receipts of the same merchant are grouped under its canonical vendor, whatever name was printed
+    const byVendor = new Map<string, ExpenseGroup>();
+    months.forEach(monthYear => groupedExpenses[monthYear].forEach(expense => {
+      const vendor = getExpenseVendor(expense, vendors);
+      const group = byVendor.get(vendor.key) || { key: vendor.key, label: vendor.name, expenses: [] };
+      group.expenses.push(expense);
+      byVendor.set(vendor.key, group);
+    }));
+    groups = Array.from(byVendor.values()).sort((a, b) => a.label.localeCompare(b.label));
+  } else if (grouping === 'category') {
+    // Split expenses appear under every category they charge, counting only the allocated amount
+    const byCategory = new Map<string, ExpenseGroup & { totals: Record<string, number> }>();
+    months.forEach(monthYear => groupedExpenses[monthYear].forEach(expense => {
+      const currency = getExpenseBaseCurrency(expense);
+      getExpenseAllocations(expense).forEach(allocation => {
+        const group = byCategory.get(allocation.category)
+          || { key: allocation.category, label: getCategoryName(categories, allocation.category), expenses: [], totals: {} };
+        if (!group.expenses.includes(expense)) group.expenses.push(expense);
+        group.totals[currency] = (group.totals[currency] || 0) + allocation.baseAmount;
+        byCategory.set(allocation.category, group);
+      });
+    }));
+    groups = Array.from(byCategory.values()).sort((a, b) => a.label.localeCompare(b.label));
+  } else {
+    groups = months.map(monthYear => ({ key: monthYear, label: format(parseISO(monthYear), 'MMMM yyyy'), expenses: groupedExpenses[monthYear] }));
+  }
 
   return (
     <Card className="shadow-xl w-full">
       <CardHeader className="flex flex-row items-center justify-between pb-4">
         <CardTitle className="text-2xl font-semibold">Expense History</CardTitle>
-        <Button variant="outline" size="icon" onClick={handleRefresh} disabled={isRefreshing || isLoading || !user || isProcessing}>
-          {isRefreshing || isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as ExpenseGrouping)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">By month</SelectItem>
+              <SelectItem value="vendor">By vendor</SelectItem>
+              <SelectItem value="category">By category</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={handleRefresh} disabled={isRefreshing || isLoading || !user || isProcessing}>
+            {isRefreshing || isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent>
-        {months.length === 0 ? (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {dimensionKinds.filter(kind => (dimensionSettings?.values[kind] || []).length > 0).map(kind => (
+            <Select
+              key={kind}
+              value={filters[expenseDimensionFields[kind]] || ALL_VALUE}
+              onValueChange={(value) => setFilters({ ...filters, [expenseDimensionFields[kind]]: value === ALL_VALUE ? null : value })}
+            >
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Any {dimensionLabels[kind].toLowerCase()}</SelectItem>
+                {dimensionSettings!.values[kind].map(value => <SelectItem key={value.id} value={value.id}>{value.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ))}
+          <Input
+            value={tagFilterText}
+            onChange={(e) => setTagFilterText(e.target.value)}
+            onBlur={applyTagFilter}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyTagFilter(); }}
+            placeholder="Tag"
+            className="w-[120px]"
+          />
+          <Select
+            value={filters.billable === true ? 'billable' : filters.billable === false ? 'not-billable' : ALL_VALUE}
+            onValueChange={(value) => setFilters({ ...filters, billable: value === ALL_VALUE ? null : value === 'billable' })}
+          >
+            <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_VALUE}>Billable or not</SelectItem>
+              <SelectItem value="billable">Billable</SelectItem>
+              <SelectItem value="not-billable">Not billable</SelectItem>
+            </SelectContent>
+          </Select>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={() => { setFilters({}); setTagFilterText(''); }}>Clear filters</Button>
+          )}
+        </div>
+        {groups.length === 0 ? (
           <div className="text-center py-8">
-            <p className="text-muted-foreground text-lg">No expenses recorded yet.</p>
+            <p className="text-muted-foreground text-lg">{hasFilters ? 'No expenses match these filters.' : 'No expenses recorded yet.'}</p>
           </div>
         ) : (
           <ScrollArea className="h-[500px] md:h-[600px] pr-3">
             <Accordion type="multiple" className="w-full">
-              {months.map(monthYear => (
-                <AccordionItem value={monthYear} key={monthYear} className="border-b border-border last:border-b-0">
+              {groups.map(group => (
+                <AccordionItem value={group.key} key={group.key} className="border-b border-border last:border-b-0">
                   <AccordionTrigger className="hover:no-underline py-4 px-2 rounded-md bg-muted/50 hover:bg-muted text-base md:text-lg font-semibold">
-                    {format(parseISO(monthYear), 'MMMM yyyy')}
+                    <div className="flex justify-between items-center w-full pr-2">
+                      <span>
+                        {group.label}
+                        {grouping !== 'month' && <span className="ml-2 text-sm font-normal text-muted-foreground">({group.expenses.length})</span>}
+                      </span>
+                      <span className="text-sm md:text-base font-medium text-muted-foreground">
+                        {Object.entries(group.totals || sumByBaseCurrency(group.expenses))
+                          .map(([currency, total]) => formatCurrency(total, currency))
+                          .join(' + ')}
+                      </span>
+                    </div>
                   </AccordionTrigger>
                   <AccordionContent className="py-3 px-2 bg-secondary/30 rounded-b-md">
                     <Accordion type="single" collapsible className="w-full">
-                      {groupedExpenses[monthYear].map((expense) => {
+                      {group.expenses.map((expense) => {
                         const createdAtDate = safeTimestampToDate(expense.createdAt);
                         const expenseDateDate = safeTimestampToDate(expense.expenseDate);
                         const itemIsProcessing = isProcessing && expenseToModifyId === expense.id;
+                        const currency = getExpenseCurrency(expense);
+                        const baseCurrency = getExpenseBaseCurrency(expense);
                         return (
                           <AccordionItem value={expense.id!} key={expense.id!} className="border-b border-border last:border-b-0">
                             <AccordionTrigger className="hover:no-underline py-3 px-2 rounded-md hover:bg-secondary/50 text-sm md:text-base">
                               <div className="flex justify-between items-center w-full">
                                 <div className="flex items-center gap-3">
-                                  <CategoryIcon category={expense.category} size={20} className="text-primary" />
+                                  <CategoryIcon category={expense.category} categories={categories} size={20} className="text-primary" />
                                   <div className="flex flex-col items-start">
                                      <span className="font-medium text-foreground truncate max-w-[150px] sm:max-w-[250px]">{expense.company}</span>
                                      <span className="text-xs text-muted-foreground">
@@ -294,12 +428,21 @@ export function ExpenseHistory() {
                                 </div>
                                 <div className="flex items-center gap-2 sm:gap-3">
                                   {expense.companyId && <StatusBadge status={expense.status} />}
+                                  <PolicyViolationSummary violations={expense.policyViolations} />
+                                  {canManageExpense(expense) && !!expense.possibleDuplicateOf?.length && (
+                                    <Badge variant="outline" className="border-amber-500 text-amber-700 text-xs h-6"><Copy className="mr-1 h-3 w-3" />Possible duplicate</Badge>
+                                  )}
+                                  {expense.kind === 'mileage' && <Badge variant="outline" className="text-xs h-6"><Car className="mr-1 h-3 w-3" />Mileage</Badge>}
+                                  {expense.kind === 'per_diem' && <Badge variant="outline" className="text-xs h-6"><CalendarRange className="mr-1 h-3 w-3" />Per diem</Badge>}
                                   <Badge variant="outline" className="capitalize flex items-center gap-1.5 w-fit text-xs h-6">
                                     <PaymentMethodIcon method={expense.paymentMethod} size={12} />
                                     {expense.paymentMethod}
                                   </Badge>
-                                  <span className="font-semibold text-right w-[70px] sm:w-[80px] text-base">
-                                    ${expense.totalAmount.toFixed(2)}
+                                  <span className="flex flex-col items-end text-right min-w-[80px] sm:min-w-[100px]">
+                                    <span className="font-semibold text-base">{formatCurrency(expense.totalAmount, currency)}</span>
+                                    {currency !== baseCurrency && (
+                                      <span className="text-xs text-muted-foreground">≈ {formatCurrency(getExpenseBaseAmount(expense), baseCurrency)}</span>
+                                    )}
                                   </span>
                                 </div>
                               </div>
@@ -308,6 +451,27 @@ export function ExpenseHistory() {
                               <div className="text-xs text-muted-foreground mb-2">
                                   Recorded on: {createdAtDate ? format(createdAtDate, 'MMM dd, yyyy, p') : 'N/A'}
                                   {expense.companyId && ` (Company ID: ${expense.companyId})`}
+                                  {!!expense.revisionCount && (
+                                    <Link href={`/expenses/${expense.id}`} className="ml-1 inline-flex items-center gap-1 text-primary hover:underline">
+                                      <History className="h-3 w-3" />Edited {expense.revisionCount} {expense.revisionCount === 1 ? 'time' : 'times'}
+                                    </Link>
+                                  )}
+                                  {expense.reportId ? (
+                                    <Link href={`/reports/${expense.reportId}`} className="block w-fit text-primary hover:underline">
+                                      <FileStack className="inline h-3 w-3 mr-1" />Part of an expense report
+                                    </Link>
+                                  ) : expense.companyId && <ApprovalSummary status={expense.status} approval={expense.approval} />}
+                                  {expense.reimbursement && (
+                                    <span className="block">
+                                      Paid back on {format(expense.reimbursement.paidAt as unknown as Date, 'MMM dd, yyyy')} ({expense.reimbursement.reference})
+                                    </span>
+                                  )}
+                                  {currency !== baseCurrency && expense.exchangeRate && (
+                                    <span className="block">
+                                      Converted at 1 {currency} = {expense.exchangeRate.toFixed(4)} {baseCurrency}
+                                      {expense.exchangeRateSource && ` (${expense.exchangeRateSource})`}
+                                    </span>
+                                  )}
                               </div>
                               <Table>
                                 <TableHeader><TableRow className="text-xs">
@@ -320,25 +484,100 @@ export function ExpenseHistory() {
                                     <TableRow key={index} className="text-xs">
                                       <TableCell className="font-medium py-1.5">{item.name}</TableCell>
                                       <TableCell className="text-center py-1.5">{item.quantity}</TableCell>
-                                      <TableCell className="text-right font-medium py-1.5">${item.netPrice.toFixed(2)}</TableCell>
+                                      <TableCell className="text-right font-medium py-1.5">{formatCurrency(item.netPrice, currency)}</TableCell>
                                     </TableRow>
                                   ))}
                                 </TableBody>
                               </Table>
+                              <div className="mt-2 ml-auto max-w-xs space-y-0.5 text-xs">
+                                {typeof expense.subtotal === 'number' && (
+                                  <div className="flex justify-between"><span className="text-muted-foreground">Subtotal</span><span>{formatCurrency(expense.subtotal, currency)}</span></div>
+                                )}
+                                {(expense.taxes || []).map((tax, index) => (
+                                  <div key={index} className="flex justify-between">
+                                    <span className="text-muted-foreground">
+                                      {tax.name}{tax.rate !== null ? ` ${tax.rate}%` : ''}{tax.inclusive ? ' (incl.)' : ''}
+                                    </span>
+                                    <span>{formatCurrency(tax.amount, currency)}</span>
+                                  </div>
+                                ))}
+                                {!!expense.serviceCharge && (
+                                  <div className="flex justify-between"><span className="text-muted-foreground">Service charge</span><span>{formatCurrency(expense.serviceCharge, currency)}</span></div>
+                                )}
+                                {!!expense.tip && (
+                                  <div className="flex justify-between"><span className="text-muted-foreground">Tip</span><span>{formatCurrency(expense.tip, currency)}</span></div>
+                                )}
+                                {(expense.discounts || []).map((discount, index) => (
+                                  <div key={index} className="flex justify-between">
+                                    <span className="text-muted-foreground">{discount.description}</span>
+                                    <span>-{formatCurrency(discount.amount, currency)}</span>
+                                  </div>
+                                ))}
+                                <div className="flex justify-between font-semibold border-t pt-0.5"><span>Total</span><span>{formatCurrency(expense.totalAmount, currency)}</span></div>
+                                {expense.reconciliation?.status === 'mismatch' && (
+                                  <div className="flex justify-end pt-1">
+                                    <Badge variant="destructive" className="text-xs">
+                                      <AlertTriangle className="mr-1 h-3 w-3" />
+                                      Items off by {formatCurrency(expense.reconciliation.difference ?? 0, currency)}
+                                    </Badge>
+                                  </div>
+                                )}
+                              </div>
+                              {canManageExpense(expense) && !!expense.possibleDuplicateOf?.length && (
+                                <div className="mt-3 text-xs flex flex-wrap items-center gap-1">
+                                  <AlertTriangle className="h-3 w-3 text-amber-600" />
+                                  <span>Saved despite matching</span>
+                                  {expense.possibleDuplicateOf.map((duplicateId, index) => {
+                                    const duplicate = expenses.find(other => other.id === duplicateId);
+                                    return (
+                                      <span key={duplicateId}>
+                                        {index > 0 && ', '}
+                                        <Link href={`/expenses/${duplicateId}`} className="text-primary hover:underline">
+                                          {duplicate ? `${duplicate.company} (${formatCurrency(duplicate.totalAmount, getExpenseCurrency(duplicate))})` : duplicateId}
+                                        </Link>
+                                      </span>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                              {!!expense.policyViolations?.length && (
+                                <div className="mt-3 text-xs space-y-1">
+                                  <PolicyViolationBadges violations={expense.policyViolations} detailed />
+                                  {expense.policyJustification && <p><span className="font-medium">Justification:</span> {expense.policyJustification}</p>}
+                                </div>
+                              )}
+                              {(describeExpenseDimensions(expense, dimensionSettings?.values || null).length > 0 || expense.billable) && (
+                                <div className="mt-3 flex flex-wrap gap-1.5 text-xs">
+                                  {describeExpenseDimensions(expense, dimensionSettings?.values || null).map(label => <Badge key={label} variant="outline">{label}</Badge>)}
+                                  {expense.billable && (
+                                    <Badge variant="outline" className="border-primary text-primary">
+                                      Billable{expense.billableAmount != null ? `: ${formatCurrency(expense.billableAmount, getExpenseBaseCurrency(expense))}` : ''}{expense.markupPercent ? ` incl. ${expense.markupPercent}% markup` : ''}
+                                    </Badge>
+                                  )}
+                                </div>
+                              )}
+                              {expense.receipt && (
+                                <div className="mt-3">
+                                  <ReceiptViewer expenseId={expense.id!} vendor={expense.company} contentType={expense.receipt.original.contentType} hasThumbnail={!!expense.receipt.thumbnail} />
+                                </div>
+                              )}
                               <div className="flex flex-wrap justify-between items-center mt-4 gap-2">
                                  <div className="text-right font-semibold text-sm">
-                                     Category: <Badge variant="secondary" className="capitalize">{expense.category}</Badge>
+                                     Category: <Badge variant="secondary">{getCategoryName(categories, expense.category)}</Badge>
+                                     {isSplitExpense(expense) && (
+                                       <span className="block font-normal text-xs text-muted-foreground mt-1">
+                                         Split: {getExpenseAllocations(expense)
+                                           .map(allocation => `${getCategoryName(categories, allocation.category)}${allocation.projectId ? ` (${getDimensionName(dimensionSettings?.values.project || [], allocation.projectId)})` : ''} ${formatCurrency(allocation.amount, currency)}`)
+                                           .join(' · ')}
+                                       </span>
+                                     )}
                                  </div>
                                  <div className="flex gap-2">
-                                   {canManageExpense(expense) && expense.status === 'pending' && (
-                                     <>
-                                       <Button variant="outline" size="sm" onClick={() => handleUpdateStatus(expense.id!, 'approved')} disabled={itemIsProcessing} className="bg-green-500 hover:bg-green-600 text-white border-green-600">
-                                         {itemIsProcessing && expense.status === 'pending' ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <CheckCircle2 size={16} className="mr-1"/>} Approve
-                                       </Button>
-                                       <Button variant="outline" size="sm" onClick={() => handleUpdateStatus(expense.id!, 'rejected')} disabled={itemIsProcessing} className="bg-red-500 hover:bg-red-600 text-white border-red-600">
-                                         {itemIsProcessing && expense.status === 'pending' ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <XCircle size={16} className="mr-1"/>} Reject
-                                       </Button>
-                                     </>
+                                   <ApprovalControls expense={expense} onUpdated={fetchAndGroupExpenses} />
+                                   {canEditExpense(expense) && (
+                                     <Button variant="outline" size="sm" onClick={() => setExpenseToEdit(expense)} disabled={itemIsProcessing}>
+                                       <Pencil size={16} className="mr-1"/> Edit
+                                     </Button>
                                    )}
                                    {canDeleteExpense(expense) && (
                                      <Button variant="destructive" size="sm" onClick={() => handleDeleteClick(expense.id!)} disabled={itemIsProcessing}>
@@ -360,6 +599,15 @@ export function ExpenseHistory() {
         )}
       </CardContent>
 
+      <Dialog open={expenseToEdit !== null} onOpenChange={(open) => { if (!open) setExpenseToEdit(null); }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0 border-0 bg-transparent shadow-none">
+          <DialogTitle className="sr-only">Edit expense</DialogTitle>
+          {expenseToEdit?.kind === 'mileage' ? <MileageForm key={expenseToEdit.id} expense={expenseToEdit} onExpenseUpdated={handleExpenseUpdated} />
+            : expenseToEdit?.kind === 'per_diem' ? <PerDiemForm key={expenseToEdit.id} expense={expenseToEdit} onExpenseUpdated={handleExpenseUpdated} />
+            : expenseToEdit && <ExpenseForm key={expenseToEdit.id} expense={expenseToEdit} onExpenseUpdated={handleExpenseUpdated} />}
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
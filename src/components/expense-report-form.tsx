@@ -0,0 +1,185 @@
+// src/components/expense-report-form.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { getExpenses } from '@/actions/expense-actions';
+import { createExpenseReport, updateExpenseReport } from '@/actions/report-actions';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport, ExpenseReportStatus } from '@/types/report';
+import { formatCurrency, getExpenseCurrency } from '@/lib/currency';
+import { getReportExpenseError, MAX_REPORT_EXPENSES } from '@/lib/expense-reports';
+import { Loader2, CheckCircle2, XCircle, AlertTriangle, Banknote, PencilLine } from 'lucide-react';
+
+export const ReportStatusBadge = ({ status }: { status: ExpenseReportStatus }) => {
+  switch (status) {
+    case 'draft':
+      return <Badge variant="outline"><PencilLine className="mr-1 h-3 w-3" />Draft</Badge>;
+    case 'submitted':
+      return <Badge variant="secondary" className="bg-yellow-400 hover:bg-yellow-500 text-yellow-900"><AlertTriangle className="mr-1 h-3 w-3" />Submitted</Badge>;
+    case 'approved':
+      return <Badge variant="default" className="bg-green-500 hover:bg-green-600 text-white"><CheckCircle2 className="mr-1 h-3 w-3" />Approved</Badge>;
+    case 'rejected':
+      return <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Rejected</Badge>;
+    case 'reimbursed':
+      return <Badge variant="default" className="bg-blue-500 hover:bg-blue-600 text-white"><Banknote className="mr-1 h-3 w-3" />Reimbursed</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+const toDateInput = (date: Date | null | undefined): string => date ? format(date, 'yyyy-MM-dd') : '';
+const fromDateInput = (value: string): Date => new Date(`${value}T00:00:00`);
+
+interface ExpenseReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report?: ExpenseReport | null; // Edited report; a new draft is created without one
+  onSaved: (reportId: string) => void;
+}
+
+// Creates a draft report or changes one, picking from the submitter's company expenses that are not approved yet and
+// not in another report. The dates follow the selected expenses until they are set by hand.
+export function ExpenseReportDialog({ open, onOpenChange, report, onSaved }: ExpenseReportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [datesTouched, setDatesTouched] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [candidates, setCandidates] = useState<Expense[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user?.companyId || !auth.currentUser) return;
+    setTitle(report?.title || '');
+    setPurpose(report?.purpose || '');
+    setStartDate(toDateInput(report?.startDate as unknown as Date | undefined));
+    setEndDate(toDateInput(report?.endDate as unknown as Date | undefined));
+    setDatesTouched(!!report);
+    setSelectedIds(report?.expenseIds || []);
+
+    const target = { id: report?.id, userId: user.uid, companyId: user.companyId };
+    setIsLoading(true);
+    auth.currentUser.getIdToken()
+      .then(idToken => getExpenses(idToken))
+      .then(expenses => setCandidates(expenses.filter(expense => !getReportExpenseError(expense, target))))
+      .catch(error => toast({ title: 'Could Not Load Expenses', description: error.message, variant: 'destructive' }))
+      .finally(() => setIsLoading(false));
+  }, [open, report, user?.uid, user?.companyId]);
+
+  const toggleExpense = (expenseId: string, checked: boolean) => {
+    const next = checked ? [...selectedIds, expenseId] : selectedIds.filter(id => id !== expenseId);
+    setSelectedIds(next);
+    if (datesTouched) return;
+    const dates = candidates
+      .filter(expense => next.includes(expense.id!))
+      .map(expense => (expense.expenseDate as unknown as Date).getTime());
+    setStartDate(dates.length ? toDateInput(new Date(Math.min(...dates))) : '');
+    setEndDate(dates.length ? toDateInput(new Date(Math.max(...dates))) : '');
+  };
+
+  const handleSave = async () => {
+    if (!auth.currentUser) return;
+    if (!startDate || !endDate) {
+      toast({ title: 'Dates Missing', description: 'Please enter the start and end dates of the report.', variant: 'destructive' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const input = { title, purpose, startDate: fromDateInput(startDate), endDate: fromDateInput(endDate), expenseIds: selectedIds };
+      const result = report?.id
+        ? { ...await updateExpenseReport(idToken, report.id, input), reportId: report.id }
+        : await createExpenseReport(idToken, input);
+      if (!result.success || !result.reportId) {
+        toast({ title: 'Save Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
+        return;
+      }
+      toast({ title: report ? 'Report Updated' : 'Report Created', description: 'Submit the report when it is complete.' });
+      onOpenChange(false);
+      onSaved(result.reportId);
+    } catch (error: any) {
+      toast({ title: 'Save Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{report ? 'Edit Expense Report' : 'New Expense Report'}</DialogTitle>
+          <DialogDescription>Bundle the expenses of a trip or project so they are approved together.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="report-title">Title</Label>
+            <Input id="report-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={100} placeholder="e.g. Tokyo trip, March" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-purpose">Business purpose</Label>
+            <Textarea id="report-purpose" value={purpose} onChange={(e) => setPurpose(e.target.value)} maxLength={500} rows={2} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="report-start">From</Label>
+              <Input id="report-start" type="date" value={startDate} onChange={(e) => { setStartDate(e.target.value); setDatesTouched(true); }} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="report-end">To</Label>
+              <Input id="report-end" type="date" value={endDate} onChange={(e) => { setEndDate(e.target.value); setDatesTouched(true); }} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Expenses ({selectedIds.length} of at most {MAX_REPORT_EXPENSES})</Label>
+            {isLoading ? (
+              <div className="flex justify-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">None of your company expenses can be added. Approved expenses and expenses in other reports are left out.</p>
+            ) : (
+              <ul className="max-h-64 overflow-y-auto divide-y border rounded-md">
+                {candidates.map(expense => (
+                  <li key={expense.id} className="flex items-center gap-3 p-2 text-sm">
+                    <Checkbox
+                      id={`report-expense-${expense.id}`}
+                      checked={selectedIds.includes(expense.id!)}
+                      onCheckedChange={(checked) => toggleExpense(expense.id!, checked === true)}
+                    />
+                    <Label htmlFor={`report-expense-${expense.id}`} className="flex-1 flex justify-between gap-2 font-normal cursor-pointer">
+                      <span>
+                        {expense.company}
+                        <span className="block text-xs text-muted-foreground">{format(expense.expenseDate as unknown as Date, 'MMM dd, yyyy')}</span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(expense.totalAmount, getExpenseCurrency(expense))}</span>
+                    </Label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !title.trim()}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : report ? 'Save Changes' : 'Create Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@
 
 import type { ReactNode } from 'react';
 import Link from 'next/link';
-import { ScanBarcode, LogOut, UserCircle, UserPlus, Briefcase, Building, UserCog } from 'lucide-react';
+import { ScanBarcode, LogOut, UserCircle, UserPlus, Briefcase, Building, UserCog, Store, Inbox, FileStack, Banknote, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/use-auth';
 import { auth } from '@/lib/firebase';
@@ -74,6 +74,22 @@ export function AppLayout({ children }: AppLayoutProps) {
                     <UserCog className="mr-2 h-4 w-4" />
                     <span>Account Profile</span>
                   </DropdownMenuItem>
+                  {user.companyId && (
+                    <>
+                      <DropdownMenuItem onClick={() => router.push('/approvals')} className="cursor-pointer">
+                        <Inbox className="mr-2 h-4 w-4" />
+                        <span>Awaiting My Approval</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => router.push('/reports')} className="cursor-pointer">
+                        <FileStack className="mr-2 h-4 w-4" />
+                        <span>Expense Reports</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => router.push('/reimbursements')} className="cursor-pointer">
+                        <Banknote className="mr-2 h-4 w-4" />
+                        <span>Reimbursements</span>
+                      </DropdownMenuItem>
+                    </>
+                  )}
                   {user.companyId ? (
                     <DropdownMenuItem onClick={() => router.push('/company')} className="cursor-pointer">
                       <Briefcase className="mr-2 h-4 w-4" />
@@ -85,6 +101,14 @@ export function AppLayout({ children }: AppLayoutProps) {
                       <span>Try Business Mode</span>
                     </DropdownMenuItem>
                   )}
+                  <DropdownMenuItem onClick={() => router.push('/vendors')} className="cursor-pointer">
+                    <Store className="mr-2 h-4 w-4" />
+                    <span>Vendors</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => router.push('/subscriptions')} className="cursor-pointer">
+                    <Repeat className="mr-2 h-4 w-4" />
+                    <span>Subscriptions</span>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10">
                     <LogOut className="mr-2 h-4 w-4" />
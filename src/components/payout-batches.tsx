@@ -0,0 +1,199 @@
+// src/components/payout-batches.tsx
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { createPayoutBatch, exportPayoutBatchCsv } from '@/actions/reimbursement-actions';
+import type { Expense } from '@/types/expense';
+import type { PayoutBatch } from '@/types/reimbursement';
+import { formatCurrency, getExpenseBaseAmount, getExpenseBaseCurrency, sumByBaseCurrency } from '@/lib/currency';
+import { MAX_PAYOUT_EXPENSES, MAX_PAYOUT_REFERENCE_LENGTH, suggestPayoutReference } from '@/lib/reimbursements';
+import { Loader2, Banknote, Download } from 'lucide-react';
+
+export const formatAmounts = (amounts: Record<string, number>): string =>
+  Object.entries(amounts).map(([currency, amount]) => formatCurrency(amount, currency)).join(' + ') || '–';
+
+interface PayoutBatchBuilderProps {
+  expenses: Expense[]; // Outstanding expenses, grouped by member
+  memberNames: Record<string, string>;
+  onCreated: () => void;
+}
+
+// Picks outstanding expenses per member and pays them out as one batch
+export function PayoutBatchBuilder({ expenses, memberNames, onCreated }: PayoutBatchBuilderProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [paidAt, setPaidAt] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [reference, setReference] = useState(suggestPayoutReference(new Date()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const byMember = useMemo(() => {
+    const groups = new Map<string, Expense[]>();
+    expenses.forEach(expense => groups.set(expense.userId, [...(groups.get(expense.userId) || []), expense]));
+    return Array.from(groups.entries());
+  }, [expenses]);
+  const selected = expenses.filter(expense => selectedIds.includes(expense.id!));
+
+  const toggle = (ids: string[], checked: boolean) =>
+    setSelectedIds(current => checked ? Array.from(new Set([...current, ...ids])) : current.filter(id => !ids.includes(id)));
+
+  const handleCreate = async () => {
+    if (!auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await createPayoutBatch(idToken, { reference, paidAt: new Date(`${paidAt}T00:00:00`), expenseIds: selectedIds });
+      if (!result.success) {
+        toast({ title: 'Payout Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Payout Batch Created', description: `${selectedIds.length} ${selectedIds.length === 1 ? 'expense was' : 'expenses were'} marked as reimbursed.` });
+      setSelectedIds([]);
+      onCreated();
+    } catch (error: any) {
+      toast({ title: 'Payout Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (expenses.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">No approved expenses are waiting to be paid back.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y border rounded-md">
+        {byMember.map(([userId, memberExpenses]) => {
+          const ids = memberExpenses.map(expense => expense.id!);
+          const allSelected = ids.every(id => selectedIds.includes(id));
+          return (
+            <li key={userId} className="p-3 space-y-2">
+              <div className="flex items-center gap-3">
+                <Checkbox id={`payee-${userId}`} checked={allSelected} onCheckedChange={(checked) => toggle(ids, checked === true)} />
+                <Label htmlFor={`payee-${userId}`} className="flex-1 flex justify-between font-medium cursor-pointer">
+                  <span>{memberNames[userId] || userId}</span>
+                  <span>{formatAmounts(sumByBaseCurrency(memberExpenses))}</span>
+                </Label>
+              </div>
+              <ul className="pl-7 space-y-1">
+                {memberExpenses.map(expense => (
+                  <li key={expense.id} className="flex items-center gap-3 text-sm">
+                    <Checkbox id={`payout-${expense.id}`} checked={selectedIds.includes(expense.id!)} onCheckedChange={(checked) => toggle([expense.id!], checked === true)} />
+                    <Label htmlFor={`payout-${expense.id}`} className="flex-1 flex justify-between font-normal cursor-pointer">
+                      <span>
+                        <Link href={`/expenses/${expense.id}`} className="hover:underline">{expense.company}</Link>
+                        <span className="text-xs text-muted-foreground"> · {format(expense.expenseDate as unknown as Date, 'MMM dd, yyyy')}</span>
+                      </span>
+                      <span>{formatCurrency(getExpenseBaseAmount(expense), getExpenseBaseCurrency(expense))}</span>
+                    </Label>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="payout-reference">Reference</Label>
+          <Input id="payout-reference" value={reference} onChange={(e) => setReference(e.target.value)} maxLength={MAX_PAYOUT_REFERENCE_LENGTH} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payout-date">Paid on</Label>
+          <Input
+            id="payout-date"
+            type="date"
+            value={paidAt}
+            onChange={(e) => {
+              setPaidAt(e.target.value);
+              if (e.target.value && reference === suggestPayoutReference(new Date(`${paidAt}T00:00:00`))) {
+                setReference(suggestPayoutReference(new Date(`${e.target.value}T00:00:00`)));
+              }
+            }}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <p className="text-sm text-muted-foreground">
+          {selected.length} of at most {MAX_PAYOUT_EXPENSES} selected{selected.length > 0 && ` · ${formatAmounts(sumByBaseCurrency(selected))}`}
+        </p>
+        <Button onClick={handleCreate} disabled={isSaving || selected.length === 0 || !reference.trim() || !paidAt}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Banknote className="mr-2 h-4 w-4" />} Create Payout Batch
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Past batches, each with its payees and a download of its payment file
+export function PayoutBatchList({ batches }: { batches: PayoutBatch[] }) {
+  const { toast } = useToast();
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const handleExport = async (batchId: string) => {
+    if (!auth.currentUser) return;
+    setExportingId(batchId);
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await exportPayoutBatchCsv(idToken, batchId);
+      if (!result.success || !result.csv) {
+        toast({ title: 'Export Failed', description: result.error || 'An error occurred.', variant: 'destructive' });
+        return;
+      }
+      const url = URL.createObjectURL(new Blob([result.csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.filename || 'payout.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: 'Export Failed', description: error.message || 'An unexpected error occurred.', variant: 'destructive' });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  if (batches.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">No payout batches yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y border rounded-md">
+      {batches.map(batch => (
+        <li key={batch.id} className="p-3 space-y-2">
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <p className="font-medium">{batch.reference}</p>
+              <p className="text-xs text-muted-foreground">
+                Paid {format(batch.paidAt as unknown as Date, 'MMM dd, yyyy')} · {batch.expenseIds.length} {batch.expenseIds.length === 1 ? 'expense' : 'expenses'}
+                {batch.createdByName && ` · by ${batch.createdByName}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{formatAmounts(batch.totals)}</span>
+              <Button variant="outline" size="sm" onClick={() => handleExport(batch.id!)} disabled={exportingId === batch.id}>
+                {exportingId === batch.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Download size={16} className="mr-1" />} CSV
+              </Button>
+            </div>
+          </div>
+          <ul className="text-sm text-muted-foreground space-y-0.5">
+            {batch.payees.map(payee => (
+              <li key={payee.userId} className="flex justify-between">
+                <span>{payee.name} ({payee.expenseCount})</span>
+                <span>{formatAmounts(payee.amounts)}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,51 @@
+// src/components/policy-violations.tsx
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { PolicyAction, PolicyViolation } from '@/types/policy';
+import { policyActionLabels } from '@/lib/expense-policies';
+import { ShieldAlert } from 'lucide-react';
+
+const actionClassNames: Record<PolicyAction, string> = {
+  warn: 'border-amber-500 text-amber-700',
+  justify: 'border-orange-500 text-orange-700',
+  block: 'border-red-500 text-red-700',
+};
+
+export const PolicyActionBadge = ({ action }: { action: PolicyAction }) => (
+  <Badge variant="outline" className={`text-xs ${actionClassNames[action]}`}>{policyActionLabels[action]}</Badge>
+);
+
+const severity: PolicyAction[] = ['block', 'justify', 'warn'];
+
+// A single badge for lists, colored by the most severe violation
+export function PolicyViolationSummary({ violations }: { violations: PolicyViolation[] | null | undefined }) {
+  if (!violations || violations.length === 0) return null;
+  const action = severity.find(candidate => violations.some(violation => violation.action === candidate)) || 'warn';
+  return (
+    <Badge variant="outline" className={`text-xs h-6 ${actionClassNames[action]}`} title={violations.map(violation => violation.message).join('\n')}>
+      <ShieldAlert className="mr-1 h-3 w-3" />{violations.length === 1 ? 'Policy flag' : `${violations.length} policy flags`}
+    </Badge>
+  );
+}
+
+// One badge per broken policy, with the reason on hover. With `detailed`, the reasons are listed below the badges.
+export function PolicyViolationBadges({ violations, detailed = false }: { violations: PolicyViolation[] | null | undefined; detailed?: boolean }) {
+  if (!violations || violations.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {violations.map((violation, index) => (
+          <Badge key={`${violation.policyId}-${index}`} variant="outline" className={`text-xs h-6 ${actionClassNames[violation.action]}`} title={violation.message}>
+            <ShieldAlert className="mr-1 h-3 w-3" />{violation.policyName}
+          </Badge>
+        ))}
+      </div>
+      {detailed && (
+        <ul className="text-xs text-muted-foreground list-disc pl-4">
+          {violations.map((violation, index) => <li key={`${violation.policyId}-${index}`}>{violation.message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
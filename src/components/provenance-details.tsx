@@ -0,0 +1,90 @@
+// src/components/provenance-details.tsx
+'use client';
+
+import { format } from 'date-fns';
+import type { ExtractionProvenance, ProvenanceValue } from '@/types/provenance';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Sparkles } from 'lucide-react';
+
+interface ProvenanceDetailsProps {
+  provenance: ExtractionProvenance | null | undefined;
+  categories: ExpenseCategoryDefinition[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  company: 'Vendor',
+  expenseDate: 'Date',
+  category: 'Category',
+  paymentMethod: 'Payment method',
+  currency: 'Currency',
+  subtotal: 'Subtotal',
+  totalAmount: 'Total',
+  serviceCharge: 'Service charge',
+  tip: 'Tip',
+  taxTotal: 'Taxes',
+  discountTotal: 'Discounts',
+  name: 'name',
+  quantity: 'quantity',
+  netPrice: 'price',
+};
+
+// 'items[2].netPrice' -> 'Item 3 price'
+const describeField = (field: string): string => {
+  const item = /^items\[(\d+)\](?:\.(\w+))?$/.exec(field);
+  if (!item) return FIELD_LABELS[field] || field;
+  return item[2] ? `Item ${+item[1] + 1} ${FIELD_LABELS[item[2]] || item[2]}` : `Item ${+item[1] + 1}`;
+};
+
+// How an AI-filled expense was extracted and what the submitter changed, for approvers and auditors
+export function ProvenanceDetails({ provenance, categories }: ProvenanceDetailsProps) {
+  if (!provenance) {
+    return <p className="text-sm text-muted-foreground">No extraction was recorded; this expense was entered by hand or saved before extractions were tracked.</p>;
+  }
+
+  const formatValue = (field: string, value: ProvenanceValue): string => {
+    if (value === null || value === '') return '—';
+    if (field === 'category' || field.endsWith('.category')) return getCategoryName(categories, String(value));
+    return String(value);
+  };
+
+  return (
+    <div className="text-sm space-y-2">
+      <p className="font-medium flex flex-wrap items-center gap-2">
+        <Sparkles className="h-4 w-4 text-primary" /> Filled from receipt extraction
+        <Badge variant="outline" className="capitalize">{provenance.provider}</Badge>
+      </p>
+      <p className="text-muted-foreground">
+        {provenance.model || 'No model'}
+        {provenance.promptVersion && <> · prompt {provenance.promptVersion}</>}
+        {' · '}{format(provenance.extractedAt as unknown as Date, 'MMM dd, yyyy HH:mm')}
+      </p>
+      {provenance.changes.length === 0 ? (
+        <p className="text-muted-foreground">Submitted as extracted, without changes.</p>
+      ) : (
+        <Table>
+          <TableHeader><TableRow className="text-xs">
+            <TableHead>Changed field</TableHead>
+            <TableHead>Extracted</TableHead>
+            <TableHead>Submitted</TableHead>
+          </TableRow></TableHeader>
+          <TableBody>
+            {provenance.changes.map(change => (
+              <TableRow key={change.field} className="text-sm">
+                <TableCell className="py-1.5">{describeField(change.field)}</TableCell>
+                <TableCell className="py-1.5 text-muted-foreground">{formatValue(change.field, change.extracted)}</TableCell>
+                <TableCell className="py-1.5">{formatValue(change.field, change.submitted)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      <details>
+        <summary className="cursor-pointer text-muted-foreground">Raw extraction output</summary>
+        <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs">{JSON.stringify(provenance.rawOutput, null, 2)}</pre>
+      </details>
+    </div>
+  );
+}
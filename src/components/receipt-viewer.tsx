@@ -0,0 +1,147 @@
+// src/components/receipt-viewer.tsx
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { getReceiptImage } from '@/actions/expense-actions';
+import { getExtractionJobReceipt } from '@/actions/extraction-job-actions';
+import { auth } from '@/lib/firebase';
+import { Loader2, ImageOff, Maximize2, FileText } from 'lucide-react';
+import { RECEIPT_PDF_CONTENT_TYPE } from '@/types/receipt';
+
+interface ReceiptViewerProps {
+  expenseId?: string;
+  extractionJobId?: string; // Shows the receipt of a batch upload job instead of a saved expense
+  vendor: string;
+  contentType?: string; // Content type of the original receipt file
+  hasThumbnail?: boolean;
+}
+
+// Browsers do not render PDFs from data URIs in frames reliably, so PDFs are shown through an object URL
+const dataUriToObjectUrl = (dataUri: string): string => {
+  const [header, base64] = dataUri.split(',');
+  const contentType = header.replace(/^data:/, '').replace(/;base64$/, '');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return URL.createObjectURL(new Blob([bytes], { type: contentType }));
+};
+
+export function ReceiptViewer({ expenseId, extractionJobId, vendor, contentType, hasThumbnail = true }: ReceiptViewerProps) {
+  const isPdf = contentType === RECEIPT_PDF_CONTENT_TYPE;
+  const loadReceipt = (idToken: string, variant: 'original' | 'thumbnail') =>
+    extractionJobId ? getExtractionJobReceipt(idToken, extractionJobId, variant) : getReceiptImage(idToken, expenseId!, variant);
+  const [thumbnailUri, setThumbnailUri] = useState<string | null>(null);
+  const [originalUri, setOriginalUri] = useState<string | null>(null);
+  const [isLoadingThumbnail, setIsLoadingThumbnail] = useState(hasThumbnail);
+  const [isLoadingOriginal, setIsLoadingOriginal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadThumbnail = async () => {
+      // Without a thumbnail the original is only loaded when the receipt is opened
+      if (!hasThumbnail || !auth.currentUser) return;
+      setIsLoadingThumbnail(true);
+      try {
+        const idToken = await auth.currentUser.getIdToken();
+        const result = await loadReceipt(idToken, 'thumbnail');
+        if (cancelled) return;
+        if (result.success && result.dataUri) {
+          setThumbnailUri(result.dataUri);
+        } else {
+          setError(result.error || 'Could not load receipt.');
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Could not load receipt.');
+      } finally {
+        if (!cancelled) setIsLoadingThumbnail(false);
+      }
+    };
+    loadThumbnail();
+    return () => { cancelled = true; };
+  }, [expenseId, extractionJobId, hasThumbnail]);
+
+  const pdfUrl = useMemo(() => (isPdf && originalUri ? dataUriToObjectUrl(originalUri) : null), [isPdf, originalUri]);
+
+  useEffect(() => {
+    return () => {
+      if (pdfUrl) URL.revokeObjectURL(pdfUrl);
+    };
+  }, [pdfUrl]);
+
+  const handleOpen = async () => {
+    setIsOpen(true);
+    if (originalUri || !auth.currentUser) return;
+    setIsLoadingOriginal(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken();
+      const result = await loadReceipt(idToken, 'original');
+      if (result.success && result.dataUri) {
+        setOriginalUri(result.dataUri);
+      } else {
+        setError(result.error || 'Could not load receipt.');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Could not load receipt.');
+    } finally {
+      setIsLoadingOriginal(false);
+    }
+  };
+
+  if (isLoadingThumbnail) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" /> Loading receipt...
+      </div>
+    );
+  }
+
+  if (!thumbnailUri && hasThumbnail) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <ImageOff className="h-3 w-3" /> {error || 'Receipt unavailable.'}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button type="button" variant="ghost" onClick={handleOpen} className="h-auto p-1 flex items-center gap-2">
+        {thumbnailUri ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={thumbnailUri} alt={`Receipt from ${vendor}`} className="h-16 w-auto rounded border bg-background object-contain" />
+        ) : (
+          <span className="h-16 w-12 rounded border bg-background flex items-center justify-center">
+            {isPdf ? <FileText className="h-6 w-6 text-primary" /> : <ImageOff className="h-6 w-6 text-muted-foreground" />}
+          </span>
+        )}
+        <span className="text-xs flex items-center gap-1"><Maximize2 className="h-3 w-3" /> {isPdf ? 'View PDF' : 'View receipt'}</span>
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Receipt</DialogTitle>
+            <DialogDescription>{vendor}</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center max-h-[75vh] overflow-auto">
+            {isLoadingOriginal ? (
+              <Loader2 className="h-8 w-8 animate-spin text-primary my-8" />
+            ) : isPdf ? (
+              pdfUrl ? (
+                <iframe src={pdfUrl} title={`Receipt from ${vendor}`} className="w-full h-[75vh] rounded border bg-background" />
+              ) : (
+                <p className="text-sm text-muted-foreground my-8">{error || 'Receipt unavailable.'}</p>
+              )
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={originalUri || thumbnailUri || ''} alt={`Receipt from ${vendor}`} className="max-w-full h-auto rounded border bg-background" />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,470 @@
+// src/components/recurring-expenses.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { auth } from '@/lib/firebase';
+import { generateRecurringDrafts, createRecurringExpense, updateRecurringExpense, deleteRecurringExpense, skipRecurringDraft } from '@/actions/recurring-actions';
+import type { RecurrenceFrequency, RecurrenceUnit, RecurringDraft, RecurringExpense, RecurringExpenseInput } from '@/types/recurring';
+import { recurrenceFrequencies, recurrenceUnits } from '@/types/recurring';
+import type { PaymentMethod } from '@/types/expense';
+import { paymentMethods } from '@/types/expense';
+import { supportedCurrencies } from '@/types/currency';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { activeCategories, getCategoryName, resolveCategoryId } from '@/lib/categories';
+import { formatCurrency } from '@/lib/currency';
+import { describeSchedule, getUpcomingCharges, summarizeSubscriptions, todayCalendarDate } from '@/lib/recurring-expenses';
+import { ExpenseForm } from './expense-form';
+import { formatAmounts } from './payout-batches';
+import { format } from 'date-fns';
+import { Loader2, Plus, Edit3, Trash2, SkipForward, FileCheck, Repeat } from 'lucide-react';
+
+// Days of upcoming charges listed
+const UPCOMING_DAYS = 60;
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = { monthly: 'Monthly', yearly: 'Yearly', custom: 'Custom' };
+const unitLabels: Record<RecurrenceUnit, string> = { day: 'Days', week: 'Weeks', month: 'Months', year: 'Years' };
+
+// Calendar dates are shown as local dates of the same day
+const formatDueDate = (dueDate: string) => format(new Date(`${dueDate}T00:00:00`), 'PP');
+
+interface TemplateDraft {
+  id: string | null; // Null for a new recurring expense
+  name: string;
+  company: string;
+  category: string;
+  amount: string;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  frequency: RecurrenceFrequency;
+  interval: string;
+  unit: RecurrenceUnit;
+  startDate: string;
+  endDate: string; // Empty for none
+  active: boolean;
+}
+
+interface RecurringExpensesProps {
+  recurringExpenses: RecurringExpense[];
+  drafts: RecurringDraft[]; // Open drafts
+  categories: ExpenseCategoryDefinition[];
+  baseCurrency: string;
+  onUpdated: () => void;
+}
+
+export function RecurringExpenses({ recurringExpenses, drafts, categories, baseCurrency, onUpdated }: RecurringExpensesProps) {
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [reviewedDraft, setReviewedDraft] = useState<RecurringDraft | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<RecurringExpense | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const today = todayCalendarDate();
+  const upcomingCharges = getUpcomingCharges(recurringExpenses, today, UPCOMING_DAYS);
+  const subscriptions = summarizeSubscriptions(recurringExpenses);
+  const totalAnnual = subscriptions.reduce<Record<string, number>>((totals, summary) => {
+    Object.entries(summary.annualAmounts).forEach(([currency, amount]) => { totals[currency] = (totals[currency] || 0) + amount; });
+    return totals;
+  }, {});
+
+  const openNewTemplate = () => setTemplateDraft({
+    id: null,
+    name: '',
+    company: '',
+    category: resolveCategoryId(categories, 'other'),
+    amount: '',
+    currency: baseCurrency,
+    paymentMethod: 'card',
+    frequency: 'monthly',
+    interval: '1',
+    unit: 'month',
+    startDate: today,
+    endDate: '',
+    active: true,
+  });
+
+  const openTemplate = (template: RecurringExpense) => setTemplateDraft({
+    id: template.id!,
+    name: template.name,
+    company: template.company,
+    category: template.category,
+    amount: String(template.amount),
+    currency: template.currency,
+    paymentMethod: template.paymentMethod,
+    frequency: template.schedule.frequency,
+    interval: String(template.schedule.interval),
+    unit: template.schedule.unit,
+    startDate: template.startDate,
+    endDate: template.endDate || '',
+    active: template.active,
+  });
+
+  const handleSaveTemplate = async () => {
+    if (!templateDraft || !auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const input: RecurringExpenseInput = {
+        name: templateDraft.name,
+        company: templateDraft.company,
+        category: templateDraft.category,
+        amount: Number(templateDraft.amount),
+        currency: templateDraft.currency,
+        paymentMethod: templateDraft.paymentMethod,
+        schedule: { frequency: templateDraft.frequency, interval: Number(templateDraft.interval), unit: templateDraft.unit },
+        startDate: templateDraft.startDate,
+        endDate: templateDraft.endDate || null,
+        active: templateDraft.active,
+      };
+      const result = templateDraft.id
+        ? await updateRecurringExpense(idToken, templateDraft.id, input)
+        : await createRecurringExpense(idToken, input);
+      if (result.success) {
+        toast({ title: 'Recurring Expense Saved', description: `"${input.name.trim()}" was saved.` });
+        setTemplateDraft(null);
+        onUpdated();
+      } else {
+        toast({ title: 'Save Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error saving recurring expense:", error);
+      toast({ title: 'Error', description: 'Failed to save the recurring expense.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const template = templateToDelete;
+    if (!template || !auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await deleteRecurringExpense(idToken, template.id!);
+      if (result.success) {
+        toast({ title: 'Recurring Expense Deleted', description: `"${template.name}" was deleted.` });
+        setTemplateToDelete(null);
+        onUpdated();
+      } else {
+        toast({ title: 'Delete Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error deleting recurring expense:", error);
+      toast({ title: 'Error', description: 'Failed to delete the recurring expense.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSkipDraft = async (draft: RecurringDraft) => {
+    if (!auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await skipRecurringDraft(idToken, draft.id!);
+      if (result.success) {
+        toast({ title: 'Charge Skipped', description: `The ${formatDueDate(draft.dueDate)} charge of "${draft.name}" was skipped.` });
+        onUpdated();
+      } else {
+        toast({ title: 'Skip Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error skipping draft:", error);
+      toast({ title: 'Error', description: 'Failed to skip the charge.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {drafts.length > 0 && (
+        <section>
+          <h3 className="text-lg font-semibold mb-1">Charges to Review</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            These charges are due. Save each as an expense, ideally with its receipt, or skip it if it did not happen. Entering the receipt on its own closes the matching charge too.
+          </p>
+          <ul className="divide-y border rounded-md">
+            {drafts.map(draft => (
+              <li key={draft.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{draft.name} <span className="text-muted-foreground font-normal">· {draft.company}</span></div>
+                  <div className="text-xs text-muted-foreground">Due {formatDueDate(draft.dueDate)} · {formatCurrency(draft.amount, draft.currency)}</div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => setReviewedDraft(draft)} disabled={isSaving}>
+                    <FileCheck className="mr-2 h-4 w-4" /> Review
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleSkipDraft(draft)} disabled={isSaving}>
+                    <SkipForward className="mr-2 h-4 w-4" /> Skip
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold">Recurring Expenses</h3>
+          <Button size="sm" onClick={openNewTemplate} disabled={isSaving}>
+            <Plus className="mr-2 h-4 w-4" /> Add
+          </Button>
+        </div>
+        {recurringExpenses.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">Add subscriptions and other charges that come back on a schedule, and a draft expense is prepared every time one is due.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {recurringExpenses.map(template => (
+              <li key={template.id} className="flex items-start justify-between gap-2 p-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{template.name}</span>
+                    <span className="text-sm text-muted-foreground">{template.company}</span>
+                    <Badge variant="secondary">{getCategoryName(categories, template.category)}</Badge>
+                    {!template.active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {formatCurrency(template.amount, template.currency)} · {describeSchedule(template.schedule)}
+                    {template.active && template.nextDueDate ? ` · next due ${formatDueDate(template.nextDueDate)}` : ''}
+                    {!template.nextDueDate ? ' · ended' : ''}
+                  </div>
+                </div>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" onClick={() => openTemplate(template)} disabled={isSaving}>
+                    <Edit3 size={16} />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setTemplateToDelete(template)} disabled={isSaving}>
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {subscriptions.length > 0 && (
+        <section>
+          <h3 className="text-lg font-semibold mb-3">Annual Cost per Vendor</h3>
+          <ul className="divide-y border rounded-md">
+            {subscriptions.map(summary => (
+              <li key={summary.vendor} className="flex items-center justify-between gap-2 p-3 text-sm">
+                <span>{summary.vendor}{summary.count > 1 && <span className="text-muted-foreground"> · {summary.count} subscriptions</span>}</span>
+                <span className="font-medium">{formatAmounts(summary.annualAmounts)} / year</span>
+              </li>
+            ))}
+            <li className="flex items-center justify-between gap-2 p-3 text-sm font-semibold">
+              <span>Total</span>
+              <span>{formatAmounts(totalAnnual)} / year</span>
+            </li>
+          </ul>
+        </section>
+      )}
+
+      {recurringExpenses.length > 0 && (
+        <section>
+          <h3 className="text-lg font-semibold mb-3">Upcoming Charges</h3>
+          {upcomingCharges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No charges in the next {UPCOMING_DAYS} days.</p>
+          ) : (
+            <ul className="divide-y border rounded-md">
+              {upcomingCharges.map(charge => (
+                <li key={`${charge.recurringExpenseId}-${charge.dueDate}`} className="flex items-center justify-between gap-2 p-3 text-sm">
+                  <span>{formatDueDate(charge.dueDate)} · {charge.name} <span className="text-muted-foreground">· {charge.company}</span></span>
+                  <span className="font-medium">{formatCurrency(charge.amount, charge.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      <Dialog open={!!templateDraft} onOpenChange={open => !open && setTemplateDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{templateDraft?.id ? 'Edit Recurring Expense' : 'Add Recurring Expense'}</DialogTitle>
+            <DialogDescription>A draft expense is prepared on every due date. A changed schedule applies to charges after the last draft.</DialogDescription>
+          </DialogHeader>
+          {templateDraft && (
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="recurring-name">Paid for</Label>
+                  <Input id="recurring-name" value={templateDraft.name} onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })} maxLength={100} placeholder="e.g. Design tool seats" />
+                </div>
+                <div>
+                  <Label htmlFor="recurring-company">Vendor</Label>
+                  <Input id="recurring-company" value={templateDraft.company} onChange={(e) => setTemplateDraft({ ...templateDraft, company: e.target.value })} maxLength={100} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="recurring-amount">Amount</Label>
+                  <Input id="recurring-amount" type="number" min="0" step="0.01" value={templateDraft.amount} onChange={(e) => setTemplateDraft({ ...templateDraft, amount: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="recurring-currency">Currency</Label>
+                  <Select value={templateDraft.currency} onValueChange={(value) => setTemplateDraft({ ...templateDraft, currency: value })}>
+                    <SelectTrigger id="recurring-currency"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {supportedCurrencies.map(currency => <SelectItem key={currency} value={currency}>{currency}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="recurring-category">Category</Label>
+                  <Select value={templateDraft.category} onValueChange={(value) => setTemplateDraft({ ...templateDraft, category: value })}>
+                    <SelectTrigger id="recurring-category"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {activeCategories(categories).map(category => <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="recurring-payment">Payment Method</Label>
+                  <Select value={templateDraft.paymentMethod} onValueChange={(value) => setTemplateDraft({ ...templateDraft, paymentMethod: value as PaymentMethod })}>
+                    <SelectTrigger id="recurring-payment"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {paymentMethods.map(method => <SelectItem key={method} value={method}>{method.charAt(0).toUpperCase() + method.slice(1)}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="recurring-frequency">Repeats</Label>
+                  <Select value={templateDraft.frequency} onValueChange={(value) => setTemplateDraft({ ...templateDraft, frequency: value as RecurrenceFrequency })}>
+                    <SelectTrigger id="recurring-frequency"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {recurrenceFrequencies.map(frequency => <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {templateDraft.frequency === 'custom' && (
+                  <>
+                    <div>
+                      <Label htmlFor="recurring-interval">Every</Label>
+                      <Input id="recurring-interval" type="number" min="1" max="365" step="1" value={templateDraft.interval} onChange={(e) => setTemplateDraft({ ...templateDraft, interval: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label htmlFor="recurring-unit">Unit</Label>
+                      <Select value={templateDraft.unit} onValueChange={(value) => setTemplateDraft({ ...templateDraft, unit: value as RecurrenceUnit })}>
+                        <SelectTrigger id="recurring-unit"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {recurrenceUnits.map(unit => <SelectItem key={unit} value={unit}>{unitLabels[unit]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="recurring-start">First due date</Label>
+                  <Input id="recurring-start" type="date" value={templateDraft.startDate} onChange={(e) => setTemplateDraft({ ...templateDraft, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="recurring-end">Ends (optional)</Label>
+                  <Input id="recurring-end" type="date" value={templateDraft.endDate} onChange={(e) => setTemplateDraft({ ...templateDraft, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="recurring-active" checked={templateDraft.active} onCheckedChange={(checked) => setTemplateDraft({ ...templateDraft, active: checked })} />
+                <Label htmlFor="recurring-active">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDraft(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSaveTemplate} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => { if (!open) setTemplateToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{templateToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>No more drafts are generated for it and its open drafts are removed. Expenses already saved for it are kept.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteTemplate} disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!reviewedDraft} onOpenChange={(open) => { if (!open) setReviewedDraft(null); }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0 border-0 bg-transparent shadow-none">
+          <DialogTitle className="sr-only">Review recurring charge</DialogTitle>
+          {reviewedDraft && (
+            <ExpenseForm
+              key={reviewedDraft.id}
+              recurringDraft={reviewedDraft}
+              onRecurringDraftSaved={() => { setReviewedDraft(null); onUpdated(); }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Generates the drafts of charges that fell due since the last visit and points to the ones waiting for review
+export function RecurringDraftNotice() {
+  const { user } = useAuth();
+  const [openDrafts, setOpenDrafts] = useState(0);
+
+  useEffect(() => {
+    if (!user || !auth.currentUser) return;
+    let cancelled = false;
+    auth.currentUser.getIdToken()
+      .then(idToken => generateRecurringDrafts(idToken))
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) setOpenDrafts(result.open ?? 0);
+        else console.error("Failed to generate recurring drafts:", result.error);
+      })
+      .catch(error => console.error("Failed to generate recurring drafts:", error));
+    return () => { cancelled = true; };
+  }, [user]);
+
+  if (openDrafts === 0) return null;
+  return (
+    <Alert className="max-w-3xl mx-auto mb-6">
+      <Repeat className="h-4 w-4" />
+      <AlertTitle>{openDrafts === 1 ? '1 recurring charge is' : `${openDrafts} recurring charges are`} due</AlertTitle>
+      <AlertDescription>
+        <Link href="/subscriptions" className="font-medium text-primary hover:underline">Review {openDrafts === 1 ? 'it' : 'them'}</Link> to save {openDrafts === 1 ? 'it' : 'them'} as expenses.
+      </AlertDescription>
+    </Alert>
+  );
+}
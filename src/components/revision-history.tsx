@@ -0,0 +1,100 @@
+// src/components/revision-history.tsx
+'use client';
+
+import { format } from 'date-fns';
+import type { ExpenseRevision, RevisionValue } from '@/types/revision';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { getCategoryName } from '@/lib/categories';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History } from 'lucide-react';
+
+interface RevisionHistoryProps {
+  revisions: ExpenseRevision[];
+  categories: ExpenseCategoryDefinition[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  company: 'Vendor',
+  expenseDate: 'Date',
+  category: 'Category',
+  paymentMethod: 'Payment method',
+  currency: 'Currency',
+  subtotal: 'Subtotal',
+  totalAmount: 'Total',
+  serviceCharge: 'Service charge',
+  tip: 'Tip',
+  status: 'Status',
+  projectId: 'Project',
+  clientId: 'Client',
+  costCenterId: 'Cost center',
+  tags: 'Tags',
+  billable: 'Billable',
+  markupPercent: 'Markup (%)',
+  split: 'Split',
+  mode: 'mode',
+  name: 'name',
+  quantity: 'quantity',
+  netPrice: 'price',
+  rate: 'rate',
+  amount: 'amount',
+  inclusive: 'included in prices',
+  description: 'description',
+  project: 'project',
+  value: 'value',
+};
+
+const LINE_LABELS: Record<string, string> = { items: 'Item', taxes: 'Tax', discounts: 'Discount', shares: 'share' };
+
+// 'items[2].split.shares[0].category' -> 'Item 3 split share 1 category'
+const describeField = (field: string): string => field
+  .split('.')
+  .map(segment => {
+    const line = /^(\w+)\[(\d+)\]$/.exec(segment);
+    if (line) return `${LINE_LABELS[line[1]] || line[1]} ${+line[2] + 1}`;
+    return FIELD_LABELS[segment] || segment;
+  })
+  .join(' ')
+  .replace(/^split/, 'Split');
+
+// Every change made to an expense after it was submitted, oldest first
+export function RevisionHistory({ revisions, categories }: RevisionHistoryProps) {
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not changed since it was submitted.</p>;
+  }
+
+  const formatValue = (field: string, value: RevisionValue): string => {
+    if (value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'category' || field.endsWith('.category')) return getCategoryName(categories, String(value));
+    return String(value);
+  };
+
+  return (
+    <div className="text-sm space-y-3">
+      <p className="font-medium flex items-center gap-2"><History className="h-4 w-4 text-primary" /> Revision history</p>
+      {revisions.map(revision => (
+        <div key={revision.id || revision.revision} className="space-y-1">
+          <p className="text-muted-foreground">
+            Revision {revision.revision} · {revision.editedByName || revision.editedBy} · {format(revision.editedAt as unknown as Date, 'MMM dd, yyyy HH:mm')}
+          </p>
+          <Table>
+            <TableHeader><TableRow className="text-xs">
+              <TableHead>Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow></TableHeader>
+            <TableBody>
+              {revision.changes.map(change => (
+                <TableRow key={change.field} className="text-sm">
+                  <TableCell className="py-1.5">{describeField(change.field)}</TableCell>
+                  <TableCell className="py-1.5 text-muted-foreground">{formatValue(change.field, change.before)}</TableCell>
+                  <TableCell className="py-1.5">{formatValue(change.field, change.after)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// src/components/split-editor.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ExpenseSplit, SplitMode } from '@/types/allocation';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import type { DimensionValue } from '@/types/dimension';
+import { activeCategories } from '@/lib/categories';
+import { normalizeSplit, validateSplit } from '@/lib/expense-allocations';
+import { formatCurrency } from '@/lib/currency';
+import { CategoryIcon } from './category-icon';
+import { PlusCircle, XCircle } from 'lucide-react';
+
+interface SplitEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  amount: number; // Amount being split, in `currency`
+  currency: string;
+  categories: ExpenseCategoryDefinition[];
+  projects: DimensionValue[]; // The company's projects a share can be charged to
+  defaultCategory: string; // Category of the first share of a new split
+  value: ExpenseSplit | null | undefined;
+  onSave: (split: ExpenseSplit | null) => void; // Null removes the split
+}
+
+interface ShareDraft {
+  category: string;
+  projectId: string | null;
+  value: string;
+}
+
+// Value of the project select for shares without a project
+const NO_PROJECT_VALUE = '__none';
+
+// Dialog to divide an item or a whole expense across categories and projects, by percentage or by amount
+export function SplitEditor({ open, onOpenChange, title, amount, currency, categories, projects, defaultCategory, value, onSave }: SplitEditorProps) {
+  const [mode, setMode] = useState<SplitMode>('percentage');
+  const [shares, setShares] = useState<ShareDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode(value?.mode || 'percentage');
+    setShares(value?.shares.length
+      ? value.shares.map(share => ({ category: share.category, projectId: share.projectId || null, value: String(share.value) }))
+      : [
+          { category: defaultCategory, projectId: null, value: '50' },
+          { category: defaultCategory, projectId: null, value: '50' },
+        ]);
+  }, [open, value, defaultCategory]);
+
+  const draftSplit = normalizeSplit({ mode, shares });
+  const error = draftSplit ? validateSplit(draftSplit, amount, currency) : 'A split needs at least one share.';
+  const total = shares.reduce((sum, share) => sum + (Number(share.value) || 0), 0);
+  const remaining = mode === 'percentage' ? 100 - total : amount - total;
+
+  const updateShare = (index: number, update: Partial<ShareDraft>) => {
+    setShares(current => current.map((share, i) => (i === index ? { ...share, ...update } : share)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Divide {formatCurrency(amount, currency)} across categories and projects.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <RadioGroup value={mode} onValueChange={(next) => setMode(next as SplitMode)} className="flex gap-4">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="percentage" id="split-mode-percentage" />
+              <Label htmlFor="split-mode-percentage" className="font-normal">By percentage</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="amount" id="split-mode-amount" />
+              <Label htmlFor="split-mode-amount" className="font-normal">By amount</Label>
+            </div>
+          </RadioGroup>
+          <div className="space-y-2">
+            {shares.map((share, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_90px_auto] gap-2 items-center">
+                <Select value={share.category} onValueChange={(category) => updateShare(index, { category })}>
+                  <SelectTrigger className="text-sm">
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeCategories(categories).map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <span className="flex items-center gap-2">
+                          <CategoryIcon icon={category.icon} size={14} className="text-muted-foreground" /> {category.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={share.projectId || NO_PROJECT_VALUE} onValueChange={(projectId) => updateShare(index, { projectId: projectId === NO_PROJECT_VALUE ? null : projectId })}>
+                  <SelectTrigger className="text-sm" aria-label="Project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT_VALUE}>No project</SelectItem>
+                    {projects.filter(project => !project.archived || project.id === share.projectId).map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={share.value}
+                  onChange={(e) => updateShare(index, { value: e.target.value })}
+                  className="text-sm text-right"
+                  aria-label={mode === 'percentage' ? 'Percentage' : 'Amount'}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => setShares(current => current.filter((_, i) => i !== index))} disabled={shares.length <= 1} className="h-8 w-8 text-destructive">
+                  <XCircle size={16} />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShares(current => [...current, { category: defaultCategory, projectId: null, value: String(Math.max(0, Number(remaining.toFixed(2)))) }])}
+            >
+              <PlusCircle size={14} className="mr-2" /> Add Share
+            </Button>
+            <span className={error ? 'text-destructive' : 'text-muted-foreground'}>
+              {mode === 'percentage' ? `${Number(total.toFixed(2))}% of 100%` : `${formatCurrency(total, currency)} of ${formatCurrency(amount, currency)}`}
+            </span>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter className="gap-2">
+          {value && (
+            <Button type="button" variant="outline" onClick={() => { onSave(null); onOpenChange(false); }}>Remove Split</Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button type="button" onClick={() => { onSave(draftSplit); onOpenChange(false); }} disabled={!!error}>Save Split</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
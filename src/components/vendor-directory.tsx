@@ -0,0 +1,252 @@
+// src/components/vendor-directory.tsx
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { updateVendor, mergeVendors } from '@/actions/vendor-actions';
+import type { Vendor } from '@/types/vendor';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { activeCategories, getCategoryName } from '@/lib/categories';
+import { CategoryIcon } from './category-icon';
+import { Loader2, Edit3, Merge, Search } from 'lucide-react';
+
+interface VendorDirectoryProps {
+  vendors: Vendor[];
+  categories: ExpenseCategoryDefinition[];
+  canManage: boolean; // Owners and admins, or the user for personal vendors
+  onUpdated: () => void;
+}
+
+interface VendorDraft {
+  id: string;
+  name: string;
+  aliases: string; // One per line
+  defaultCategory: string; // NO_CATEGORY for none
+  taxId: string;
+}
+
+const NO_CATEGORY = 'none';
+
+export function VendorDirectory({ vendors, categories, canManage, onUpdated }: VendorDirectoryProps) {
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draft, setDraft] = useState<VendorDraft | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const query = search.trim().toLowerCase();
+  const visibleVendors = query
+    ? vendors.filter(vendor => [vendor.name, ...vendor.aliases].some(name => name.toLowerCase().includes(query)))
+    : vendors;
+  const selectedVendors = vendors.filter(vendor => selectedIds.includes(vendor.id));
+
+  const toggleSelected = (vendorId: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, vendorId] : ids.filter(id => id !== vendorId));
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await updateVendor(idToken, draft.id, {
+        name: draft.name,
+        aliases: draft.aliases.split('\n').map(alias => alias.trim()).filter(Boolean),
+        defaultCategory: draft.defaultCategory === NO_CATEGORY ? null : draft.defaultCategory,
+        taxId: draft.taxId || null,
+      });
+      if (result.success) {
+        toast({ title: 'Vendor Updated', description: `"${draft.name.trim()}" was saved.` });
+        setDraft(null);
+        onUpdated();
+      } else {
+        toast({ title: 'Update Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error updating vendor:", error);
+      toast({ title: 'Error', description: 'Failed to update vendor.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId || !auth.currentUser) return;
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser.getIdToken(true);
+      const result = await mergeVendors(idToken, mergeTargetId, selectedIds.filter(id => id !== mergeTargetId));
+      if (result.success) {
+        const target = vendors.find(vendor => vendor.id === mergeTargetId);
+        toast({ title: 'Vendors Merged', description: `${result.movedExpenses ?? 0} expense(s) now belong to "${target?.name}".` });
+        setMergeTargetId(null);
+        setSelectedIds([]);
+        onUpdated();
+      } else {
+        toast({ title: 'Merge Failed', description: result.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error("Error merging vendors:", error);
+      toast({ title: 'Error', description: 'Failed to merge vendors.', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (vendors.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">Vendors are added as you save expenses.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="relative flex-grow">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search vendors and aliases" className="pl-8" />
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => setMergeTargetId(selectedIds[0])} disabled={selectedIds.length < 2 || isSaving}>
+            <Merge className="mr-2 h-4 w-4" /> Merge {selectedIds.length > 1 ? `(${selectedIds.length})` : ''}
+          </Button>
+        )}
+      </div>
+      <ul className="divide-y border rounded-md">
+        {visibleVendors.map(vendor => (
+          <li key={vendor.id} className="flex items-start justify-between gap-2 p-3">
+            <div className="flex items-start gap-3 min-w-0">
+              {canManage && (
+                <Checkbox
+                  className="mt-1"
+                  checked={selectedIds.includes(vendor.id)}
+                  onCheckedChange={(checked) => toggleSelected(vendor.id, checked === true)}
+                  aria-label={`Select ${vendor.name}`}
+                />
+              )}
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">{vendor.name}</span>
+                  {vendor.taxId && <span className="text-xs text-muted-foreground">Tax ID {vendor.taxId}</span>}
+                  {vendor.pendingReassignment && (
+                    <Badge variant="outline" title="Some expenses still have to move to this vendor. Save or merge it again to finish.">Update unfinished</Badge>
+                  )}
+                  {vendor.defaultCategory && (
+                    <Badge variant="secondary" className="flex items-center gap-1">
+                      <CategoryIcon category={vendor.defaultCategory} categories={categories} size={12} />
+                      {getCategoryName(categories, vendor.defaultCategory)}
+                    </Badge>
+                  )}
+                </div>
+                {vendor.aliases.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {vendor.aliases.map(alias => <Badge key={alias} variant="outline" className="text-xs font-normal">{alias}</Badge>)}
+                  </div>
+                )}
+              </div>
+            </div>
+            {canManage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({
+                  id: vendor.id,
+                  name: vendor.name,
+                  aliases: vendor.aliases.join('\n'),
+                  defaultCategory: vendor.defaultCategory || NO_CATEGORY,
+                  taxId: vendor.taxId || '',
+                })}
+                disabled={isSaving}
+              >
+                <Edit3 size={16} />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Vendor</DialogTitle>
+            <DialogDescription>Renaming a vendor also renames it on existing expenses that can still be edited. Approved and reimbursed expenses keep their name.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="vendor-name">Name</Label>
+                <Input id="vendor-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} maxLength={100} />
+              </div>
+              <div>
+                <Label htmlFor="vendor-aliases">Aliases (one per line)</Label>
+                <Textarea id="vendor-aliases" value={draft.aliases} onChange={(e) => setDraft({ ...draft, aliases: e.target.value })} rows={4} placeholder="e.g. STARBUCKS COFFEE" />
+              </div>
+              <div>
+                <Label htmlFor="vendor-category">Default Category</Label>
+                <Select value={draft.defaultCategory} onValueChange={(value) => setDraft({ ...draft, defaultCategory: value })}>
+                  <SelectTrigger id="vendor-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>None</SelectItem>
+                    {activeCategories(categories).map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <span className="flex items-center gap-2">
+                          <CategoryIcon icon={category.icon} size={16} /> {category.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="vendor-tax-id">Tax ID (optional)</Label>
+                <Input id="vendor-tax-id" value={draft.taxId} onChange={(e) => setDraft({ ...draft, taxId: e.target.value })} placeholder="e.g. GB123456789" maxLength={40} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveDraft} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergeTargetId} onOpenChange={open => !open && setMergeTargetId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Vendors</DialogTitle>
+            <DialogDescription>
+              Pick the vendor to keep. The others become its aliases, and their expenses move to it.
+            </DialogDescription>
+          </DialogHeader>
+          <RadioGroup value={mergeTargetId || undefined} onValueChange={setMergeTargetId} className="py-4">
+            {selectedVendors.map(vendor => (
+              <div key={vendor.id} className="flex items-center gap-2">
+                <RadioGroupItem value={vendor.id} id={`merge-${vendor.id}`} />
+                <Label htmlFor={`merge-${vendor.id}`} className="font-normal">{vendor.name}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeTargetId(null)}>Cancel</Button>
+            <Button onClick={handleMerge} disabled={isSaving || !mergeTargetId}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
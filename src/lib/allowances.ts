@@ -0,0 +1,91 @@
+// src/lib/allowances.ts
+import type { DistanceUnit, MileageDetails, MileageInput, MileageRate, PerDiemDay, PerDiemDetails, PerDiemInput, PerDiemMeal, PerDiemRate, PerDiemRules } from '@/types/allowance';
+import { DEFAULT_PER_DIEM_RULES, perDiemMeals } from '@/types/allowance';
+import type { Company } from '@/types/company';
+import { roundToCurrency, formatCurrency } from '@/lib/currency';
+import { isCalendarDate } from '@/lib/recurring-expenses';
+
+export const MAX_MILEAGE_RATES = 10;
+export const MAX_PER_DIEM_RATES = 50;
+export const MAX_PER_DIEM_DAYS = 31;
+export const MAX_MILEAGE_DISTANCE = 10000; // One way, in either unit
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const distanceUnitLabels: Record<DistanceUnit, string> = { km: 'km', mi: 'miles' };
+export const perDiemMealLabels: Record<PerDiemMeal, string> = { breakfast: 'Breakfast', lunch: 'Lunch', dinner: 'Dinner' };
+
+export const getPerDiemRules = (company: Pick<Company, 'perDiemRules'> | null | undefined): PerDiemRules =>
+  company?.perDiemRules || DEFAULT_PER_DIEM_RULES;
+
+// The calendar dates from start to end, or an empty list if the range is invalid or longer than MAX_PER_DIEM_DAYS
+export const getTripDates = (startDate: string, endDate: string): string[] => {
+  if (!isCalendarDate(startDate) || !isCalendarDate(endDate) || endDate < startDate) return [];
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1;
+  if (days > MAX_PER_DIEM_DAYS) return [];
+  return Array.from({ length: days }, (_, index) => new Date(Date.parse(startDate) + index * DAY_MS).toISOString().split('T')[0]);
+};
+
+export const getMileageDistance = (details: Pick<MileageDetails, 'distance' | 'roundTrip'>): number =>
+  details.distance * (details.roundTrip ? 2 : 1);
+
+// A mileage claim at the company's rate for the vehicle. `currency` is the company's base currency.
+export const calculateMileage = (input: MileageInput, rates: MileageRate[], currency: string): { details: MileageDetails; amount: number } | { error: string } => {
+  const rate = rates.find(candidate => candidate.id === input.rateId);
+  if (!rate) return { error: "Please pick a vehicle with a mileage rate." };
+  const from = String(input.from || '').trim();
+  const to = String(input.to || '').trim();
+  if (!from || !to || from.length > 100 || to.length > 100) return { error: "Please enter where the trip started and ended, in up to 100 characters each." };
+  const distance = Math.round(Number(input.distance) * 10) / 10;
+  if (!Number.isFinite(distance) || distance <= 0 || distance > MAX_MILEAGE_DISTANCE) {
+    return { error: `Please enter a distance between 0.1 and ${MAX_MILEAGE_DISTANCE} ${distanceUnitLabels[rate.unit]}.` };
+  }
+  const details: MileageDetails = {
+    rateId: rate.id,
+    vehicle: rate.vehicle,
+    from,
+    to,
+    distance,
+    roundTrip: Boolean(input.roundTrip),
+    unit: rate.unit,
+    rate: rate.rate,
+  };
+  return { details, amount: roundToCurrency(getMileageDistance(details) * rate.rate, currency) };
+};
+
+// A per-diem claim at the company's daily rate for the destination, reduced for partial days and provided meals
+export const calculatePerDiem = (input: PerDiemInput, rates: PerDiemRate[], rules: PerDiemRules, currency: string): { details: PerDiemDetails; amount: number } | { error: string } => {
+  const rate = rates.find(candidate => candidate.id === input.rateId);
+  if (!rate) return { error: "Please pick a destination with a per-diem rate." };
+  const dates = getTripDates(input.startDate, input.endDate);
+  if (dates.length === 0) return { error: `Please enter a trip of 1 to ${MAX_PER_DIEM_DAYS} days, ending on or after the day it starts.` };
+
+  const days = dates.map((date, index) => {
+    const partial = index === 0 || index === dates.length - 1;
+    const mealsProvided = perDiemMeals.filter(meal => (input.mealsProvided?.[date] || []).includes(meal));
+    const percent = (partial ? rules.partialDayPercent : 100)
+      - mealsProvided.reduce((sum, meal) => sum + rules.mealDeductionPercents[meal], 0);
+    return { date, partial, mealsProvided, amount: roundToCurrency(Math.max(0, rate.dailyRate * percent / 100), currency) };
+  });
+  const details: PerDiemDetails = {
+    rateId: rate.id,
+    destination: rate.destination,
+    dailyRate: rate.dailyRate,
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    rules,
+    days,
+  };
+  return { details, amount: roundToCurrency(days.reduce((sum, day) => sum + day.amount, 0), currency) };
+};
+
+export const describeMileage = (details: MileageDetails): string =>
+  `${details.from} → ${details.to}${details.roundTrip ? ' and back' : ''} (${getMileageDistance(details)} ${distanceUnitLabels[details.unit]}, ${details.vehicle})`;
+
+export const describeMileageRate = (rate: Pick<MileageRate, 'rate' | 'unit'>, currency: string): string =>
+  `${formatCurrency(rate.rate, currency)} per ${rate.unit === 'km' ? 'km' : 'mile'}`;
+
+export const describePerDiemDay = (day: PerDiemDay): string => [
+  day.partial ? 'partial day' : 'full day',
+  ...(day.mealsProvided.length > 0 ? [`${day.mealsProvided.map(meal => perDiemMealLabels[meal].toLowerCase()).join(', ')} provided`] : []),
+].join(', ');
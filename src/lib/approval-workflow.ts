@@ -0,0 +1,34 @@
+// src/lib/approval-workflow.ts
+import admin from 'firebase-admin';
+import type { ApprovalStep } from '@/types/approval';
+import type { Company } from '@/types/company';
+import type { UserProfile } from '@/types/user';
+import { getApprovalChain, resolveApprovalSteps, type ApprovalActor } from '@/lib/approvals';
+
+// The steps a company expense of this amount goes through, with approvers resolved against the current members.
+// Loaded before the transaction that starts the round, since it queries the company's users.
+export const loadApprovalSteps = async (
+  adminDb: admin.firestore.Firestore,
+  companyId: string,
+  submitterId: string,
+  baseAmount: number,
+): Promise<ApprovalStep[]> => {
+  const [companyDoc, membersSnapshot] = await Promise.all([
+    adminDb.collection('companies').doc(companyId).get(),
+    adminDb.collection('users').where('companyId', '==', companyId).get(),
+  ]);
+  if (!companyDoc.exists) throw new Error("Company not found.");
+  const company = companyDoc.data() as Company;
+  const members = membersSnapshot.docs
+    .filter(doc => company.members.includes(doc.id))
+    .map(doc => ({ uid: doc.id, role: (doc.data() as UserProfile).role }));
+  return resolveApprovalSteps(getApprovalChain(company), baseAmount, members, submitterId, company.ownerId);
+};
+
+// Server timestamps cannot be used inside arrays, so approval events are stamped with the server's clock
+export const toApprovalActor = (uid: string, profile: Pick<UserProfile, 'displayName' | 'email'> | undefined, comment: string | null): ApprovalActor => ({
+  actorId: uid,
+  actorName: profile?.displayName || profile?.email || null,
+  comment,
+  at: admin.firestore.Timestamp.now() as unknown as ApprovalActor['at'],
+});
@@ -0,0 +1,137 @@
+// src/lib/approvals.ts
+import type { ApprovalDecision, ApprovalEvent, ApprovalStep, ApprovalStepDefinition, ExpenseApproval } from '@/types/approval';
+import { DEFAULT_APPROVAL_CHAIN } from '@/types/approval';
+import type { Company } from '@/types/company';
+import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { UserRole } from '@/types/user';
+
+export const MAX_APPROVAL_STEPS = 5;
+export const MAX_APPROVAL_COMMENT_LENGTH = 1000;
+
+export const cleanApprovalComment = (comment: string | null | undefined): string | null => String(comment || '').trim() || null;
+
+export const getApprovalChain = (company: Pick<Company, 'approvalChain'> | null | undefined): ApprovalStepDefinition[] =>
+  company?.approvalChain?.length ? company.approvalChain : DEFAULT_APPROVAL_CHAIN;
+
+export interface ApprovalCandidate {
+  uid: string;
+  role?: UserRole | null;
+}
+
+// The steps of the chain that apply to an expense of this amount, with their approvers among the company's members.
+// Nobody approves their own expense. A step left without approvers falls to the company owner, or to the admins when
+// the owner submitted the expense; it fails when nobody else is left to approve it.
+export const resolveApprovalSteps = (
+  chain: ApprovalStepDefinition[],
+  baseAmount: number,
+  members: ApprovalCandidate[],
+  submitterId: string,
+  ownerId: string,
+): ApprovalStep[] => {
+  const others = members.filter(member => member.uid !== submitterId);
+  const fallbackIds = ownerId !== submitterId
+    ? [ownerId]
+    : others.filter(member => member.role === 'owner' || member.role === 'admin').map(member => member.uid);
+  return chain
+    .filter(step => step.minBaseAmount === null || baseAmount >= step.minBaseAmount)
+    .map(step => {
+      const approverIds = others
+        .filter(member => step.approverIds.includes(member.uid) || (!!member.role && step.approverRoles.includes(member.role)))
+        .map(member => member.uid);
+      if (approverIds.length === 0 && fallbackIds.length === 0) {
+        throw new Error(`Nobody but the submitter can approve the step "${step.name}". Ask an owner to add another approver or admin to it.`);
+      }
+      return { id: step.id, name: step.name, approverIds: approverIds.length > 0 ? approverIds : fallbackIds, decision: null };
+    });
+};
+
+export const getCurrentApprovalStep = (approval: ExpenseApproval | null | undefined): ApprovalStep | null =>
+  approval && approval.currentStep !== null ? approval.steps[approval.currentStep] ?? null : null;
+
+// The fields of an expense that follow from its approval
+export interface ApprovalState {
+  approval: ExpenseApproval;
+  status: ExpenseStatus;
+  pendingApproverIds: string[];
+}
+
+// Who did something and why; the round and step are filled in from the approval
+export type ApprovalActor = Pick<ApprovalEvent, 'actorId' | 'actorName' | 'comment' | 'at'>;
+
+const toApprovalState = (approval: ExpenseApproval, status: ExpenseStatus): ApprovalState => ({
+  approval,
+  status,
+  pendingApproverIds: getCurrentApprovalStep(approval)?.approverIds || [],
+});
+
+// Starts the next round with the given steps. An expense that no step applies to is approved straight away.
+export const startApprovalRound = (
+  previous: ExpenseApproval | null | undefined,
+  steps: ApprovalStep[],
+  submitter: ApprovalActor,
+): ApprovalState => {
+  const round = (previous?.round || 0) + 1;
+  const event: ApprovalEvent = { round, stepId: null, stepName: null, action: round === 1 ? 'submitted' : 'resubmitted', ...submitter };
+  const approval: ExpenseApproval = {
+    round,
+    steps,
+    currentStep: steps.length > 0 ? 0 : null,
+    rejectionReason: null,
+    history: [...(previous?.history || []), event],
+  };
+  return toApprovalState(approval, steps.length > 0 ? 'pending' : 'approved');
+};
+
+// Records a decision on the current step. Approving moves on to the next step, or approves the expense after the
+// last one; rejecting ends the round and sends the expense back to its submitter with the comment as the reason.
+export const decideApprovalStep = (approval: ExpenseApproval, decision: ApprovalDecision, actor: ApprovalActor): ApprovalState => {
+  const step = getCurrentApprovalStep(approval);
+  if (!step || approval.currentStep === null) throw new Error("This expense is not waiting for approval.");
+  const nextStep = decision === 'approved' && approval.currentStep + 1 < approval.steps.length ? approval.currentStep + 1 : null;
+  const updated: ExpenseApproval = {
+    ...approval,
+    steps: approval.steps.map((candidate, index) => index === approval.currentStep ? { ...candidate, decision } : candidate),
+    currentStep: nextStep,
+    rejectionReason: decision === 'rejected' ? actor.comment : null,
+    history: [...approval.history, { round: approval.round, stepId: step.id, stepName: step.name, action: decision, ...actor }],
+  };
+  return toApprovalState(updated, decision === 'rejected' ? 'rejected' : nextStep === null ? 'approved' : 'pending');
+};
+
+// Sends an approved expense back to its submitter, e.g. when a mistake turns up after approval. It ends up as if
+// rejected, with the comment as the reason, so the submitter can edit and resubmit it.
+export const reopenApproval = (approval: ExpenseApproval | null | undefined, actor: ApprovalActor): ApprovalState => {
+  const round = approval?.round || 1;
+  const updated: ExpenseApproval = {
+    round,
+    steps: approval?.steps || [],
+    currentStep: null,
+    rejectionReason: actor.comment,
+    history: [...(approval?.history || []), { round, stepId: null, stepName: null, action: 'reopened', ...actor }],
+  };
+  return toApprovalState(updated, 'rejected');
+};
+
+// Whether the user can decide the pending step of a company expense: its approvers can, and the company owner can
+// step in for anyone else's expense. Pending expenses saved before approval chains go to owners and admins.
+// Expenses in a report are decided with the report.
+export const canDecideExpense = (
+  expense: Pick<Expense, 'userId' | 'companyId' | 'status' | 'approval' | 'pendingApproverIds' | 'reportId'>,
+  user: { uid: string; companyId?: string | null; role?: UserRole | null },
+): boolean => {
+  if (!expense.companyId || expense.companyId !== user.companyId || expense.status !== 'pending' || expense.reportId) return false;
+  if (expense.pendingApproverIds?.includes(user.uid)) return true;
+  if (!expense.approval) return user.role === 'owner' || user.role === 'admin';
+  return user.role === 'owner' && expense.userId !== user.uid;
+};
+
+// Whether the user can reopen an approved company expense that was not paid back yet: owners and admins can, and so
+// can the approvers of its last round. Nobody reopens their own expense, and expenses in a report stay with the report.
+export const canReopenExpense = (
+  expense: Pick<Expense, 'userId' | 'companyId' | 'status' | 'approval' | 'reportId' | 'reimbursement'>,
+  user: { uid: string; companyId?: string | null; role?: UserRole | null },
+): boolean => {
+  if (!expense.companyId || expense.companyId !== user.companyId || expense.status !== 'approved') return false;
+  if (expense.reportId || expense.reimbursement || expense.userId === user.uid) return false;
+  return user.role === 'owner' || user.role === 'admin' || !!expense.approval?.steps.some(step => step.approverIds.includes(user.uid));
+};
@@ -0,0 +1,42 @@
+// src/lib/categories.ts
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { DEFAULT_EXPENSE_CATEGORIES, FALLBACK_CATEGORY_ID } from '@/types/category';
+
+// The company's categories, or the defaults for personal users and companies that have not defined any
+export const getCategoryList = (categories?: ExpenseCategoryDefinition[] | null): ExpenseCategoryDefinition[] =>
+  categories && categories.length > 0 ? categories : DEFAULT_EXPENSE_CATEGORIES;
+
+export const activeCategories = (categories: ExpenseCategoryDefinition[]): ExpenseCategoryDefinition[] =>
+  categories.filter(category => !category.archived);
+
+// Expenses saved before a company defined its own list still refer to the default IDs
+export const findCategory = (categories: ExpenseCategoryDefinition[], id: string): ExpenseCategoryDefinition | undefined =>
+  categories.find(category => category.id === id) || DEFAULT_EXPENSE_CATEGORIES.find(category => category.id === id);
+
+export const getCategoryName = (categories: ExpenseCategoryDefinition[], id: string): string =>
+  findCategory(categories, id)?.name || (id ? id.charAt(0).toUpperCase() + id.slice(1) : '');
+
+// Maps a suggested category (an ID, or a name from a model) to an active category of the list.
+// Unknown and archived suggestions become 'other' if the list has it, otherwise the first active category.
+export const resolveCategoryId = (categories: ExpenseCategoryDefinition[], suggested: string | null | undefined): string => {
+  const active = activeCategories(categories);
+  const value = (suggested || '').trim().toLowerCase();
+  const match = active.find(category => category.id === value || category.name.toLowerCase() === value);
+  if (match) return match.id;
+  return active.find(category => category.id === FALLBACK_CATEGORY_ID)?.id || active[0]?.id || FALLBACK_CATEGORY_ID;
+};
+
+// A stable ID for a new category, e.g. 'Client gifts' -> 'client-gifts', with a numeric suffix if it is taken
+export const createCategoryId = (name: string, existingIds: string[]): string => {
+  const base = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'category';
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
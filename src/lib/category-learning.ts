@@ -0,0 +1,96 @@
+// src/lib/category-learning.ts
+import admin from 'firebase-admin';
+import type { CategoryCorrection, CategorySuggestion } from '@/types/category-learning';
+import type { ExpenseCategory } from '@/types/expense';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { activeCategories } from '@/lib/categories';
+import { normalizeVendorName } from '@/lib/duplicate-detection';
+import { getReceiptExtractionProvider } from '@/ai/receipt-extraction';
+
+// Most recent corrections passed to the suggestion flow as examples
+const MAX_EXAMPLES = 20;
+const MAX_ITEM_NAMES = 10;
+
+export interface CategoryInput {
+  userId: string;
+  companyId: string | null;
+  vendor: string;
+  items: Array<{ name: string; netPrice?: number }>;
+}
+
+// Company corrections are shared by all members; personal ones only apply to the user's own expenses
+const correctionsScope = (adminDb: admin.firestore.Firestore, userId: string, companyId: string | null): admin.firestore.Query =>
+  companyId
+    ? adminDb.collection('categoryCorrections').where('companyId', '==', companyId)
+    : adminDb.collection('categoryCorrections').where('userId', '==', userId).where('companyId', '==', null);
+
+const createdAtMillis = (correction: CategoryCorrection): number =>
+  correction.createdAt instanceof admin.firestore.Timestamp ? correction.createdAt.toMillis() : 0;
+
+export const recordCategoryCorrection = async (
+  adminDb: admin.firestore.Firestore,
+  input: CategoryInput & { suggestedCategory: ExpenseCategory; category: ExpenseCategory },
+): Promise<void> => {
+  await adminDb.collection('categoryCorrections').add({
+    userId: input.userId,
+    companyId: input.companyId,
+    vendor: input.vendor,
+    vendorKey: normalizeVendorName(input.vendor),
+    itemNames: input.items.map(item => item.name).filter(Boolean).slice(0, MAX_ITEM_NAMES),
+    suggestedCategory: input.suggestedCategory,
+    category: input.category,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+// Suggests a category for a receipt from the corrections made in the same scope.
+// A vendor that was corrected before gets the category of its latest correction (the user's own first) without calling the model.
+// Next comes the default category of the vendor in the vendor directory. Otherwise the suggestion flow runs with recent corrections as examples. It is skipped when there are no corrections to learn from,
+// or when extraction runs without Gemini. Corrections to categories that were archived since are ignored.
+// Returns null when the extracted category should be kept.
+export const suggestCategory = async (
+  adminDb: admin.firestore.Firestore,
+  input: CategoryInput & { categories: ExpenseCategoryDefinition[]; vendorDefaultCategory?: ExpenseCategory | null },
+): Promise<CategorySuggestion | null> => {
+  const scope = correctionsScope(adminDb, input.userId, input.companyId);
+  const active = activeCategories(input.categories);
+  const isActive = (id: string) => active.some(category => category.id === id);
+
+  const vendorKey = normalizeVendorName(input.vendor);
+  if (vendorKey) {
+    const vendorSnapshot = await scope.where('vendorKey', '==', vendorKey).get();
+    const latest = vendorSnapshot.docs
+      .map(doc => doc.data() as CategoryCorrection)
+      .filter(correction => isActive(correction.category))
+      .sort((a, b) => Number(b.userId === input.userId) - Number(a.userId === input.userId) || createdAtMillis(b) - createdAtMillis(a))[0];
+    if (latest) {
+      return { category: latest.category, source: 'history', confidence: { level: 'high', source: 'inferred' } };
+    }
+  }
+
+  if (input.vendorDefaultCategory && isActive(input.vendorDefaultCategory)) {
+    return { category: input.vendorDefaultCategory, source: 'vendor', confidence: { level: 'high', source: 'inferred' } };
+  }
+
+  if (getReceiptExtractionProvider().name !== 'gemini') return null;
+  const recentSnapshot = await scope.orderBy('createdAt', 'desc').limit(MAX_EXAMPLES).get();
+  if (recentSnapshot.empty) return null;
+
+  try {
+    const { suggestExpenseCategory } = await import('@/ai/flows/suggest-expense-category');
+    const { category } = await suggestExpenseCategory({
+      companyName: input.vendor,
+      items: input.items.map(item => ({ name: item.name, price: Number(item.netPrice) || 0 })),
+      examples: recentSnapshot.docs
+        .map(doc => doc.data() as CategoryCorrection)
+        .filter(correction => isActive(correction.category))
+        .map(correction => ({ companyName: correction.vendor, items: correction.itemNames, category: correction.category })),
+      categories: active.map(({ id, name }) => ({ id, name })),
+    });
+    if (!isActive(category)) return null;
+    return { category, source: 'model', confidence: { level: 'medium', source: 'inferred' } };
+  } catch (error) {
+    console.error("suggestCategory: Suggestion flow failed, keeping the extracted category:", error);
+    return null;
+  }
+};
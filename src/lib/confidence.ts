@@ -0,0 +1,13 @@
+// src/lib/confidence.ts
+import type { FieldConfidence } from '@/types/confidence';
+
+// A value needs a reviewer's attention unless it was read from the receipt with high confidence
+export const needsReview = (confidence?: FieldConfidence | null): boolean =>
+  !!confidence && (confidence.source === 'inferred' || confidence.level !== 'high');
+
+export const describeConfidence = (confidence: FieldConfidence): string => {
+  if (confidence.source === 'inferred') {
+    return confidence.level === 'low' ? 'Guessed' : 'Inferred';
+  }
+  return confidence.level === 'low' ? 'Low confidence' : 'Check';
+};
@@ -0,0 +1,47 @@
+// src/lib/currency.ts
+import type { Expense } from '@/types/expense';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+
+const fractionDigitsCache = new Map<string, number>();
+
+// Number of minor-unit digits for a currency (e.g. 2 for EUR, 0 for JPY)
+export const getCurrencyFractionDigits = (currency: string): number => {
+  if (!fractionDigitsCache.has(currency)) {
+    let digits = 2;
+    try {
+      digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch (e) {/* unknown currency code, assume 2 */ }
+    fractionDigitsCache.set(currency, digits);
+  }
+  return fractionDigitsCache.get(currency)!;
+};
+
+export const roundToCurrency = (amount: number, currency: string): number => {
+  const factor = 10 ** getCurrencyFractionDigits(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+export const formatCurrency = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch (e) {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Expenses saved before multi-currency support have no currency fields; they were recorded in the default currency.
+export const getExpenseCurrency = (expense: Pick<Expense, 'currency'>): string => expense.currency || DEFAULT_BASE_CURRENCY;
+
+export const getExpenseBaseCurrency = (expense: Pick<Expense, 'baseCurrency' | 'currency'>): string =>
+  expense.baseCurrency || getExpenseCurrency(expense);
+
+export const getExpenseBaseAmount = (expense: Pick<Expense, 'baseAmount' | 'totalAmount'>): number =>
+  typeof expense.baseAmount === 'number' ? expense.baseAmount : expense.totalAmount;
+
+// Sums expenses in their base currencies. Returns one total per base currency, since a company may change its base currency over time.
+export const sumByBaseCurrency = (expenses: Expense[]): Record<string, number> =>
+  expenses.reduce((totals: Record<string, number>, expense) => {
+    const currency = getExpenseBaseCurrency(expense);
+    totals[currency] = (totals[currency] || 0) + getExpenseBaseAmount(expense);
+    return totals;
+  }, {});
@@ -0,0 +1,11 @@
+// src/lib/data-uri.ts
+
+export const parseDataUri = (dataUri: string): { contentType: string; data: Buffer } => {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUri);
+  if (!match) {
+    throw new Error("Receipt file must be a base64 data URI.");
+  }
+  return { contentType: match[1], data: Buffer.from(match[2], 'base64') };
+};
+
+export const toDataUri = (contentType: string, data: Buffer): string => `data:${contentType};base64,${data.toString('base64')}`;
@@ -0,0 +1,119 @@
+// src/lib/dimensions.ts
+import type { Company } from '@/types/company';
+import type { Expense, ExpenseFormData } from '@/types/expense';
+import type { ExpenseSplit } from '@/types/allocation';
+import type { DimensionKind, DimensionValue, ExpenseDimensions, ExpenseFilters } from '@/types/dimension';
+import { dimensionKinds } from '@/types/dimension';
+import { roundToCurrency } from '@/lib/currency';
+
+export const MAX_DIMENSION_VALUES = 500; // Per kind
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_MARKUP_PERCENT = 100;
+
+export const dimensionLabels: Record<DimensionKind, string> = { project: 'Project', client: 'Client', costCenter: 'Cost center' };
+
+// Where each kind's values are kept on the company, and its ID on an expense
+export const companyDimensionFields: Record<DimensionKind, 'projects' | 'clients' | 'costCenters'> = { project: 'projects', client: 'clients', costCenter: 'costCenters' };
+export const expenseDimensionFields: Record<DimensionKind, 'projectId' | 'clientId' | 'costCenterId'> = { project: 'projectId', client: 'clientId', costCenter: 'costCenterId' };
+
+export const getDimensionValues = (company: Partial<Pick<Company, 'projects' | 'clients' | 'costCenters'>> | null | undefined, kind: DimensionKind): DimensionValue[] =>
+  company?.[companyDimensionFields[kind]] || [];
+
+export const activeDimensionValues = (values: DimensionValue[]): DimensionValue[] =>
+  values.filter(value => !value.archived);
+
+export const getDimensionName = (values: DimensionValue[], id: string): string =>
+  values.find(value => value.id === id)?.name || id;
+
+// Tags are compared case-insensitively, so they are stored lowercase with single spaces
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const parseTags = (text: string): string[] => text.split(',').map(normalizeTag).filter(Boolean);
+
+// What a billable expense is rebilled at, in its base currency
+export const getBillableAmount = (baseAmount: number, markupPercent: number, currency: string): number =>
+  roundToCurrency(baseAmount * (1 + markupPercent / 100), currency);
+
+// Checks submitted dimensions against the company's values. Archived values can only stay on an expense that already
+// has them. A project's client is filled in when none was picked.
+// Split shares can charge parts of an expense without a project to other projects; on an expense with a project they can
+// only name that project. The projects of the shares have to be billed to the expense's client, which is filled in when
+// they all share one.
+export const resolveExpenseDimensions = (
+  data: Pick<ExpenseFormData, 'projectId' | 'clientId' | 'costCenterId' | 'tags' | 'billable' | 'markupPercent'>
+    & { split?: ExpenseSplit | null; items?: Array<{ split?: ExpenseSplit | null }> },
+  company: Pick<Company, 'projects' | 'clients' | 'costCenters' | 'defaultMarkupPercent'> | null,
+  current?: (Partial<ExpenseDimensions> & Pick<Expense, 'allocations'>) | null,
+): { dimensions: ExpenseDimensions & { billable: boolean; markupPercent: number | null } } | { error: string } => {
+  const dimensions: ExpenseDimensions = { projectId: null, clientId: null, costCenterId: null, tags: [] };
+  for (const kind of dimensionKinds) {
+    const field = expenseDimensionFields[kind];
+    const id = data[field] || null;
+    if (!id) continue;
+    const value = getDimensionValues(company, kind).find(candidate => candidate.id === id);
+    const label = dimensionLabels[kind].toLowerCase();
+    if (!value) return { error: `Unknown ${label} "${id}". Please pick another ${label}.` };
+    if (value.archived && current?.[field] !== id) return { error: `The ${label} "${value.name}" is archived. Please pick another ${label}.` };
+    dimensions[field] = id;
+  }
+
+  const projects = getDimensionValues(company, 'project');
+  const project = dimensions.projectId ? projects.find(value => value.id === dimensions.projectId) : null;
+  if (project?.clientId) {
+    if (!dimensions.clientId) {
+      dimensions.clientId = project.clientId;
+    } else if (dimensions.clientId !== project.clientId) {
+      return { error: `The project "${project.name}" is billed to ${getDimensionName(getDimensionValues(company, 'client'), project.clientId)}. Please pick that client.` };
+    }
+  }
+
+  const shareProjectIds = Array.from(new Set([data.split, ...(data.items || []).map(item => item.split)]
+    .flatMap(split => (split?.shares || []).map(share => share.projectId))
+    .filter((id): id is string => !!id)));
+  const currentProjectIds = [current?.projectId, ...(current?.allocations || []).map(allocation => allocation.projectId)];
+  const shareClientIds = new Set<string>();
+  for (const id of shareProjectIds) {
+    const shareProject = projects.find(candidate => candidate.id === id);
+    if (!shareProject) return { error: `Unknown project "${id}" in a split. Please pick another project.` };
+    if (shareProject.archived && !currentProjectIds.includes(id)) return { error: `The project "${shareProject.name}" in a split is archived. Please pick another project.` };
+    if (project && id !== project.id) return { error: `The expense is charged to the project "${project.name}", so its splits cannot name "${shareProject.name}". Remove the expense's project to split it across projects.` };
+    if (!shareProject.clientId) continue;
+    if (dimensions.clientId && dimensions.clientId !== shareProject.clientId) {
+      return { error: `The project "${shareProject.name}" in a split is billed to ${getDimensionName(getDimensionValues(company, 'client'), shareProject.clientId)}, not the expense's client.` };
+    }
+    shareClientIds.add(shareProject.clientId);
+  }
+  if (shareClientIds.size > 1) return { error: 'The projects in the splits are billed to different clients. Please save a separate expense per client.' };
+  if (!dimensions.clientId && shareClientIds.size === 1) dimensions.clientId = Array.from(shareClientIds)[0];
+
+  const tags = Array.from(new Set((data.tags || []).map(tag => normalizeTag(String(tag))).filter(Boolean)));
+  if (tags.length > MAX_TAGS) return { error: `An expense can have at most ${MAX_TAGS} tags.` };
+  const longTag = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (longTag) return { error: `The tag "${longTag}" is longer than ${MAX_TAG_LENGTH} characters.` };
+  dimensions.tags = tags;
+
+  const billable = Boolean(data.billable);
+  const markup = data.markupPercent === null || data.markupPercent === undefined || data.markupPercent === ''
+    ? company?.defaultMarkupPercent || 0
+    : Number(data.markupPercent);
+  if (billable && (!Number.isFinite(markup) || markup < 0 || markup > MAX_MARKUP_PERCENT)) {
+    return { error: `The markup has to be between 0 and ${MAX_MARKUP_PERCENT}%.` };
+  }
+  return { dimensions: { ...dimensions, billable, markupPercent: billable ? markup : null } };
+};
+
+// A project filter also matches expenses that charge part of their amount to the project through a split
+export const matchesExpenseFilters = (expense: Pick<Expense, 'projectId' | 'clientId' | 'costCenterId' | 'tags' | 'billable' | 'allocations'>, filters: ExpenseFilters): boolean =>
+  dimensionKinds.every(kind => !filters[expenseDimensionFields[kind]] || expense[expenseDimensionFields[kind]] === filters[expenseDimensionFields[kind]]
+    || (kind === 'project' && (expense.allocations || []).some(allocation => allocation.projectId === filters.projectId)))
+  && (!filters.tag || (expense.tags || []).includes(normalizeTag(filters.tag)))
+  && (filters.billable === null || filters.billable === undefined || Boolean(expense.billable) === filters.billable);
+
+// e.g. ['Project: Website relaunch', 'Client: Acme', 'Tags: offsite, q3'], for the dimensions an expense has
+export const describeExpenseDimensions = (expense: Pick<Expense, 'projectId' | 'clientId' | 'costCenterId' | 'tags'>, values: Record<DimensionKind, DimensionValue[]> | null): string[] => [
+  ...dimensionKinds
+    .filter(kind => !!expense[expenseDimensionFields[kind]])
+    .map(kind => `${dimensionLabels[kind]}: ${getDimensionName(values?.[kind] || [], expense[expenseDimensionFields[kind]]!)}`),
+  ...(expense.tags?.length ? [`Tags: ${expense.tags.join(', ')}`] : []),
+];
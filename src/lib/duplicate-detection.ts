@@ -0,0 +1,133 @@
+// src/lib/duplicate-detection.ts
+import type { DuplicateReason } from '@/types/duplicate';
+import { getCurrencyFractionDigits } from '@/lib/currency';
+
+// Existing expenses this many days before or after the new one are compared
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+// Maximum number of differing bits (of 64) for two receipt photos to count as the same receipt
+const PERCEPTUAL_HASH_MAX_DISTANCE = 8;
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const ITEMS_SIMILARITY_THRESHOLD = 0.6;
+// Converted amounts may differ slightly when two people saved the same receipt on different days
+const BASE_AMOUNT_TOLERANCE = 0.01;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface DuplicateCheckInput {
+  company: string;
+  expenseDate: Date;
+  totalAmount: number;
+  currency: string;
+  baseAmount: number;
+  items: Array<{ name: string }>;
+  contentHash?: string | null;
+  perceptualHash?: string | null;
+}
+
+// Lowercases and drops punctuation and legal suffixes, so 'Starbucks Coffee Co.' and 'STARBUCKS COFFEE' compare equal
+export const normalizeVendorName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^0-9a-z\u00c0-\uffff]+/g, ' ')
+    .replace(/\b(inc|ltd|llc|co|corp|gmbh|plc|limited|company)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s/g, '');
+  if (compact.length < 2) return compact ? [compact] : [];
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+// Dice coefficient on character bigrams (0..1). Tolerates OCR slips like 'Starbuck5' vs 'Starbucks'.
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeVendorName(a);
+  const right = normalizeVendorName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const remaining = new Map<string, number>();
+  rightBigrams.forEach(bigram => remaining.set(bigram, (remaining.get(bigram) || 0) + 1));
+  let shared = 0;
+  leftBigrams.forEach(bigram => {
+    const count = remaining.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(bigram, count - 1);
+    }
+  });
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+};
+
+// Share of line items that have a close match in the other list (0..1)
+export const itemsSimilarity = (a: Array<{ name: string }>, b: Array<{ name: string }>): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const unmatched = [...b];
+  let matched = 0;
+  a.forEach(item => {
+    const index = unmatched.findIndex(other => textSimilarity(item.name, other.name) >= NAME_SIMILARITY_THRESHOLD);
+    if (index >= 0) {
+      matched++;
+      unmatched.splice(index, 1);
+    }
+  });
+  return matched / Math.max(a.length, b.length);
+};
+
+// Number of differing bits between two hex-encoded hashes of equal length
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const amountsMatch = (a: DuplicateCheckInput, b: DuplicateCheckInput): boolean => {
+  if (a.currency === b.currency) {
+    return Math.abs(a.totalAmount - b.totalAmount) < 10 ** -getCurrencyFractionDigits(a.currency) / 2 + 1e-9;
+  }
+  const larger = Math.max(Math.abs(a.baseAmount), Math.abs(b.baseAmount));
+  return larger > 0 && Math.abs(a.baseAmount - b.baseAmount) <= larger * BASE_AMOUNT_TOLERANCE;
+};
+
+const dayDifference = (a: Date, b: Date): number =>
+  Math.abs(Math.round((Date.UTC(a.getUTCFullYear(), a.getUTCMonth(), a.getUTCDate()) - Date.UTC(b.getUTCFullYear(), b.getUTCMonth(), b.getUTCDate())) / MS_PER_DAY));
+
+// Returns why `existing` looks like the same receipt as `candidate`, or null if it does not.
+// The same amount at the same vendor on different days is common (a daily coffee), so data matches alone require the same day,
+// or an adjacent day (a misread or time-zone shifted date) when the line items match as well.
+// Receipts printed from the same template hash alike at this resolution, so a similar image also needs the same amount.
+export const findDuplicateReasons = (candidate: DuplicateCheckInput, existing: DuplicateCheckInput): DuplicateReason[] | null => {
+  if (candidate.contentHash && candidate.contentHash === existing.contentHash) {
+    return ['same_file'];
+  }
+
+  const reasons: DuplicateReason[] = [];
+  const similarImage = !!candidate.perceptualHash && !!existing.perceptualHash
+    && hammingDistance(candidate.perceptualHash, existing.perceptualHash) <= PERCEPTUAL_HASH_MAX_DISTANCE;
+  if (similarImage) reasons.push('similar_image');
+
+  const sameVendor = textSimilarity(candidate.company, existing.company) >= NAME_SIMILARITY_THRESHOLD;
+  const days = dayDifference(candidate.expenseDate, existing.expenseDate);
+  const sameAmount = amountsMatch(candidate, existing);
+  const similarItems = itemsSimilarity(candidate.items, existing.items) >= ITEMS_SIMILARITY_THRESHOLD;
+  if (sameVendor) reasons.push('same_vendor');
+  if (days === 0) reasons.push('same_date');
+  if (sameAmount) reasons.push('same_amount');
+  if (similarItems) reasons.push('similar_items');
+
+  const dataMatch = sameAmount && (
+    (days === 0 && (sameVendor || similarItems)) ||
+    (days <= 1 && sameVendor && similarItems)
+  );
+  return (similarImage && sameAmount) || dataMatch ? reasons : null;
+};
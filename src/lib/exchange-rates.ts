@@ -0,0 +1,76 @@
+// src/lib/exchange-rates.ts
+import type { ExchangeRateSourceName } from '@/types/currency';
+import { exchangeRateSources } from '@/types/currency';
+
+export interface ExchangeRateSource {
+  name: ExchangeRateSourceName;
+  currencies: readonly string[]; // Currencies the source can quote
+  // Returns how many units of `to` one unit of `from` buys on the given date
+  getRate: (from: string, to: string, date: Date) => Promise<number>;
+}
+
+// Offline table of units per 1 USD. Used for tests and development without network access; not suitable for real conversions.
+const STATIC_RATES_PER_USD: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  HKD: 7.8,
+  CNY: 7.2,
+  TWD: 32,
+  SGD: 1.35,
+  AUD: 1.52,
+  CAD: 1.36,
+  CHF: 0.88,
+  KRW: 1350,
+  THB: 36,
+  MYR: 4.7,
+};
+
+export const staticExchangeRateSource: ExchangeRateSource = {
+  name: 'static',
+  currencies: Object.keys(STATIC_RATES_PER_USD),
+  getRate: async (from, to) => {
+    if (from === to) return 1;
+    const fromRate = STATIC_RATES_PER_USD[from];
+    const toRate = STATIC_RATES_PER_USD[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No static exchange rate for ${from} -> ${to}.`);
+    }
+    return toRate / fromRate;
+  },
+};
+
+// The supported currencies the ECB publishes reference rates for. It has none for TWD.
+const FRANKFURTER_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'HKD', 'CNY', 'SGD', 'AUD', 'CAD', 'CHF', 'KRW', 'THB', 'MYR'];
+
+// ECB reference rates via the Frankfurter API (https://www.frankfurter.app)
+export const frankfurterExchangeRateSource: ExchangeRateSource = {
+  name: 'frankfurter',
+  currencies: FRANKFURTER_CURRENCIES,
+  getRate: async (from, to, date) => {
+    if (from === to) return 1;
+    const day = date.toISOString().split('T')[0];
+    const baseUrl = process.env.FRANKFURTER_API_URL || 'https://api.frankfurter.app';
+    const response = await fetch(`${baseUrl}/${day}?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+    if (!response.ok) {
+      throw new Error(`Exchange rate request failed (${response.status}) for ${from} -> ${to} on ${day}.`);
+    }
+    const body = await response.json() as { rates?: Record<string, number> };
+    const rate = body.rates?.[to];
+    if (typeof rate !== 'number') {
+      throw new Error(`Exchange rate for ${from} -> ${to} on ${day} not available.`);
+    }
+    return rate;
+  },
+};
+
+export const getExchangeRateSource = (name: string | undefined = process.env.EXCHANGE_RATE_SOURCE): ExchangeRateSource => {
+  const sourceName = name && exchangeRateSources.includes(name as ExchangeRateSourceName) ? name as ExchangeRateSourceName : 'frankfurter';
+  return sourceName === 'static' ? staticExchangeRateSource : frankfurterExchangeRateSource;
+};
+
+// The source to convert between two currencies with: the configured one, or the static table when it cannot quote
+// either currency (e.g. TWD with ECB rates). Expenses record the name of the source that was used.
+export const getExchangeRateSourceFor = (from: string, to: string, source: ExchangeRateSource = getExchangeRateSource()): ExchangeRateSource =>
+  source.currencies.includes(from) && source.currencies.includes(to) ? source : staticExchangeRateSource;
@@ -0,0 +1,127 @@
+// src/lib/expense-allocations.ts
+import type { Expense, ExpenseCategory } from '@/types/expense';
+import type { ExpenseAllocation, ExpenseSplit, SplitMode } from '@/types/allocation';
+import { splitModes } from '@/types/allocation';
+import { formatCurrency, getCurrencyFractionDigits, getExpenseBaseAmount, getExpenseBaseCurrency, roundToCurrency } from '@/lib/currency';
+
+interface AllocationPart {
+  category: ExpenseCategory;
+  projectId: string | null;
+  weight: number;
+}
+
+export interface AllocationInput {
+  category: ExpenseCategory;
+  split?: ExpenseSplit | null;
+  items: Array<{ netPrice: number; category?: ExpenseCategory | null; split?: ExpenseSplit | null }>;
+  totalAmount: number;
+  currency: string;
+  baseAmount: number;
+  baseCurrency: string;
+}
+
+const sumValues = (values: number[]): number => values.reduce((sum, value) => sum + value, 0);
+
+// Cleans a split from form input: numeric values, no empty project IDs and no shares without a category. Null if nothing is left.
+export const normalizeSplit = (split: { mode: string; shares: Array<{ category: string; projectId?: string | null; value: number | string }> } | null | undefined): ExpenseSplit | null => {
+  if (!split) return null;
+  const shares = (split.shares || [])
+    .filter(share => share.category)
+    .map(share => ({ category: share.category, projectId: String(share.projectId || '').trim() || null, value: Number(share.value) || 0 }));
+  if (shares.length === 0) return null;
+  return { mode: splitModes.includes(split.mode as SplitMode) ? split.mode as SplitMode : 'percentage', shares };
+};
+
+// Divides `total` in proportion to the weights, rounded to the currency. The rounding remainder goes to the largest share,
+// so the shares always add up to the total.
+export const distributeAmount = (total: number, weights: number[], currency: string): number[] => {
+  if (weights.length === 0) return [];
+  const weightSum = sumValues(weights);
+  if (weightSum === 0) return weights.map((_, index) => (index === 0 ? roundToCurrency(total, currency) : 0));
+  const shares = weights.map(weight => roundToCurrency((total * weight) / weightSum, currency));
+  const largest = weights.reduce((best, weight, index) => (Math.abs(weight) > Math.abs(weights[best]) ? index : best), 0);
+  shares[largest] = roundToCurrency(shares[largest] + total - sumValues(shares), currency);
+  return shares;
+};
+
+// Checks that a split can divide `amount`: at least one share, each with a category, and values adding up to 100% or the amount
+export const validateSplit = (split: ExpenseSplit, amount: number, currency: string): string | null => {
+  if (split.shares.length === 0) return 'A split needs at least one share.';
+  if (split.shares.some(share => !share.category)) return 'Every share of a split needs a category.';
+  if (split.shares.some(share => !Number.isFinite(share.value) || share.value < 0)) return 'Split shares cannot be negative.';
+  const total = sumValues(split.shares.map(share => share.value));
+  if (split.mode === 'percentage') {
+    return Math.abs(total - 100) < 0.01 ? null : `The split percentages add up to ${Number(total.toFixed(2))}%, not 100%.`;
+  }
+  // Each share can be off by half a minor unit after rounding
+  const minorUnit = 10 ** -getCurrencyFractionDigits(currency);
+  const tolerance = Math.max(minorUnit, minorUnit * 0.5 * split.shares.length);
+  return Math.abs(total - amount) <= tolerance + 1e-9
+    ? null
+    : `The split amounts add up to ${formatCurrency(total, currency)}, not ${formatCurrency(amount, currency)}.`;
+};
+
+const splitParts = (split: ExpenseSplit, weight: number): AllocationPart[] => {
+  const total = sumValues(split.shares.map(share => share.value));
+  return split.shares.map(share => ({
+    category: share.category,
+    projectId: share.projectId || null,
+    weight: total === 0 ? 0 : (weight * share.value) / total,
+  }));
+};
+
+// Computes what the expense charges to each category and project. An expense-level split wins over the items.
+// Otherwise each item goes to its split, its own category or the header category, and the total (with taxes, charges
+// and discounts) is spread over them in proportion to the item prices. Without priced items everything goes to the header category.
+export const computeAllocations = (input: AllocationInput): ExpenseAllocation[] => {
+  let parts: AllocationPart[];
+  if (input.split && input.split.shares.length > 0) {
+    parts = splitParts(input.split, 1);
+  } else if (sumValues(input.items.map(item => item.netPrice)) > 0) {
+    parts = input.items.flatMap(item => item.split && item.split.shares.length > 0
+      ? splitParts(item.split, item.netPrice)
+      : [{ category: item.category || input.category, projectId: null, weight: item.netPrice }]);
+  } else {
+    parts = [{ category: input.category, projectId: null, weight: 1 }];
+  }
+
+  const merged: AllocationPart[] = [];
+  parts.forEach(part => {
+    const existing = merged.find(candidate => candidate.category === part.category && candidate.projectId === part.projectId);
+    if (existing) existing.weight += part.weight;
+    else merged.push({ ...part });
+  });
+  const allocated = merged.filter(part => part.weight !== 0);
+  if (allocated.length === 0) allocated.push({ category: input.category, projectId: null, weight: 1 });
+
+  const amounts = distributeAmount(input.totalAmount, allocated.map(part => part.weight), input.currency);
+  const baseAmounts = distributeAmount(input.baseAmount, allocated.map(part => part.weight), input.baseCurrency);
+  return allocated.map((part, index) => ({
+    category: part.category,
+    projectId: part.projectId,
+    amount: amounts[index],
+    baseAmount: baseAmounts[index],
+  }));
+};
+
+// The stored allocations, or the whole expense in its header category for expenses saved before splits.
+// Allocations saved with free-text project labels, before shares referenced company projects, have no project.
+export const getExpenseAllocations = (expense: Expense): ExpenseAllocation[] =>
+  expense.allocations && expense.allocations.length > 0
+    ? expense.allocations.map(allocation => ({ ...allocation, projectId: allocation.projectId ?? null }))
+    : [{ category: expense.category, projectId: null, amount: expense.totalAmount, baseAmount: getExpenseBaseAmount(expense) }];
+
+// Whether the expense charges anything other than its header category
+export const isSplitExpense = (expense: Expense): boolean =>
+  getExpenseAllocations(expense).some(allocation => allocation.category !== expense.category || allocation.projectId);
+
+// Totals per category in each base currency, from the allocations rather than the header categories
+export const sumAllocationsByCategory = (expenses: Expense[]): Record<ExpenseCategory, Record<string, number>> =>
+  expenses.reduce((totals: Record<ExpenseCategory, Record<string, number>>, expense) => {
+    const currency = getExpenseBaseCurrency(expense);
+    getExpenseAllocations(expense).forEach(allocation => {
+      totals[allocation.category] = totals[allocation.category] || {};
+      totals[allocation.category][currency] = (totals[allocation.category][currency] || 0) + allocation.baseAmount;
+    });
+    return totals;
+  }, {});
@@ -0,0 +1,136 @@
+// src/lib/expense-policies.ts
+import type { ExpenseCategory, ExpenseKind } from '@/types/expense';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import type { ExpensePolicy, PolicyAction, PolicyType, PolicyViolation } from '@/types/policy';
+import { getCategoryName } from '@/lib/categories';
+import { formatCurrency, roundToCurrency } from '@/lib/currency';
+
+export const MAX_POLICIES = 20;
+export const MAX_POLICY_JUSTIFICATION_LENGTH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const policyTypeLabels: Record<PolicyType, string> = {
+  category_daily_limit: 'Daily limit per category',
+  receipt_required: 'Receipt required',
+  no_weekend: 'No weekend expenses',
+  submission_deadline: 'Submission deadline',
+};
+
+export const policyActionLabels: Record<PolicyAction, string> = {
+  warn: 'Warn',
+  justify: 'Require justification',
+  block: 'Block',
+};
+
+export const cleanPolicyJustification = (justification: string | null | undefined): string | null =>
+  String(justification || '').trim() || null;
+
+// What the policies are checked against, in the company's base currency
+export interface PolicyCheckInput {
+  allocations: Array<{ category: ExpenseCategory; baseAmount: number }>;
+  baseAmount: number;
+  baseCurrency: string;
+  expenseDay: string; // Calendar date (YYYY-MM-DD) of the expense in the submitter's timezone
+  submittedDay: string; // The submitter's calendar date when the expense was first saved
+  kind: ExpenseKind; // Mileage and per diems are claimed without a receipt, so receipt_required does not apply
+  hasReceipt: boolean;
+  sameDayTotals: Record<ExpenseCategory, number>; // The submitter's other expenses on the same calendar day, per category
+}
+
+const appliesTo = (policy: ExpensePolicy, category: ExpenseCategory): boolean =>
+  policy.categories.length === 0 || policy.categories.includes(category);
+
+const isWeekend = (calendarDate: string): boolean => {
+  const day = new Date(`${calendarDate}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+// The messages of the policy for this expense, one per broken rule; empty if the expense complies
+const checkPolicy = (policy: ExpensePolicy, input: PolicyCheckInput, categories: ExpenseCategoryDefinition[]): string[] => {
+  const { expenseDay } = input;
+  const format = (amount: number) => formatCurrency(amount, input.baseCurrency);
+  const usedCategories = Array.from(new Set(input.allocations.map(allocation => allocation.category))).filter(category => appliesTo(policy, category));
+
+  switch (policy.type) {
+    case 'category_daily_limit': {
+      if (policy.amount === null) return [];
+      return usedCategories.flatMap(category => {
+        const own = input.allocations.filter(allocation => allocation.category === category).reduce((sum, allocation) => sum + allocation.baseAmount, 0);
+        const total = roundToCurrency(own + (input.sameDayTotals[category] || 0), input.baseCurrency);
+        return total > policy.amount!
+          ? [`${getCategoryName(categories, category)} spending on ${expenseDay} adds up to ${format(total)}, over the daily limit of ${format(policy.amount!)}.`]
+          : [];
+      });
+    }
+    case 'receipt_required':
+      return policy.amount !== null && input.kind === 'receipt' && !input.hasReceipt && input.baseAmount > policy.amount
+        ? [`Expenses over ${format(policy.amount)} need a receipt image.`]
+        : [];
+    case 'no_weekend':
+      return isWeekend(expenseDay)
+        ? usedCategories.map(category => `${getCategoryName(categories, category)} expenses are not allowed on weekends.`)
+        : [];
+    case 'submission_deadline': {
+      if (policy.days === null) return [];
+      const days = Math.round((Date.parse(input.submittedDay) - Date.parse(expenseDay)) / DAY_MS);
+      return days > policy.days
+        ? [`Submitted ${days} days after the expense date; expenses are due within ${policy.days} days.`]
+        : [];
+    }
+    default:
+      return [];
+  }
+};
+
+// The policies the expense breaks, in the order the company lists them
+export const evaluatePolicies = (policies: ExpensePolicy[], input: PolicyCheckInput, categories: ExpenseCategoryDefinition[]): PolicyViolation[] =>
+  policies.flatMap(policy => checkPolicy(policy, input, categories).map(message => ({
+    policyId: policy.id,
+    policyName: policy.name,
+    type: policy.type,
+    action: policy.action,
+    message,
+  })));
+
+// Why the expense cannot be saved with these violations, or null if it can. Warnings never stop it.
+export const getPolicyError = (violations: PolicyViolation[], justification: string | null | undefined): string | null => {
+  const blocking = violations.find(violation => violation.action === 'block');
+  if (blocking) return `This expense breaks the "${blocking.policyName}" policy: ${blocking.message}`;
+  if (violations.some(violation => violation.action === 'justify') && !cleanPolicyJustification(justification)) {
+    return "This expense breaks company policy. Please explain why it is needed before saving.";
+  }
+  return null;
+};
+
+// The violation that stops an approval, or null if there is none: a blocking policy, or one that needs a justification
+// the submitter has not given. Only the submitter can add that, so the approver has to reject the expense first.
+export const findApprovalPolicyBlocker = (violations: PolicyViolation[], justification: string | null | undefined): PolicyViolation | null =>
+  violations.find(violation => violation.action === 'block')
+  || (cleanPolicyJustification(justification) ? null : violations.find(violation => violation.action === 'justify') || null);
+
+// Why an approval is refused for the violation, e.g. "breaks the "Meals" policy and cannot be approved: ..."
+export const describeApprovalPolicyBlocker = (blocker: PolicyViolation): string =>
+  blocker.action === 'block'
+    ? `breaks the "${blocker.policyName}" policy and cannot be approved: ${blocker.message}`
+    : `breaks the "${blocker.policyName}" policy and needs a justification from the submitter before it can be approved: ${blocker.message}`;
+
+// One line summary of a policy for the settings page, e.g. "Meals, Travel: at most $100.00 per day"
+export const describePolicy = (policy: ExpensePolicy, categories: ExpenseCategoryDefinition[], baseCurrency: string): string => {
+  const scope = policy.categories.length > 0
+    ? policy.categories.map(category => getCategoryName(categories, category)).join(', ')
+    : 'All categories';
+  const amount = policy.amount !== null ? formatCurrency(policy.amount, baseCurrency) : '';
+  switch (policy.type) {
+    case 'category_daily_limit':
+      return `${scope}: at most ${amount} per day`;
+    case 'receipt_required':
+      return `Receipt image required over ${amount}`;
+    case 'no_weekend':
+      return `${scope}: not on Saturdays or Sundays`;
+    case 'submission_deadline':
+      return `Submit within ${policy.days} days of the expense date`;
+    default:
+      return policy.name;
+  }
+};
@@ -0,0 +1,91 @@
+// src/lib/expense-records.ts
+import admin from 'firebase-admin';
+import type { Expense } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import type { PayoutBatch } from '@/types/reimbursement';
+import type { RecurringDraft, RecurringExpense } from '@/types/recurring';
+import type { UserProfile } from '@/types/user';
+import type { RevisionFieldChange } from '@/types/revision';
+
+const toDate = (value: any) => value instanceof admin.firestore.Timestamp ? value.toDate() : new Date(value);
+
+const serializeApproval = (approval: admin.firestore.DocumentData | null | undefined) => approval
+  ? { ...approval, history: (approval.history || []).map((event: any) => ({ ...event, at: toDate(event.at) })) }
+  : null;
+
+// Converts the Timestamps of an expense document to Dates, so it can be returned to the client
+export const serializeExpense = (id: string, data: admin.firestore.DocumentData, withRawOutput: boolean): Expense => {
+  const provenance = data.provenance
+    ? { ...data.provenance, extractedAt: toDate(data.provenance.extractedAt), rawOutput: withRawOutput ? data.provenance.rawOutput : {} }
+    : null;
+  return {
+    id,
+    ...data,
+    expenseDate: toDate(data.expenseDate),
+    createdAt: toDate(data.createdAt),
+    ...(data.updatedAt ? { updatedAt: toDate(data.updatedAt) } : {}),
+    provenance,
+    approval: serializeApproval(data.approval),
+    reimbursement: data.reimbursement ? { ...data.reimbursement, paidAt: toDate(data.reimbursement.paidAt) } : null,
+  } as unknown as Expense;
+};
+
+// Same for expense reports
+export const serializeExpenseReport = (id: string, data: admin.firestore.DocumentData): ExpenseReport => ({
+  id,
+  ...data,
+  startDate: toDate(data.startDate),
+  endDate: toDate(data.endDate),
+  createdAt: toDate(data.createdAt),
+  ...(data.updatedAt ? { updatedAt: toDate(data.updatedAt) } : {}),
+  submittedAt: data.submittedAt ? toDate(data.submittedAt) : null,
+  reimbursedAt: data.reimbursedAt ? toDate(data.reimbursedAt) : null,
+  approval: serializeApproval(data.approval),
+} as unknown as ExpenseReport);
+
+// Same for payout batches
+export const serializePayoutBatch = (id: string, data: admin.firestore.DocumentData): PayoutBatch => ({
+  id,
+  ...data,
+  paidAt: toDate(data.paidAt),
+  createdAt: toDate(data.createdAt),
+} as unknown as PayoutBatch);
+
+// Same for recurring expenses and their drafts; their due dates are calendar date strings already
+export const serializeRecurringExpense = (id: string, data: admin.firestore.DocumentData): RecurringExpense => ({
+  id,
+  ...data,
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+} as unknown as RecurringExpense);
+
+export const serializeRecurringDraft = (id: string, data: admin.firestore.DocumentData): RecurringDraft => ({
+  id,
+  ...data,
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+} as unknown as RecurringDraft);
+
+// Adds the next revision of an expense to a transaction, along with the update it describes
+export const writeRevision = (
+  transaction: admin.firestore.Transaction,
+  adminDb: admin.firestore.Firestore,
+  expenseRef: admin.firestore.DocumentReference,
+  expense: Expense,
+  editor: { uid: string; profile: UserProfile },
+  changes: RevisionFieldChange[],
+  update: Record<string, unknown>,
+): number => {
+  const revision = (expense.revisionCount || 0) + 1;
+  const editedAt = admin.firestore.FieldValue.serverTimestamp();
+  transaction.update(expenseRef, { ...update, updatedAt: editedAt, revisionCount: revision });
+  transaction.create(adminDb.collection('expenseRevisions').doc(), {
+    expenseId: expenseRef.id,
+    revision,
+    editedBy: editor.uid,
+    editedByName: editor.profile.displayName || editor.profile.email || null,
+    editedAt,
+    changes,
+  });
+  return revision;
+};
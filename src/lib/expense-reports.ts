@@ -0,0 +1,49 @@
+// src/lib/expense-reports.ts
+import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { ExpenseReport, ExpenseReportStatus, ExpenseReportTotals } from '@/types/report';
+import type { UserRole } from '@/types/user';
+import { sumByBaseCurrency } from '@/lib/currency';
+import { sumAllocationsByCategory } from '@/lib/expense-allocations';
+
+export const MAX_REPORT_EXPENSES = 100;
+
+export const computeReportTotals = (expenses: Expense[]): ExpenseReportTotals => ({
+  expenseCount: expenses.length,
+  byCurrency: sumByBaseCurrency(expenses),
+  byCategory: sumAllocationsByCategory(expenses),
+});
+
+// Drafts and rejected reports can be changed by their submitter; submitted ones wait for the approval chain
+export const isReportEditable = (report: Pick<ExpenseReport, 'status'>): boolean =>
+  report.status === 'draft' || report.status === 'rejected';
+
+// The report status that follows from the status its approval leads to
+export const toReportStatus = (status: ExpenseStatus): ExpenseReportStatus => status === 'pending' ? 'submitted' : status;
+
+// Why an expense cannot be added to the report, or null if it can: only the submitter's own company expenses that are
+// not approved yet and not in another report
+export const getReportExpenseError = (
+  expense: Pick<Expense, 'userId' | 'companyId' | 'status' | 'reportId' | 'company'>,
+  report: Pick<ExpenseReport, 'userId' | 'companyId'> & { id?: string },
+): string | null => {
+  if (expense.userId !== report.userId || expense.companyId !== report.companyId) return `"${expense.company}" is not one of your company expenses.`;
+  if (expense.reportId && expense.reportId !== report.id) return `"${expense.company}" is already in another report.`;
+  if (expense.status === 'reimbursed') return `"${expense.company}" was already reimbursed.`;
+  if (expense.status === 'approved' && expense.reportId !== report.id) return `"${expense.company}" is already approved.`;
+  return null;
+};
+
+// Why an expense dated `expenseDate` does not belong in a report with these dates, or null if it does. Both are picked
+// as local midnight in the submitter's browser, so they compare as they are.
+export const getReportDateError = (expenseDate: Date, company: string, report: { startDate: Date; endDate: Date }): string | null =>
+  expenseDate < report.startDate || expenseDate > report.endDate ? `"${company}" is dated outside the report's dates.` : null;
+
+// Same rules as canDecideExpense: the approvers of the current step, and the company owner for anyone else's report
+export const canDecideReport = (
+  report: Pick<ExpenseReport, 'userId' | 'companyId' | 'status' | 'pendingApproverIds'>,
+  user: { uid: string; companyId?: string | null; role?: UserRole | null },
+): boolean => {
+  if (report.companyId !== user.companyId || report.status !== 'submitted') return false;
+  if (report.pendingApproverIds?.includes(user.uid)) return true;
+  return user.role === 'owner' && report.userId !== user.uid;
+};
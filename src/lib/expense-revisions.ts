@@ -0,0 +1,91 @@
+// src/lib/expense-revisions.ts
+import type { Expense, ExpenseStatus } from '@/types/expense';
+import type { ExpenseSplit } from '@/types/allocation';
+import type { RevisionFieldChange, RevisionValue } from '@/types/revision';
+import { getExpenseDay } from '@/lib/extraction-provenance';
+
+// The fields of an expense a revision can change
+export type RevisedExpenseFields = Pick<Expense,
+  'company' | 'items' | 'category' | 'split' | 'totalAmount' | 'subtotal' | 'taxes' | 'serviceCharge' | 'tip' | 'discounts' | 'currency' | 'paymentMethod' | 'status'
+  | 'projectId' | 'clientId' | 'costCenterId' | 'tags' | 'billable' | 'markupPercent' | 'expenseDay'
+> & { expenseDate: Date };
+
+const addSplitValues = (values: Record<string, RevisionValue>, prefix: string, split: ExpenseSplit | null | undefined) => {
+  if (!split) return;
+  values[`${prefix}.mode`] = split.mode;
+  split.shares.forEach((share, index) => {
+    values[`${prefix}.shares[${index}].category`] = share.category;
+    values[`${prefix}.shares[${index}].projectId`] = share.projectId ?? null;
+    values[`${prefix}.shares[${index}].value`] = share.value;
+  });
+};
+
+// Flattens the fields into comparable values, e.g. { 'items[0].netPrice': 4.5, 'split.shares[1].category': 'travel' }
+export const toRevisionValues = (expense: RevisedExpenseFields): Record<string, RevisionValue> => {
+  const values: Record<string, RevisionValue> = {
+    company: expense.company,
+    expenseDate: getExpenseDay(expense),
+    category: expense.category,
+    paymentMethod: expense.paymentMethod,
+    currency: expense.currency ?? null,
+    subtotal: expense.subtotal ?? null,
+    totalAmount: expense.totalAmount,
+    serviceCharge: expense.serviceCharge ?? 0,
+    tip: expense.tip ?? 0,
+    status: expense.status,
+    projectId: expense.projectId ?? null,
+    clientId: expense.clientId ?? null,
+    costCenterId: expense.costCenterId ?? null,
+    tags: (expense.tags || []).join(', '),
+    billable: expense.billable ?? false,
+    markupPercent: expense.markupPercent ?? null,
+  };
+  addSplitValues(values, 'split', expense.split);
+  expense.items.forEach((item, index) => {
+    values[`items[${index}].name`] = item.name;
+    values[`items[${index}].quantity`] = item.quantity;
+    values[`items[${index}].netPrice`] = item.netPrice;
+    values[`items[${index}].category`] = item.category ?? null;
+    addSplitValues(values, `items[${index}].split`, item.split);
+  });
+  (expense.taxes || []).forEach((tax, index) => {
+    values[`taxes[${index}].name`] = tax.name;
+    values[`taxes[${index}].rate`] = tax.rate;
+    values[`taxes[${index}].amount`] = tax.amount;
+    values[`taxes[${index}].inclusive`] = tax.inclusive;
+  });
+  (expense.discounts || []).forEach((discount, index) => {
+    values[`discounts[${index}].description`] = discount.description;
+    values[`discounts[${index}].amount`] = discount.amount;
+  });
+  return values;
+};
+
+const sameValue = (a: RevisionValue, b: RevisionValue): boolean =>
+  typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < 0.005 : a === b;
+
+// Field-level differences between two versions of an expense. Lines are compared by position.
+export const diffRevisionValues = (before: Record<string, RevisionValue>, after: Record<string, RevisionValue>): RevisionFieldChange[] => {
+  const fields = [...Object.keys(before), ...Object.keys(after).filter(field => !(field in before))];
+  return fields
+    .filter(field => !sameValue(before[field] ?? null, after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+export type EditStatusRule = { allowed: true; status: ExpenseStatus } | { allowed: false; reason: string };
+
+// What an edit does to the approval status of an expense:
+// - personal expenses have no approval and stay approved
+// - pending company expenses stay pending, and start their approval chain over
+// - rejected company expenses go back to pending, so the edit resubmits them
+// - approved company expenses are locked until an approver reopens them
+// - reimbursed company expenses were paid out as they are and stay locked
+export const getEditStatusRule = (expense: Pick<Expense, 'companyId' | 'status'>): EditStatusRule => {
+  if (!expense.companyId) return { allowed: true, status: 'approved' };
+  switch (expense.status) {
+    case 'pending': return { allowed: true, status: 'pending' };
+    case 'rejected': return { allowed: true, status: 'pending' };
+    case 'reimbursed': return { allowed: false, reason: "Reimbursed expenses were paid out as they are and cannot be edited." };
+    default: return { allowed: false, reason: "Approved expenses cannot be edited. Ask an approver to reopen it first if it needs changes." };
+  }
+};
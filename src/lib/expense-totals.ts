@@ -0,0 +1,30 @@
+// src/lib/expense-totals.ts
+
+// Amounts may come from form inputs as strings; anything non-numeric counts as 0
+const toAmount = (value: number | string | null | undefined): number => Number(value) || 0;
+
+export interface ExpenseBreakdownInput {
+  items: Array<{ netPrice: number | string }>;
+  taxes?: Array<{ amount: number | string; inclusive: boolean }>;
+  serviceCharge?: number | string | null;
+  tip?: number | string | null;
+  discounts?: Array<{ amount: number | string }>;
+}
+
+export const sumItems = (items: ExpenseBreakdownInput['items']): number =>
+  items.reduce((sum, item) => sum + toAmount(item.netPrice), 0);
+
+// Total implied by the breakdown: items + tax not already included in prices + service charge + tip - discounts
+export const computeExpenseTotal = (breakdown: ExpenseBreakdownInput): number => {
+  const exclusiveTax = (breakdown.taxes || [])
+    .filter(tax => !tax.inclusive)
+    .reduce((sum, tax) => sum + toAmount(tax.amount), 0);
+  const discounts = (breakdown.discounts || []).reduce((sum, discount) => sum + toAmount(discount.amount), 0);
+  return sumItems(breakdown.items) + exclusiveTax + toAmount(breakdown.serviceCharge) + toAmount(breakdown.tip) - discounts;
+};
+
+// The printed grand total is authoritative; the computed total is only used when none was entered
+export const resolveExpenseTotal = (printedTotal: number | string | null | undefined, breakdown: ExpenseBreakdownInput): number => {
+  const printed = printedTotal === '' || printedTotal === null || printedTotal === undefined ? NaN : Number(printedTotal);
+  return Number.isFinite(printed) && printed >= 0 ? printed : computeExpenseTotal(breakdown);
+};
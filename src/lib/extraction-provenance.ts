@@ -0,0 +1,78 @@
+// src/lib/extraction-provenance.ts
+import type { ExtractedValues, ProvenanceFieldChange, ProvenanceValue } from '@/types/provenance';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HeaderField = Exclude<keyof ExtractedValues, 'items'>;
+
+const HEADER_FIELDS: HeaderField[] = [
+  'company', 'expenseDate', 'category', 'paymentMethod', 'currency',
+  'subtotal', 'totalAmount', 'serviceCharge', 'tip', 'taxTotal', 'discountTotal',
+];
+
+const sumAmounts = (lines: Array<{ amount: number }>): number => lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+
+// Calendar date (YYYY-MM-DD) of a date picked in the browser. Dates are picked as local midnight, so the nearest UTC
+// midnight is the same calendar day in any timezone within 12 hours of UTC, but not e.g. in UTC+13.
+export const toCalendarDate = (date: Date): string =>
+  new Date(Math.round(date.getTime() / DAY_MS) * DAY_MS).toISOString().split('T')[0];
+
+// Calendar date of a saved expense as the submitter picked it. Expenses saved before the picked day was stored fall
+// back to their rounded date.
+export const getExpenseDay = (expense: { expenseDay?: string | null; expenseDate: Date }): string =>
+  expense.expenseDay || toCalendarDate(expense.expenseDate);
+
+// Collects the compared values from extracted or submitted expense data
+export const toExtractedValues = (data: {
+  company: string;
+  expenseDate: string;
+  category: string;
+  paymentMethod: string;
+  currency: string | null;
+  subtotal: number | null;
+  totalAmount: number | null;
+  serviceCharge: number;
+  tip: number;
+  taxes: Array<{ amount: number }>;
+  discounts: Array<{ amount: number }>;
+  items: Array<{ name: string; quantity: number; netPrice: number; category?: string | null }>;
+}): ExtractedValues => ({
+  company: data.company.trim(),
+  expenseDate: data.expenseDate,
+  category: data.category,
+  paymentMethod: data.paymentMethod,
+  currency: data.currency,
+  subtotal: data.subtotal,
+  totalAmount: data.totalAmount,
+  serviceCharge: data.serviceCharge,
+  tip: data.tip,
+  taxTotal: sumAmounts(data.taxes),
+  discountTotal: sumAmounts(data.discounts),
+  items: data.items.map(item => ({ name: item.name.trim(), quantity: item.quantity, netPrice: item.netPrice, category: item.category || null })),
+});
+
+const sameValue = (a: ProvenanceValue, b: ProvenanceValue): boolean =>
+  typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < 0.005 : a === b;
+
+// Field-level differences between what the extraction proposed and what was submitted. Items are compared by position.
+export const diffExtractedValues = (extracted: ExtractedValues, submitted: ExtractedValues): ProvenanceFieldChange[] => {
+  const changes: ProvenanceFieldChange[] = [];
+  const compare = (field: string, before: ProvenanceValue, after: ProvenanceValue) => {
+    if (!sameValue(before ?? null, after ?? null)) changes.push({ field, extracted: before ?? null, submitted: after ?? null });
+  };
+
+  HEADER_FIELDS.forEach(field => compare(field, extracted[field], submitted[field]));
+  for (let index = 0; index < Math.max(extracted.items.length, submitted.items.length); index++) {
+    const before = extracted.items[index];
+    const after = submitted.items[index];
+    if (!before || !after) {
+      compare(`items[${index}]`, before?.name ?? null, after?.name ?? null);
+      continue;
+    }
+    compare(`items[${index}].name`, before.name, after.name);
+    compare(`items[${index}].quantity`, before.quantity, after.quantity);
+    compare(`items[${index}].netPrice`, before.netPrice, after.netPrice);
+    compare(`items[${index}].category`, before.category, after.category);
+  }
+  return changes;
+};
@@ -97,3 +97,17 @@ export const getAdminAuth = () => {
   }
   return adminAuth;
 }
+
+// Helper function to get the Storage bucket used for receipt files.
+// The Admin SDK honours FIREBASE_STORAGE_EMULATOR_HOST, so the same code targets the emulator in development.
+export const getAdminStorageBucket = () => {
+  if (!adminApp) {
+    console.error("[Firebase Admin] SDK not initialized. Storage is not available.");
+    throw new Error("[Firebase Admin] SDK not initialized. Cannot access Storage via Admin SDK.");
+  }
+  const bucketName = process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!bucketName) {
+    throw new Error("[Firebase Admin] No storage bucket configured. Set FIREBASE_STORAGE_BUCKET or NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET.");
+  }
+  return adminApp.storage().bucket(bucketName);
+}
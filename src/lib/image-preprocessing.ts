@@ -0,0 +1,257 @@
+// src/lib/image-preprocessing.ts
+// Browser-only pipeline that prepares receipt photos for extraction: upright, cropped to the receipt, downscaled and recompressed.
+import { readFileAsDataUri, loadImage } from '@/lib/image-utils';
+
+export interface ReceiptPreprocessingOptions {
+  maxDimension: number; // Longest side of the processed image in pixels
+  quality: number; // JPEG quality, 0-1
+  enhance: boolean; // Grayscale and stretch the contrast, helps faded thermal paper
+  crop: boolean; // Crop to the receipt if its edges can be found
+}
+
+export const DEFAULT_RECEIPT_PREPROCESSING: ReceiptPreprocessingOptions = {
+  maxDimension: 2000,
+  quality: 0.85,
+  enhance: false,
+  crop: true,
+};
+
+export interface PreprocessedReceiptImage {
+  dataUri: string; // What is sent for extraction and stored
+  width: number;
+  height: number;
+  size: number; // Size in bytes of the processed file
+  originalSize: number;
+  originalWidth: number;
+  originalHeight: number;
+  cropped: boolean; // Whether the receipt's edges were found and the background cut off
+}
+
+// Fraction of the frame a detected receipt must cover; outside this range the detection is more likely wrong than useful
+const MIN_RECEIPT_AREA = 0.1;
+const MAX_RECEIPT_AREA = 0.9;
+const ANALYSIS_SIZE = 256;
+
+// Size in bytes of the file encoded in a base64 data URI
+export const dataUriByteSize = (dataUri: string): number => {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+// EXIF orientation (1-8) stored in a JPEG's APP1 segment, 1 if there is none
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  try {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // Not a marker, or image data started
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // 'Exif'
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + length;
+    }
+  } catch (e) {/* truncated or malformed file, treat as upright */ }
+  return 1;
+};
+
+// Browsers that support `image-orientation` already apply the EXIF orientation when decoding, including for canvas drawing
+const browserAppliesExifOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+// Draws the image upright, with its longest side at most maxSize pixels
+const drawUpright = (img: HTMLImageElement, orientation: number, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const rotated = orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = rotated ? height : width;
+  canvas.height = rotated ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  // Transparent PNGs would otherwise turn black in the JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+};
+
+const toLuminance = (data: Uint8ClampedArray, pixel: number): number =>
+  data[pixel * 4] * 0.299 + data[pixel * 4 + 1] * 0.587 + data[pixel * 4 + 2] * 0.114;
+
+// Threshold that best separates dark and bright pixels (Otsu's method), with the mean of each side
+const splitByBrightness = (luminance: Uint8Array): { threshold: number; darkMean: number; brightMean: number } => {
+  const histogram = new Array<number>(256).fill(0);
+  luminance.forEach(value => { histogram[value]++; });
+  const total = luminance.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let best = { threshold: 127, variance: -1, darkMean: 0, brightMean: 255 };
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let value = 0; value < 255; value++) {
+    darkCount += histogram[value];
+    darkSum += histogram[value] * value;
+    const brightCount = total - darkCount;
+    if (darkCount === 0 || brightCount === 0) continue;
+    const darkMean = darkSum / darkCount;
+    const brightMean = (sum - darkSum) / brightCount;
+    const variance = darkCount * brightCount * (darkMean - brightMean) ** 2;
+    if (variance > best.variance) best = { threshold: value, variance, darkMean, brightMean };
+  }
+  return best;
+};
+
+// Longest run of indexes whose value is at least half the maximum, e.g. the columns covered by the receipt
+const longestRun = (values: number[]): [number, number] | null => {
+  const cutoff = Math.max(...values) / 2;
+  let best: [number, number] | null = null;
+  let start = -1;
+  values.concat([-1]).forEach((value, index) => {
+    if (value >= cutoff && cutoff > 0) {
+      if (start < 0) start = index;
+    } else if (start >= 0) {
+      if (!best || index - 1 - start > best[1] - best[0]) best = [start, index - 1];
+      start = -1;
+    }
+  });
+  return best;
+};
+
+// Finds the receipt's edges as where bright paper starts and ends along the rows and columns of a luminance map.
+// Returns the bounds as fractions of the frame, or null if the paper does not stand out from the background.
+export const findReceiptBounds = (luminance: Uint8Array, width: number, height: number): { left: number; top: number; right: number; bottom: number } | null => {
+  const { threshold, darkMean, brightMean } = splitByBrightness(luminance);
+  if (brightMean - darkMean < 40) return null;
+  const columns = new Array<number>(width).fill(0);
+  const rows = new Array<number>(height).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance[y * width + x] > threshold) {
+        columns[x]++;
+        rows[y]++;
+      }
+    }
+  }
+  const horizontal = longestRun(columns);
+  const vertical = longestRun(rows);
+  if (!horizontal || !vertical) return null;
+  // A small margin keeps text printed right at the paper's edge
+  const marginX = Math.round(width * 0.02);
+  const marginY = Math.round(height * 0.02);
+  const bounds = {
+    left: Math.max(0, horizontal[0] - marginX) / width,
+    top: Math.max(0, vertical[0] - marginY) / height,
+    right: Math.min(width, horizontal[1] + 1 + marginX) / width,
+    bottom: Math.min(height, vertical[1] + 1 + marginY) / height,
+  };
+  const area = (bounds.right - bounds.left) * (bounds.bottom - bounds.top);
+  return area >= MIN_RECEIPT_AREA && area <= MAX_RECEIPT_AREA ? bounds : null;
+};
+
+const detectReceiptBounds = (canvas: HTMLCanvasElement) => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(canvas.width, canvas.height));
+  const analysis = document.createElement('canvas');
+  analysis.width = Math.max(1, Math.round(canvas.width * scale));
+  analysis.height = Math.max(1, Math.round(canvas.height * scale));
+  const ctx = analysis.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(canvas, 0, 0, analysis.width, analysis.height);
+  const { data } = ctx.getImageData(0, 0, analysis.width, analysis.height);
+  const luminance = new Uint8Array(analysis.width * analysis.height);
+  for (let pixel = 0; pixel < luminance.length; pixel++) luminance[pixel] = toLuminance(data, pixel);
+  return findReceiptBounds(luminance, analysis.width, analysis.height);
+};
+
+// Grayscale with the darkest and brightest percent of pixels stretched to black and white
+const enhanceContrast = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  const pixels = canvas.width * canvas.height;
+  const luminance = new Uint8Array(pixels);
+  const histogram = new Array<number>(256).fill(0);
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    luminance[pixel] = toLuminance(data, pixel);
+    histogram[luminance[pixel]]++;
+  }
+  const percentile = (fraction: number) => {
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= pixels * fraction) return value;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = Math.max(low + 1, percentile(0.99));
+  for (let pixel = 0; pixel < pixels; pixel++) {
+    const value = Math.round(((luminance[pixel] - low) * 255) / (high - low));
+    data[pixel * 4] = data[pixel * 4 + 1] = data[pixel * 4 + 2] = value; // Clamped to 0-255 by the array
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+// Runs the pipeline on a receipt photo. The result is a JPEG, except that an already small JPEG is kept as is
+// when nothing about it had to change.
+export const preprocessReceiptImage = async (file: File, options: Partial<ReceiptPreprocessingOptions> = {}): Promise<PreprocessedReceiptImage> => {
+  const { maxDimension, quality, enhance, crop } = { ...DEFAULT_RECEIPT_PREPROCESSING, ...options };
+  const originalDataUri = await readFileAsDataUri(file);
+  const img = await loadImage(originalDataUri);
+  const orientation = browserAppliesExifOrientation() ? 1 : readExifOrientation(await file.arrayBuffer());
+
+  // Work at twice the output size so cropping to the receipt does not cost resolution
+  const upright = drawUpright(img, orientation, maxDimension * 2);
+  const bounds = crop ? detectReceiptBounds(upright) : null;
+  const sourceX = Math.round((bounds?.left ?? 0) * upright.width);
+  const sourceY = Math.round((bounds?.top ?? 0) * upright.height);
+  const sourceWidth = Math.round((bounds?.right ?? 1) * upright.width) - sourceX;
+  const sourceHeight = Math.round((bounds?.bottom ?? 1) * upright.height) - sourceY;
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(sourceWidth * scale));
+  output.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  ctx.drawImage(upright, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, output.width, output.height);
+  if (enhance) enhanceContrast(output);
+
+  const dataUri = output.toDataURL('image/jpeg', quality);
+  const size = dataUriByteSize(dataUri);
+  const rotated = orientation >= 5;
+  const original = {
+    originalSize: file.size,
+    originalWidth: rotated ? img.naturalHeight : img.naturalWidth,
+    originalHeight: rotated ? img.naturalWidth : img.naturalHeight,
+  };
+  const unchanged = !bounds && !enhance && orientation === 1 && output.width === original.originalWidth && output.height === original.originalHeight;
+  if (unchanged && file.type === 'image/jpeg' && file.size <= size) {
+    return { dataUri: originalDataUri, width: output.width, height: output.height, size: file.size, ...original, cropped: false };
+  }
+  return { dataUri, width: output.width, height: output.height, size, ...original, cropped: !!bounds };
+};
@@ -0,0 +1,145 @@
+// src/lib/locale-parsing.ts
+// Deterministic parsing of dates and amounts as printed on receipts from different regions
+
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface LocaleConventions {
+  dateOrder: DateOrder | null; // Null if the locale is unknown
+  decimalSeparator: '.' | ',' | null;
+}
+
+export interface ParsedValue<T> {
+  value: T | null; // Null if the text could not be parsed
+  ambiguous: boolean; // Another reading was possible and the locale did not settle it
+  alternatives: T[]; // The other readings, if ambiguous
+}
+
+// Month names and abbreviations in the languages receipts most often come in, without accents
+const MONTH_NAMES: Record<string, number> = {};
+[
+  ['january', 'jan', 'januar', 'janvier', 'janv', 'enero', 'ene', 'gennaio', 'gen', 'januari', 'janeiro'],
+  ['february', 'feb', 'februar', 'fevrier', 'fevr', 'fev', 'febrero', 'febbraio', 'februari', 'fevereiro'],
+  ['march', 'mar', 'marz', 'maerz', 'mars', 'marzo', 'maart', 'mrt', 'marco'],
+  ['april', 'apr', 'avril', 'avr', 'abril', 'abr', 'aprile'],
+  ['may', 'mai', 'mayo', 'maggio', 'mag', 'mei', 'maio'],
+  ['june', 'jun', 'juni', 'juin', 'junio', 'giugno', 'giu', 'junho'],
+  ['july', 'jul', 'juli', 'juillet', 'juil', 'julio', 'luglio', 'lug', 'julho'],
+  ['august', 'aug', 'aout', 'agosto', 'ago', 'augustus'],
+  ['september', 'sep', 'sept', 'septembre', 'septiembre', 'set', 'settembre', 'setembro'],
+  ['october', 'oct', 'oktober', 'okt', 'octobre', 'octubre', 'ottobre', 'ott', 'outubro', 'out'],
+  ['november', 'nov', 'novembre', 'noviembre', 'novembro'],
+  ['december', 'dec', 'dezember', 'dez', 'decembre', 'diciembre', 'dic', 'dicembre', 'dezembro'],
+].forEach((names, index) => names.forEach(name => { MONTH_NAMES[name] = index + 1; }));
+
+const stripAccents = (text: string): string => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+const conventionsCache = new Map<string, LocaleConventions>();
+
+// Date order and decimal separator of a BCP 47 locale (e.g. 'de-DE', 'en-US'), from the runtime's locale data
+export const getLocaleConventions = (locale: string | null | undefined): LocaleConventions => {
+  const tag = (locale || '').trim();
+  if (!tag) return { dateOrder: null, decimalSeparator: null };
+  if (!conventionsCache.has(tag)) {
+    let conventions: LocaleConventions = { dateOrder: null, decimalSeparator: null };
+    try {
+      const [supported] = Intl.DateTimeFormat.supportedLocalesOf([tag]);
+      if (supported) {
+        const order = new Intl.DateTimeFormat(supported, { year: 'numeric', month: '2-digit', day: '2-digit' })
+          .formatToParts(new Date(2025, 11, 31))
+          .filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year')
+          .map(part => part.type.charAt(0).toUpperCase())
+          .join('');
+        const decimal = new Intl.NumberFormat(supported).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+        conventions = {
+          dateOrder: order === 'DMY' || order === 'MDY' || order === 'YMD' ? order : null,
+          decimalSeparator: decimal === '.' || decimal === ',' ? decimal : null,
+        };
+      }
+    } catch (e) {/* invalid locale tag, conventions unknown */ }
+    conventionsCache.set(tag, conventions);
+  }
+  return conventionsCache.get(tag)!;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || fullYear < 1990 || fullYear > 2100) return null;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+};
+
+const readDate = (value: string | null): ParsedValue<string> => ({ value, ambiguous: false, alternatives: [] });
+
+// Parses a printed date to YYYY-MM-DD. Handles year-first dates (2025-04-03, 2025/4/3, 2025年4月3日),
+// dates with month names (3 Apr 2025, April 3, 2025, 3. März 2025) and numeric day/month dates (03/04/2025, 03.04.25).
+// A numeric date that reads as a valid day-first and month-first date is ambiguous unless the locale or a '.' separator
+// (only used day-first) settles it; without a locale it is read day-first, as in most of the world.
+export const parseLocalizedDate = (printed: string, locale?: string | null): ParsedValue<string> => {
+  const text = stripAccents(printed.trim().toLowerCase());
+  const { dateOrder } = getLocaleConventions(locale);
+
+  const yearFirst = /(\d{4})\s*[-/.\u5e74\ub144]\s*(\d{1,2})\s*[-/.\u6708\uc6d4]\s*(\d{1,2})/.exec(text);
+  if (yearFirst) return readDate(toIsoDate(+yearFirst[1], +yearFirst[2], +yearFirst[3]));
+
+  const dayMonthName = /(\d{1,2})\.?\s*(?:de\s+)?([a-z]{3,9})\.?,?\s*(?:de\s+)?(\d{2,4})\b/.exec(text);
+  if (dayMonthName && MONTH_NAMES[dayMonthName[2]]) {
+    return readDate(toIsoDate(+dayMonthName[3], MONTH_NAMES[dayMonthName[2]], +dayMonthName[1]));
+  }
+  const monthNameDay = /\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{2,4})\b/.exec(text);
+  if (monthNameDay && MONTH_NAMES[monthNameDay[1]]) {
+    return readDate(toIsoDate(+monthNameDay[3], MONTH_NAMES[monthNameDay[1]], +monthNameDay[2]));
+  }
+
+  const numeric = /(\d{1,2})\s*([-/.])\s*(\d{1,2})\s*\2\s*(\d{2,4})\b/.exec(text);
+  if (!numeric) return readDate(null);
+  const [, first, separator, second, year] = numeric;
+  // Two-digit years in year-first locales: 25/04/03
+  if (dateOrder === 'YMD' && year.length === 2 && first.length === 2) {
+    return readDate(toIsoDate(+first, +second, +year));
+  }
+  const dayFirst = toIsoDate(+year, +second, +first);
+  const monthFirst = toIsoDate(+year, +first, +second);
+  if (!dayFirst || !monthFirst || dayFirst === monthFirst) return readDate(dayFirst || monthFirst);
+
+  if (separator === '.') return readDate(dayFirst);
+  if (dateOrder === 'MDY') return readDate(monthFirst);
+  if (dateOrder === 'DMY') return readDate(dayFirst);
+  return { value: dayFirst, ambiguous: true, alternatives: [monthFirst] };
+};
+
+// Parses a printed amount such as '1.234,50', '1,234.50', '1 234,50', "1'234.50", '€12,50', '(3.00)' or '3,00-'.
+// With both '.' and ',' the last one is the decimal separator. A single separator followed by exactly three digits
+// ('1,234' or '1.234') is a thousands separator unless the locale uses it as the decimal separator; without a locale
+// that reading is ambiguous.
+export const parseLocalizedAmount = (printed: string, locale?: string | null): ParsedValue<number> => {
+  const none: ParsedValue<number> = { value: null, ambiguous: false, alternatives: [] };
+  const text = printed.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$|^[^\d]*-/.test(text);
+  const number = /\d[\d.,'\u2019\s\u00a0\u202f]*/.exec(text);
+  if (!number) return none;
+  const digits = number[0].trim().replace(/['\u2019\s\u00a0\u202f]/g, '');
+  const sign = negative ? -1 : 1;
+  const toNumber = (integerPart: string, fraction: string): number => sign * parseFloat(`${integerPart.replace(/[.,]/g, '') || '0'}.${fraction || '0'}`);
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot < 0 && lastComma < 0) return { value: sign * parseFloat(digits), ambiguous: false, alternatives: [] };
+
+  const lastSeparatorIndex = Math.max(lastDot, lastComma);
+  const lastSeparator = digits[lastSeparatorIndex] as '.' | ',';
+  const integerPart = digits.slice(0, lastSeparatorIndex);
+  const fraction = digits.slice(lastSeparatorIndex + 1);
+  const decimal: ParsedValue<number> = { value: toNumber(integerPart, fraction), ambiguous: false, alternatives: [] };
+  const grouped: ParsedValue<number> = { value: toNumber(digits, ''), ambiguous: false, alternatives: [] };
+
+  if (lastDot >= 0 && lastComma >= 0) return decimal;
+  // The same separator more than once ('1.234.567') only groups thousands
+  if (digits.indexOf(lastSeparator) !== lastSeparatorIndex) return grouped;
+  if (fraction.length !== 3) return decimal;
+
+  const { decimalSeparator } = getLocaleConventions(locale);
+  if (decimalSeparator === lastSeparator) return decimal;
+  if (decimalSeparator) return grouped;
+  return { ...grouped, ambiguous: true, alternatives: [decimal.value!] };
+};
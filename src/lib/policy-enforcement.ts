@@ -0,0 +1,71 @@
+// src/lib/policy-enforcement.ts
+import admin from 'firebase-admin';
+import type { Expense, ExpenseCategory } from '@/types/expense';
+import type { Company } from '@/types/company';
+import type { PolicyViolation } from '@/types/policy';
+import { getCategoryList } from '@/lib/categories';
+import { getExpenseAllocations } from '@/lib/expense-allocations';
+import { getExpenseBaseCurrency } from '@/lib/currency';
+import { getExpenseDay } from '@/lib/extraction-provenance';
+import { evaluatePolicies, type PolicyCheckInput } from '@/lib/expense-policies';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PolicyCheckExpense extends Omit<PolicyCheckInput, 'sameDayTotals'> {
+  expenseId: string | null; // Left out of the daily totals when an existing expense is checked again
+  userId: string;
+}
+
+// The submitter's other company expenses on the same calendar day, per category. Rejected expenses do not count.
+// Local midnight of a day is at most 14 hours from its UTC midnight, so a day either side covers every timezone.
+const loadSameDayTotals = async (adminDb: admin.firestore.Firestore, companyId: string, expense: PolicyCheckExpense): Promise<Record<ExpenseCategory, number>> => {
+  const dayStart = Date.parse(expense.expenseDay);
+  const snapshot = await adminDb.collection('expenses')
+    .where('companyId', '==', companyId)
+    .where('expenseDate', '>=', admin.firestore.Timestamp.fromMillis(dayStart - DAY_MS))
+    .where('expenseDate', '<=', admin.firestore.Timestamp.fromMillis(dayStart + DAY_MS))
+    .get();
+  const totals: Record<ExpenseCategory, number> = {};
+  snapshot.docs.forEach(doc => {
+    const other = doc.data() as Expense;
+    if (doc.id === expense.expenseId || other.userId !== expense.userId || other.status === 'rejected') return;
+    if (getExpenseBaseCurrency(other) !== expense.baseCurrency) return;
+    if (getExpenseDay({ expenseDay: other.expenseDay, expenseDate: (other.expenseDate as unknown as admin.firestore.Timestamp).toDate() }) !== expense.expenseDay) return;
+    getExpenseAllocations(other).forEach(allocation => {
+      totals[allocation.category] = (totals[allocation.category] || 0) + allocation.baseAmount;
+    });
+  });
+  return totals;
+};
+
+// The company's policies the expense breaks. Loaded outside transactions, since daily limits query other expenses.
+export const checkExpensePolicies = async (adminDb: admin.firestore.Firestore, companyId: string, expense: PolicyCheckExpense): Promise<PolicyViolation[]> => {
+  const companyDoc = await adminDb.collection('companies').doc(companyId).get();
+  const company = companyDoc.data() as Company | undefined;
+  const policies = company?.policies || [];
+  if (policies.length === 0) return [];
+  const sameDayTotals = policies.some(policy => policy.type === 'category_daily_limit')
+    ? await loadSameDayTotals(adminDb, companyId, expense)
+    : {};
+  return evaluatePolicies(policies, { ...expense, sameDayTotals }, getCategoryList(company?.categories));
+};
+
+// The day a saved expense counts as submitted on. Expenses saved before the submitter's day was stored use the UTC date.
+export const getSubmittedDay = (expense: Pick<Expense, 'submittedDay' | 'createdAt'>): string =>
+  expense.submittedDay || (expense.createdAt instanceof admin.firestore.Timestamp ? expense.createdAt.toDate() : new Date()).toISOString().split('T')[0];
+
+// Checks a saved expense again, e.g. before it is approved, against the policies as they are now
+export const recheckExpensePolicies = (adminDb: admin.firestore.Firestore, expenseId: string, expense: Expense): Promise<PolicyViolation[]> =>
+  expense.companyId
+    ? checkExpensePolicies(adminDb, expense.companyId, {
+      expenseId,
+      userId: expense.userId,
+      allocations: getExpenseAllocations(expense),
+      baseAmount: expense.baseAmount ?? expense.totalAmount,
+      baseCurrency: getExpenseBaseCurrency(expense),
+      expenseDay: getExpenseDay({ expenseDay: expense.expenseDay, expenseDate: (expense.expenseDate as unknown as admin.firestore.Timestamp).toDate() }),
+      submittedDay: getSubmittedDay(expense),
+      kind: expense.kind || 'receipt',
+      hasReceipt: !!expense.receipt,
+    })
+    : Promise.resolve([]);
@@ -0,0 +1,29 @@
+// src/lib/receipt-enrichment.ts
+import admin from 'firebase-admin';
+import type { ProcessedReceiptData } from '@/actions/expense-actions';
+import type { ExpenseCategoryDefinition } from '@/types/category';
+import { suggestCategory } from '@/lib/category-learning';
+import { findVendor, type VendorScope } from '@/lib/vendor-directory';
+
+// Applies what the scope already knows to an extraction result: the canonical name of a known vendor,
+// and a category learned from earlier corrections or the vendor's default.
+export const enrichExtraction = async (
+  adminDb: admin.firestore.Firestore,
+  scope: VendorScope & { categories: ExpenseCategoryDefinition[] },
+  result: ProcessedReceiptData,
+): Promise<ProcessedReceiptData> => {
+  const vendor = await findVendor(adminDb, scope, result.company);
+  const suggestion = await suggestCategory(adminDb, {
+    userId: scope.userId,
+    companyId: scope.companyId,
+    vendor: vendor?.name || result.company,
+    items: result.items,
+    categories: scope.categories,
+    vendorDefaultCategory: vendor?.defaultCategory,
+  });
+  return {
+    ...result,
+    ...(vendor && vendor.name !== result.company ? { company: vendor.name, printedCompany: result.company } : {}),
+    ...(suggestion ? { category: suggestion.category, categorySource: suggestion.source, confidence: { ...result.confidence, category: suggestion.confidence } } : {}),
+  };
+};
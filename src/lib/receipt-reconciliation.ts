@@ -0,0 +1,54 @@
+// src/lib/receipt-reconciliation.ts
+import type { ReconciliationResult } from '@/types/reconciliation';
+import { computeExpenseTotal, sumItems, type ExpenseBreakdownInput } from '@/lib/expense-totals';
+import { getCurrencyFractionDigits, roundToCurrency, formatCurrency } from '@/lib/currency';
+
+export interface ReconciliationInput extends ExpenseBreakdownInput {
+  subtotal?: number | string | null;
+  printedTotal?: number | string | null;
+  currency: string;
+}
+
+const toOptionalAmount = (value: number | string | null | undefined): number | null => {
+  if (value === '' || value === null || value === undefined) return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+// Compares the extracted line items and charges against the totals printed on the receipt
+export const reconcileReceipt = (input: ReconciliationInput): ReconciliationResult => {
+  const { currency } = input;
+  const minorUnit = 10 ** -getCurrencyFractionDigits(currency);
+  // Each line can be off by half a minor unit after rounding
+  const tolerance = roundToCurrency(Math.max(minorUnit, minorUnit * 0.5 * input.items.length), currency);
+
+  const itemsTotal = roundToCurrency(sumItems(input.items), currency);
+  const computedTotal = roundToCurrency(computeExpenseTotal(input), currency);
+  const printedTotal = toOptionalAmount(input.printedTotal);
+  const subtotal = toOptionalAmount(input.subtotal);
+
+  const subtotalDifference = subtotal === null ? null : roundToCurrency(subtotal - itemsTotal, currency);
+  if (printedTotal === null) {
+    return { status: 'unverifiable', itemsTotal, computedTotal, printedTotal, difference: null, subtotalDifference, tolerance };
+  }
+
+  const difference = roundToCurrency(printedTotal - computedTotal, currency);
+  const matched = Math.abs(difference) <= tolerance && (subtotalDifference === null || Math.abs(subtotalDifference) <= tolerance);
+  return { status: matched ? 'matched' : 'mismatch', itemsTotal, computedTotal, printedTotal, difference, subtotalDifference, tolerance };
+};
+
+// Hint sent back to the extraction model when retrying after a mismatch
+export const buildReconciliationHint = (result: ReconciliationResult, currency: string): string => {
+  const lines = [
+    `A previous extraction of this receipt did not add up.`,
+    `The line items summed to ${formatCurrency(result.itemsTotal, currency)} and, with taxes, charges and discounts, to ${formatCurrency(result.computedTotal, currency)}.`,
+  ];
+  if (result.printedTotal !== null && result.difference !== null) {
+    lines.push(`The printed grand total is ${formatCurrency(result.printedTotal, currency)}, a difference of ${formatCurrency(result.difference, currency)}.`);
+  }
+  if (result.subtotalDifference !== null && Math.abs(result.subtotalDifference) > result.tolerance) {
+    lines.push(`The printed subtotal differs from the item sum by ${formatCurrency(result.subtotalDifference, currency)}.`);
+  }
+  lines.push(`Re-read every line item price, check for missed or duplicated lines, quantities multiplied into prices, and discounts or taxes recorded as items.`);
+  return lines.join(' ');
+};
@@ -0,0 +1,147 @@
+// src/lib/receipt-storage.ts
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getAdminStorageBucket } from '@/lib/firebaseAdmin';
+import type { ReceiptFileRef, ReceiptRef, ReceiptStorageBackend, ReceiptUpload } from '@/types/receipt';
+import { receiptStorageBackends, RECEIPT_PDF_CONTENT_TYPE, MAX_RECEIPT_FILE_SIZE } from '@/types/receipt';
+import { parseDataUri, toDataUri } from '@/lib/data-uri';
+
+// Minimal storage interface for receipt files. Paths are relative, e.g. 'receipts/<uid>/<expenseId>/original.jpg'.
+export interface ReceiptStorage {
+  backend: ReceiptStorageBackend;
+  put: (filePath: string, data: Buffer, contentType: string) => Promise<void>;
+  get: (filePath: string) => Promise<Buffer>;
+  remove: (filePath: string) => Promise<void>;
+}
+
+// Firebase Storage via the Admin SDK (works against the Storage emulator when FIREBASE_STORAGE_EMULATOR_HOST is set)
+const createFirebaseReceiptStorage = (): ReceiptStorage => ({
+  backend: 'firebase',
+  put: async (filePath, data, contentType) => {
+    await getAdminStorageBucket().file(filePath).save(data, { contentType, resumable: false });
+  },
+  get: async (filePath) => {
+    const [contents] = await getAdminStorageBucket().file(filePath).download();
+    return contents;
+  },
+  remove: async (filePath) => {
+    await getAdminStorageBucket().file(filePath).delete({ ignoreNotFound: true });
+  },
+});
+
+// Local filesystem, rooted at RECEIPT_STORAGE_LOCAL_DIR (defaults to ./.receipts)
+const createLocalReceiptStorage = (rootDir: string): ReceiptStorage => {
+  const resolvePath = (filePath: string) => {
+    const root = path.resolve(rootDir);
+    const resolved = path.resolve(root, filePath);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid receipt storage path: ${filePath}`);
+    }
+    return resolved;
+  };
+
+  return {
+    backend: 'local',
+    put: async (filePath, data) => {
+      const target = resolvePath(filePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+    },
+    get: async (filePath) => fs.readFile(resolvePath(filePath)),
+    remove: async (filePath) => {
+      await fs.rm(resolvePath(filePath), { force: true });
+    },
+  };
+};
+
+export const getConfiguredReceiptStorageBackend = (): ReceiptStorageBackend => {
+  const configured = process.env.RECEIPT_STORAGE_BACKEND;
+  if (configured && receiptStorageBackends.includes(configured as ReceiptStorageBackend)) {
+    return configured as ReceiptStorageBackend;
+  }
+  return 'firebase';
+};
+
+// Returns the storage for the given backend, or the configured one.
+// Reads should pass the backend recorded on the ReceiptRef so receipts stay readable after the configuration changes.
+export const getReceiptStorage = (backend: ReceiptStorageBackend = getConfiguredReceiptStorageBackend()): ReceiptStorage => {
+  if (backend === 'local') {
+    return createLocalReceiptStorage(process.env.RECEIPT_STORAGE_LOCAL_DIR || '.receipts');
+  }
+  return createFirebaseReceiptStorage();
+};
+
+// Receipts can be photos or PDF invoices
+export const isSupportedReceiptContentType = (contentType: string): boolean =>
+  contentType.startsWith('image/') || contentType === RECEIPT_PDF_CONTENT_TYPE;
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Reason a receipt sent from the browser cannot be accepted, or null if it can
+export const getReceiptUploadError = (dataUri: string): string | null => {
+  const { contentType, data } = parseDataUri(dataUri);
+  if (!isSupportedReceiptContentType(contentType)) {
+    return "Unsupported receipt file. Please upload an image or a PDF.";
+  }
+  if (data.length > MAX_RECEIPT_FILE_SIZE) {
+    return `Receipt file is too large (${formatMegabytes(data.length)}). Receipts can be at most ${formatMegabytes(MAX_RECEIPT_FILE_SIZE)}.`;
+  }
+  return null;
+};
+
+export const fileExtensionForContentType = (contentType: string): string => {
+  switch (contentType) {
+    case 'image/jpeg': return 'jpg';
+    case 'image/png': return 'png';
+    case 'image/webp': return 'webp';
+    case 'image/heic': return 'heic';
+    case 'image/gif': return 'gif';
+    case RECEIPT_PDF_CONTENT_TYPE: return 'pdf';
+    default: return 'bin';
+  }
+};
+
+// SHA-256 of the decoded file, so the same file uploaded twice can be recognized
+export const hashReceiptFile = (dataUri: string): string => createHash('sha256').update(parseDataUri(dataUri).data).digest('hex');
+
+const storeReceiptFile = async (storage: ReceiptStorage, basePath: string, name: string, dataUri: string): Promise<ReceiptFileRef> => {
+  const { contentType, data } = parseDataUri(dataUri);
+  const filePath = `${basePath}/${name}.${fileExtensionForContentType(contentType)}`;
+  await storage.put(filePath, data, contentType);
+  return { path: filePath, contentType, size: data.length };
+};
+
+// Stores an uploaded receipt and its thumbnail under basePath, e.g. 'receipts/<uid>/<expenseId>'
+export const storeReceiptFiles = async (basePath: string, upload: ReceiptUpload): Promise<ReceiptRef> => {
+  const storage = getReceiptStorage();
+  const original = await storeReceiptFile(storage, basePath, 'original', upload.dataUri);
+  const thumbnail = upload.thumbnailDataUri ? await storeReceiptFile(storage, basePath, 'thumbnail', upload.thumbnailDataUri) : null;
+  return {
+    backend: storage.backend,
+    original,
+    thumbnail,
+    contentHash: hashReceiptFile(upload.dataUri),
+    perceptualHash: upload.perceptualHash || null,
+  };
+};
+
+// Reads stored receipt files back as an upload, e.g. to attach them to another document
+export const loadReceiptFiles = async (receipt: ReceiptRef): Promise<ReceiptUpload> => {
+  const storage = getReceiptStorage(receipt.backend);
+  const original = await storage.get(receipt.original.path);
+  const thumbnail = receipt.thumbnail ? await storage.get(receipt.thumbnail.path) : null;
+  return {
+    dataUri: toDataUri(receipt.original.contentType, original),
+    thumbnailDataUri: receipt.thumbnail && thumbnail ? toDataUri(receipt.thumbnail.contentType, thumbnail) : null,
+    perceptualHash: receipt.perceptualHash || null,
+  };
+};
+
+export const removeReceiptFiles = async (receipt: ReceiptRef): Promise<void> => {
+  const storage = getReceiptStorage(receipt.backend);
+  await storage.remove(receipt.original.path);
+  if (receipt.thumbnail) {
+    await storage.remove(receipt.thumbnail.path);
+  }
+};
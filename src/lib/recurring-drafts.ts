@@ -0,0 +1,164 @@
+// src/lib/recurring-drafts.ts
+import admin from 'firebase-admin';
+import type { Expense } from '@/types/expense';
+import type { RecurringDraft, RecurringExpense } from '@/types/recurring';
+import { DEFAULT_BASE_CURRENCY } from '@/types/currency';
+import { serializeRecurringExpense } from '@/lib/expense-records';
+import { getDueDate, getDueOccurrences, matchesRecurringCharge, todayCalendarDate, RECURRING_MATCH_WINDOW_DAYS } from '@/lib/recurring-expenses';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Firestore 'in' filters take at most this many values
+const MAX_IN_VALUES = 10;
+
+export interface SavedCharge {
+  vendorId: string | null;
+  company: string;
+  totalAmount: number;
+  currency: string;
+  expenseDate: Date;
+}
+
+// The open draft an expense being saved is the charge of: the draft it was saved from, or else the user's open draft it
+// matches, e.g. when the receipt of a subscription arrives and is entered on its own
+export const findRecurringDraft = async (
+  adminDb: admin.firestore.Firestore,
+  uid: string,
+  draftId: string | null | undefined,
+  expense: SavedCharge,
+): Promise<RecurringDraft | null> => {
+  if (draftId) {
+    const doc = await adminDb.collection('recurringDrafts').doc(draftId).get();
+    const draft = doc.exists ? { id: doc.id, ...doc.data() } as RecurringDraft : null;
+    return draft && draft.userId === uid && draft.status === 'open' ? draft : null;
+  }
+  // Equality filters only, so no composite index is needed; a user has few open drafts
+  const snapshot = await adminDb.collection('recurringDrafts')
+    .where('userId', '==', uid)
+    .where('status', '==', 'open')
+    .get();
+  const drafts = snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() }) as RecurringDraft)
+    .filter(draft => matchesRecurringCharge(draft, expense))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  return drafts[0] || null;
+};
+
+// Closes a draft once its expense is saved. Only an open draft is closed, in case it was skipped meanwhile.
+export const markRecurringDraftSaved = (adminDb: admin.firestore.Firestore, draftId: string, expenseId: string): Promise<void> =>
+  adminDb.runTransaction(async transaction => {
+    const ref = adminDb.collection('recurringDrafts').doc(draftId);
+    const doc = await transaction.get(ref);
+    if (doc.data()?.status !== 'open') return;
+    transaction.update(ref, { status: 'saved', expenseId, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  });
+
+// The IDs among `expenseIds` that a draft of the user was already saved for or matched to
+const findLinkedExpenseIds = async (adminDb: admin.firestore.Firestore, uid: string, expenseIds: string[]): Promise<Set<string>> => {
+  const linked = new Set<string>();
+  for (let i = 0; i < expenseIds.length; i += MAX_IN_VALUES) {
+    const snapshot = await adminDb.collection('recurringDrafts')
+      .where('userId', '==', uid)
+      .where('expenseId', 'in', expenseIds.slice(i, i + MAX_IN_VALUES))
+      .get();
+    snapshot.docs.forEach(doc => linked.add(doc.data().expenseId));
+  }
+  return linked;
+};
+
+// Generates the drafts of one template for its due dates that have passed, and returns how many were created.
+// A due charge the user already saved an expense for, e.g. from its receipt, is matched to that expense instead of
+// waiting for review. The link is kept on the draft only, so the expense itself is not changed. The template's count
+// of generated dates keeps overlapping runs from generating a date twice.
+const generateTemplateDrafts = async (adminDb: admin.firestore.Firestore, template: RecurringExpense, today: string): Promise<number> => {
+  const { occurrences, generatedCount } = getDueOccurrences(template, today);
+  if (occurrences.length === 0) return 0;
+
+  const windowMs = (RECURRING_MATCH_WINDOW_DAYS + 1) * DAY_MS;
+  const expensesSnapshot = await adminDb.collection('expenses')
+    .where('userId', '==', template.userId)
+    .where('expenseDate', '>=', admin.firestore.Timestamp.fromMillis(Date.parse(occurrences[0].dueDate) - windowMs))
+    .where('expenseDate', '<=', admin.firestore.Timestamp.fromMillis(Date.parse(occurrences[occurrences.length - 1].dueDate) + windowMs))
+    .get();
+  const unlinked = expensesSnapshot.docs.filter(doc => !(doc.data() as Expense).recurringExpenseId);
+  const linkedIds = await findLinkedExpenseIds(adminDb, template.userId, unlinked.map(doc => doc.id));
+  const candidates = unlinked.filter(doc => !linkedIds.has(doc.id));
+
+  const templateRef = adminDb.collection('recurringExpenses').doc(template.id!);
+  return adminDb.runTransaction(async transaction => {
+    const currentDoc = await transaction.get(templateRef);
+    if (!currentDoc.exists || currentDoc.data()!.generatedCount !== template.generatedCount) return 0; // Another run got here first
+    const draftRefs = occurrences.map(({ dueDate }) => adminDb.collection('recurringDrafts').doc(`${template.id}-${dueDate}`));
+    const existingDrafts = await transaction.getAll(...draftRefs);
+
+    const matchedIds = new Set<string>();
+    let created = 0;
+    occurrences.forEach(({ dueDate }, index) => {
+      if (existingDrafts[index].exists) return;
+      const match = candidates.find(doc => {
+        const expense = doc.data() as Expense;
+        return !matchedIds.has(doc.id) && matchesRecurringCharge({ ...template, dueDate }, {
+          vendorId: expense.vendorId,
+          company: expense.company,
+          totalAmount: expense.totalAmount,
+          currency: expense.currency || DEFAULT_BASE_CURRENCY,
+          expenseDate: (expense.expenseDate as unknown as admin.firestore.Timestamp).toDate(),
+        });
+      });
+      if (match) matchedIds.add(match.id);
+      const draft: Omit<RecurringDraft, 'id' | 'createdAt' | 'updatedAt'> = {
+        recurringExpenseId: template.id!,
+        userId: template.userId,
+        companyId: template.companyId,
+        name: template.name,
+        company: template.company,
+        vendorId: template.vendorId,
+        category: template.category,
+        amount: template.amount,
+        currency: template.currency,
+        paymentMethod: template.paymentMethod,
+        dueDate,
+        status: match ? 'saved' : 'open',
+        expenseId: match?.id || null,
+      };
+      transaction.set(draftRefs[index], {
+        ...draft,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      created++;
+    });
+
+    transaction.update(templateRef, {
+      generatedCount,
+      nextDueDate: getDueDate(template, generatedCount),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return created;
+  });
+};
+
+// Generates the drafts of the templates that are due, and returns how many were created and how many templates failed.
+// A failing template, e.g. a malformed document, is logged and skipped so the others still get their drafts.
+export const generateDueRecurringDrafts = async (
+  adminDb: admin.firestore.Firestore,
+  templates: RecurringExpense[],
+  today: string = todayCalendarDate(),
+): Promise<{ generated: number; failed: number }> => {
+  let generated = 0;
+  let failed = 0;
+  for (const template of templates.filter(candidate => candidate.active && candidate.nextDueDate && candidate.nextDueDate <= today)) {
+    try {
+      generated += await generateTemplateDrafts(adminDb, template, today);
+    } catch (error) {
+      console.error(`generateDueRecurringDrafts: Failed to generate drafts of recurring expense ${template.id}:`, error);
+      failed++;
+    }
+  }
+  return { generated, failed };
+};
+
+// The scheduled run: drafts for every user's active recurring expenses
+export const generateAllRecurringDrafts = async (adminDb: admin.firestore.Firestore): Promise<{ generated: number; failed: number }> => {
+  const snapshot = await adminDb.collection('recurringExpenses').where('active', '==', true).get();
+  return generateDueRecurringDrafts(adminDb, snapshot.docs.map(doc => serializeRecurringExpense(doc.id, doc.data())));
+};
@@ -0,0 +1,137 @@
+// src/lib/recurring-expenses.ts
+import type { RecurrenceSchedule, RecurrenceUnit, RecurringExpense, SubscriptionSummary, UpcomingCharge } from '@/types/recurring';
+import { roundToCurrency } from '@/lib/currency';
+import { vendorKey } from '@/lib/vendors';
+import { toCalendarDate } from '@/lib/extraction-provenance';
+
+export const MAX_RECURRING_EXPENSES = 50;
+// Drafts generated for a template that fell behind, e.g. one started long ago: only its latest charges get one
+export const MAX_DRAFTS_PER_RUN = 12;
+// An expense this many days before or after the due date, from the same vendor and close to the amount, is the charge
+export const RECURRING_MATCH_WINDOW_DAYS = 7;
+// Prices of subscriptions change a little with seats, usage and tax
+const RECURRING_AMOUNT_TOLERANCE = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isCalendarDate = (value: unknown): value is string =>
+  typeof value === 'string' && CALENDAR_DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+  && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value); // Rejects e.g. Feb 30
+
+// Today's calendar date on the server, which the scheduler compares due dates against
+export const todayCalendarDate = (now: Date = new Date()): string => now.toISOString().split('T')[0];
+
+export const scheduleForFrequency = (frequency: RecurrenceSchedule['frequency'], custom?: Pick<RecurrenceSchedule, 'interval' | 'unit'>): RecurrenceSchedule =>
+  frequency === 'monthly' ? { frequency, interval: 1, unit: 'month' }
+    : frequency === 'yearly' ? { frequency, interval: 1, unit: 'year' }
+      : { frequency, interval: custom?.interval || 1, unit: custom?.unit || 'month' };
+
+// Adds units to a calendar date. Months keep the day of the month, or the last day of shorter months.
+const addUnits = (calendarDate: string, unit: RecurrenceUnit, amount: number): string => {
+  const date = new Date(`${calendarDate}T00:00:00Z`);
+  if (unit === 'day' || unit === 'week') {
+    date.setUTCDate(date.getUTCDate() + amount * (unit === 'week' ? 7 : 1));
+  } else {
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + amount * (unit === 'year' ? 12 : 1));
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+  }
+  return date.toISOString().split('T')[0];
+};
+
+// The due date of the nth charge, counted from the start date so month ends do not drift (Jan 31, Feb 28, Mar 31)
+export const getOccurrenceDate = (startDate: string, schedule: RecurrenceSchedule, occurrence: number): string =>
+  addUnits(startDate, schedule.unit, occurrence * schedule.interval);
+
+// The nth due date, or null if it falls after the end date
+export const getDueDate = (template: Pick<RecurringExpense, 'startDate' | 'endDate' | 'schedule'>, occurrence: number): string | null => {
+  const dueDate = getOccurrenceDate(template.startDate, template.schedule, occurrence);
+  return template.endDate && dueDate > template.endDate ? null : dueDate;
+};
+
+// Occurrences that are due by `today` and have no draft yet, oldest first, and the template's count of generated dates
+// once they are. When more than `limit` are due only the latest are returned; the older ones are counted as generated,
+// so the next due date moves past them instead of the template catching up over several runs.
+export const getDueOccurrences = (
+  template: Pick<RecurringExpense, 'startDate' | 'endDate' | 'schedule' | 'generatedCount'>,
+  today: string,
+  limit = MAX_DRAFTS_PER_RUN,
+): { occurrences: Array<{ occurrence: number; dueDate: string }>; generatedCount: number } => {
+  if (!(template.schedule.interval >= 1)) throw new Error(`Invalid schedule interval ${template.schedule.interval}.`); // Would never pass today
+  const occurrences: Array<{ occurrence: number; dueDate: string }> = [];
+  let occurrence = template.generatedCount;
+  for (; ; occurrence++) {
+    const dueDate = getDueDate(template, occurrence);
+    if (!dueDate || dueDate > today) break;
+    occurrences.push({ occurrence, dueDate });
+    if (occurrences.length > limit) occurrences.shift();
+  }
+  return { occurrences, generatedCount: occurrence };
+};
+
+// Charges of active templates due from `from` up to `days` days later, soonest first
+export const getUpcomingCharges = (templates: RecurringExpense[], from: string, days: number): UpcomingCharge[] => {
+  const until = addUnits(from, 'day', days);
+  return templates
+    .filter(template => template.active)
+    .flatMap(template => {
+      const charges: UpcomingCharge[] = [];
+      for (let occurrence = template.generatedCount; charges.length < 100; occurrence++) {
+        const dueDate = getDueDate(template, occurrence);
+        if (!dueDate || dueDate > until) break;
+        if (dueDate >= from) {
+          charges.push({ recurringExpenseId: template.id!, name: template.name, company: template.company, amount: template.amount, currency: template.currency, dueDate });
+        }
+      }
+      return charges;
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+const UNITS_PER_YEAR: Record<RecurrenceUnit, number> = { day: 365, week: 52, month: 12, year: 1 };
+
+// What a charge on this schedule costs over a year
+export const annualizeAmount = (amount: number, schedule: RecurrenceSchedule, currency: string): number =>
+  roundToCurrency(amount * UNITS_PER_YEAR[schedule.unit] / Math.max(1, schedule.interval), currency);
+
+// Annual cost of the active templates per vendor, most expensive first within each currency
+export const summarizeSubscriptions = (templates: RecurringExpense[]): SubscriptionSummary[] => {
+  const byVendor = new Map<string, SubscriptionSummary>();
+  templates.filter(template => template.active).forEach(template => {
+    const key = template.vendorId || `name:${vendorKey(template.company)}`;
+    const summary = byVendor.get(key) || { vendor: template.company, count: 0, annualAmounts: {} };
+    summary.count += 1;
+    summary.annualAmounts[template.currency] = roundToCurrency(
+      (summary.annualAmounts[template.currency] || 0) + annualizeAmount(template.amount, template.schedule, template.currency),
+      template.currency,
+    );
+    byVendor.set(key, summary);
+  });
+  const largest = (summary: SubscriptionSummary) => Math.max(...Object.values(summary.annualAmounts));
+  return Array.from(byVendor.values()).sort((a, b) => largest(b) - largest(a));
+};
+
+const UNIT_LABELS: Record<RecurrenceUnit, string> = { day: 'day', week: 'week', month: 'month', year: 'year' };
+
+export const describeSchedule = (schedule: RecurrenceSchedule): string =>
+  schedule.frequency === 'monthly' ? 'Monthly'
+    : schedule.frequency === 'yearly' ? 'Yearly'
+      : schedule.interval === 1 ? `Every ${UNIT_LABELS[schedule.unit]}` : `Every ${schedule.interval} ${UNIT_LABELS[schedule.unit]}s`;
+
+// Whether a saved expense is the charge of a draft: the same vendor and currency, an amount within the tolerance and a
+// date close to the due date
+export const matchesRecurringCharge = (
+  charge: { vendorId: string | null; company: string; amount: number; currency: string; dueDate: string },
+  expense: { vendorId?: string | null; company: string; totalAmount: number; currency: string; expenseDate: Date },
+): boolean => {
+  const sameVendor = charge.vendorId && expense.vendorId
+    ? charge.vendorId === expense.vendorId
+    : !!vendorKey(charge.company) && vendorKey(charge.company) === vendorKey(expense.company);
+  if (!sameVendor || charge.currency !== expense.currency) return false;
+  if (Math.abs(expense.totalAmount - charge.amount) > charge.amount * RECURRING_AMOUNT_TOLERANCE) return false;
+  const days = Math.abs(Date.parse(toCalendarDate(expense.expenseDate)) - Date.parse(charge.dueDate)) / DAY_MS;
+  return days <= RECURRING_MATCH_WINDOW_DAYS;
+};
@@ -0,0 +1,83 @@
+// src/lib/reimbursements.ts
+import { format } from 'date-fns';
+import type { Expense } from '@/types/expense';
+import type { MemberPayout, PayoutBatch, PayoutPayee, ReimbursementBalance } from '@/types/reimbursement';
+import { getCurrencyFractionDigits, getExpenseBaseAmount, getExpenseBaseCurrency, roundToCurrency, sumByBaseCurrency } from '@/lib/currency';
+
+// A batch is written in one transaction, which allows 500 writes: two per expense (the expense and its revision),
+// up to one per expense report and the batch itself
+export const MAX_PAYOUT_EXPENSES = 150;
+export const MAX_PAYOUT_REFERENCE_LENGTH = 50;
+
+// A batch is stored under its company and reference, so creating it fails when the reference is taken.
+// The reference is encoded because document IDs cannot contain slashes.
+export const payoutBatchId = (companyId: string, reference: string): string => `${companyId}-${encodeURIComponent(reference)}`;
+
+// Approved company expenses that were not paid back yet
+export const isReimbursable = (expense: Pick<Expense, 'companyId' | 'status'>): boolean =>
+  !!expense.companyId && expense.status === 'approved';
+
+// Suggested reference for a batch paid on the given date, e.g. PAY-20261019
+export const suggestPayoutReference = (paidAt: Date): string => `PAY-${format(paidAt, 'yyyyMMdd')}`;
+
+// What each member is paid, in the order they first appear
+export const groupPayees = (expenses: Expense[], members: Record<string, { name: string; email: string | null }>): PayoutPayee[] => {
+  const payees = new Map<string, PayoutPayee>();
+  expenses.forEach(expense => {
+    const payee = payees.get(expense.userId) || {
+      userId: expense.userId,
+      name: members[expense.userId]?.name || expense.userId,
+      email: members[expense.userId]?.email || null,
+      expenseCount: 0,
+      amounts: {},
+    };
+    const currency = getExpenseBaseCurrency(expense);
+    payee.expenseCount += 1;
+    payee.amounts[currency] = roundToCurrency((payee.amounts[currency] || 0) + getExpenseBaseAmount(expense), currency);
+    payees.set(expense.userId, payee);
+  });
+  return Array.from(payees.values());
+};
+
+// A member's balance from their expenses, with what they were paid in each batch
+export const computeReimbursementBalance = (expenses: Expense[]): ReimbursementBalance => {
+  const reimbursed = expenses.filter(expense => !!expense.companyId && expense.status === 'reimbursed' && !!expense.reimbursement);
+  const payouts = new Map<string, MemberPayout>();
+  reimbursed.forEach(expense => {
+    const { batchId, reference, paidAt } = expense.reimbursement!;
+    const payout = payouts.get(batchId) || { batchId, reference, paidAt, amounts: {} };
+    const currency = getExpenseBaseCurrency(expense);
+    payout.amounts[currency] = roundToCurrency((payout.amounts[currency] || 0) + getExpenseBaseAmount(expense), currency);
+    payouts.set(batchId, payout);
+  });
+  return {
+    outstanding: sumByBaseCurrency(expenses.filter(isReimbursable)),
+    reimbursed: sumByBaseCurrency(reimbursed),
+    payouts: Array.from(payouts.values())
+      .sort((a, b) => (b.paidAt as unknown as Date).getTime() - (a.paidAt as unknown as Date).getTime()),
+  };
+};
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The payment file of a batch: one line per member and currency, for the bank or payroll import
+export const buildPayoutCsv = (batch: Pick<PayoutBatch, 'reference' | 'paidAt' | 'payees'>): string => {
+  const paidAt = format(batch.paidAt as unknown as Date, 'yyyy-MM-dd');
+  const rows = batch.payees.flatMap(payee => Object.entries(payee.amounts).map(([currency, amount]) => [
+    batch.reference,
+    paidAt,
+    payee.userId,
+    payee.name,
+    payee.email || '',
+    currency,
+    amount.toFixed(getCurrencyFractionDigits(currency)),
+    payee.expenseCount,
+  ]));
+  return [
+    ['reference', 'paid_date', 'member_id', 'member_name', 'member_email', 'currency', 'amount', 'expense_count'],
+    ...rows,
+  ].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,141 @@
+// src/lib/vendor-directory.ts
+import admin from 'firebase-admin';
+import type { Vendor } from '@/types/vendor';
+import type { Expense, ExpenseCategory } from '@/types/expense';
+import type { ExpenseReport } from '@/types/report';
+import type { UserProfile } from '@/types/user';
+import { matchVendor, vendorKey, cleanVendorName, vendorAliasKeys } from '@/lib/vendors';
+import { getEditStatusRule } from '@/lib/expense-revisions';
+import { isReportEditable } from '@/lib/expense-reports';
+import { writeRevision } from '@/lib/expense-records';
+
+// Firestore 'in' filters take at most this many values
+const MAX_IN_VALUES = 10;
+
+export interface VendorScope {
+  userId: string;
+  companyId: string | null;
+}
+
+export const serializeVendor = (doc: admin.firestore.DocumentSnapshot): Vendor => {
+  const data = doc.data()!;
+  const createdAt = data.createdAt instanceof admin.firestore.Timestamp ? data.createdAt.toDate() : new Date();
+  const updatedAt = data.updatedAt instanceof admin.firestore.Timestamp ? data.updatedAt.toDate() : createdAt;
+  return { id: doc.id, ...data, createdAt, updatedAt } as unknown as Vendor;
+};
+
+// Company vendors are shared by all members; personal ones belong to the user
+export const vendorsQuery = (adminDb: admin.firestore.Firestore, scope: VendorScope): admin.firestore.Query =>
+  scope.companyId
+    ? adminDb.collection('vendors').where('companyId', '==', scope.companyId)
+    : adminDb.collection('vendors').where('userId', '==', scope.userId).where('companyId', '==', null);
+
+// The expenses in the same scope as the vendors
+export const scopedExpensesQuery = (adminDb: admin.firestore.Firestore, scope: VendorScope): admin.firestore.Query =>
+  scope.companyId
+    ? adminDb.collection('expenses').where('companyId', '==', scope.companyId)
+    : adminDb.collection('expenses').where('userId', '==', scope.userId);
+
+export const loadVendors = async (adminDb: admin.firestore.Firestore, scope: VendorScope): Promise<Vendor[]> => {
+  const snapshot = await vendorsQuery(adminDb, scope).get();
+  return snapshot.docs.map(serializeVendor);
+};
+
+// Looks up the vendor of a printed name without changing the directory
+export const findVendor = async (adminDb: admin.firestore.Firestore, scope: VendorScope, name: string): Promise<Vendor | null> =>
+  matchVendor(name, await loadVendors(adminDb, scope))?.vendor || null;
+
+// Resolves the vendor of an expense before it is saved, creating it on first sight.
+// Names that only resemble the vendor, and the name printed on the receipt when the user changed it, are learned as aliases.
+// A new vendor defaults to the category of the expense that created it.
+export const resolveVendor = async (
+  adminDb: admin.firestore.Firestore,
+  scope: VendorScope,
+  input: { name: string; printedName?: string | null; category: ExpenseCategory },
+): Promise<Vendor | null> => {
+  const name = cleanVendorName(input.name);
+  if (!vendorKey(name)) return null;
+
+  const match = matchVendor(input.name, await loadVendors(adminDb, scope));
+  const seenNames = [input.name, input.printedName || ''].filter(Boolean);
+  if (match) {
+    const newAliases = seenNames.filter(seen => !match.vendor.aliasKeys.includes(vendorKey(seen)) && vendorKey(seen));
+    if (newAliases.length === 0) return match.vendor;
+    const aliases = Array.from(new Set([...match.vendor.aliases, ...newAliases]));
+    const aliasKeys = vendorAliasKeys(match.vendor.name, aliases);
+    await adminDb.collection('vendors').doc(match.vendor.id).update({ aliases, aliasKeys, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return { ...match.vendor, aliases, aliasKeys };
+  }
+
+  const aliases = Array.from(new Set(seenNames.filter(seen => seen !== name)));
+  const ref = adminDb.collection('vendors').doc();
+  await ref.set({
+    userId: scope.userId,
+    companyId: scope.companyId,
+    name,
+    aliases,
+    aliasKeys: vendorAliasKeys(name, aliases),
+    defaultCategory: input.category,
+    taxId: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return serializeVendor(await ref.get());
+};
+
+// Points the expenses of the given vendors at `vendor`. Expenses that can still be edited also take its canonical name,
+// written as a revision by `editor`. Approved, reimbursed and submitted-report expenses keep the name they were decided
+// with and only move to the vendor, which is not one of their revised fields.
+export const reassignVendorExpenses = async (
+  adminDb: admin.firestore.Firestore,
+  scope: VendorScope,
+  vendorIds: string[],
+  vendor: Pick<Vendor, 'id' | 'name'>,
+  editor: { uid: string; profile: UserProfile },
+): Promise<number> => {
+  const refs: admin.firestore.DocumentReference[] = [];
+  for (let i = 0; i < vendorIds.length; i += MAX_IN_VALUES) {
+    const snapshot = await scopedExpensesQuery(adminDb, scope).where('vendorId', 'in', vendorIds.slice(i, i + MAX_IN_VALUES)).get();
+    snapshot.docs.forEach(doc => refs.push(doc.ref));
+  }
+  for (const ref of refs) {
+    await adminDb.runTransaction(async transaction => {
+      const currentDoc = await transaction.get(ref);
+      if (!currentDoc.exists) return;
+      const current = currentDoc.data() as Expense;
+      const reportDoc = current.reportId ? await transaction.get(adminDb.collection('expenseReports').doc(current.reportId)) : null;
+      const locked = !getEditStatusRule(current).allowed || (!!reportDoc?.exists && !isReportEditable(reportDoc.data() as ExpenseReport));
+      if (locked || current.company === vendor.name) {
+        if (current.vendorId !== vendor.id) transaction.update(ref, { vendorId: vendor.id });
+        return;
+      }
+      writeRevision(transaction, adminDb, ref, current, editor, [{ field: 'company', before: current.company, after: vendor.name }], {
+        vendorId: vendor.id,
+        company: vendor.name,
+      });
+    });
+  }
+  return refs.length;
+};
+
+// Finishes a rename or merge recorded on the vendor: moves its expenses and those of the vendors merged into it to its
+// current name, then deletes the merged vendors and clears the marker in one batch. Expenses already moved are left
+// alone, so it can run again after a failure.
+export const completeVendorReassignment = async (
+  adminDb: admin.firestore.Firestore,
+  scope: VendorScope,
+  vendorId: string,
+  editor: { uid: string; profile: UserProfile },
+): Promise<number> => {
+  const ref = adminDb.collection('vendors').doc(vendorId);
+  const vendor = serializeVendor(await ref.get());
+  if (!vendor.pendingReassignment) return 0;
+  const sourceIds = vendor.pendingReassignment.sourceIds;
+  const moved = await reassignVendorExpenses(adminDb, scope, [vendorId, ...sourceIds], vendor, editor);
+
+  const batch = adminDb.batch();
+  sourceIds.forEach(id => batch.delete(adminDb.collection('vendors').doc(id)));
+  batch.update(ref, { pendingReassignment: null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  await batch.commit();
+  return moved;
+};
@@ -0,0 +1,55 @@
+// src/lib/vendors.ts
+import type { Vendor } from '@/types/vendor';
+import type { Expense } from '@/types/expense';
+import { normalizeVendorName, textSimilarity } from '@/lib/duplicate-detection';
+
+// Vendor names that are a word-prefix of each other ('Starbucks' and 'Starbucks Coffee') or this similar are the same vendor
+const VENDOR_SIMILARITY_THRESHOLD = 0.85;
+const MIN_PREFIX_LENGTH = 4;
+
+// Drops store and register numbers on top of normalizeVendorName, so 'STARBUCKS #1234' and 'Starbucks' share a key
+export const vendorKey = (name: string): string =>
+  normalizeVendorName(
+    name
+      .replace(/#\s*\d+/g, ' ')
+      .replace(/\b(store|branch|filiale|no)\.?\s*\d+/gi, ' '),
+  )
+    .replace(/\b\d{3,}\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// The name a new vendor gets from a receipt: the printed name without its store number
+export const cleanVendorName = (name: string): string =>
+  name.replace(/\s*#\s*\d+/g, '').replace(/\s+/g, ' ').trim();
+
+// Every key a vendor answers to. Includes the name, which may have been renamed since the aliases were recorded.
+export const vendorAliasKeys = (name: string, aliases: string[]): string[] =>
+  Array.from(new Set([name, ...aliases].map(vendorKey).filter(Boolean)));
+
+const isWordPrefix = (shorter: string, longer: string): boolean =>
+  shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(`${shorter} `);
+
+export interface VendorMatch {
+  vendor: Vendor;
+  exact: boolean; // False when the name only resembles the vendor and could be learned as an alias
+}
+
+// Finds the vendor of a printed name: an exact key match, else the only vendor whose name or an alias closely resembles it.
+// Several close vendors are ambiguous and match nothing.
+export const matchVendor = (name: string, vendors: Vendor[]): VendorMatch | null => {
+  const key = vendorKey(name);
+  if (!key) return null;
+  const exact = vendors.find(vendor => vendor.aliasKeys.includes(key));
+  if (exact) return { vendor: exact, exact: true };
+  const close = vendors.filter(vendor => vendor.aliasKeys.some(aliasKey =>
+    isWordPrefix(aliasKey, key) || isWordPrefix(key, aliasKey) || textSimilarity(aliasKey, key) >= VENDOR_SIMILARITY_THRESHOLD));
+  return close.length === 1 ? { vendor: close[0], exact: false } : null;
+};
+
+// The canonical vendor of an expense, for grouping: its directory entry, or for expenses saved before the directory,
+// the vendor its name matches exactly. Unknown vendors are grouped by their normalized name.
+export const getExpenseVendor = (expense: Pick<Expense, 'vendorId' | 'company'>, vendors: Vendor[]): { key: string; name: string } => {
+  const key = vendorKey(expense.company);
+  const vendor = vendors.find(candidate => candidate.id === expense.vendorId) || vendors.find(candidate => key && candidate.aliasKeys.includes(key));
+  return vendor ? { key: vendor.id, name: vendor.name } : { key: `name:${key}`, name: expense.company };
+};
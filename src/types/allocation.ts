@@ -0,0 +1,28 @@
+// src/types/allocation.ts
+import type { ExpenseCategory } from './expense';
+
+// 'percentage': each share is a percentage of the amount being split, adding up to 100
+// 'amount': each share is an amount in the receipt currency, adding up to the amount being split
+export const splitModes = ['percentage', 'amount'] as const;
+export type SplitMode = typeof splitModes[number];
+
+export interface SplitShare {
+  category: ExpenseCategory;
+  projectId: string | null; // One of the company's projects (see Company.projects), checked when the expense is saved
+  value: number; // Percentage or amount, depending on the split mode
+}
+
+// Divides a line item, or the whole expense, across categories and projects
+export interface ExpenseSplit {
+  mode: SplitMode;
+  shares: SplitShare[];
+}
+
+// The part of an expense charged to one category and project, computed from item categories and splits when it is saved.
+// Taxes, charges and discounts are spread over the items in proportion to their prices, so allocations add up to the total.
+export interface ExpenseAllocation {
+  category: ExpenseCategory;
+  projectId: string | null; // From the split share, null without one. An expense's own projectId is not copied here
+  amount: number; // In the receipt currency
+  baseAmount: number; // In the base currency; the allocations add up to the expense's baseAmount
+}
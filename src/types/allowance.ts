@@ -0,0 +1,84 @@
+// src/types/allowance.ts
+
+// Mileage and per-diem expenses have no receipt: their amount comes from the company's rates. Rates are in the
+// company's base currency, and the expense is saved in it.
+
+export const distanceUnits = ['km', 'mi'] as const;
+export type DistanceUnit = typeof distanceUnits[number];
+
+// A rate per distance unit for one kind of vehicle, e.g. "Car" at 0.30 per km
+export interface MileageRate {
+  id: string; // Unique within the company, e.g. "car"
+  vehicle: string;
+  unit: DistanceUnit;
+  rate: number;
+}
+
+// A daily allowance for travel to a destination, e.g. "Germany" at 28 per day. "Other" destinations can have a rate too.
+export interface PerDiemRate {
+  id: string; // Unique within the company, e.g. "germany"
+  destination: string;
+  dailyRate: number;
+}
+
+export const perDiemMeals = ['breakfast', 'lunch', 'dinner'] as const;
+export type PerDiemMeal = typeof perDiemMeals[number];
+
+// How a day's allowance is reduced, as percentages of the full daily rate. The first and last day of a trip are
+// partial days; a day trip is one partial day.
+export interface PerDiemRules {
+  partialDayPercent: number;
+  mealDeductionPercents: Record<PerDiemMeal, number>; // Deducted for each meal that was provided, e.g. by a hotel
+}
+
+export const DEFAULT_PER_DIEM_RULES: PerDiemRules = {
+  partialDayPercent: 75,
+  mealDeductionPercents: { breakfast: 20, lunch: 40, dinner: 40 },
+};
+
+// What the submitter enters for a mileage expense
+export interface MileageInput {
+  rateId: string;
+  from: string;
+  to: string;
+  distance: number | string; // One way, in the unit of the rate
+  roundTrip: boolean;
+}
+
+// A mileage expense as saved, with the rate at the time
+export interface MileageDetails {
+  rateId: string;
+  vehicle: string;
+  from: string;
+  to: string;
+  distance: number; // One way
+  roundTrip: boolean;
+  unit: DistanceUnit;
+  rate: number;
+}
+
+// What the submitter enters for a per-diem expense. Dates are calendar dates (YYYY-MM-DD).
+export interface PerDiemInput {
+  rateId: string;
+  startDate: string;
+  endDate: string;
+  mealsProvided: Record<string, PerDiemMeal[]>; // By date; days without an entry had no meals provided
+}
+
+export interface PerDiemDay {
+  date: string;
+  partial: boolean;
+  mealsProvided: PerDiemMeal[];
+  amount: number;
+}
+
+// A per-diem expense as saved, with the rate and rules at the time
+export interface PerDiemDetails {
+  rateId: string;
+  destination: string;
+  dailyRate: number;
+  startDate: string;
+  endDate: string;
+  rules: PerDiemRules;
+  days: PerDiemDay[];
+}
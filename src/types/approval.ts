@@ -0,0 +1,51 @@
+// src/types/approval.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { UserRole } from './user';
+
+// One step of a company's approval chain. Approvers are the listed members plus every member with one of the roles.
+export interface ApprovalStepDefinition {
+  id: string; // Stable identifier, e.g. 'manager'
+  name: string; // Shown to submitters and approvers, e.g. "Manager" or "Finance"
+  approverIds: string[]; // UIDs of members who can decide this step
+  approverRoles: UserRole[]; // Roles whose members can decide this step
+  minBaseAmount: number | null; // Only expenses of at least this amount in the base currency go through the step
+}
+
+// Used by companies that have not configured a chain: any owner or admin approves
+export const DEFAULT_APPROVAL_CHAIN: ApprovalStepDefinition[] = [
+  { id: 'approval', name: 'Approval', approverIds: [], approverRoles: ['owner', 'admin'], minBaseAmount: null },
+];
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+// A step of the chain as it applies to one expense, with the approvers resolved when the round started
+export interface ApprovalStep {
+  id: string;
+  name: string;
+  approverIds: string[];
+  decision: ApprovalDecision | null; // Null until someone decides the step
+}
+
+// Reopened: an approver sent an already approved expense back to its submitter
+export type ApprovalAction = ApprovalDecision | 'submitted' | 'resubmitted' | 'reopened';
+
+// Something that happened during the approval of an expense. Events are only ever added.
+export interface ApprovalEvent {
+  round: number;
+  stepId: string | null; // Null for submissions and resubmissions
+  stepName: string | null;
+  action: ApprovalAction;
+  actorId: string;
+  actorName: string | null; // Display name or email at the time of the event
+  comment: string | null; // Required when rejecting
+  at: Timestamp;
+}
+
+// Where a company expense is in its approval chain. Every submission and resubmission starts a new round.
+export interface ExpenseApproval {
+  round: number; // 1 for the first submission
+  steps: ApprovalStep[]; // The steps that apply to the expense in this round, in order
+  currentStep: number | null; // Index of the step waiting for a decision, null once approved or rejected
+  rejectionReason: string | null; // Comment of the rejection that ended the round, if any
+  history: ApprovalEvent[]; // Events of all rounds, oldest first
+}
@@ -0,0 +1,30 @@
+// src/types/category-learning.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ExpenseCategory } from './expense';
+import type { FieldConfidence } from './confidence';
+
+// 'history': an earlier correction for the same vendor
+// 'vendor': the default category of the vendor in the vendor directory
+// 'model': the suggestion flow, with earlier corrections as examples
+// 'extraction': the category picked during receipt extraction, unchanged
+export const categorySuggestionSources = ['history', 'vendor', 'model', 'extraction'] as const;
+export type CategorySuggestionSource = typeof categorySuggestionSources[number];
+
+// A user changing the suggested category of a receipt. Stored in the 'categoryCorrections' collection.
+export interface CategoryCorrection {
+  id?: string;
+  userId: string;
+  companyId: string | null; // Corrections made in a company are shared with its members
+  vendor: string;
+  vendorKey: string; // Normalized vendor name, for exact matches
+  itemNames: string[];
+  suggestedCategory: ExpenseCategory;
+  category: ExpenseCategory;
+  createdAt: Timestamp;
+}
+
+export interface CategorySuggestion {
+  category: ExpenseCategory;
+  source: CategorySuggestionSource;
+  confidence: FieldConfidence;
+}
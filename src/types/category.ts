@@ -0,0 +1,29 @@
+// src/types/category.ts
+
+// Icons a company can pick for its categories; mapped to components in src/components/category-icon.tsx
+export const categoryIconNames = [
+  'utensils', 'plane', 'shopping-basket', 'film', 'package', 'laptop', 'gift', 'graduation-cap',
+  'car', 'hotel', 'phone', 'briefcase', 'book-open', 'wrench', 'heart-pulse', 'megaphone',
+] as const;
+export type CategoryIconName = typeof categoryIconNames[number];
+
+// One entry of a company's chart of accounts. Expenses store the ID, so it never changes once created.
+export interface ExpenseCategoryDefinition {
+  id: string; // Slug of the original name, e.g. 'client-gifts'
+  name: string; // Display name, e.g. 'Client gifts'
+  glCode: string | null; // General ledger account code, if finance uses one
+  icon: CategoryIconName;
+  archived: boolean; // Archived categories stay on existing expenses but cannot be picked for new ones
+}
+
+// Categories for personal users and for companies that have not defined their own
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategoryDefinition[] = [
+  { id: 'food', name: 'Food', glCode: null, icon: 'utensils', archived: false },
+  { id: 'travel', name: 'Travel', glCode: null, icon: 'plane', archived: false },
+  { id: 'supplies', name: 'Supplies', glCode: null, icon: 'shopping-basket', archived: false },
+  { id: 'entertainment', name: 'Entertainment', glCode: null, icon: 'film', archived: false },
+  { id: 'other', name: 'Other', glCode: null, icon: 'package', archived: false },
+];
+
+// Used when a suggested category is not in the list (or archived) and the list has no 'other'
+export const FALLBACK_CATEGORY_ID = 'other';
@@ -1,11 +1,27 @@
 
 // src/types/company.ts
 import type { Timestamp } from 'firebase/firestore';
+import type { ExpenseCategoryDefinition } from './category';
+import type { ApprovalStepDefinition } from './approval';
+import type { ExpensePolicy } from './policy';
+import type { MileageRate, PerDiemRate, PerDiemRules } from './allowance';
+import type { DimensionValue } from './dimension';
 
 export interface Company {
   id: string; // Firestore document ID
   name: string;
   ownerId: string; // UID of the user who owns the company
   members: string[]; // Array of UIDs of users who are members
+  baseCurrency?: string; // ISO 4217 code expenses are converted to. Defaults to DEFAULT_BASE_CURRENCY
+  categories?: ExpenseCategoryDefinition[]; // The company's chart of accounts. Defaults to DEFAULT_EXPENSE_CATEGORIES
+  approvalChain?: ApprovalStepDefinition[]; // Steps company expenses go through. Defaults to DEFAULT_APPROVAL_CHAIN
+  policies?: ExpensePolicy[]; // Spending rules checked when company expenses are saved and approved
+  mileageRates?: MileageRate[]; // Rates mileage expenses are paid at; none means members cannot claim mileage
+  perDiemRates?: PerDiemRate[]; // Daily allowances per destination; none means members cannot claim per diems
+  perDiemRules?: PerDiemRules; // Defaults to DEFAULT_PER_DIEM_RULES
+  projects?: DimensionValue[];
+  clients?: DimensionValue[];
+  costCenters?: DimensionValue[];
+  defaultMarkupPercent?: number; // Added to billable expenses unless the submitter enters another markup. Defaults to 0
   createdAt: Timestamp;
 }
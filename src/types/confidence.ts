@@ -0,0 +1,22 @@
+// src/types/confidence.ts
+
+export const confidenceLevels = ['high', 'medium', 'low'] as const;
+export type ConfidenceLevel = typeof confidenceLevels[number];
+
+// 'read': printed on the receipt; 'inferred': guessed from context or defaulted
+export const valueSources = ['read', 'inferred'] as const;
+export type ValueSource = typeof valueSources[number];
+
+export interface FieldConfidence {
+  level: ConfidenceLevel;
+  source: ValueSource;
+}
+
+// Confidence for the fields of one extraction. `items` is parallel to the extracted items.
+export interface ExtractionConfidence {
+  company: FieldConfidence;
+  expenseDate: FieldConfidence;
+  paymentMethod: FieldConfidence;
+  category: FieldConfidence;
+  items: FieldConfidence[];
+}
@@ -0,0 +1,10 @@
+// src/types/currency.ts
+
+// ISO 4217 codes supported for receipts and company base currencies
+export const supportedCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'HKD', 'CNY', 'TWD', 'SGD', 'AUD', 'CAD', 'CHF', 'KRW', 'THB', 'MYR'] as const;
+export type CurrencyCode = typeof supportedCurrencies[number];
+
+export const DEFAULT_BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const exchangeRateSources = ['static', 'frankfurter'] as const;
+export type ExchangeRateSourceName = typeof exchangeRateSources[number];
@@ -0,0 +1,37 @@
+// src/types/dimension.ts
+
+// Company-managed labels expenses are tagged with, so spending can be reported and rebilled per project, client and
+// cost center. Tags are free-form.
+export const dimensionKinds = ['project', 'client', 'costCenter'] as const;
+export type DimensionKind = typeof dimensionKinds[number];
+
+// One project, client or cost center of a company. Expenses store the ID, so it never changes once created.
+export interface DimensionValue {
+  id: string; // Slug of the original name, e.g. 'acme-website'
+  name: string;
+  code: string | null; // Reference finance uses, e.g. a project number
+  clientId?: string | null; // Projects only: the client the project is billed to
+  archived: boolean; // Archived values stay on existing expenses but cannot be picked for new ones
+}
+
+// The dimensions of one expense
+export interface ExpenseDimensions {
+  projectId: string | null;
+  clientId: string | null;
+  costCenterId: string | null;
+  tags: string[]; // Lowercase, without duplicates
+}
+
+// What a user last saved an expense with; their new expenses start from it
+export interface ExpenseDimensionDefaults extends ExpenseDimensions {
+  billable: boolean;
+}
+
+// Narrows getExpenses to expenses with all of the given values
+export interface ExpenseFilters {
+  projectId?: string | null;
+  clientId?: string | null;
+  costCenterId?: string | null;
+  tag?: string | null;
+  billable?: boolean | null;
+}
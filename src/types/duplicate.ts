@@ -0,0 +1,19 @@
+// src/types/duplicate.ts
+
+// Why an existing expense looks like the same receipt
+// 'same_file': byte-identical receipt file
+// 'similar_image': perceptual hashes of the receipt images are close, e.g. two photos of the same receipt
+// 'same_vendor', 'same_date', 'same_amount', 'similar_items': fuzzy matches on the extracted data
+export const duplicateReasons = ['same_file', 'similar_image', 'same_vendor', 'same_date', 'same_amount', 'similar_items'] as const;
+export type DuplicateReason = typeof duplicateReasons[number];
+
+// An existing expense that a new one probably duplicates, as returned to ExpenseForm
+export interface DuplicateMatch {
+  expenseId: string;
+  company: string; // Vendor of the existing expense
+  expenseDate: string; // YYYY-MM-DD
+  totalAmount: number;
+  currency: string;
+  isOwnExpense: boolean; // False if a colleague submitted it
+  reasons: DuplicateReason[];
+}
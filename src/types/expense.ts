@@ -1,46 +1,154 @@
 
 import type { Timestamp } from "firebase/firestore";
+import type { ReceiptRef } from "./receipt";
+import type { ExpenseReconciliation } from "./reconciliation";
+import type { FieldConfidence } from "./confidence";
+import type { ExpenseAllocation, ExpenseSplit } from "./allocation";
+import type { ExtractionProvenance, ExtractionRun } from "./provenance";
+import type { ExpenseApproval } from "./approval";
+import type { ExpenseReimbursement } from "./reimbursement";
+import type { PolicyViolation } from "./policy";
+import type { MileageDetails, MileageInput, PerDiemDetails, PerDiemInput } from "./allowance";
 
 export interface ExpenseItem {
   id?: string; // for react-hook-form field array
   name: string;
   quantity: number;
   netPrice: number; 
+  category?: ExpenseCategory | null; // Set when the item belongs to another category than the expense
+  split?: ExpenseSplit | null; // Divides the item across categories and projects; takes precedence over `category`
 }
 
-export const expenseCategories = ['food', 'travel', 'supplies', 'entertainment', 'other'] as const;
-export type ExpenseCategory = typeof expenseCategories[number];
+export interface ExpenseTaxLine {
+  id?: string; // for react-hook-form field array
+  name: string; // As printed, e.g. "VAT", "GST", "Sales Tax"
+  rate: number | null; // Percentage, e.g. 20 for 20%. Null if not printed
+  amount: number;
+  inclusive: boolean; // True if the tax is already included in the item prices (common for VAT)
+}
+
+export interface ExpenseDiscount {
+  id?: string; // for react-hook-form field array
+  description: string;
+  amount: number; // Positive amount deducted from the total
+}
+
+// ID of one of the company's categories (see ExpenseCategoryDefinition), or of a default category for personal expenses
+export type ExpenseCategory = string;
 
 export const paymentMethods = ['card', 'cash', 'online', 'other'] as const;
 export type PaymentMethod = typeof paymentMethods[number];
 
-export type ExpenseStatus = 'pending' | 'approved' | 'rejected';
+// 'receipt': bought from a vendor, with items from the receipt
+// 'mileage' and 'per_diem': claimed at the company's rates, without a receipt; see MileageDetails and PerDiemDetails
+export const expenseKinds = ['receipt', 'mileage', 'per_diem'] as const;
+export type ExpenseKind = typeof expenseKinds[number];
+
+// Company expenses go pending -> approved (or rejected) -> reimbursed once paid back in a payout batch
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected' | 'reimbursed';
 
 export interface Expense {
   id?: string; // Firestore document ID
   userId: string; // ID of the user who created the expense
+  kind?: ExpenseKind; // Missing on expenses saved before mileage and per diems, which are receipts
+  mileage?: MileageDetails | null; // Set on mileage expenses
+  perDiem?: PerDiemDetails | null; // Set on per-diem expenses
   company: string; // This might be company name or companyId. Let's clarify. Assuming company NAME for now, will add companyId.
   companyId?: string | null; // ID of the company the expense belongs to
+  vendorId?: string | null; // Vendor directory entry; `company` holds its canonical name. Missing on expenses saved before the directory
   items: ExpenseItem[];
-  category: ExpenseCategory;
-  totalAmount: number; 
+  category: ExpenseCategory; // Header category, used for items without their own category
+  split?: ExpenseSplit | null; // Divides the whole expense; takes precedence over item categories and splits
+  projectId?: string | null; // Company dimensions, see DimensionValue. Missing on expenses saved before dimensions
+  clientId?: string | null;
+  costCenterId?: string | null;
+  tags?: string[];
+  billable?: boolean; // Rebilled to the client, at baseAmount plus markupPercent
+  markupPercent?: number | null; // Set on billable expenses
+  billableAmount?: number | null; // In baseCurrency, including the markup. Set on billable expenses
+  allocations?: ExpenseAllocation[]; // What reports aggregate. Missing on expenses saved before splits: the whole amount is in `category`
+  totalAmount: number; // Printed grand total in the receipt's original currency (falls back to the computed total if none was printed)
+  subtotal?: number | null; // Printed subtotal, if any
+  taxes?: ExpenseTaxLine[];
+  serviceCharge?: number;
+  tip?: number;
+  discounts?: ExpenseDiscount[];
+  currency?: string; // ISO 4217 code of the receipt. Missing on expenses saved before multi-currency support
+  baseCurrency?: string; // Company base currency at the time of saving
+  baseAmount?: number; // totalAmount converted to baseCurrency
+  exchangeRate?: number; // Units of baseCurrency per unit of currency
+  exchangeRateSource?: string; // Name of the rate source used for the conversion
   expenseDate: Timestamp;
+  expenseDay?: string; // Calendar date (YYYY-MM-DD) of expenseDate in the submitter's timezone. Missing on older expenses
+  submittedDay?: string; // The submitter's calendar date when the expense was first saved, for submission deadlines
   paymentMethod: PaymentMethod;
   status: ExpenseStatus; // Status of the expense, especially for company context
+  approval?: ExpenseApproval | null; // Approval chain of a company expense. Missing on expenses saved before approval chains
+  pendingApproverIds?: string[]; // Approvers of the step waiting for a decision, empty once decided; queried for approval queues
+  reportId?: string | null; // Expense report the expense was added to. Such expenses are approved with the report
+  reimbursement?: ExpenseReimbursement | null; // Set once a reimbursed expense was paid back
+  policyViolations?: PolicyViolation[]; // Company policies the expense broke when it was last saved or approved
+  policyJustification?: string | null; // The submitter's explanation for the violations
+  recurringExpenseId?: string | null; // Recurring expense the expense was saved for; matched expenses are only linked from their draft
+  reconciliation?: ExpenseReconciliation; // Whether the items added up to the printed total when saved
+  possibleDuplicateOf?: string[]; // IDs of existing expenses this one matched when it was saved anyway
+  receipt?: ReceiptRef | null; // Stored receipt image, if one was uploaded
+  provenance?: ExtractionProvenance | null; // Set when the expense was filled from an AI extraction, null if entered by hand
   createdAt: Timestamp; 
+  updatedAt?: Timestamp; // Time of the last revision, missing if the expense was never changed
+  revisionCount?: number; // Number of revisions in `expenseRevisions`, missing if the expense was never changed
 }
 
 export interface ExpenseFormData {
+  kind?: ExpenseKind; // Defaults to 'receipt'. Mileage and per diems get their items, total and currency from the rates
+  mileage?: MileageInput | null;
+  perDiem?: PerDiemInput | null;
   company: string; // Company name (manual input or from user's company)
   companyId?: string | null; // Company ID, if user is part of one
+  printedCompany?: string | null; // Vendor name as extracted from the receipt, learned as an alias of the saved vendor
   items: Array<{
     id?: string;
     name: string;
     quantity: number | string; 
     netPrice: number | string; 
+    confidence?: FieldConfidence; // Set on AI-extracted items, not saved
+    category?: ExpenseCategory | null;
+    split?: ExpenseSplit | null;
   }>;
   category: ExpenseCategory;
+  split?: ExpenseSplit | null;
+  suggestedCategory?: ExpenseCategory | null; // Category suggested by extraction, to learn from the user changing it
+  projectId?: string | null;
+  clientId?: string | null; // Filled in from the project if it has a client
+  costCenterId?: string | null;
+  tags?: string[];
+  billable?: boolean;
+  markupPercent?: number | string | null; // Defaults to the company's markup
+  currency: string; // ISO 4217 code of the receipt
+  subtotal?: number | string | null;
+  taxes?: Array<{
+    id?: string;
+    name: string;
+    rate: number | string | null;
+    amount: number | string;
+    inclusive: boolean;
+  }>;
+  serviceCharge?: number | string;
+  tip?: number | string;
+  discounts?: Array<{
+    id?: string;
+    description: string;
+    amount: number | string;
+  }>;
+  totalAmount?: number | string | null; // Printed grand total. Computed from the breakdown if empty
+  totalMismatchAcknowledged?: boolean; // Set once the user confirms saving items that do not add up to the printed total
+  duplicatesAcknowledged?: boolean; // Set once the user confirms saving an expense that looks like an existing one
+  policyJustification?: string | null; // Why the expense breaks company policies, for policies that require a justification
+  recurringDraftId?: string | null; // Draft of a recurring expense the expense is saved for
+  extraction?: ExtractionRun | null; // The extraction that filled the form, if any
   expenseDate: Date;
+  expenseDay?: string | null; // expenseDate as YYYY-MM-DD in the browser's timezone
+  today?: string | null; // The browser's calendar date when the expense is saved
   paymentMethod: PaymentMethod;
   status?: ExpenseStatus; // Defaults to 'pending' if companyId is present
 }
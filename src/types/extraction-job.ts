@@ -0,0 +1,29 @@
+// src/types/extraction-job.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ReceiptRef } from './receipt';
+import type { ProcessedReceiptData } from '@/actions/expense-actions';
+
+// 'queued': waiting for extraction
+// 'extracting': claimed by a worker; reclaimed if it stays here longer than the extraction timeout
+// 'needs_review': a draft is ready for the user to check and approve
+// 'saved': the draft was approved into an expense
+// 'failed': extraction failed; the job can be retried
+export const extractionJobStatuses = ['queued', 'extracting', 'needs_review', 'saved', 'failed'] as const;
+export type ExtractionJobStatus = typeof extractionJobStatuses[number];
+
+// A receipt from a batch upload, persisted in the 'extractionJobs' collection
+export interface ExtractionJob {
+  id: string; // Firestore document ID
+  userId: string;
+  companyId: string | null;
+  fileName: string; // Name of the uploaded file, for display
+  status: ExtractionJobStatus;
+  receipt: ReceiptRef; // Uploaded receipt, copied to the expense on approval and removed afterwards
+  hint: string | null; // Feedback passed to the next extraction attempt
+  attempts: number; // Number of extraction attempts so far
+  draft: ProcessedReceiptData | null; // Extraction result, set once the job reaches 'needs_review'
+  error: string | null; // Last extraction or save error
+  expenseId: string | null; // Saved expense, once approved
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
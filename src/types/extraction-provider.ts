@@ -0,0 +1,7 @@
+// src/types/extraction-provider.ts
+
+// 'gemini': the Genkit flow (needs network access and an API key)
+// 'offline': local OCR plus heuristic parsing
+// 'fixture': canned outputs from JSON files, for tests and development
+export const extractionProviderNames = ['gemini', 'offline', 'fixture'] as const;
+export type ExtractionProviderName = typeof extractionProviderNames[number];
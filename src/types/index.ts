@@ -4,3 +4,24 @@ export * from './user';
 export * from './company';
 export * from './expense';
 export * from './invitation';
+export * from './receipt';
+export * from './currency';
+export * from './reconciliation';
+export * from './allocation';
+export * from './confidence';
+export * from './extraction-job';
+export * from './duplicate';
+export * from './extraction-provider';
+export * from './category-learning';
+export * from './category';
+export * from './vendor';
+export * from './parsing';
+export * from './provenance';
+export * from './revision';
+export * from './approval';
+export * from './report';
+export * from './reimbursement';
+export * from './policy';
+export * from './recurring';
+export * from './allowance';
+export * from './dimension';
@@ -0,0 +1,18 @@
+// src/types/parsing.ts
+
+// A printed value that reads two ways when the receipt's locale is unknown, e.g. 03/04/2025 (3 April or March 4)
+// or 1,234 (1234 or 1.234). The chosen reading is used; the form offers the alternatives.
+export type ParsingAmbiguity =
+  | {
+      field: 'expenseDate';
+      printed: string; // As printed on the receipt
+      value: string; // Chosen reading, YYYY-MM-DD
+      alternatives: string[];
+    }
+  | {
+      field: 'subtotal' | 'total' | 'itemPrice';
+      itemIndex?: number; // For 'itemPrice'
+      printed: string;
+      value: number;
+      alternatives: number[];
+    };
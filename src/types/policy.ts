@@ -0,0 +1,36 @@
+// src/types/policy.ts
+import type { ExpenseCategory } from './expense';
+
+// What happens when a company expense breaks a policy:
+// - 'warn': the expense is saved and flagged for approvers
+// - 'justify': the submitter has to explain the expense before it can be saved
+// - 'block': the expense cannot be saved or approved while it breaks the policy
+export const policyActions = ['warn', 'justify', 'block'] as const;
+export type PolicyAction = typeof policyActions[number];
+
+// - 'category_daily_limit': the submitter's spending per category and day stays within `amount`
+// - 'receipt_required': expenses over `amount` need a receipt image
+// - 'no_weekend': no expenses in `categories` dated on a Saturday or Sunday
+// - 'submission_deadline': expenses are submitted at most `days` days after their date
+export const policyTypes = ['category_daily_limit', 'receipt_required', 'no_weekend', 'submission_deadline'] as const;
+export type PolicyType = typeof policyTypes[number];
+
+// A rule of a company's spending policy. Amounts are in the company's base currency.
+export interface ExpensePolicy {
+  id: string; // Unique within the company, e.g. "meals-daily-limit"
+  name: string;
+  type: PolicyType;
+  action: PolicyAction;
+  categories: ExpenseCategory[]; // Categories the rule applies to; empty for all. Not used by receipt_required and submission_deadline
+  amount: number | null; // category_daily_limit and receipt_required
+  days: number | null; // submission_deadline
+}
+
+// A policy an expense broke, as evaluated when it was saved or last approved
+export interface PolicyViolation {
+  policyId: string;
+  policyName: string;
+  type: PolicyType;
+  action: PolicyAction;
+  message: string;
+}
@@ -0,0 +1,45 @@
+// src/types/provenance.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ExtractionProviderName } from './extraction-provider';
+
+// The values an extraction proposed, in the shape they are compared with the submitted expense
+export interface ExtractedValues {
+  company: string;
+  expenseDate: string; // YYYY-MM-DD
+  category: string;
+  paymentMethod: string;
+  currency: string | null;
+  subtotal: number | null;
+  totalAmount: number | null;
+  serviceCharge: number;
+  tip: number;
+  taxTotal: number; // Sum of all tax lines
+  discountTotal: number; // Sum of all receipt-level discounts
+  items: Array<{ name: string; quantity: number; netPrice: number; category: string | null }>;
+}
+
+// One extraction, returned to the form with the extracted data and sent back with the expense it filled
+export interface ExtractionRun {
+  provider: ExtractionProviderName;
+  model: string | null; // Model ID, e.g. 'googleai/gemini-2.0-flash'; null for providers without a model
+  promptVersion: string | null; // Hash of the prompt template and output schema; null for providers without a prompt
+  extractedAt: string; // ISO timestamp
+  rawOutput: Record<string, unknown>; // Structured output exactly as the provider returned it
+  extracted: ExtractedValues; // After locale parsing and validation, before the vendor directory and category learning
+}
+
+export type ProvenanceValue = string | number | null;
+
+// A field where the submitted expense differs from the extraction. `field` is e.g. 'company', 'totalAmount' or
+// 'items[2].netPrice'; an added or removed item is reported as 'items[2]' with its name on one side and null on the other.
+export interface ProvenanceFieldChange {
+  field: string;
+  extracted: ProvenanceValue;
+  submitted: ProvenanceValue;
+}
+
+// Stored on expenses filled from an extraction. Missing or null on expenses entered by hand.
+export interface ExtractionProvenance extends Omit<ExtractionRun, 'extractedAt'> {
+  extractedAt: Timestamp;
+  changes: ProvenanceFieldChange[];
+}
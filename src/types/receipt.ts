@@ -0,0 +1,35 @@
+// src/types/receipt.ts
+
+export const receiptStorageBackends = ['firebase', 'local'] as const;
+export type ReceiptStorageBackend = typeof receiptStorageBackends[number];
+
+export const RECEIPT_PDF_CONTENT_TYPE = 'application/pdf';
+
+// Receipt files are sent to server actions as base64 data URIs (about 4/3 of the file size), which must fit the 10mb body limit.
+// Enforced by the server on every upload.
+export const MAX_RECEIPT_FILE_SIZE = 7 * 1024 * 1024;
+
+// Photos can be picked up to this size because they are downscaled in the browser before being sent
+export const MAX_RECEIPT_SOURCE_IMAGE_SIZE = 40 * 1024 * 1024;
+
+export interface ReceiptFileRef {
+  path: string; // Path within the storage backend
+  contentType: string;
+  size: number; // Size in bytes
+}
+
+// Reference to the stored receipt files, kept on the Expense document
+export interface ReceiptRef {
+  backend: ReceiptStorageBackend; // Backend the files were written to
+  original: ReceiptFileRef;
+  thumbnail: ReceiptFileRef | null; // Null if no thumbnail was generated, e.g. for PDFs
+  contentHash?: string; // SHA-256 of the original file, for duplicate detection
+  perceptualHash?: string | null; // 64-bit difference hash of the image as hex, null for PDFs
+}
+
+// Receipt files sent from the client along with a new expense
+export interface ReceiptUpload {
+  dataUri: string; // Original image or PDF as a base64 data URI
+  thumbnailDataUri?: string | null; // Downscaled JPEG preview as a base64 data URI
+  perceptualHash?: string | null; // Computed in the browser, see computePerceptualHash
+}
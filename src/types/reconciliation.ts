@@ -0,0 +1,24 @@
+// src/types/reconciliation.ts
+
+// 'matched': items and charges add up to the printed total (within rounding)
+// 'mismatch': they do not, so a line was probably misread or missed
+// 'unverifiable': no printed total to compare against
+export type ReconciliationStatus = 'matched' | 'mismatch' | 'unverifiable';
+
+export interface ReconciliationResult {
+  status: ReconciliationStatus;
+  itemsTotal: number; // Sum of items[].netPrice
+  computedTotal: number; // Items plus exclusive taxes, service charge and tip, minus discounts
+  printedTotal: number | null;
+  difference: number | null; // printedTotal - computedTotal
+  subtotalDifference: number | null; // Printed subtotal - itemsTotal, if a subtotal was printed
+  tolerance: number; // Allowed rounding difference
+}
+
+// Reconciliation outcome stored on a saved expense
+export interface ExpenseReconciliation {
+  status: ReconciliationStatus;
+  difference: number | null;
+  subtotalDifference: number | null;
+  acknowledged: boolean; // True if the user saved despite a mismatch
+}
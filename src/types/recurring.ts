@@ -0,0 +1,96 @@
+// src/types/recurring.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ExpenseCategory, PaymentMethod } from './expense';
+
+// 'monthly' and 'yearly' repeat on the day of the start date; 'custom' every `interval` units
+export const recurrenceFrequencies = ['monthly', 'yearly', 'custom'] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export const recurrenceUnits = ['day', 'week', 'month', 'year'] as const;
+export type RecurrenceUnit = typeof recurrenceUnits[number];
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number; // 1 for monthly and yearly
+  unit: RecurrenceUnit; // 'month' for monthly, 'year' for yearly
+}
+
+// A charge that comes back on a schedule, e.g. software seats or a phone plan, in the 'recurringExpenses' collection.
+// Drafts are generated from it for every due date. Due dates are calendar dates (YYYY-MM-DD), so they are the same day
+// for the browser and the server whatever their timezones.
+export interface RecurringExpense {
+  id?: string; // Firestore document ID
+  userId: string;
+  companyId: string | null;
+  name: string; // What is paid for, e.g. "Design tool seats"; becomes the line item of the drafts
+  company: string; // Vendor name
+  vendorId: string | null; // Vendor directory entry, if the name matched one
+  category: ExpenseCategory;
+  amount: number; // Expected charge in `currency`
+  currency: string;
+  paymentMethod: PaymentMethod;
+  schedule: RecurrenceSchedule;
+  startDate: string; // First due date
+  endDate: string | null; // No drafts are generated after it
+  active: boolean; // Paused templates generate no drafts
+  generatedCount: number; // Due dates drafts were generated for so far
+  nextDueDate: string | null; // Null once the end date is passed
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface RecurringExpenseInput {
+  name: string;
+  company: string;
+  category: ExpenseCategory;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  schedule: RecurrenceSchedule;
+  startDate: string;
+  endDate: string | null;
+  active: boolean;
+}
+
+// 'open': waiting to be saved as an expense, or matched to one that arrives with the receipt
+// 'saved': an expense was saved for the charge
+// 'skipped': dismissed, e.g. when the charge did not happen
+export const recurringDraftStatuses = ['open', 'saved', 'skipped'] as const;
+export type RecurringDraftStatus = typeof recurringDraftStatuses[number];
+
+// One due charge of a recurring expense, in the 'recurringDrafts' collection
+export interface RecurringDraft {
+  id?: string; // `${recurringExpenseId}-${dueDate}`, so each due date gets one draft
+  recurringExpenseId: string;
+  userId: string;
+  companyId: string | null;
+  name: string;
+  company: string;
+  vendorId: string | null;
+  category: ExpenseCategory;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+  dueDate: string;
+  status: RecurringDraftStatus;
+  expenseId: string | null; // The expense saved or matched for the charge
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// A charge expected in the coming weeks
+export interface UpcomingCharge {
+  recurringExpenseId: string;
+  name: string;
+  company: string;
+  amount: number;
+  currency: string;
+  dueDate: string;
+}
+
+// What the recurring expenses of one vendor cost per year, per currency
+export interface SubscriptionSummary {
+  vendor: string;
+  count: number;
+  annualAmounts: Record<string, number>;
+}
@@ -0,0 +1,54 @@
+// src/types/reimbursement.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// Set on an expense when it is paid back to its submitter in a payout batch
+export interface ExpenseReimbursement {
+  batchId: string;
+  reference: string; // Reference of the payout batch, as it appears on the payment
+  paidAt: Timestamp;
+}
+
+// What one member is paid in a batch, per base currency
+export interface PayoutPayee {
+  userId: string;
+  name: string;
+  email: string | null;
+  expenseCount: number;
+  amounts: Record<string, number>;
+}
+
+// Approved company expenses paid back to their submitters together, e.g. in one bank transfer run
+export interface PayoutBatch {
+  id?: string; // Firestore document ID
+  companyId: string;
+  reference: string; // Unique within the company
+  paidAt: Timestamp; // Date the payments were made
+  expenseIds: string[];
+  payees: PayoutPayee[];
+  totals: Record<string, number>; // Per base currency
+  createdBy: string;
+  createdByName: string | null;
+  createdAt: Timestamp;
+}
+
+// What finance fills in for a new batch
+export interface PayoutBatchInput {
+  reference: string;
+  paidAt: Date;
+  expenseIds: string[];
+}
+
+// What a member was paid in one batch, per base currency
+export interface MemberPayout {
+  batchId: string;
+  reference: string;
+  paidAt: Timestamp;
+  amounts: Record<string, number>;
+}
+
+// A member's approved company expenses, per base currency
+export interface ReimbursementBalance {
+  outstanding: Record<string, number>; // Approved, not paid back yet
+  reimbursed: Record<string, number>;
+  payouts: MemberPayout[]; // Most recent first
+}
@@ -0,0 +1,43 @@
+// src/types/report.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ExpenseCategory } from './expense';
+import type { ExpenseApproval } from './approval';
+
+// draft -> submitted -> approved -> reimbursed. A rejected report can be changed and submitted again.
+export type ExpenseReportStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'reimbursed';
+
+// Company expenses bundled for approval, e.g. "Tokyo trip, March". The expenses of a submitted report are approved
+// or rejected with it instead of one by one.
+export interface ExpenseReport {
+  id?: string; // Firestore document ID
+  userId: string; // ID of the member who submits the report
+  companyId: string;
+  title: string;
+  purpose: string;
+  startDate: Timestamp;
+  endDate: Timestamp;
+  expenseIds: string[]; // The submitter's expenses in the report; each expense points back with its reportId
+  status: ExpenseReportStatus;
+  approval?: ExpenseApproval | null; // Set once the report is submitted
+  pendingApproverIds?: string[]; // Approvers of the step waiting for a decision; queried for approval queues
+  submittedAt?: Timestamp | null;
+  reimbursedAt?: Timestamp | null;
+  createdAt: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// What the submitter fills in for a draft report
+export interface ExpenseReportInput {
+  title: string;
+  purpose: string;
+  startDate: Date;
+  endDate: Date;
+  expenseIds: string[];
+}
+
+// Computed from the report's expenses when it is loaded, so edits to the expenses are reflected
+export interface ExpenseReportTotals {
+  expenseCount: number;
+  byCurrency: Record<string, number>; // Per base currency
+  byCategory: Record<ExpenseCategory, Record<string, number>>; // Per category and base currency, from the allocations
+}
@@ -0,0 +1,24 @@
+// src/types/revision.ts
+import type { Timestamp } from 'firebase/firestore';
+
+export type RevisionValue = string | number | boolean | null;
+
+// A field that changed in an edit. `field` is e.g. 'company', 'status', 'items[2].netPrice' or 'taxes[0].amount';
+// added or removed lines show null on the side where they did not exist.
+export interface RevisionFieldChange {
+  field: string;
+  before: RevisionValue;
+  after: RevisionValue;
+}
+
+// One change to a saved expense, kept in the `expenseRevisions` collection. Revisions are only ever added, never
+// changed or removed, and outlive the expense they describe.
+export interface ExpenseRevision {
+  id?: string; // Firestore document ID
+  expenseId: string;
+  revision: number; // 1 for the first change after the expense was created
+  editedBy: string; // ID of the user who made the change
+  editedByName: string | null; // Display name or email at the time of the change
+  editedAt: Timestamp;
+  changes: RevisionFieldChange[];
+}
@@ -1,8 +1,10 @@
 
 // src/types/user.ts
 import type { User as FirebaseUser } from 'firebase/auth';
+import type { ExpenseDimensionDefaults } from './dimension';
 
-export type UserRole = 'owner' | 'admin' | 'auditor' | 'user';
+export const userRoles = ['owner', 'admin', 'auditor', 'user'] as const;
+export type UserRole = typeof userRoles[number];
 
 export interface AppUser {
   uid: string;
@@ -33,4 +35,5 @@ export interface UserProfile {
   createdAt: Date | FirebaseFirestore.Timestamp;
   companyId?: string | null;
   role?: UserRole | null;
+  expenseDefaults?: ExpenseDimensionDefaults | null; // Remembered from the user's last saved expense
 }
@@ -0,0 +1,21 @@
+// src/types/vendor.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { ExpenseCategory } from './expense';
+
+// A merchant in the vendor directory, stored in the 'vendors' collection. Expenses refer to it by vendorId.
+export interface Vendor {
+  id: string; // Firestore document ID
+  userId: string; // UID of the user whose expense created the vendor
+  companyId: string | null; // Company vendors are shared by its members; personal ones only apply to the user's own expenses
+  name: string; // Canonical name, shown on expenses and used for grouping
+  aliases: string[]; // Other names seen on receipts, e.g. 'STARBUCKS #1234'
+  aliasKeys: string[]; // vendorKey of the name and each alias, for exact lookups
+  defaultCategory: ExpenseCategory | null; // Suggested for new receipts of this vendor
+  taxId: string | null; // VAT number, EIN or similar, if known
+  pendingReassignment?: { sourceIds: string[] } | null; // Set by a rename or merge until its expenses carry the name and the merged vendors (sourceIds) are deleted
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Editable fields of a vendor
+export type VendorUpdate = Pick<Vendor, 'name' | 'aliases' | 'defaultCategory' | 'taxId'>;